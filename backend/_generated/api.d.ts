@@ -13,10 +13,52 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as alertEscalation from "../alertEscalation.js";
+import type * as alerts from "../alerts.js";
+import type * as analytics from "../analytics.js";
+import type * as apiKeys from "../apiKeys.js";
+import type * as assistant_entities from "../assistant/entities.js";
+import type * as assistant_helpers from "../assistant/helpers.js";
+import type * as assistant_intents_alerts from "../assistant/intents/alerts.js";
+import type * as assistant_intents_delays from "../assistant/intents/delays.js";
+import type * as assistant_intents_inventory from "../assistant/intents/inventory.js";
+import type * as assistant_intents_overview from "../assistant/intents/overview.js";
+import type * as assistant_intents_reliability from "../assistant/intents/reliability.js";
+import type * as assistant_intents_reorder from "../assistant/intents/reorder.js";
+import type * as assistant_intents_shipments from "../assistant/intents/shipments.js";
+import type * as assistant_intents_stockout from "../assistant/intents/stockout.js";
+import type * as assistant_llm from "../assistant/llm.js";
+import type * as assistant_pipeline from "../assistant/pipeline.js";
+import type * as assistant_registry from "../assistant/registry.js";
+import type * as assistant_types from "../assistant/types.js";
+import type * as assistant_validators from "../assistant/validators.js";
+import type * as assistantActions from "../assistantActions.js";
 import type * as auth from "../auth.js";
+import type * as carrierEvents from "../carrierEvents.js";
+import type * as carrierTracking from "../carrierTracking.js";
+import type * as conversations from "../conversations.js";
+import type * as costing from "../costing.js";
+import type * as crons from "../crons.js";
+import type * as dashboardCounters from "../dashboardCounters.js";
+import type * as forecasting from "../forecasting.js";
 import type * as http from "../http.js";
+import type * as imports from "../imports.js";
+import type * as lists from "../lists.js";
 import type * as logistics from "../logistics.js";
+import type * as notificationDelivery from "../notificationDelivery.js";
+import type * as notifications from "../notifications.js";
+import type * as organizations from "../organizations.js";
+import type * as products from "../products.js";
+import type * as purchaseOrders from "../purchaseOrders.js";
+import type * as reorderPolicy from "../reorderPolicy.js";
+import type * as replenishment from "../replenishment.js";
+import type * as restApi from "../restApi.js";
 import type * as router from "../router.js";
+import type * as stock from "../stock.js";
+import type * as supplierCatalog from "../supplierCatalog.js";
+import type * as supplierScoring from "../supplierScoring.js";
+import type * as suppliers from "../suppliers.js";
+import type * as warehouses from "../warehouses.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -27,10 +69,52 @@ import type * as router from "../router.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  alertEscalation: typeof alertEscalation;
+  alerts: typeof alerts;
+  analytics: typeof analytics;
+  apiKeys: typeof apiKeys;
+  "assistant/entities": typeof assistant_entities;
+  "assistant/helpers": typeof assistant_helpers;
+  "assistant/intents/alerts": typeof assistant_intents_alerts;
+  "assistant/intents/delays": typeof assistant_intents_delays;
+  "assistant/intents/inventory": typeof assistant_intents_inventory;
+  "assistant/intents/overview": typeof assistant_intents_overview;
+  "assistant/intents/reliability": typeof assistant_intents_reliability;
+  "assistant/intents/reorder": typeof assistant_intents_reorder;
+  "assistant/intents/shipments": typeof assistant_intents_shipments;
+  "assistant/intents/stockout": typeof assistant_intents_stockout;
+  "assistant/llm": typeof assistant_llm;
+  "assistant/pipeline": typeof assistant_pipeline;
+  "assistant/registry": typeof assistant_registry;
+  "assistant/types": typeof assistant_types;
+  "assistant/validators": typeof assistant_validators;
+  assistantActions: typeof assistantActions;
   auth: typeof auth;
+  carrierEvents: typeof carrierEvents;
+  carrierTracking: typeof carrierTracking;
+  conversations: typeof conversations;
+  costing: typeof costing;
+  crons: typeof crons;
+  dashboardCounters: typeof dashboardCounters;
+  forecasting: typeof forecasting;
   http: typeof http;
+  imports: typeof imports;
+  lists: typeof lists;
   logistics: typeof logistics;
+  notificationDelivery: typeof notificationDelivery;
+  notifications: typeof notifications;
+  organizations: typeof organizations;
+  products: typeof products;
+  purchaseOrders: typeof purchaseOrders;
+  reorderPolicy: typeof reorderPolicy;
+  replenishment: typeof replenishment;
+  restApi: typeof restApi;
   router: typeof router;
+  stock: typeof stock;
+  supplierCatalog: typeof supplierCatalog;
+  supplierScoring: typeof supplierScoring;
+  suppliers: typeof suppliers;
+  warehouses: typeof warehouses;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
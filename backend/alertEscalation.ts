@@ -0,0 +1,245 @@
+import { query, mutation, internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { orgOf, requirePermission, scheduleForEachOrganization } from "./organizations";
+import { recordAlertEvent } from "./alerts";
+import { notifyAlert } from "./notifications";
+
+// Escalation policies put a time limit on open alerts: a policy applies to
+// alerts of one severity that are still unacknowledged (or unresolved) a
+// given time after being raised. When that time passes the alert is
+// overdue, and the policy either escalates it to the organization's admin
+// or promotes it to the next severity. The earliest time limit of the
+// policies that apply is the alert's SLA.
+
+const MINUTE_MS = 60 * 1000;
+
+const MAX_POLICIES = 20;
+const MIN_AFTER_MINUTES = 5;
+const MAX_AFTER_MINUTES = 30 * 24 * 60;
+
+const NEXT_SEVERITY: Record<Doc<"alerts">["severity"], Doc<"alerts">["severity"] | null> = {
+  low: "medium",
+  medium: "high",
+  high: null,
+};
+
+export type EscalationPolicy = Doc<"alertEscalationConfig">["policies"][number];
+
+export const DEFAULT_ESCALATION_POLICIES: EscalationPolicy[] = [
+  { id: "high-unacknowledged", severity: "high", condition: "unacknowledged", afterMinutes: 2 * 60, action: "escalate_to_admin" },
+  { id: "medium-unresolved", severity: "medium", condition: "unresolved", afterMinutes: 24 * 60, action: "promote_severity" },
+];
+
+const policyValidator = v.object({
+  id: v.optional(v.string()), // unset for new policies
+  severity: v.union(v.literal("low"), v.literal("medium"), v.literal("high")),
+  condition: v.union(v.literal("unacknowledged"), v.literal("unresolved")),
+  afterMinutes: v.number(),
+  action: v.union(v.literal("escalate_to_admin"), v.literal("promote_severity")),
+});
+
+export async function getEscalationPolicies(ctx: QueryCtx, orgId: Id<"organizations">): Promise<EscalationPolicy[]> {
+  const config = await ctx.db.query("alertEscalationConfig")
+    .withIndex("by_org", q => q.eq("orgId", orgId))
+    .first();
+  return config ? config.policies : DEFAULT_ESCALATION_POLICIES;
+}
+
+// Whether the policy applies to the alert as it is now, whatever the time
+export function policyApplies(
+  policy: EscalationPolicy,
+  alert: Pick<Doc<"alerts">, "severity" | "isResolved" | "acknowledgedAt">,
+) {
+  if (alert.isResolved || policy.severity !== alert.severity) return false;
+  return policy.condition === "unresolved" || alert.acknowledgedAt === undefined;
+}
+
+// When the alert breaches its SLA, or null when no policy applies to it
+export function slaDueAt(
+  alert: Pick<Doc<"alerts">, "severity" | "isResolved" | "acknowledgedAt" | "createdAt">,
+  policies: EscalationPolicy[],
+) {
+  const dueTimes = policies
+    .filter(policy => policyApplies(policy, alert))
+    .map(policy => alert.createdAt + policy.afterMinutes * MINUTE_MS);
+  return dueTimes.length > 0 ? Math.min(...dueTimes) : null;
+}
+
+export function isOverdue(
+  alert: Pick<Doc<"alerts">, "severity" | "isResolved" | "acknowledgedAt" | "createdAt">,
+  policies: EscalationPolicy[],
+  now: number,
+) {
+  const dueAt = slaDueAt(alert, policies);
+  return dueAt !== null && dueAt <= now;
+}
+
+// Reads only the open alerts older than each policy's time limit, so the
+// count costs as much as there are overdue alerts, not the alert history
+export async function countOverdueAlerts(
+  ctx: QueryCtx,
+  orgId: Id<"organizations">,
+  policies: EscalationPolicy[],
+  now: number,
+) {
+  return (await overdueAlerts(ctx, orgId, policies, now)).length;
+}
+
+// Runs every policy the alert has breached and not yet been escalated by.
+// A promotion can make further policies apply, which run straight away.
+// Snoozed alerts wait until they wake up; their SLA keeps running.
+export async function escalateAlert(ctx: MutationCtx, alert: Doc<"alerts">, policies: EscalationPolicy[], now: number) {
+  if (alert.snoozedUntil !== undefined && alert.snoozedUntil > now) return 0;
+
+  const sorted = [...policies].sort((a, b) => a.afterMinutes - b.afterMinutes);
+  let current = alert;
+  let fired = 0;
+  for (;;) {
+    const policy = sorted.find(policy =>
+      policyApplies(policy, current) &&
+      current.createdAt + policy.afterMinutes * MINUTE_MS <= now &&
+      !current.escalations?.some(step => step.policyId === policy.id) &&
+      (policy.action !== "promote_severity" || NEXT_SEVERITY[current.severity] !== null));
+    if (!policy) break;
+
+    if (policy.action === "promote_severity") {
+      const severity = NEXT_SEVERITY[current.severity] ?? current.severity;
+      const escalations = [...(current.escalations ?? []), { policyId: policy.id, action: policy.action, severity, at: now }];
+      await ctx.db.patch(current._id, { severity, escalations, updatedAt: now });
+      current = { ...current, severity, escalations, updatedAt: now };
+      await recordAlertEvent(ctx, current, { kind: "escalated", severity, note: describePolicy(policy) }, now);
+      await notifyAlert(ctx, current, "escalated");
+    } else {
+      const admins = await orgAdmins(ctx, orgOf(current));
+      // Left with its assignee when that is already an admin
+      const assignedTo = current.assignedTo && admins.includes(current.assignedTo) ? current.assignedTo : admins[0];
+      const escalations = [...(current.escalations ?? []), { policyId: policy.id, action: policy.action, assignedTo, at: now }];
+      await ctx.db.patch(current._id, { assignedTo, escalations, updatedAt: now });
+      current = { ...current, assignedTo, escalations, updatedAt: now };
+      await recordAlertEvent(ctx, current, { kind: "escalated", assignedTo, note: describePolicy(policy) }, now);
+      await notifyAlert(ctx, current, "escalated", admins);
+    }
+    fired++;
+  }
+  return fired;
+}
+
+// Scheduled from crons.ts. Each organization is escalated in its own
+// mutation, which reads only its overdue alerts.
+export const evaluateEscalations = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args): Promise<number> => {
+    return await scheduleForEachOrganization(
+      ctx,
+      args.cursor,
+      internal.alertEscalation.escalateOrganizationAlerts,
+      internal.alertEscalation.evaluateEscalations,
+    );
+  },
+});
+
+export const escalateOrganizationAlerts = internalMutation({
+  args: { orgId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const policies = await getEscalationPolicies(ctx, args.orgId);
+    let fired = 0;
+    for (const alert of await overdueAlerts(ctx, args.orgId, policies, now)) {
+      fired += await escalateAlert(ctx, alert, policies, now);
+    }
+    return fired;
+  },
+});
+
+export const getEscalationSettings = query({
+  args: {},
+  handler: async (ctx) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const config = await ctx.db.query("alertEscalationConfig")
+      .withIndex("by_org", q => q.eq("orgId", orgId))
+      .first();
+    return {
+      policies: config ? config.policies : DEFAULT_ESCALATION_POLICIES,
+      isDefault: !config,
+    };
+  },
+});
+
+// Replaces the organization's policies. Policies keep their id when edited,
+// so alerts they already escalated aren't escalated again.
+export const updateEscalationPolicies = mutation({
+  args: { policies: v.array(policyValidator) },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "admin");
+
+    if (args.policies.length > MAX_POLICIES) throw new Error(`At most ${MAX_POLICIES} escalation policies`);
+    const current = await getEscalationPolicies(ctx, orgId);
+    const policies = args.policies.map((policy) => {
+      if (!Number.isInteger(policy.afterMinutes) || policy.afterMinutes < MIN_AFTER_MINUTES || policy.afterMinutes > MAX_AFTER_MINUTES) {
+        throw new Error(`Escalate after between ${MIN_AFTER_MINUTES} minutes and ${MAX_AFTER_MINUTES / (24 * 60)} days`);
+      }
+      if (policy.action === "promote_severity" && policy.severity === "high") {
+        throw new Error("High alerts can't be promoted; escalate them to the admin instead");
+      }
+      const id = policy.id && current.some(p => p.id === policy.id) ? policy.id : generatePolicyId();
+      return { ...policy, id };
+    });
+
+    const existing = await ctx.db.query("alertEscalationConfig")
+      .withIndex("by_org", q => q.eq("orgId", orgId))
+      .first();
+    const config = { orgId, policies, updatedAt: Date.now(), updatedBy: userId };
+    if (existing) {
+      await ctx.db.patch(existing._id, config);
+    } else {
+      await ctx.db.insert("alertEscalationConfig", config);
+    }
+  },
+});
+
+// Helper functions
+
+// Open alerts past the time limit of a policy that applies to them
+async function overdueAlerts(
+  ctx: QueryCtx,
+  orgId: Id<"organizations">,
+  policies: EscalationPolicy[],
+  now: number,
+) {
+  const overdue = new Map<Id<"alerts">, Doc<"alerts">>();
+  for (const policy of policies) {
+    const alerts = await ctx.db.query("alerts")
+      .withIndex("by_severity", q => q.eq("orgId", orgId).eq("severity", policy.severity).eq("isResolved", false)
+        .lte("createdAt", now - policy.afterMinutes * MINUTE_MS))
+      .collect();
+    for (const alert of alerts) {
+      if (policyApplies(policy, alert)) overdue.set(alert._id, alert);
+    }
+  }
+  return [...overdue.values()];
+}
+
+// The organization's admins, its creator first
+async function orgAdmins(ctx: QueryCtx, orgId: Id<"organizations">) {
+  const [organization, memberships] = await Promise.all([
+    ctx.db.get(orgId),
+    ctx.db.query("memberships").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+  ]);
+  return memberships
+    .filter(m => m.role === "admin")
+    .sort((a, b) => Number(b.userId === organization?.createdBy) - Number(a.userId === organization?.createdBy) || a.createdAt - b.createdAt)
+    .map(m => m.userId);
+}
+
+function describePolicy(policy: EscalationPolicy) {
+  const hours = policy.afterMinutes / 60;
+  const after = Number.isInteger(hours) ? `${hours} hour${hours === 1 ? "" : "s"}` : `${policy.afterMinutes} minutes`;
+  return `${policy.condition === "unacknowledged" ? "Unacknowledged" : "Unresolved"} for ${after}`;
+}
+
+function generatePolicyId() {
+  return Array.from(crypto.getRandomValues(new Uint8Array(8)), b => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,649 @@
+import { query, mutation, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { inOrg, orgOf, requirePermission, roleCan, scheduleForEachOrganization } from "./organizations";
+import { isEscalation, notifyAlert } from "./notifications";
+import { getEscalationPolicies, slaDueAt } from "./alertEscalation";
+import { countAlertChange } from "./dashboardCounters";
+import { docLoader, isLocated } from "./lists";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OPEN_SHIPMENT_STATUSES: Doc<"shipments">["status"][] = ["ordered", "in_transit", "delayed"];
+
+const MAX_SNOOZE_DAYS = 90;
+const MAX_NOTE_LENGTH = 2000;
+
+const severityValidator = v.union(v.literal("low"), v.literal("medium"), v.literal("high"));
+
+const typeValidator = v.union(
+  v.literal("low_stock"),
+  v.literal("supplier_delay"),
+  v.literal("quality_issue"),
+  v.literal("reorder_needed")
+);
+
+type AlertEvent = Omit<Doc<"alertEvents">, "_id" | "_creationTime" | "orgId" | "alertId" | "createdAt">;
+
+type AlertCandidate = {
+  orgId: Id<"organizations">;
+  dedupeKey: string;
+  type: Doc<"alerts">["type"];
+  title: string;
+  description: string;
+  severity: Doc<"alerts">["severity"];
+  productId?: Id<"products">;
+  supplierId?: Id<"suppliers">;
+  shipmentId?: Id<"shipments">;
+  warehouseId?: Id<"warehouses">;
+};
+
+// Rule: stock summed over all warehouses at or below the product's reorder
+// point. If inbound shipments and transfers bring the product back above
+// the reorder point it is only "low stock", otherwise someone needs to
+// place an order.
+export function evaluateStockRule(
+  product: Doc<"products">,
+  inventory: Doc<"inventory">[],
+  inbound: number,
+): AlertCandidate | null {
+  const available = inventory.reduce((sum, item) => sum + item.availableStock, 0);
+  if (available > product.reorderPoint) return null;
+
+  const covered = available + inbound > product.reorderPoint;
+  const severity = stockSeverity(available, product.reorderPoint);
+
+  if (covered) {
+    return {
+      orgId: orgOf(product),
+      dedupeKey: `low_stock:${product._id}`,
+      type: "low_stock",
+      title: "Low Stock Alert",
+      description: `${product.name} has ${available} units available (reorder point ${product.reorderPoint}); ${inbound} units are inbound`,
+      severity,
+      productId: product._id,
+      supplierId: product.supplierId,
+    };
+  }
+
+  return {
+    orgId: orgOf(product),
+    dedupeKey: `reorder_needed:${product._id}`,
+    type: "reorder_needed",
+    title: "Reorder Needed",
+    description: inbound > 0
+      ? `${product.name} has ${available} units available and ${inbound} inbound, still below reorder point ${product.reorderPoint}`
+      : `${product.name} has ${available} units available (reorder point ${product.reorderPoint}) and no open orders`,
+    severity,
+    productId: product._id,
+    supplierId: product.supplierId,
+  };
+}
+
+// Rule: a warehouse with its own reorder point is judged on its own stock
+export function evaluateWarehouseStockRule(
+  product: Doc<"products">,
+  item: Doc<"inventory">,
+  warehouse: Doc<"warehouses"> | null,
+): AlertCandidate | null {
+  if (item.reorderPoint === undefined || item.availableStock > item.reorderPoint) return null;
+
+  return {
+    orgId: orgOf(product),
+    dedupeKey: `low_stock:${product._id}:${item.warehouseId}`,
+    type: "low_stock",
+    title: "Low Stock Alert",
+    description: `${product.name} has ${item.availableStock} units available in ${warehouse?.name || "Unknown warehouse"} (warehouse reorder point ${item.reorderPoint})`,
+    severity: stockSeverity(item.availableStock, item.reorderPoint),
+    productId: product._id,
+    supplierId: product.supplierId,
+    warehouseId: item.warehouseId,
+  };
+}
+
+// Rule: shipment flagged as delayed or past its expected delivery date
+export function evaluateShipmentRule(
+  shipment: Doc<"shipments">,
+  supplier: Doc<"suppliers"> | null,
+  product: Doc<"products"> | null,
+  now: number,
+): AlertCandidate | null {
+  if (!OPEN_SHIPMENT_STATUSES.includes(shipment.status)) return null;
+
+  const overdue = shipment.expectedDeliveryDate < now;
+  if (shipment.status !== "delayed" && !overdue) return null;
+
+  const daysLate = overdue ? Math.floor((now - shipment.expectedDeliveryDate) / DAY_MS) : 0;
+  const supplierName = supplier?.name || "Unknown supplier";
+  const productName = product?.name || "Unknown product";
+
+  let description = `${supplierName} shipment of ${shipment.quantity} × ${productName}`;
+  description += daysLate > 0 ? ` is ${daysLate} day${daysLate === 1 ? "" : "s"} late` : " is delayed";
+  if (shipment.delayReason) description += ` (${shipment.delayReason})`;
+
+  return {
+    orgId: orgOf(shipment),
+    dedupeKey: `supplier_delay:${shipment._id}`,
+    type: "supplier_delay",
+    title: "Supplier Delay",
+    description,
+    severity: daysLate >= 7 ? "high" : daysLate >= 2 ? "medium" : "low",
+    productId: shipment.productId,
+    supplierId: shipment.supplierId,
+    shipmentId: shipment._id,
+    warehouseId: shipment.warehouseId,
+  };
+}
+
+function stockSeverity(available: number, reorderPoint: number): Doc<"alerts">["severity"] {
+  if (available <= 0 || available <= reorderPoint / 2) return "high";
+  return "medium";
+}
+
+// Re-evaluate the stock rules for one product. Call from any mutation that
+// changes inventory or the product's open shipments.
+export async function syncProductAlerts(ctx: MutationCtx, productId: Id<"products">) {
+  const now = Date.now();
+  const product = await ctx.db.get(productId);
+  const candidates = product ? await stockCandidates(ctx, product) : [];
+  const activeKeys = new Set(candidates.map(c => c.dedupeKey));
+
+  for (const candidate of candidates) {
+    await upsertAlert(ctx, candidate, now);
+  }
+
+  const open = await ctx.db.query("alerts")
+    .withIndex("by_product", q => q.eq("productId", productId).eq("isResolved", false))
+    .collect();
+  for (const alert of open) {
+    const isStockAlert = alert.type === "low_stock" || alert.type === "reorder_needed";
+    if (isStockAlert && alert.dedupeKey && !activeKeys.has(alert.dedupeKey)) {
+      await closeAlert(ctx, alert, now);
+    }
+  }
+}
+
+// Re-evaluate the delay rule for one shipment. Call from any mutation that
+// changes a shipment's status or dates.
+export async function syncShipmentAlerts(ctx: MutationCtx, shipmentId: Id<"shipments">) {
+  const now = Date.now();
+  const key = `supplier_delay:${shipmentId}`;
+  const shipment = await ctx.db.get(shipmentId);
+  const candidate = shipment ? await shipmentCandidate(ctx, shipment, now) : null;
+
+  if (candidate) {
+    await upsertAlert(ctx, candidate, now);
+  } else {
+    await resolveAlertByKey(ctx, key, now);
+  }
+}
+
+// Raised when a carrier reports a shipment delivered that can't be received
+// into stock. The shipment stays open, so someone can receive it by hand and
+// resolve the alert; the rule engine leaves it alone.
+export async function raiseReceivingAlert(ctx: MutationCtx, shipment: Doc<"shipments">, reason: string) {
+  const orgId = orgOf(shipment);
+  const open = await ctx.db.query("alerts")
+    .withIndex("by_type", q => q.eq("orgId", orgId).eq("type", "quality_issue").eq("isResolved", false))
+    .collect();
+  if (open.some(alert => alert.shipmentId === shipment._id && !alert.createdBy)) return;
+
+  const now = Date.now();
+  const [supplier, product] = await Promise.all([
+    ctx.db.get(shipment.supplierId),
+    ctx.db.get(shipment.productId),
+  ]);
+  const alertId = await ctx.db.insert("alerts", {
+    orgId,
+    type: "quality_issue",
+    title: "Delivery Not Received",
+    description: `${supplier?.name || "Unknown supplier"} shipment of ${shipment.quantity} × ` +
+      `${product?.name || "Unknown product"} was delivered but not received into stock: ${reason}`,
+    severity: "high",
+    productId: shipment.productId,
+    supplierId: shipment.supplierId,
+    shipmentId: shipment._id,
+    isResolved: false,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await countAlertChange(ctx, null, { orgId, isResolved: false });
+  await recordAlertEvent(ctx, { _id: alertId, orgId }, { kind: "raised", severity: "high" }, now);
+  const alert = await ctx.db.get(alertId);
+  if (alert) await notifyAlert(ctx, alert, "raised");
+}
+
+// Evaluate every rule against one organization's data, then resolve engine
+// alerts whose condition no longer holds (including ones for deleted
+// records)
+export async function evaluateAllAlertRules(ctx: MutationCtx, orgId: Id<"organizations">) {
+  const now = Date.now();
+  const activeKeys = new Set<string>();
+
+  const products = await ctx.db.query("products").withIndex("by_org", q => q.eq("orgId", orgId)).collect();
+  for (const product of products) {
+    for (const candidate of await stockCandidates(ctx, product)) {
+      activeKeys.add(candidate.dedupeKey);
+      await upsertAlert(ctx, candidate, now);
+    }
+  }
+
+  const openShipments = (await Promise.all(OPEN_SHIPMENT_STATUSES.map(status =>
+    ctx.db.query("shipments").withIndex("by_org_and_status", q => q.eq("orgId", orgId).eq("status", status)).collect()
+  ))).flat();
+  for (const shipment of openShipments) {
+    const candidate = await shipmentCandidate(ctx, shipment, now);
+    if (candidate) {
+      activeKeys.add(candidate.dedupeKey);
+      await upsertAlert(ctx, candidate, now);
+    }
+  }
+
+  const unresolved = await ctx.db.query("alerts")
+    .withIndex("by_org", q => q.eq("orgId", orgId).eq("isResolved", false))
+    .collect();
+  let resolved = 0;
+  for (const alert of unresolved) {
+    if (alert.dedupeKey && !activeKeys.has(alert.dedupeKey)) {
+      await closeAlert(ctx, alert, now);
+      resolved++;
+    }
+  }
+
+  return { active: activeKeys.size, resolved };
+}
+
+async function stockCandidates(ctx: MutationCtx, product: Doc<"products">) {
+  const [inventory, shipments, transfers] = await Promise.all([
+    ctx.db.query("inventory").withIndex("by_product", q => q.eq("productId", product._id)).collect(),
+    Promise.all(OPEN_SHIPMENT_STATUSES.map(status =>
+      ctx.db.query("shipments").withIndex("by_product_and_status", q => q.eq("productId", product._id).eq("status", status)).collect()
+    )),
+    ctx.db.query("stockTransfers")
+      .withIndex("by_product", q => q.eq("productId", product._id).eq("status", "in_transit"))
+      .collect(),
+  ]);
+  const inbound =
+    shipments.flat().reduce((sum, s) => sum + s.quantity, 0) +
+    transfers.reduce((sum, t) => sum + t.quantity, 0);
+
+  const candidates: AlertCandidate[] = [];
+  const productCandidate = evaluateStockRule(product, inventory, inbound);
+  if (productCandidate) candidates.push(productCandidate);
+  for (const item of inventory.filter(isLocated)) {
+    const warehouseCandidate = evaluateWarehouseStockRule(product, item, await ctx.db.get(item.warehouseId));
+    if (warehouseCandidate) candidates.push(warehouseCandidate);
+  }
+  return candidates;
+}
+
+async function shipmentCandidate(ctx: MutationCtx, shipment: Doc<"shipments">, now: number) {
+  const [supplier, product] = await Promise.all([
+    ctx.db.get(shipment.supplierId),
+    ctx.db.get(shipment.productId),
+  ]);
+  return evaluateShipmentRule(shipment, supplier, product, now);
+}
+
+async function upsertAlert(ctx: MutationCtx, candidate: AlertCandidate, now: number) {
+  const existing = await ctx.db.query("alerts")
+    .withIndex("by_dedupe_key", q => q.eq("dedupeKey", candidate.dedupeKey).eq("isResolved", false))
+    .first();
+
+  if (!existing) {
+    const alertId = await ctx.db.insert("alerts", {
+      ...candidate,
+      isResolved: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await countAlertChange(ctx, null, { orgId: candidate.orgId, isResolved: false });
+    await recordAlertEvent(ctx, { _id: alertId, orgId: candidate.orgId }, { kind: "raised", severity: candidate.severity }, now);
+    const alert = await ctx.db.get(alertId);
+    if (alert) await notifyAlert(ctx, alert, "raised");
+    return alertId;
+  }
+
+  // An alert promoted by an escalation policy isn't demoted by the rules
+  const wasPromoted = existing.escalations?.some(step => step.action === "promote_severity");
+  const severity = wasPromoted && isEscalation(candidate.severity, existing.severity) ? existing.severity : candidate.severity;
+  if (existing.severity !== severity || existing.description !== candidate.description) {
+    await ctx.db.patch(existing._id, {
+      severity,
+      description: candidate.description,
+      updatedAt: now,
+    });
+  }
+  if (existing.severity !== severity) {
+    await recordAlertEvent(ctx, existing, { kind: "severity_changed", severity }, now);
+    if (isEscalation(existing.severity, severity)) {
+      await notifyAlert(ctx, { ...existing, severity, description: candidate.description }, "escalated");
+    }
+  }
+  return existing._id;
+}
+
+async function resolveAlertByKey(ctx: MutationCtx, dedupeKey: string, now: number) {
+  const existing = await ctx.db.query("alerts")
+    .withIndex("by_dedupe_key", q => q.eq("dedupeKey", dedupeKey).eq("isResolved", false))
+    .collect();
+  for (const alert of existing) {
+    await closeAlert(ctx, alert, now);
+  }
+}
+
+// Resolves the alert and records who did it; without a user, the rule engine
+// found its condition no longer holds
+async function closeAlert(
+  ctx: MutationCtx,
+  alert: Doc<"alerts">,
+  now: number,
+  resolution: { userId?: Id<"users">; note?: string } = {},
+) {
+  await ctx.db.patch(alert._id, {
+    isResolved: true,
+    resolvedAt: now,
+    resolvedBy: resolution.userId,
+    resolutionNote: resolution.note,
+    snoozedUntil: undefined,
+    updatedAt: now,
+  });
+  await countAlertChange(ctx, alert, { ...alert, isResolved: true });
+  await recordAlertEvent(ctx, alert, { kind: "resolved", ...resolution }, now);
+}
+
+export async function recordAlertEvent(
+  ctx: MutationCtx,
+  alert: Pick<Doc<"alerts">, "_id" | "orgId">,
+  event: AlertEvent,
+  now: number,
+) {
+  await ctx.db.insert("alertEvents", { orgId: orgOf(alert), alertId: alert._id, ...event, createdAt: now });
+}
+
+// Scheduled from crons.ts so time-based conditions (overdue shipments)
+// are picked up even when nothing is being written. Each organization is
+// evaluated in its own mutation.
+export const evaluateAlerts = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args): Promise<number> => {
+    return await scheduleForEachOrganization(
+      ctx,
+      args.cursor,
+      internal.alerts.evaluateOrganizationAlerts,
+      internal.alerts.evaluateAlerts,
+    );
+  },
+});
+
+export const evaluateOrganizationAlerts = internalMutation({
+  args: { orgId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    return await evaluateAllAlertRules(ctx, args.orgId);
+  },
+});
+
+
+// The alerts page. Type and severity filters use their own indexes; the
+// other filters are applied while scanning.
+export const getAlertList = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    status: v.union(v.literal("active"), v.literal("snoozed"), v.literal("resolved"), v.literal("all")),
+    type: v.optional(typeValidator),
+    severity: v.optional(severityValidator),
+    assignedToMe: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "read");
+
+    const now = Date.now();
+    const policies = await getEscalationPolicies(ctx, orgId);
+    const isResolved = args.status === "all" ? undefined : args.status === "resolved";
+    const { type, severity } = args;
+    const indexed = type
+      ? ctx.db.query("alerts").withIndex("by_type", q => {
+        const byType = q.eq("orgId", orgId).eq("type", type);
+        return isResolved === undefined ? byType : byType.eq("isResolved", isResolved);
+      })
+      : severity
+        ? ctx.db.query("alerts").withIndex("by_severity", q => {
+          const bySeverity = q.eq("orgId", orgId).eq("severity", severity);
+          return isResolved === undefined ? bySeverity : bySeverity.eq("isResolved", isResolved);
+        })
+        : ctx.db.query("alerts").withIndex("by_org", q =>
+          isResolved === undefined ? q.eq("orgId", orgId) : q.eq("orgId", orgId).eq("isResolved", isResolved));
+
+    const result = await indexed
+      .order("desc")
+      .filter(q => q.and(
+        type && severity ? q.eq(q.field("severity"), severity) : true,
+        args.assignedToMe ? q.eq(q.field("assignedTo"), userId) : true,
+        args.status === "active" ? q.or(q.eq(q.field("snoozedUntil"), undefined), q.lte(q.field("snoozedUntil"), now)) : true,
+        args.status === "snoozed" ? q.gt(q.field("snoozedUntil"), now) : true,
+      ))
+      .paginate(args.paginationOpts);
+
+    const getDoc = docLoader(ctx);
+    return {
+      ...result,
+      page: await Promise.all(result.page.map(async (alert) => {
+        const [product, supplier] = await Promise.all([
+          alert.productId ? getDoc(alert.productId) : null,
+          alert.supplierId ? getDoc(alert.supplierId) : null,
+        ]);
+        return {
+          ...alert,
+          isSnoozed: !alert.isResolved && alert.snoozedUntil !== undefined && alert.snoozedUntil > now,
+          slaDueAt: slaDueAt(alert, policies),
+          productName: product?.name ?? null,
+          supplierName: supplier?.name ?? null,
+          assigneeName: alert.assignedTo ? await userName(ctx, alert.assignedTo) : null,
+          acknowledgedByName: alert.acknowledgedBy ? await userName(ctx, alert.acknowledgedBy) : null,
+          resolvedByName: alert.resolvedBy ? await userName(ctx, alert.resolvedBy) : null,
+        };
+      })),
+    };
+  },
+});
+
+export const getAlertHistory = query({
+  args: { alertId: v.id("alerts") },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    if (!inOrg(await ctx.db.get(args.alertId), orgId)) throw new Error("Alert not found");
+    const events = await ctx.db.query("alertEvents")
+      .withIndex("by_alert", q => q.eq("alertId", args.alertId))
+      .collect();
+
+    return await Promise.all(events.map(async (event) => ({
+      ...event,
+      userName: event.userId ? await userName(ctx, event.userId) : null,
+      assigneeName: event.assignedTo ? await userName(ctx, event.assignedTo) : null,
+    })));
+  },
+});
+
+// Raises a quality issue by hand, e.g. for a damaged delivery. The rule
+// engine never resolves these; someone has to.
+export const raiseQualityIssue = mutation({
+  args: {
+    description: v.string(),
+    severity: severityValidator,
+    productId: v.optional(v.id("products")),
+    supplierId: v.optional(v.id("suppliers")),
+    shipmentId: v.optional(v.id("shipments")),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_alerts");
+
+    const description = cleanNote(args.description);
+    if (!description) throw new Error("Describe the quality issue");
+    const shipment = args.shipmentId ? inOrg(await ctx.db.get(args.shipmentId), orgId) : null;
+    if (args.shipmentId && !shipment) throw new Error("Shipment not found");
+    // A shipment implies its product and supplier
+    const productId = args.productId ?? shipment?.productId;
+    const supplierId = args.supplierId ?? shipment?.supplierId;
+    if (productId && !inOrg(await ctx.db.get(productId), orgId)) throw new Error("Product not found");
+    if (supplierId && !inOrg(await ctx.db.get(supplierId), orgId)) throw new Error("Supplier not found");
+    if (!productId && !supplierId) throw new Error("Choose the product, supplier or shipment the issue is about");
+
+    const now = Date.now();
+    const alertId = await ctx.db.insert("alerts", {
+      orgId,
+      type: "quality_issue",
+      title: "Quality Issue",
+      description,
+      severity: args.severity,
+      productId,
+      supplierId,
+      shipmentId: shipment?._id,
+      isResolved: false,
+      createdAt: now,
+      createdBy: userId,
+      updatedAt: now,
+    });
+    await countAlertChange(ctx, null, { orgId, isResolved: false });
+    await recordAlertEvent(ctx, { _id: alertId, orgId }, { kind: "raised", userId, severity: args.severity }, now);
+    const alert = await ctx.db.get(alertId);
+    if (alert) await notifyAlert(ctx, alert, "raised");
+    return alertId;
+  },
+});
+
+export const acknowledgeAlert = mutation({
+  args: { alertId: v.id("alerts") },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_alerts");
+
+    const alert = await requireOpenAlert(ctx, orgId, args.alertId);
+    if (alert.acknowledgedAt) throw new Error("Alert is already acknowledged");
+
+    const now = Date.now();
+    await ctx.db.patch(alert._id, { acknowledgedAt: now, acknowledgedBy: userId, updatedAt: now });
+    await recordAlertEvent(ctx, alert, { kind: "acknowledged", userId }, now);
+  },
+});
+
+// Assigns the alert to a member who can work on alerts; null unassigns it
+export const assignAlert = mutation({
+  args: {
+    alertId: v.id("alerts"),
+    assignedTo: v.union(v.id("users"), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_alerts");
+
+    const alert = await requireOpenAlert(ctx, orgId, args.alertId);
+    if (args.assignedTo) {
+      const assignee = args.assignedTo;
+      const membership = await ctx.db.query("memberships")
+        .withIndex("by_org_and_user", q => q.eq("orgId", orgId).eq("userId", assignee))
+        .unique();
+      if (!membership) throw new Error("Alerts can only be assigned to members of the organization");
+      if (!roleCan(membership.role, "manage_alerts")) {
+        throw new Error(`The ${membership.role} role can't work on alerts`);
+      }
+    }
+    const assignedTo = args.assignedTo ?? undefined;
+    if (alert.assignedTo === assignedTo) return;
+
+    const now = Date.now();
+    await ctx.db.patch(alert._id, { assignedTo, updatedAt: now });
+    await recordAlertEvent(ctx, alert, { kind: "assigned", userId, assignedTo }, now);
+  },
+});
+
+export const commentOnAlert = mutation({
+  args: {
+    alertId: v.id("alerts"),
+    note: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_alerts");
+
+    const alert = inOrg(await ctx.db.get(args.alertId), orgId);
+    if (!alert) throw new Error("Alert not found");
+    const note = cleanNote(args.note);
+    if (!note) throw new Error("Write a comment");
+
+    const now = Date.now();
+    await ctx.db.patch(alert._id, { updatedAt: now });
+    await recordAlertEvent(ctx, alert, { kind: "commented", userId, note }, now);
+  },
+});
+
+// Hides the alert from the active list until the given time; null wakes it
+// up again
+export const snoozeAlert = mutation({
+  args: {
+    alertId: v.id("alerts"),
+    until: v.union(v.number(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_alerts");
+
+    const alert = await requireOpenAlert(ctx, orgId, args.alertId);
+    const now = Date.now();
+    if (args.until !== null && (args.until <= now || args.until > now + MAX_SNOOZE_DAYS * DAY_MS)) {
+      throw new Error(`Snooze until a time within the next ${MAX_SNOOZE_DAYS} days`);
+    }
+
+    const snoozedUntil = args.until ?? undefined;
+    await ctx.db.patch(alert._id, { snoozedUntil, updatedAt: now });
+    await recordAlertEvent(ctx, alert, { kind: "snoozed", userId, snoozedUntil }, now);
+  },
+});
+
+// Manual resolution. An engine alert whose condition still holds is raised
+// again on the next evaluation.
+export const resolveAlert = mutation({
+  args: {
+    alertId: v.id("alerts"),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_alerts");
+
+    return await markAlertResolved(ctx, orgId, userId, args.alertId, args.note);
+  },
+});
+
+export async function markAlertResolved(
+  ctx: MutationCtx,
+  orgId: Id<"organizations">,
+  userId: Id<"users">,
+  alertId: Id<"alerts">,
+  note?: string,
+) {
+  const alert = inOrg(await ctx.db.get(alertId), orgId);
+  if (!alert) throw new Error("Alert not found");
+  if (alert.isResolved) throw new Error("Alert is already resolved");
+
+  await closeAlert(ctx, alert, Date.now(), { userId, note: cleanNote(note) });
+  return alert;
+}
+
+// Helper functions
+
+async function requireOpenAlert(ctx: MutationCtx, orgId: Id<"organizations">, alertId: Id<"alerts">) {
+  const alert = inOrg(await ctx.db.get(alertId), orgId);
+  if (!alert) throw new Error("Alert not found");
+  if (alert.isResolved) throw new Error("Alert is already resolved");
+  return alert;
+}
+
+// Trimmed, with empty notes dropped
+function cleanNote(text: string | undefined) {
+  const note = text?.trim();
+  if (note && note.length > MAX_NOTE_LENGTH) throw new Error(`Notes are limited to ${MAX_NOTE_LENGTH} characters`);
+  return note || undefined;
+}
+
+async function userName(ctx: QueryCtx, userId: Id<"users">) {
+  const user = await ctx.db.get(userId);
+  return user?.name || user?.email || "Unknown";
+}
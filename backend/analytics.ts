@@ -0,0 +1,219 @@
+import { query, mutation, internalMutation, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getDashboardCounts } from "./dashboardCounters";
+import { docLoader } from "./lists";
+import { requirePermission } from "./organizations";
+
+// KPI history for the analytics page. Trends come from the daily snapshots;
+// shipment breakdowns are counted from the shipments expected in the chosen
+// range.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The days before a snapshot its delivery rates and demand cover
+const KPI_WINDOW_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+const SHIPMENT_STATUSES: Doc<"shipments">["status"][] = ["ordered", "in_transit", "delayed", "delivered", "cancelled"];
+
+// Scheduled from crons.ts. Each organization is captured in its own
+// mutation so a large one can't push the others past Convex's limits.
+export const captureKpiSnapshots = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const organizations = await ctx.db.query("organizations").collect();
+    for (const organization of organizations) {
+      await ctx.scheduler.runAfter(0, internal.analytics.captureOrganizationKpis, { orgId: organization._id });
+    }
+    return organizations.length;
+  },
+});
+
+export const captureOrganizationKpis = internalMutation({
+  args: { orgId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    return await captureKpiSnapshot(ctx, args.orgId, Date.now());
+  },
+});
+
+// Records today's figures straight away, replacing today's snapshot if the
+// nightly job already took one
+export const captureKpisNow = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const { orgId } = await requirePermission(ctx, "admin");
+
+    return await captureKpiSnapshot(ctx, orgId, Date.now());
+  },
+});
+
+// Snapshots taken in the range, oldest first
+export const getKpiTrends = query({
+  args: { from: v.number(), to: v.number() },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    requireRange(args.from, args.to);
+    return await ctx.db.query("kpiSnapshots")
+      .withIndex("by_org_and_date", q => q.eq("orgId", orgId).gte("date", startOfUtcDay(args.from)).lte("date", args.to))
+      .collect();
+  },
+});
+
+// Shipments expected in the range by status, and each supplier's share
+// and delivery performance
+export const getShipmentBreakdown = query({
+  args: { from: v.number(), to: v.number() },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    requireRange(args.from, args.to);
+    const shipments = await ctx.db.query("shipments")
+      .withIndex("by_org_and_expected_delivery", q =>
+        q.eq("orgId", orgId).gte("expectedDeliveryDate", args.from).lte("expectedDeliveryDate", args.to))
+      .collect();
+    const now = Date.now();
+
+    const bySupplier = new Map<Id<"suppliers">, Doc<"shipments">[]>();
+    for (const shipment of shipments) {
+      bySupplier.set(shipment.supplierId, [...(bySupplier.get(shipment.supplierId) ?? []), shipment]);
+    }
+    const getDoc = docLoader(ctx);
+    const suppliers = await Promise.all(
+      [...bySupplier].map(async ([supplierId, supplierShipments]) => {
+        const supplier = await getDoc(supplierId);
+        return {
+          supplierId,
+          supplierName: supplier?.name || "Unknown",
+          shipments: supplierShipments.length,
+          delayed: supplierShipments.filter(s => s.status === "delayed").length,
+          ...deliveryPerformance(supplierShipments, now),
+        };
+      })
+    );
+
+    return {
+      statuses: SHIPMENT_STATUSES.map(status => ({ status, count: shipments.filter(s => s.status === status).length })),
+      suppliers: suppliers.sort((a, b) => b.shipments - a.shipments),
+      ...deliveryPerformance(shipments, now),
+    };
+  },
+});
+
+// Helper functions
+
+async function captureKpiSnapshot(ctx: MutationCtx, orgId: Id<"organizations">, now: number) {
+  const windowStart = now - KPI_WINDOW_DAYS * DAY_MS;
+  const [counts, due, products, inventory, layers, movements] = await Promise.all([
+    getDashboardCounts(ctx, orgId),
+    ctx.db.query("shipments")
+      .withIndex("by_org_and_expected_delivery", q =>
+        q.eq("orgId", orgId).gte("expectedDeliveryDate", windowStart).lte("expectedDeliveryDate", now))
+      .collect(),
+    ctx.db.query("products").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+    ctx.db.query("inventory").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+    ctx.db.query("costLayers").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+    ctx.db.query("stockMovements")
+      .withIndex("by_timestamp", q => q.eq("orgId", orgId).gte("timestamp", windowStart).lte("timestamp", now))
+      .collect(),
+  ]);
+
+  const productById = new Map(products.map(product => [product._id, product]));
+  const totals = new Map<string, { inventoryValue: number; units: number; available: number; issued: number }>();
+  const totalsFor = (productId: Id<"products">) => {
+    const category = productById.get(productId)?.category ?? "Uncategorized";
+    let categoryTotals = totals.get(category);
+    if (!categoryTotals) {
+      categoryTotals = { inventoryValue: 0, units: 0, available: 0, issued: 0 };
+      totals.set(category, categoryTotals);
+    }
+    return categoryTotals;
+  };
+  for (const item of inventory) {
+    const categoryTotals = totalsFor(item.productId);
+    categoryTotals.units += item.currentStock;
+    categoryTotals.available += item.availableStock;
+  }
+  // Stock is valued at cost, as in the valuation report
+  for (const layer of layers) {
+    totalsFor(layer.productId).inventoryValue += layer.quantity * layer.unitCost;
+  }
+  for (const movement of movements) {
+    if (movement.type === "issue") totalsFor(movement.productId).issued += Math.abs(movement.quantity);
+  }
+
+  const categories = [...totals].map(([category, t]) => ({
+    category,
+    inventoryValue: roundTo(t.inventoryValue, 2),
+    units: t.units,
+    daysOfCover: daysOfCover(t.available, t.issued),
+  })).sort((a, b) => b.inventoryValue - a.inventoryValue);
+  const all = [...totals.values()];
+  const sum = (value: (t: typeof all[number]) => number) => all.reduce((total, t) => total + value(t), 0);
+  const performance = deliveryPerformance(due, now);
+
+  const date = startOfUtcDay(now);
+  const snapshot = {
+    orgId,
+    date,
+    capturedAt: now,
+    onTimeRate: performance.onTimeRate ?? undefined,
+    fillRate: performance.fillRate ?? undefined,
+    inventoryValue: roundTo(sum(t => t.inventoryValue), 2),
+    daysOfCover: daysOfCover(sum(t => t.available), sum(t => t.issued)),
+    openAlerts: counts.activeAlerts,
+    activeShipments: counts.activeShipments,
+    delayedShipments: counts.delayedShipments,
+    categories,
+  };
+
+  const existing = await ctx.db.query("kpiSnapshots")
+    .withIndex("by_org_and_date", q => q.eq("orgId", orgId).eq("date", date))
+    .unique();
+  if (existing) {
+    await ctx.db.patch(existing._id, snapshot);
+    return existing._id;
+  }
+  return await ctx.db.insert("kpiSnapshots", snapshot);
+}
+
+// On time means delivered by the expected date. Open shipments past it are
+// late whatever happens next; cancelled ones and those not yet due aren't
+// judged. Fill rate is the received share of the quantity ordered on
+// delivered shipments. Rates are null when there is nothing to judge.
+function deliveryPerformance(shipments: Doc<"shipments">[], now: number) {
+  const delivered = shipments.filter(s => s.status === "delivered" && s.actualDeliveryDate !== undefined);
+  const overdue = shipments.filter(s =>
+    (s.status === "ordered" || s.status === "in_transit" || s.status === "delayed") &&
+    s.expectedDeliveryDate < now
+  );
+  const judged = delivered.length + overdue.length;
+  const onTime = delivered.filter(s => s.actualDeliveryDate! <= s.expectedDeliveryDate).length;
+  const ordered = delivered.reduce((sum, s) => sum + s.quantity, 0);
+  const received = delivered.reduce((sum, s) => sum + (s.receivedQuantity ?? s.quantity), 0);
+  return {
+    onTimeRate: judged > 0 ? roundTo(onTime / judged, 3) : null,
+    fillRate: ordered > 0 ? roundTo(received / ordered, 3) : null,
+  };
+}
+
+// Undefined without demand to divide by
+function daysOfCover(available: number, issuedInWindow: number) {
+  return issuedInWindow > 0 ? roundTo(available / (issuedInWindow / KPI_WINDOW_DAYS), 1) : undefined;
+}
+
+function requireRange(from: number, to: number) {
+  if (to < from) throw new Error("The range must end after it starts");
+  if (to - from > MAX_RANGE_DAYS * DAY_MS) throw new Error(`Choose a range of at most ${MAX_RANGE_DAYS} days`);
+}
+
+function startOfUtcDay(timestamp: number) {
+  return Math.floor(timestamp / DAY_MS) * DAY_MS;
+}
+
+function roundTo(value: number, decimals: number) {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,109 @@
+import { query, mutation, internalQuery, internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { inOrg, requirePermission } from "./organizations";
+
+export type ApiScope = Doc<"apiKeys">["scopes"][number];
+
+export const apiScopeValidator = v.union(
+  v.literal("suppliers:read"),
+  v.literal("products:read"),
+  v.literal("inventory:read"),
+  v.literal("inventory:write"),
+  v.literal("shipments:read"),
+  v.literal("shipments:write"),
+  v.literal("reorders:read")
+);
+
+const KEY_PREFIX = "lak_";
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// Writing lastUsedAt on every request would make concurrent requests with
+// the same key conflict, so it is only refreshed this often
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const getApiKeys = query({
+  args: {},
+  handler: async (ctx) => {
+    const { orgId } = await requirePermission(ctx, "admin");
+
+    const keys = await ctx.db.query("apiKeys")
+      .withIndex("by_org", q => q.eq("orgId", orgId))
+      .order("desc")
+      .collect();
+    return keys.map(({ hashedKey: _hashedKey, ...key }) => key);
+  },
+});
+
+// Returns the key in full; it can't be retrieved again afterwards
+export const createApiKey = mutation({
+  args: {
+    name: v.string(),
+    scopes: v.array(apiScopeValidator),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "admin");
+
+    const name = args.name.trim();
+    if (!name) throw new Error("Key name is required");
+    if (args.scopes.length === 0) throw new Error("Choose at least one scope");
+
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    const key = KEY_PREFIX + Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+    const apiKeyId = await ctx.db.insert("apiKeys", {
+      orgId,
+      name,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      hashedKey: await hashApiKey(key),
+      scopes: [...new Set(args.scopes)],
+      createdBy: userId,
+      createdAt: Date.now(),
+    });
+
+    return { apiKeyId, key };
+  },
+});
+
+export const revokeApiKey = mutation({
+  args: { apiKeyId: v.id("apiKeys") },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "admin");
+
+    const key = inOrg(await ctx.db.get(args.apiKeyId), orgId);
+    if (!key) throw new Error("API key not found");
+    if (!key.revokedAt) {
+      await ctx.db.patch(key._id, { revokedAt: Date.now() });
+    }
+  },
+});
+
+// Looks up an active key by its hash for the HTTP routes
+export const authenticateApiKey = internalQuery({
+  args: { hashedKey: v.string() },
+  handler: async (ctx, args) => {
+    const key = await ctx.db.query("apiKeys")
+      .withIndex("by_hashed_key", q => q.eq("hashedKey", args.hashedKey))
+      .unique();
+    if (!key || key.revokedAt) return null;
+    if (!await ctx.db.get(key.orgId)) return null;
+
+    return { apiKeyId: key._id, orgId: key.orgId, scopes: key.scopes };
+  },
+});
+
+export const recordApiKeyUse = internalMutation({
+  args: { apiKeyId: v.id("apiKeys") },
+  handler: async (ctx, args) => {
+    const key = await ctx.db.get(args.apiKeyId);
+    const now = Date.now();
+    if (key && (key.lastUsedAt ?? 0) < now - LAST_USED_RESOLUTION_MS) {
+      await ctx.db.patch(key._id, { lastUsedAt: now });
+    }
+  },
+});
+
+// Helper functions
+export async function hashApiKey(key: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
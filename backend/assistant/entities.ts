@@ -0,0 +1,115 @@
+import { AssistantData, Entities, TimeRange } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Words that appear in many company names and say nothing about which
+// supplier is meant on their own
+const GENERIC_NAME_WORDS = new Set([
+  "co", "company", "corp", "corporation", "inc", "ltd", "llc", "gmbh", "ag", "sa",
+  "global", "international", "solutions", "logistics", "group", "industries",
+  "electronics", "supply", "supplies", "trading", "the", "and",
+]);
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  fourteen: 14, thirty: 30, sixty: 60, ninety: 90,
+};
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30, quarter: 90, year: 365 };
+
+export function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, "")
+    .replace(/[^a-z0-9-]+/g, " ")
+    .trim();
+}
+
+function containsPhrase(haystack: string, phrase: string): boolean {
+  if (!phrase) return false;
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^| )${escaped}s?( |$)`).test(haystack);
+}
+
+function nameTokens(name: string): string[] {
+  return normalize(name).split(" ").filter(token => token.length > 0);
+}
+
+export function extractEntities(question: string, data: AssistantData, now: number): Entities {
+  const text = normalize(question);
+
+  const suppliers = data.suppliers.filter(supplier => {
+    const tokens = nameTokens(supplier.name);
+    const fullName = tokens.filter(t => !["co", "inc", "ltd", "llc", "gmbh", "corp"].includes(t)).join(" ");
+    if (containsPhrase(text, fullName)) return true;
+    return tokens.some(token => token.length >= 4 && !GENERIC_NAME_WORDS.has(token) && containsPhrase(text, token));
+  });
+
+  const products = data.products.filter(product =>
+    containsPhrase(text, normalize(product.sku)) || containsPhrase(text, normalize(product.name))
+  );
+
+  const categories = [...new Set(data.products.map(p => p.category))]
+    .filter(category => containsPhrase(text, normalize(category)));
+
+  const warehouses = data.warehouses.filter(warehouse =>
+    containsPhrase(text, normalize(warehouse.name)) || containsPhrase(text, normalize(warehouse.code))
+  );
+
+  return {
+    suppliers,
+    products,
+    categories,
+    warehouses,
+    timeRange: extractTimeRange(text, now),
+    previous: null,
+  };
+}
+
+function parseCount(word: string): number | null {
+  if (/^\d+$/.test(word)) return parseInt(word, 10);
+  return NUMBER_WORDS[word] ?? null;
+}
+
+// Recognizes "today", "tomorrow", "yesterday", "this/next/last week|month",
+// "next 10 days", "last 30 days", "past two weeks", "in 3 weeks" and
+// "within 5 days". Expects normalized text.
+export function extractTimeRange(text: string, now: number): TimeRange | null {
+  const startOfDay = new Date(now);
+  startOfDay.setUTCHours(0, 0, 0, 0);
+  const today = startOfDay.getTime();
+
+  if (containsPhrase(text, "today")) {
+    return { start: now, end: today + DAY_MS, label: "today", direction: "future" };
+  }
+  if (containsPhrase(text, "tomorrow")) {
+    return { start: today + DAY_MS, end: today + 2 * DAY_MS, label: "tomorrow", direction: "future" };
+  }
+  if (containsPhrase(text, "yesterday")) {
+    return { start: today - DAY_MS, end: today, label: "yesterday", direction: "past" };
+  }
+
+  const counted = text.match(/\b(next|last|past|previous|in|within|coming)( the)? (\d+|[a-z]+) (day|week|month|quarter|year)s?\b/);
+  if (counted) {
+    const count = parseCount(counted[3]);
+    if (count !== null) {
+      const days = count * UNIT_DAYS[counted[4]];
+      const label = `${counted[1]} ${counted[3]} ${counted[4]}${count === 1 ? "" : "s"}`;
+      return ["last", "past", "previous"].includes(counted[1])
+        ? { start: now - days * DAY_MS, end: now, label, direction: "past" }
+        : { start: now, end: now + days * DAY_MS, label, direction: "future" };
+    }
+  }
+
+  const relative = text.match(/\b(this|next|last|past|previous|coming)( the)? (day|week|month|quarter|year)\b/);
+  if (relative) {
+    const days = UNIT_DAYS[relative[3]];
+    const label = `${relative[1]} ${relative[3]}`;
+    return ["last", "past", "previous"].includes(relative[1])
+      ? { start: now - days * DAY_MS, end: now, label, direction: "past" }
+      : { start: now, end: now + days * DAY_MS, label, direction: "future" };
+  }
+
+  return null;
+}
@@ -0,0 +1,101 @@
+import { Id } from "../_generated/dataModel";
+import { AssistantData, Entities, ResultSet, SuggestedAction, TimeRange } from "./types";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+export function plural(count: number, noun: string, pluralNoun = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : pluralNoun}`;
+}
+
+// True when the row matches every entity type mentioned in the question.
+// Entity types the question doesn't mention don't filter anything.
+export function matchesEntities(
+  row: {
+    supplierId?: Id<"suppliers">;
+    productId?: Id<"products">;
+    warehouseId?: Id<"warehouses">;
+    shipmentId?: Id<"shipments">;
+    category?: string;
+  },
+  entities: Entities,
+): boolean {
+  if (entities.suppliers.length > 0 && !entities.suppliers.some(s => s._id === row.supplierId)) return false;
+  if (entities.products.length > 0 && !entities.products.some(p => p._id === row.productId)) return false;
+  if (entities.warehouses.length > 0 && !entities.warehouses.some(w => w._id === row.warehouseId)) return false;
+  if (entities.categories.length > 0 && !(row.category && entities.categories.includes(row.category))) return false;
+  return inPreviousResults(row, entities.previous);
+}
+
+// True when the row belongs to the previous answer's results. Id types the
+// row doesn't carry, or the previous answer didn't list, don't filter.
+export function inPreviousResults(
+  row: { supplierId?: Id<"suppliers">; productId?: Id<"products">; shipmentId?: Id<"shipments"> },
+  previous: ResultSet | null,
+): boolean {
+  if (!previous) return true;
+  const outside = <T>(id: T | undefined, ids: T[]) => id !== undefined && ids.length > 0 && !ids.includes(id);
+  return !outside(row.supplierId, previous.supplierIds) &&
+    !outside(row.productId, previous.productIds) &&
+    !outside(row.shipmentId, previous.shipmentIds);
+}
+
+// Collects the distinct ids of the rows an answer covered
+export function collectResults(
+  rows: { supplierId?: Id<"suppliers">; productId?: Id<"products">; shipmentId?: Id<"shipments"> }[],
+): ResultSet {
+  const distinct = <T>(ids: (T | undefined)[]) => [...new Set(ids.filter((id): id is T => id !== undefined))];
+  return {
+    supplierIds: distinct(rows.map(r => r.supplierId)),
+    productIds: distinct(rows.map(r => r.productId)),
+    shipmentIds: distinct(rows.map(r => r.shipmentId)),
+  };
+}
+
+export function inTimeRange(timestamp: number | undefined, range: TimeRange | null): boolean {
+  if (!range) return true;
+  return timestamp !== undefined && timestamp >= range.start && timestamp <= range.end;
+}
+
+// " for Bluetooth Speaker from EuroTech Solutions in Warehouse A", or "".
+// Follow-ups on a previous answer read " among those from ...".
+export function describeScope(entities: Entities): string {
+  const parts: string[] = entities.previous ? ["among those"] : [];
+  const names = (items: { name: string }[]) => items.map(i => i.name).join(" or ");
+  if (entities.products.length > 0) parts.push(`for ${names(entities.products)}`);
+  if (entities.categories.length > 0) parts.push(`in ${entities.categories.join(" or ")}`);
+  if (entities.suppliers.length > 0) parts.push(`from ${names(entities.suppliers)}`);
+  if (entities.warehouses.length > 0) parts.push(`in ${names(entities.warehouses)}`);
+  return parts.length > 0 ? ` ${parts.join(" ")}` : "";
+}
+
+// One draft purchase order action per supplier covering the given lines.
+// Lines are ordered from the product's preferred supplier unless they name
+// another.
+export function reorderActions(
+  lines: { productId: Id<"products">; quantity: number; warehouseId?: Id<"warehouses">; supplierId?: Id<"suppliers"> }[],
+  data: AssistantData,
+): SuggestedAction[] {
+  const bySupplier = new Map<Id<"suppliers">, typeof lines>();
+  for (const line of lines) {
+    const supplierId = line.supplierId ?? data.products.find(p => p._id === line.productId)?.supplierId;
+    if (!supplierId || line.quantity <= 0) continue;
+    bySupplier.set(supplierId, [...(bySupplier.get(supplierId) || []), line]);
+  }
+
+  return [...bySupplier].map(([supplierId, supplierLines]) => {
+    const supplierName = data.suppliers.find(s => s._id === supplierId)?.name || "Unknown";
+    const summary = supplierLines
+      .map(line => `${line.quantity} × ${data.products.find(p => p._id === line.productId)?.name || "Unknown"}`)
+      .join(", ");
+    return {
+      kind: "create_reorder" as const,
+      label: `Draft a purchase order to ${supplierName} for ${summary}`,
+      supplierId,
+      lines: supplierLines.map(({ productId, quantity, warehouseId }) => ({ productId, quantity, warehouseId })),
+    };
+  });
+}
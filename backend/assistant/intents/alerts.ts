@@ -0,0 +1,41 @@
+import { IntentDefinition } from "../types";
+import { collectResults, describeScope, matchesEntities, plural } from "../helpers";
+
+export const alertsIntent: IntentDefinition = {
+  name: "alerts",
+  patterns: [
+    { pattern: /\balerts?\b/, weight: 4 },
+    { pattern: /\b(urgent|critical|issues?|problems?|attention)\b/, weight: 2 },
+  ],
+  handle: ({ entities, data }) => {
+    const alerts = data.alerts.filter(a => matchesEntities(a, entities));
+    const scope = describeScope(entities);
+    const high = alerts.filter(a => a.severity === "high");
+
+    return {
+      response: alerts.length > 0
+        ? `There are ${plural(alerts.length, "active alert")}${scope}, ${high.length} high severity.`
+        : `There are no active alerts${scope}.`,
+      insights: [...high, ...alerts.filter(a => a.severity !== "high")]
+        .slice(0, 5)
+        .map(a => `[${a.severity}] ${a.title}: ${a.description}`),
+      recommendations: high.length > 0 ? ["Address high severity alerts first"] : [],
+      tables: alerts.length > 0
+        ? [{
+          title: "Active alerts",
+          columns: ["Severity", "Alert", "Details"],
+          rows: alerts.map(a => ({
+            cells: [a.severity, a.title, a.description],
+            ref: { kind: "alert" as const, id: a._id, label: a.title },
+          })),
+        }]
+        : [],
+      actions: high.map(a => ({
+        kind: "resolve_alert" as const,
+        label: `Resolve "${a.title}": ${a.description}`,
+        alertId: a._id,
+      })),
+      results: collectResults(alerts),
+    };
+  },
+};
@@ -0,0 +1,158 @@
+import { AssistantData, IntentDefinition, ShipmentRow } from "../types";
+import { DAY_MS, collectResults, describeScope, formatDate, inTimeRange, matchesEntities, plural, reorderActions } from "../helpers";
+import { onTimeUnitCost, unitPriceFor } from "../../supplierCatalog";
+
+const OPEN_STATUSES = ["ordered", "in_transit", "delayed"];
+
+export const delaysIntent: IntentDefinition = {
+  name: "supplier_delays",
+  patterns: [
+    { pattern: /\bdelay(s|ed|ing)?\b/, weight: 3 },
+    { pattern: /\b(late|overdue|behind schedule)\b/, weight: 3 },
+    { pattern: /\b(causing|why)\b/, weight: 1 },
+  ],
+  handle: ({ entities, data, now }) => {
+    const categories = new Map(data.products.map(p => [p._id, p.category]));
+    const range = entities.timeRange;
+
+    // Looking back, shipments that arrived late count too; otherwise only
+    // shipments that are currently delayed or overdue
+    const delayed = data.shipments.filter(s => {
+      const isOpenLate = s.status === "delayed" ||
+        (OPEN_STATUSES.includes(s.status) && s.expectedDeliveryDate < now);
+      const arrivedLate = range?.direction === "past" && s.status === "delivered" &&
+        s.actualDeliveryDate !== undefined && s.actualDeliveryDate > s.expectedDeliveryDate;
+      return (isOpenLate || arrivedLate) &&
+        inTimeRange(s.expectedDeliveryDate, range) &&
+        matchesEntities({ ...s, shipmentId: s._id, category: categories.get(s.productId) }, entities);
+    });
+
+    const scope = describeScope(entities) + (range ? ` (${range.label})` : "");
+    if (delayed.length === 0) {
+      return {
+        response: `No delayed shipments found${scope}.`,
+        insights: [],
+        recommendations: [],
+        results: collectResults([]),
+      };
+    }
+
+    const insights: string[] = [];
+    const bySupplier = new Map<string, typeof delayed>();
+    for (const shipment of delayed) {
+      bySupplier.set(shipment.supplierName, [...(bySupplier.get(shipment.supplierName) || []), shipment]);
+    }
+    for (const [supplierName, shipments] of bySupplier) {
+      const details = shipments.map(s => {
+        const late = daysLate(s, now);
+        return late > 0 ? `${s.productName}, ${plural(late, "day")} late` : s.productName;
+      });
+      insights.push(`${supplierName}: ${plural(shipments.length, "delayed shipment")} (${details.join("; ")})`);
+    }
+    insights.push(`Most common delay reason: ${getMostCommonDelayReason(delayed)}`);
+
+    // Only shipments still on their way are worth chasing
+    const open = delayed.filter(s => s.status !== "delivered");
+    const chase = new Map<string, typeof delayed>();
+    for (const shipment of open) {
+      chase.set(shipment.supplierId, [...(chase.get(shipment.supplierId) || []), shipment]);
+    }
+
+    // Other suppliers of the same products that could cover what is late
+    const alternates = open.map(s => ({ shipment: s, options: rankAlternates(s, data) }));
+    const covered = alternates.filter(a => a.options.length > 0);
+    const uncovered = [...new Set(alternates.filter(a => a.options.length === 0).map(a => a.shipment.productName))];
+
+    return {
+      response: `Found ${plural(delayed.length, "delayed shipment")}${scope} from ${plural(bySupplier.size, "supplier")}.`,
+      insights,
+      recommendations: [
+        "Contact delayed suppliers for updated delivery timelines",
+        ...covered.map(({ shipment, options: [best] }) =>
+          `Cover ${shipment.quantity} × ${shipment.productName} from ${best.supplierName} at $${best.unitPrice.toFixed(2)} per unit ` +
+          `(${best.reliabilityScore}% reliable, ${plural(best.deliveryDays, "day")}) instead of waiting on ${shipment.supplierName}`
+        ),
+        ...(uncovered.length > 0
+          ? [`No alternate suppliers are on file for ${uncovered.join(", ")}; add them to the supplier catalog`]
+          : []),
+      ],
+      tables: [{
+        title: "Delayed shipments",
+        columns: ["Product", "Supplier", "Quantity", "Expected", "Days late", "Reason"],
+        rows: delayed.map(s => ({
+          cells: [s.productName, s.supplierName, s.quantity, formatDate(s.expectedDeliveryDate), daysLate(s, now), s.delayReason ?? null],
+          ref: { kind: "shipment" as const, id: s._id, label: `${s.quantity} × ${s.productName}` },
+        })),
+      }, ...(covered.length > 0 ? [{
+        title: "Alternate suppliers",
+        columns: ["Product", "Delayed supplier", "Alternate", "Unit price", "Lead time (days)", "Reliability", "Cost per on-time unit"],
+        rows: covered.flatMap(({ shipment, options }) => options.map(option => ({
+          cells: [
+            shipment.productName,
+            shipment.supplierName,
+            option.supplierName,
+            option.unitPrice,
+            option.deliveryDays,
+            option.reliabilityScore,
+            Math.round(option.onTimeUnitCost * 100) / 100,
+          ],
+          ref: { kind: "supplier" as const, id: option.supplierId, label: option.supplierName },
+        }))),
+      }] : [])],
+      actions: [
+        ...[...chase.values()].map(shipments => ({
+          kind: "contact_supplier" as const,
+          label: `Ask ${shipments[0].supplierName} for updated delivery dates (${plural(shipments.length, "shipment")})`,
+          supplierId: shipments[0].supplierId,
+          subject: "Updated delivery dates for late shipments",
+          message: [
+            "Please confirm new delivery dates for the following shipments:",
+            ...shipments.map(s => `- ${s.quantity} × ${s.productName} (${s.productSku}), expected ${formatDate(s.expectedDeliveryDate)}`),
+          ].join("\n"),
+          shipmentIds: shipments.map(s => s._id),
+        })),
+        ...reorderActions(
+          covered.map(({ shipment, options: [best] }) => ({
+            productId: shipment.productId,
+            quantity: Math.max(shipment.quantity, best.minimumOrderQuantity ?? 0),
+            warehouseId: shipment.warehouseId,
+            supplierId: best.supplierId,
+          })),
+          data,
+        ),
+      ],
+      results: collectResults(delayed.map(s => ({ ...s, shipmentId: s._id }))),
+    };
+  },
+};
+
+function daysLate(shipment: ShipmentRow, now: number): number {
+  return Math.floor(((shipment.actualDeliveryDate ?? now) - shipment.expectedDeliveryDate) / DAY_MS);
+}
+
+// Active suppliers other than the late one that sell the product, cheapest
+// per on-time unit first, priced for the late quantity
+function rankAlternates(shipment: ShipmentRow, data: AssistantData) {
+  return data.catalog
+    .filter(source => source.productId === shipment.productId &&
+      source.supplierId !== shipment.supplierId &&
+      source.supplierStatus === "active")
+    .map(source => {
+      const unitPrice = unitPriceFor(source, Math.max(shipment.quantity, source.minimumOrderQuantity ?? 0));
+      return { ...source, unitPrice, onTimeUnitCost: onTimeUnitCost(unitPrice, source.reliabilityScore) };
+    })
+    .sort((a, b) => a.onTimeUnitCost - b.onTimeUnitCost || a.deliveryDays - b.deliveryDays)
+    .slice(0, 3);
+}
+
+function getMostCommonDelayReason(shipments: { delayReason?: string }[]): string {
+  const reasons = shipments.map(s => s.delayReason).filter((r): r is string => Boolean(r));
+  if (reasons.length === 0) return "Unknown";
+
+  const counts: { [key: string]: number } = {};
+  reasons.forEach(reason => {
+    counts[reason] = (counts[reason] || 0) + 1;
+  });
+
+  return Object.entries(counts).sort(([,a], [,b]) => b - a)[0][0];
+}
@@ -0,0 +1,57 @@
+import { IntentDefinition } from "../types";
+import { collectResults, describeScope, matchesEntities } from "../helpers";
+
+export const inventoryIntent: IntentDefinition = {
+  name: "inventory_levels",
+  patterns: [
+    { pattern: /\binventory\b/, weight: 3 },
+    { pattern: /\bstock levels?\b/, weight: 4 },
+    { pattern: /\b(on hand|in stock|available|how (much|many))\b/, weight: 2 },
+    { pattern: /\bwarehouses?\b/, weight: 1 },
+  ],
+  handle: ({ entities, data }) => {
+    const products = new Map(data.products.map(p => [p._id, p]));
+    const items = data.inventory.filter(item => {
+      const product = products.get(item.productId);
+      return matchesEntities({ ...item, supplierId: product?.supplierId, category: product?.category }, entities);
+    });
+    const results = collectResults(items.map(item => ({ ...item, supplierId: products.get(item.productId)?.supplierId })));
+    const scope = describeScope(entities);
+
+    if (items.length === 0) {
+      return { response: `No inventory found${scope}.`, insights: [], recommendations: [], results };
+    }
+
+    const totalItems = items.length;
+    const lowStockCount = items.filter(item => item.needsReorder).length;
+    const outOfStockCount = items.filter(item => item.availableStock === 0).length;
+    const insights = [`${((lowStockCount / totalItems) * 100).toFixed(1)}% of items need reordering`];
+    const recommendations: string[] = [];
+
+    // Spell out each row when the question narrows things down
+    if (entities.products.length > 0 || entities.warehouses.length > 0 || totalItems <= 5) {
+      items.forEach(item => {
+        insights.push(`${item.productName} in ${item.warehouseName}: ${item.currentStock} on hand, ${item.reservedStock} reserved, ${item.availableStock} available`);
+      });
+    }
+    if (outOfStockCount > 0) {
+      insights.push(`${outOfStockCount} items are completely out of stock`);
+      recommendations.push("Urgently reorder out-of-stock items");
+    }
+
+    return {
+      response: `Current inventory status${scope}: ${totalItems} total items, ${lowStockCount} need reorder, ${outOfStockCount} out of stock.`,
+      insights,
+      recommendations,
+      tables: [{
+        title: "Inventory",
+        columns: ["Product", "Warehouse", "On hand", "Reserved", "Available", "Reorder point"],
+        rows: items.map(item => ({
+          cells: [item.productName, item.warehouseName, item.currentStock, item.reservedStock, item.availableStock, item.reorderPoint],
+          ref: { kind: "product" as const, id: item.productId, label: item.productName },
+        })),
+      }],
+      results,
+    };
+  },
+};
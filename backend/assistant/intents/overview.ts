@@ -0,0 +1,38 @@
+import { IntentDefinition } from "../types";
+import { collectResults, describeScope, inPreviousResults, matchesEntities } from "../helpers";
+
+// Fallback when no other intent matches
+export const overviewIntent: IntentDefinition = {
+  name: "overview",
+  patterns: [
+    { pattern: /\b(overview|summary|summari[sz]e|status|how are we doing)\b/, weight: 3 },
+  ],
+  handle: ({ entities, data }) => {
+    const categories = new Map(data.products.map(p => [p._id, p.category]));
+    const products = data.products.filter(p => matchesEntities({ ...p, productId: p._id }, entities));
+    const shipments = data.shipments.filter(s =>
+      matchesEntities({ ...s, shipmentId: s._id, category: categories.get(s.productId) }, entities)
+    );
+    const alerts = data.alerts.filter(a => matchesEntities(a, entities));
+    const suppliers = (entities.suppliers.length > 0 ? entities.suppliers : data.suppliers)
+      .filter(s => inPreviousResults({ supplierId: s._id }, entities.previous));
+
+    return {
+      response: `I've analyzed your supply chain data${describeScope(entities)}. Here's what I found:`,
+      insights: [
+        `Total suppliers: ${suppliers.length}`,
+        `Total products: ${products.length}`,
+        `Active shipments: ${shipments.filter(s => s.status === "in_transit" || s.status === "ordered").length}`,
+        `Active alerts: ${alerts.length}`,
+      ],
+      recommendations: [
+        "Review dashboard metrics for detailed insights",
+        "Check alerts for any urgent issues",
+      ],
+      results: collectResults([
+        ...suppliers.map(s => ({ supplierId: s._id })),
+        ...products.map(p => ({ productId: p._id })),
+      ]),
+    };
+  },
+};
@@ -0,0 +1,86 @@
+import { IntentDefinition } from "../types";
+import { collectResults, describeScope, inPreviousResults, plural } from "../helpers";
+
+export const reliabilityIntent: IntentDefinition = {
+  name: "supplier_reliability",
+  patterns: [
+    { pattern: /\breliab(le|ility)\b/, weight: 5 },
+    { pattern: /\b(performance|performing|on.time|scorecards?|trend(ing)?)\b/, weight: 2 },
+    { pattern: /\b(worst|best|top|lowest|highest)\b.*\bsuppliers?\b/, weight: 2 },
+  ],
+  handle: ({ entities, data }) => {
+    const selected = (entities.suppliers.length > 0
+      ? data.scorecards.filter(s => entities.suppliers.some(e => e._id === s.supplierId))
+      : data.scorecards
+    ).filter(s => inPreviousResults({ supplierId: s.supplierId }, entities.previous));
+    const ranked = [...selected].sort((a, b) => a.reliabilityScore - b.reliabilityScore);
+    const scope = describeScope({ ...entities, products: [], categories: [], warehouses: [] });
+
+    if (ranked.length === 0) {
+      return { response: `No suppliers found${scope}.`, insights: [], recommendations: [], results: collectResults([]) };
+    }
+
+    const insights: string[] = [];
+    const recommendations: string[] = [];
+    const lowReliabilitySuppliers = ranked.filter(s => s.reliabilityScore < 70);
+    const trendingDown = ranked.filter(s => s.trend30d !== null && s.trend30d <= -5);
+    const avgReliability = ranked.reduce((sum, s) => sum + s.reliabilityScore, 0) / ranked.length;
+
+    if (entities.suppliers.length === 0) {
+      insights.push(`${plural(lowReliabilitySuppliers.length, "supplier")} below 70% reliability`);
+    }
+    for (const s of entities.suppliers.length > 0 ? ranked : ranked.slice(0, 1)) {
+      let detail = `${entities.suppliers.length > 0 ? s.name : `Lowest reliability supplier: ${s.name}`} (${s.reliabilityScore}%)`;
+      if (s.onTimeRate !== null) {
+        detail += ` — ${Math.round(s.onTimeRate * 100)}% on time, ${s.meanLatenessDays} days late on average`;
+      }
+      insights.push(detail);
+      if (s.topDelayReason) {
+        insights.push(`Most frequent delay reason for ${s.name}: ${s.topDelayReason}`);
+      }
+    }
+    trendingDown.forEach(s => {
+      insights.push(`${s.name} is trending down (${s.trend30d} points over 30 days)`);
+    });
+    if (lowReliabilitySuppliers.length > 0 || trendingDown.length > 0) {
+      recommendations.push("Review contracts with low reliability suppliers");
+      recommendations.push("Develop backup supplier relationships");
+    }
+
+    return {
+      response: ranked.length === 1
+        ? `${ranked[0].name} has a reliability score of ${ranked[0].reliabilityScore}%.`
+        : `Average supplier reliability${scope} is ${Math.round(avgReliability)}%.`,
+      insights,
+      recommendations,
+      tables: [{
+        title: "Supplier reliability",
+        columns: ["Supplier", "Score", "On time", "Mean lateness (days)", "30-day trend"],
+        rows: ranked.map(s => ({
+          cells: [
+            s.name,
+            s.reliabilityScore,
+            s.onTimeRate === null ? null : `${Math.round(s.onTimeRate * 100)}%`,
+            s.meanLatenessDays,
+            s.trend30d,
+          ],
+          ref: { kind: "supplier" as const, id: s.supplierId, label: s.name },
+        })),
+      }],
+      actions: [...new Set([...lowReliabilitySuppliers, ...trendingDown])].map(s => ({
+        kind: "contact_supplier" as const,
+        label: `Raise delivery performance with ${s.name}`,
+        supplierId: s.supplierId,
+        subject: "Delivery performance review",
+        message: `Your reliability score with us is ${s.reliabilityScore}%` +
+          (s.onTimeRate === null ? "" : ` with ${Math.round(s.onTimeRate * 100)}% of shipments on time`) +
+          ". Please let us know what steps you are taking to improve delivery performance.",
+        shipmentIds: [],
+      })),
+      // A ranking is about the weak suppliers it calls out, if any
+      results: collectResults(
+        entities.suppliers.length === 0 && lowReliabilitySuppliers.length > 0 ? lowReliabilitySuppliers : ranked
+      ),
+    };
+  },
+};
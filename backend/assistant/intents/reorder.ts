@@ -0,0 +1,62 @@
+import { IntentDefinition } from "../types";
+import { collectResults, describeScope, matchesEntities, plural, reorderActions } from "../helpers";
+
+// Answers from the replenishment planner: what to order, per product and
+// warehouse, to cover lead time, safety stock and demand until the next run
+export const reorderIntent: IntentDefinition = {
+  name: "reorder",
+  patterns: [
+    { pattern: /\breorder(ing)?\b/, weight: 4 },
+    { pattern: /\b(order|buy|purchase|replenish)\b/, weight: 2 },
+    { pattern: /\b(low stock|below reorder)\b/, weight: 3 },
+    { pattern: /\bstock\b/, weight: 1 },
+  ],
+  handle: ({ entities, data }) => {
+    const categories = new Map(data.products.map(p => [p._id, p.category]));
+    const groups = data.replenishment
+      .map(group => ({
+        ...group,
+        lines: group.lines.filter(line => matchesEntities({ ...line, category: categories.get(line.productId) }, entities)),
+      }))
+      .filter(group => group.lines.length > 0);
+    const lines = groups.flatMap(group => group.lines.map(line => ({ ...line, supplierName: group.supplierName })));
+    const scope = describeScope(entities);
+
+    if (lines.length === 0) {
+      return {
+        response: `Nothing${scope} needs ordering: stock and open orders cover lead time and safety stock.`,
+        insights: [],
+        recommendations: [],
+        results: collectResults([]),
+      };
+    }
+
+    const totalValue = lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+    return {
+      response: `The planner suggests ordering ${plural(lines.length, "item")}${scope} from ${plural(groups.length, "supplier")}, worth $${totalValue.toFixed(2)}.`,
+      insights: [
+        ...groups.map(group => `${group.supplierName}: ${group.lines.reduce((sum, line) => sum + line.quantity, 0)} units, $${group.lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0).toFixed(2)}`),
+        ...lines.filter(line => line.note).map(line => `${line.productName}: ${line.note}`),
+      ],
+      recommendations: [
+        "Review and approve the batch under Replenishment to turn it into purchase orders",
+        ...lines
+          .filter(line => line.availableStock < line.dailyDemand * line.leadTimeDays)
+          .map(line => `${line.productName} in ${line.warehouseName} will run short before a new order arrives; expedite open orders`),
+      ],
+      tables: [{
+        title: "Suggested orders",
+        columns: ["Product", "Warehouse", "Supplier", "Available", "Inbound", "Daily demand", "Reorder level", "Order quantity"],
+        rows: lines.map(line => ({
+          cells: [line.productName, line.warehouseName, line.supplierName, line.availableStock, line.inboundQuantity, line.dailyDemand, line.reorderLevel, line.quantity],
+          ref: { kind: "product" as const, id: line.productId, label: line.productName },
+        })),
+      }],
+      actions: reorderActions(
+        lines.map(line => ({ productId: line.productId, quantity: line.quantity, warehouseId: line.warehouseId, supplierId: line.supplierId })),
+        data,
+      ),
+      results: collectResults(lines),
+    };
+  },
+};
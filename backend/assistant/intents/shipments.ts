@@ -0,0 +1,76 @@
+import { AnswerTable, IntentDefinition, ShipmentRow } from "../types";
+import { DAY_MS, collectResults, describeScope, formatDate, matchesEntities, plural } from "../helpers";
+
+export const shipmentsIntent: IntentDefinition = {
+  name: "shipments",
+  patterns: [
+    { pattern: /\bshipments?\b/, weight: 2 },
+    { pattern: /\bdeliver(y|ies|ed)\b/, weight: 2 },
+    { pattern: /\b(arriv(e|ing|als?)|in transit|inbound|incoming|tracking)\b/, weight: 2 },
+  ],
+  handle: ({ entities, data, now }) => {
+    const categories = new Map(data.products.map(p => [p._id, p.category]));
+    const shipments = data.shipments.filter(s =>
+      matchesEntities({ ...s, shipmentId: s._id, category: categories.get(s.productId) }, entities)
+    );
+    const range = entities.timeRange;
+    const scope = describeScope(entities);
+    const insights: string[] = [];
+
+    if (range?.direction === "past") {
+      const delivered = shipments.filter(s =>
+        s.actualDeliveryDate !== undefined && s.actualDeliveryDate >= range.start && s.actualDeliveryDate <= range.end
+      );
+      const onTime = delivered.filter(s => s.actualDeliveryDate! <= s.expectedDeliveryDate);
+      if (delivered.length > 0) {
+        insights.push(`${Math.round((onTime.length / delivered.length) * 100)}% delivered on time`);
+      }
+      return {
+        response: `${plural(delivered.length, "shipment")}${scope} delivered (${range.label}).`,
+        insights,
+        recommendations: [],
+        tables: [shipmentTable("Delivered shipments", delivered)],
+        results: collectResults(delivered.map(s => ({ ...s, shipmentId: s._id }))),
+      };
+    }
+
+    const activeShipments = shipments.filter(s => s.status === "in_transit" || s.status === "ordered");
+    const windowEnd = range?.end ?? now + 7 * DAY_MS;
+    const upcomingDeliveries = activeShipments
+      .filter(s => s.expectedDeliveryDate > now && s.expectedDeliveryDate < windowEnd)
+      .sort((a, b) => a.expectedDeliveryDate - b.expectedDeliveryDate);
+
+    insights.push(`${plural(upcomingDeliveries.length, "delivery", "deliveries")} expected ${range ? range.label : "this week"}`);
+    upcomingDeliveries.slice(0, 5).forEach(s => {
+      insights.push(`${formatDate(s.expectedDeliveryDate)}: ${s.quantity} × ${s.productName} from ${s.supplierName}`);
+    });
+
+    return {
+      response: `There are ${plural(activeShipments.length, "active shipment")}${scope}.`,
+      insights,
+      recommendations: [],
+      tables: [shipmentTable("Active shipments", activeShipments)],
+      results: collectResults(activeShipments.map(s => ({ ...s, shipmentId: s._id }))),
+    };
+  },
+};
+
+function shipmentTable(title: string, shipments: ShipmentRow[]): AnswerTable {
+  return {
+    title,
+    columns: ["Product", "Supplier", "Quantity", "Status", "Expected", "Delivered"],
+    rows: [...shipments]
+      .sort((a, b) => a.expectedDeliveryDate - b.expectedDeliveryDate)
+      .map(s => ({
+        cells: [
+          s.productName,
+          s.supplierName,
+          s.quantity,
+          s.status,
+          formatDate(s.expectedDeliveryDate),
+          s.actualDeliveryDate ? formatDate(s.actualDeliveryDate) : null,
+        ],
+        ref: { kind: "shipment" as const, id: s._id, label: `${s.quantity} × ${s.productName}` },
+      })),
+  };
+}
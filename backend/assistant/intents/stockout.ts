@@ -0,0 +1,68 @@
+import { IntentDefinition } from "../types";
+import { DAY_MS, collectResults, describeScope, formatDate, matchesEntities, plural, reorderActions } from "../helpers";
+
+const DEFAULT_HORIZON_DAYS = 7;
+
+export const stockoutIntent: IntentDefinition = {
+  name: "stockout_forecast",
+  patterns: [
+    { pattern: /\bout of stock\b/, weight: 5 },
+    { pattern: /\bstock ?outs?\b/, weight: 5 },
+    { pattern: /\brun(ning)? (out|low)\b/, weight: 5 },
+    { pattern: /\b(days? of cover|forecast|projected|will)\b/, weight: 1 },
+  ],
+  handle: ({ entities, data, now }) => {
+    const range = entities.timeRange;
+    const horizonEnd = range?.direction === "future" ? range.end : now + DEFAULT_HORIZON_DAYS * DAY_MS;
+    const horizonLabel = range?.direction === "future" ? range.label : `next ${DEFAULT_HORIZON_DAYS} days`;
+
+    const forecast = data.forecast.filter(f => matchesEntities(f, entities));
+    const atRisk = forecast.filter(f => f.projectedStockoutDate !== null && f.projectedStockoutDate <= horizonEnd);
+    const scope = describeScope(entities);
+
+    if (atRisk.length === 0) {
+      const nearest = forecast.find(f => f.projectedStockoutDate !== null);
+      return {
+        response: `No products${scope} are projected to run out of stock (${horizonLabel}).`,
+        insights: nearest
+          ? [`Earliest projected stockout: ${nearest.productName} around ${formatDate(nearest.projectedStockoutDate!)}`]
+          : [],
+        recommendations: [],
+        results: collectResults([]),
+      };
+    }
+
+    const recommendations: string[] = [];
+    const lateOrders = atRisk.filter(f => f.reorderByDate! < now);
+    if (lateOrders.length > 0) {
+      recommendations.push(`Expedite orders for ${lateOrders.map(f => f.productName).join(", ")}; supplier lead time exceeds the remaining cover`);
+    }
+    atRisk.filter(f => f.reorderByDate! >= now).forEach(f => {
+      recommendations.push(`Order ${f.productName} from ${f.supplierName} by ${formatDate(f.reorderByDate!)}`);
+    });
+
+    return {
+      response: `${plural(atRisk.length, "product")}${scope} projected to run out of stock (${horizonLabel}).`,
+      insights: atRisk.map(f =>
+        `${f.productName} (${f.productSku}): out of stock around ${formatDate(f.projectedStockoutDate!)} — ${f.availableStock} available, ~${f.dailyDemand}/day demand`
+      ),
+      recommendations,
+      tables: [{
+        title: "Projected stockouts",
+        columns: ["Product", "Supplier", "Available", "Daily demand", "Stockout", "Order by"],
+        rows: atRisk.map(f => ({
+          cells: [f.productName, f.supplierName, f.availableStock, f.dailyDemand, formatDate(f.projectedStockoutDate!), formatDate(f.reorderByDate!)],
+          ref: { kind: "product" as const, id: f.productId, label: f.productName },
+        })),
+      }],
+      actions: reorderActions(
+        atRisk.map(f => ({
+          productId: f.productId,
+          quantity: data.products.find(p => p._id === f.productId)?.reorderQuantity || 0,
+        })),
+        data,
+      ),
+      results: collectResults(atRisk),
+    };
+  },
+};
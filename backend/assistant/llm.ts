@@ -0,0 +1,323 @@
+import { ActionCtx } from "../_generated/server";
+import { api } from "../_generated/api";
+import { Analysis, AssistantData } from "./types";
+
+const MAX_TOOL_ROUNDS = 4;
+const MAX_HISTORY_TURNS = 6;
+
+export type ChatMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: ToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+export type ToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
+export type ToolDefinition = {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+};
+
+// Anything that can answer a chat completion request. The assistant only
+// talks to models through this, so providers can be swapped or stubbed.
+export type LlmProvider = {
+  name: string;
+  model: string;
+  complete: (request: { messages: ChatMessage[]; tools: ToolDefinition[] }) => Promise<{
+    content: string | null;
+    toolCalls: ToolCall[];
+  }>;
+};
+
+// Speaks the OpenAI chat completions protocol, which most hosted and local
+// model servers implement. baseUrl should include the version prefix,
+// e.g. https://api.openai.com/v1 or http://localhost:8787/v1.
+export function createOpenAICompatibleProvider(config: {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}): LlmProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: "openai-compatible",
+    model: config.model,
+    complete: async ({ messages, tools }) => {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages,
+          tools,
+          temperature: 0.2,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`LLM request failed with ${response.status}: ${await response.text()}`);
+      }
+
+      const body = await response.json();
+      const message = body.choices?.[0]?.message;
+      if (!message) throw new Error("LLM response had no message");
+      return {
+        content: message.content ?? null,
+        toolCalls: message.tool_calls ?? [],
+      };
+    },
+  };
+}
+
+// Configured through deployment environment variables; returns null when
+// LLM_BASE_URL is unset so the assistant falls back to the rule engine
+export function getConfiguredProvider(): LlmProvider | null {
+  const baseUrl = process.env.LLM_BASE_URL;
+  if (!baseUrl) return null;
+  return createOpenAICompatibleProvider({
+    baseUrl,
+    apiKey: process.env.LLM_API_KEY,
+    model: process.env.LLM_MODEL || "gpt-4o-mini",
+  });
+}
+
+// Tools the model may call; each maps onto an existing query
+export const ASSISTANT_TOOLS: ToolDefinition[] = [
+  {
+    type: "function",
+    function: {
+      name: "get_inventory_status",
+      description: "Inventory rows per product and warehouse with on-hand, reserved and available stock and whether they need reordering",
+      parameters: {
+        type: "object",
+        properties: { warehouseId: { type: "string", description: "Only this warehouse" } },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_shipments",
+      description: "The 50 most recent shipments with status, dates, supplier and product",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_stockout_forecast",
+      description: "Per-product demand forecast with projected stockout date and latest reorder date",
+      parameters: {
+        type: "object",
+        properties: {
+          method: { type: "string", enum: ["moving_average", "exponential_smoothing"] },
+          horizonDays: { type: "number" },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_replenishment_plan",
+      description: "Suggested order quantities per product and warehouse, grouped by supplier, covering lead time, safety stock and open orders",
+      parameters: {
+        type: "object",
+        properties: {
+          reviewPeriodDays: { type: "number", description: "Days until the next ordering run" },
+          safetyDays: { type: "number", description: "Days of demand to hold as safety stock" },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_product_suppliers",
+      description: "Every supplier a product can be bought from, with unit price, price breaks, minimum order quantity, lead time and reliability; preferred supplier first, alternates by cost per on-time unit",
+      parameters: {
+        type: "object",
+        properties: {
+          productId: { type: "string", description: "Product id" },
+        },
+        required: ["productId"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_supplier_scorecards",
+      description: "Supplier reliability scores with on-time rate, mean lateness, cancellation rate and 30-day trend",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_stock_ledger",
+      description: "Recent stock movements (receipts, issues, adjustments, reservations, transfers)",
+      parameters: {
+        type: "object",
+        properties: {
+          productId: { type: "string" },
+          warehouseId: { type: "string" },
+          limit: { type: "number" },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_purchase_orders",
+      description: "Recent purchase orders with supplier, status and value",
+      parameters: {
+        type: "object",
+        properties: {
+          status: { type: "string", enum: ["draft", "approved", "sent", "partially_received", "closed", "cancelled"] },
+        },
+      },
+    },
+  },
+];
+
+async function runTool(ctx: ActionCtx, call: ToolCall): Promise<unknown> {
+  const args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+  switch (call.function.name) {
+    case "get_inventory_status":
+      return await ctx.runQuery(api.logistics.getInventoryStatus, args);
+    case "get_shipments":
+      return await ctx.runQuery(api.logistics.getShipments);
+    case "get_stockout_forecast":
+      return await ctx.runQuery(api.forecasting.getStockoutForecast, args);
+    case "get_replenishment_plan":
+      return await ctx.runQuery(api.replenishment.getReplenishmentSuggestions, args);
+    case "get_product_suppliers":
+      return await ctx.runQuery(api.supplierCatalog.getProductSuppliers, args);
+    case "get_supplier_scorecards":
+      return await ctx.runQuery(api.supplierScoring.getSupplierScorecards);
+    case "get_stock_ledger":
+      return await ctx.runQuery(api.stock.getStockLedger, args);
+    case "get_purchase_orders":
+      return await ctx.runQuery(api.purchaseOrders.getPurchaseOrders, args);
+    default:
+      throw new Error(`Unknown tool ${call.function.name}`);
+  }
+}
+
+// A compact view of the data for the system prompt; details are left to tools
+export function buildSnapshot(data: AssistantData) {
+  return {
+    suppliers: data.scorecards.map(s => ({
+      id: s.supplierId,
+      name: s.name,
+      reliability: s.reliabilityScore,
+      onTimeRate: s.onTimeRate,
+      trend30d: s.trend30d,
+    })),
+    warehouses: data.warehouses.map(w => ({ id: w._id, name: w.name, code: w.code })),
+    products: data.forecast.map(f => ({
+      id: f.productId,
+      name: f.productName,
+      sku: f.productSku,
+      supplier: f.supplierName,
+      available: f.availableStock,
+      dailyDemand: f.dailyDemand,
+      inbound: f.inboundQuantity,
+      projectedStockout: f.projectedStockoutDate && new Date(f.projectedStockoutDate).toISOString().slice(0, 10),
+    })),
+    openShipments: data.shipments
+      .filter(s => s.status === "ordered" || s.status === "in_transit" || s.status === "delayed")
+      .map(s => ({
+        id: s._id,
+        product: s.productName,
+        supplier: s.supplierName,
+        quantity: s.quantity,
+        status: s.status,
+        expected: new Date(s.expectedDeliveryDate).toISOString().slice(0, 10),
+        delayReason: s.delayReason,
+      })),
+    alerts: data.alerts.map(a => ({ type: a.type, severity: a.severity, title: a.title, description: a.description })),
+  };
+}
+
+const SYSTEM_PROMPT = `You are a supply chain analyst answering questions about the user's suppliers, products, inventory and shipments.
+Use the snapshot below and call tools when you need more detail. Never invent figures that are not in the data.
+Reply with a single JSON object and nothing else: {"response": string, "insights": string[], "recommendations": string[]}.
+"response" is a one or two sentence answer; "insights" are specific facts with numbers; "recommendations" are concrete next steps.`;
+
+// history holds the earlier turns of the conversation, oldest first, so the
+// model can resolve follow-ups itself
+export async function answerWithLlm(
+  ctx: ActionCtx,
+  provider: LlmProvider,
+  question: string,
+  data: AssistantData,
+  history: { question: string; response: string }[] = [],
+): Promise<Analysis> {
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content: `${SYSTEM_PROMPT}\n\nToday is ${new Date().toISOString().slice(0, 10)}.\nSnapshot:\n${JSON.stringify(buildSnapshot(data))}`,
+    },
+    ...history.slice(-MAX_HISTORY_TURNS).flatMap((turn): ChatMessage[] => [
+      { role: "user", content: turn.question },
+      { role: "assistant", content: turn.response },
+    ]),
+    { role: "user", content: question },
+  ];
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const reply = await provider.complete({
+      messages,
+      tools: round < MAX_TOOL_ROUNDS ? ASSISTANT_TOOLS : [],
+    });
+    if (reply.toolCalls.length === 0) {
+      return parseAnalysis(reply.content ?? "");
+    }
+
+    messages.push({ role: "assistant", content: reply.content, tool_calls: reply.toolCalls });
+    for (const call of reply.toolCalls) {
+      let content: string;
+      try {
+        content = JSON.stringify(await runTool(ctx, call));
+      } catch (error) {
+        content = JSON.stringify({ error: error instanceof Error ? error.message : String(error) });
+      }
+      messages.push({ role: "tool", tool_call_id: call.id, content });
+    }
+  }
+
+  throw new Error("LLM did not answer within the tool call limit");
+}
+
+// Models don't always honour the JSON instruction; plain text becomes the
+// response on its own
+export function parseAnalysis(content: string): Analysis {
+  const json = content.match(/\{[\s\S]*\}/)?.[0];
+  if (json) {
+    try {
+      const parsed = JSON.parse(json);
+      if (typeof parsed.response === "string") {
+        return {
+          response: parsed.response,
+          insights: Array.isArray(parsed.insights) ? parsed.insights.map(String) : [],
+          recommendations: Array.isArray(parsed.recommendations) ? parsed.recommendations.map(String) : [],
+        };
+      }
+    } catch {
+      // fall through to plain text
+    }
+  }
+  return { response: content.trim(), insights: [], recommendations: [] };
+}
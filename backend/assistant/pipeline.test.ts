@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import { Id } from "../_generated/dataModel";
+import { extractEntities, extractTimeRange, normalize } from "./entities";
+import { classifyIntent, detectFollowUp } from "./pipeline";
+import { intents } from "./registry";
+import { AssistantData, ProductRow, SupplierRow, TimeRange, WarehouseRow } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Wednesday 15 May 2024, 12:00 UTC
+const NOW = Date.UTC(2024, 4, 15, 12);
+const START_OF_TODAY = Date.UTC(2024, 4, 15);
+
+// Only the fields entity extraction reads are filled in
+const supplier = (name: string) => ({ _id: name as Id<"suppliers">, name }) as SupplierRow;
+const product = (name: string, sku: string, category: string) =>
+  ({ _id: sku as Id<"products">, name, sku, category }) as ProductRow;
+const warehouse = (name: string, code: string) => ({ _id: code as Id<"warehouses">, name, code }) as WarehouseRow;
+
+const data: AssistantData = {
+  suppliers: [
+    supplier("EuroTech Components GmbH"),
+    supplier("Pacific Rim Electronics"),
+    supplier("Acme Supplies Co"),
+  ],
+  products: [
+    product("Wireless Mouse", "WM-001", "Electronics"),
+    product("Office Chair", "OC-200", "Furniture"),
+    product("Printer Paper", "PP-500", "Office Supplies"),
+  ],
+  warehouses: [
+    warehouse("Warehouse A", "WH-A"),
+    warehouse("Rotterdam Hub", "RTM"),
+  ],
+  shipments: [],
+  inventory: [],
+  alerts: [],
+  forecast: [],
+  scorecards: [],
+  replenishment: [],
+  catalog: [],
+};
+
+const future = (days: number, label: string): TimeRange =>
+  ({ start: NOW, end: NOW + days * DAY_MS, label, direction: "future" });
+const past = (days: number, label: string): TimeRange =>
+  ({ start: NOW - days * DAY_MS, end: NOW, label, direction: "past" });
+const TODAY: TimeRange = { start: NOW, end: START_OF_TODAY + DAY_MS, label: "today", direction: "future" };
+
+type Case = {
+  question: string;
+  intent: string;
+  suppliers?: string[];
+  products?: string[];
+  warehouses?: string[];
+  categories?: string[];
+  timeRange?: TimeRange;
+};
+
+// Phrasings users actually type, several per intent. Entities and time
+// ranges left out are expected to resolve to nothing.
+const corpus: Case[] = [
+  { question: "Which products will run out of stock next week?", intent: "stockout_forecast", timeRange: future(7, "next week") },
+  { question: "When do we stock out of the Wireless Mouse?", intent: "stockout_forecast", products: ["Wireless Mouse"] },
+  { question: "Are we running low on printer paper at Rotterdam Hub?", intent: "stockout_forecast", products: ["Printer Paper"], warehouses: ["Rotterdam Hub"] },
+  { question: "Stockouts in the next two weeks", intent: "stockout_forecast", timeRange: future(14, "next two weeks") },
+
+  { question: "Which shipments are delayed?", intent: "supplier_delays" },
+  { question: "Why is EuroTech late this month?", intent: "supplier_delays", suppliers: ["EuroTech Components GmbH"], timeRange: future(30, "this month") },
+  { question: "What's causing the delays with Pacific Rim?", intent: "supplier_delays", suppliers: ["Pacific Rim Electronics"] },
+  { question: "Overdue deliveries from last month", intent: "supplier_delays", timeRange: past(30, "last month") },
+
+  { question: "What should I reorder?", intent: "reorder" },
+  { question: "Which items are below reorder point in WH-A?", intent: "reorder", warehouses: ["Warehouse A"] },
+  { question: "What should we buy from Acme Supplies for the next two weeks?", intent: "reorder", suppliers: ["Acme Supplies Co"], timeRange: future(14, "next two weeks") },
+  { question: "Replenish furniture", intent: "reorder", categories: ["Furniture"] },
+
+  { question: "How reliable is EuroTech?", intent: "supplier_reliability", suppliers: ["EuroTech Components GmbH"] },
+  { question: "Show me the worst performing suppliers", intent: "supplier_reliability" },
+  { question: "Supplier reliability over the last month", intent: "supplier_reliability", timeRange: past(30, "last month") },
+  { question: "Is Pacific Rim Electronics trending down?", intent: "supplier_reliability", suppliers: ["Pacific Rim Electronics"], categories: ["Electronics"] },
+
+  { question: "What are the stock levels in Warehouse A?", intent: "inventory_levels", warehouses: ["Warehouse A"] },
+  { question: "How many office chairs do we have on hand?", intent: "inventory_levels", products: ["Office Chair"] },
+  { question: "Show inventory for electronics", intent: "inventory_levels", categories: ["Electronics"] },
+  { question: "How much OC-200 is available in RTM today?", intent: "inventory_levels", products: ["Office Chair"], warehouses: ["Rotterdam Hub"], timeRange: TODAY },
+
+  { question: "What deliveries are arriving today?", intent: "shipments", timeRange: TODAY },
+  { question: "Track inbound shipments from Pacific Rim", intent: "shipments", suppliers: ["Pacific Rim Electronics"] },
+  { question: "Any shipments due in the next two weeks?", intent: "shipments", timeRange: future(14, "next two weeks") },
+  { question: "Incoming wireless mice for Rotterdam Hub", intent: "shipments", warehouses: ["Rotterdam Hub"] },
+
+  { question: "Show me the critical alerts", intent: "alerts" },
+  { question: "Are there any issues that need attention today?", intent: "alerts", timeRange: TODAY },
+  { question: "Alerts for the Wireless Mouse", intent: "alerts", products: ["Wireless Mouse"] },
+  { question: "Which problems came up last month?", intent: "alerts", timeRange: past(30, "last month") },
+
+  { question: "Give me a summary of the supply chain", intent: "overview" },
+  { question: "How are we doing?", intent: "overview" },
+  { question: "Status of EuroTech today", intent: "overview", suppliers: ["EuroTech Components GmbH"], timeRange: TODAY },
+  { question: "Summarize last month", intent: "overview", timeRange: past(30, "last month") },
+];
+
+describe("assistant corpus", () => {
+  it("covers every registered intent", () => {
+    const covered = new Set(corpus.map(c => c.intent));
+    expect(intents.map(intent => intent.name).filter(name => !covered.has(name))).toEqual([]);
+  });
+
+  it.each(corpus)("$question", (c) => {
+    const [best] = classifyIntent(c.question);
+    expect(best?.intent.name).toBe(c.intent);
+
+    const entities = extractEntities(c.question, data, NOW);
+    expect(entities.suppliers.map(s => s.name)).toEqual(c.suppliers ?? []);
+    expect(entities.products.map(p => p.name)).toEqual(c.products ?? []);
+    expect(entities.warehouses.map(w => w.name)).toEqual(c.warehouses ?? []);
+    expect(entities.categories).toEqual(c.categories ?? []);
+    expect(entities.timeRange).toEqual(c.timeRange ?? null);
+  });
+});
+
+describe("classifyIntent", () => {
+  it("returns nothing for questions no intent recognizes", () => {
+    expect(classifyIntent("Hello there")).toEqual([]);
+  });
+
+  it("ranks every matching intent, best first", () => {
+    const names = classifyIntent("Which shipments are delayed?").map(scored => scored.intent.name);
+    expect(names).toEqual(["supplier_delays", "shipments"]);
+  });
+});
+
+describe("detectFollowUp", () => {
+  it.each([
+    ["Which of those are late?", { refersToResults: true, isElliptical: false }],
+    ["Are they reliable?", { refersToResults: true, isElliptical: false }],
+    ["And in Warehouse A?", { refersToResults: false, isElliptical: true }],
+    ["What about next month?", { refersToResults: false, isElliptical: true }],
+    ["Only EuroTech", { refersToResults: false, isElliptical: true }],
+    ["And which of them are delayed?", { refersToResults: true, isElliptical: true }],
+  ])("%s", (question, expected) => {
+    expect(detectFollowUp(question)).toEqual(expected);
+  });
+
+  it("ignores questions that stand on their own", () => {
+    expect(detectFollowUp("Show me the stock levels in Warehouse A")).toBeNull();
+  });
+});
+
+describe("extractTimeRange", () => {
+  it.each<[string, TimeRange | null]>([
+    ["today", TODAY],
+    ["tomorrow", { start: START_OF_TODAY + DAY_MS, end: START_OF_TODAY + 2 * DAY_MS, label: "tomorrow", direction: "future" }],
+    ["yesterday", { start: START_OF_TODAY - DAY_MS, end: START_OF_TODAY, label: "yesterday", direction: "past" }],
+    ["over the next two weeks", future(14, "next two weeks")],
+    ["in the next 10 days", future(10, "next 10 days")],
+    ["within 5 days", future(5, "within 5 days")],
+    ["in 3 weeks", future(21, "in 3 weeks")],
+    ["last month", past(30, "last month")],
+    ["the past 30 days", past(30, "past 30 days")],
+    ["previous quarter", past(90, "previous quarter")],
+    ["this week", future(7, "this week")],
+    ["next one month", future(30, "next one month")],
+    ["no time at all", null],
+  ])("%s", (phrase, expected) => {
+    expect(extractTimeRange(normalize(phrase), NOW)).toEqual(expected);
+  });
+});
@@ -0,0 +1,112 @@
+import { Analysis, AssistantData, Entities, EntityRef, IntentDefinition, ResultSet, TurnContext } from "./types";
+import { extractEntities, normalize } from "./entities";
+import { fallbackIntent, intents } from "./registry";
+
+export type ScoredIntent = { intent: IntentDefinition; score: number };
+
+// "which of those...", "are they...", "show me the ones..."
+const BACK_REFERENCE = /\b(those|these|them|they|their|ones)\b/;
+// "and in Warehouse B?", "what about next month?", "only EuroTech"
+const ELLIPSIS = /^(and|what about|how about|only|just|same)\b/;
+
+// Scores every registered intent against the question, best first
+export function classifyIntent(question: string, registry: IntentDefinition[] = intents): ScoredIntent[] {
+  const text = normalize(question);
+  return registry
+    .map(intent => ({
+      intent,
+      score: intent.patterns.reduce((sum, { pattern, weight }) => sum + (pattern.test(text) ? weight : 0), 0),
+    }))
+    .filter(scored => scored.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+export type FollowUp = { refersToResults: boolean; isElliptical: boolean };
+
+export function detectFollowUp(question: string): FollowUp | null {
+  const text = normalize(question);
+  const refersToResults = BACK_REFERENCE.test(text);
+  const isElliptical = ELLIPSIS.test(text);
+  return refersToResults || isElliptical ? { refersToResults, isElliptical } : null;
+}
+
+// A back-reference narrows to what the previous answer was about. An
+// elliptical question instead keeps the previous question's filters for
+// every entity type it doesn't mention itself.
+export function resolveFollowUp(
+  entities: Entities,
+  followUp: FollowUp,
+  previous: TurnContext,
+  data: AssistantData,
+): Entities {
+  if (followUp.refersToResults) {
+    return { ...entities, previous: previous.results };
+  }
+
+  const carried = previous.entities;
+  return {
+    suppliers: entities.suppliers.length > 0
+      ? entities.suppliers
+      : data.suppliers.filter(s => carried.supplierIds.includes(s._id)),
+    products: entities.products.length > 0
+      ? entities.products
+      : data.products.filter(p => carried.productIds.includes(p._id)),
+    categories: entities.categories.length > 0 ? entities.categories : carried.categories,
+    warehouses: entities.warehouses.length > 0
+      ? entities.warehouses
+      : data.warehouses.filter(w => carried.warehouseIds.includes(w._id)),
+    timeRange: entities.timeRange ?? carried.timeRange ?? null,
+    previous: null,
+  };
+}
+
+// previous is the context of the last answer in the same conversation
+export function analyzeSupplyChainQuery(
+  question: string,
+  data: AssistantData,
+  now = Date.now(),
+  previous: TurnContext | null = null,
+): Analysis & { intent: string; context: TurnContext } {
+  const followUp = previous ? detectFollowUp(question) : null;
+
+  // A follow-up that names no intent of its own continues the previous one
+  const [best] = classifyIntent(question);
+  const intent = best?.intent ??
+    (followUp && intents.find(i => i.name === previous!.intent)) ??
+    fallbackIntent;
+
+  let entities = extractEntities(question, data, now);
+  if (followUp) entities = resolveFollowUp(entities, followUp, previous!, data);
+
+  const { results, ...analysis } = intent.handle({ question, entities, data, now });
+  return {
+    ...analysis,
+    entityRefs: entityRefs(results, data),
+    intent: intent.name,
+    context: {
+      intent: intent.name,
+      entities: {
+        supplierIds: entities.suppliers.map(s => s._id),
+        productIds: entities.products.map(p => p._id),
+        warehouseIds: entities.warehouses.map(w => w._id),
+        categories: entities.categories,
+        timeRange: entities.timeRange ?? undefined,
+      },
+      results,
+    },
+  };
+}
+
+function entityRefs(results: ResultSet, data: AssistantData): EntityRef[] {
+  const refs: EntityRef[] = [];
+  for (const supplier of data.suppliers.filter(s => results.supplierIds.includes(s._id))) {
+    refs.push({ kind: "supplier", id: supplier._id, label: supplier.name });
+  }
+  for (const product of data.products.filter(p => results.productIds.includes(p._id))) {
+    refs.push({ kind: "product", id: product._id, label: product.name });
+  }
+  for (const shipment of data.shipments.filter(s => results.shipmentIds.includes(s._id))) {
+    refs.push({ kind: "shipment", id: shipment._id, label: `${shipment.quantity} × ${shipment.productName}` });
+  }
+  return refs;
+}
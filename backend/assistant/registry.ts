@@ -0,0 +1,24 @@
+import { IntentDefinition } from "./types";
+import { alertsIntent } from "./intents/alerts";
+import { delaysIntent } from "./intents/delays";
+import { inventoryIntent } from "./intents/inventory";
+import { overviewIntent } from "./intents/overview";
+import { reliabilityIntent } from "./intents/reliability";
+import { reorderIntent } from "./intents/reorder";
+import { shipmentsIntent } from "./intents/shipments";
+import { stockoutIntent } from "./intents/stockout";
+
+// To add an intent, define it under intents/ and list it here. Order only
+// matters to break ties between equally scored intents.
+export const intents: IntentDefinition[] = [
+  stockoutIntent,
+  delaysIntent,
+  reorderIntent,
+  reliabilityIntent,
+  inventoryIntent,
+  shipmentsIntent,
+  alertsIntent,
+  overviewIntent,
+];
+
+export const fallbackIntent = overviewIntent;
@@ -0,0 +1,107 @@
+import { Doc, Id } from "../_generated/dataModel";
+import { buildStockoutForecast } from "../forecasting";
+import { buildReplenishmentSuggestions } from "../replenishment";
+import { buildSupplierCatalog } from "../supplierCatalog";
+
+// Rows as returned by the dashboard queries the assistant reads from
+export type SupplierRow = Doc<"suppliers">;
+export type ProductRow = Doc<"products"> & { supplierName: string };
+export type WarehouseRow = Doc<"warehouses">;
+export type AlertRow = Doc<"alerts">;
+export type ShipmentRow = Doc<"shipments"> & {
+  supplierName: string;
+  productName: string;
+  productSku: string;
+};
+export type InventoryRow = Doc<"inventory"> & {
+  productName: string;
+  productSku: string;
+  warehouseName: string;
+  reorderPoint: number;
+  productAvailableStock: number;
+  needsReorder: boolean;
+};
+export type ForecastRow = Awaited<ReturnType<typeof buildStockoutForecast>>[number];
+// Planner suggestions, one group per supplier
+export type ReplenishmentGroup = Awaited<ReturnType<typeof buildReplenishmentSuggestions>>[number];
+// One supplier a product can be bought from, with its terms
+export type SupplierSourceRow = Awaited<ReturnType<typeof buildSupplierCatalog>>[number];
+export type ScorecardRow = {
+  supplierId: Id<"suppliers">;
+  name: string;
+  reliabilityScore: number;
+  isComputed: boolean;
+  onTimeRate: number | null;
+  meanLatenessDays: number | null;
+  cancellationRate: number | null;
+  topDelayReason: string | null;
+  trend30d: number | null;
+};
+
+export type AssistantData = {
+  suppliers: SupplierRow[];
+  products: ProductRow[];
+  warehouses: WarehouseRow[];
+  shipments: ShipmentRow[];
+  inventory: InventoryRow[];
+  alerts: AlertRow[];
+  forecast: ForecastRow[];
+  scorecards: ScorecardRow[];
+  replenishment: ReplenishmentGroup[];
+  catalog: SupplierSourceRow[];
+};
+
+export type TimeRange = {
+  start: number;
+  end: number;
+  label: string; // as phrased in the question, e.g. "next week"
+  direction: "past" | "future";
+};
+
+// Stored with each answer in a conversation; see queries.context
+export type TurnContext = NonNullable<Doc<"queries">["context"]>;
+
+// The suppliers, products and shipments an answer was about
+export type ResultSet = TurnContext["results"];
+
+export type Entities = {
+  suppliers: SupplierRow[];
+  products: ProductRow[];
+  categories: string[];
+  warehouses: WarehouseRow[];
+  timeRange: TimeRange | null;
+  // Set when the question refers back to the previous answer ("those",
+  // "them"); rows outside it are filtered out
+  previous: ResultSet | null;
+};
+
+export type AnswerTable = NonNullable<Doc<"queries">["tables"]>[number];
+export type EntityRef = NonNullable<Doc<"queries">["entityRefs"]>[number];
+export type SuggestedAction = NonNullable<Doc<"queries">["actions"]>[number];
+
+export type Analysis = {
+  response: string;
+  insights: string[];
+  recommendations: string[];
+  tables?: AnswerTable[];
+  entityRefs?: EntityRef[];
+  // Offered to the user, who confirms before assistantActions runs them
+  actions?: SuggestedAction[];
+};
+
+export type IntentResult = Analysis & { results: ResultSet };
+
+export type IntentContext = {
+  question: string;
+  entities: Entities;
+  data: AssistantData;
+  now: number;
+};
+
+// One answerable kind of question. Patterns are scored against the
+// lowercased question; the intent with the highest total wins.
+export type IntentDefinition = {
+  name: string;
+  patterns: { pattern: RegExp; weight: number }[];
+  handle: (context: IntentContext) => IntentResult;
+};
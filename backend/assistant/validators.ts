@@ -0,0 +1,77 @@
+import { v } from "convex/values";
+
+// Shapes of the structured parts of an assistant answer, shared by the
+// schema and the functions that store them
+
+export const turnContextValidator = v.object({
+  intent: v.string(),
+  entities: v.object({
+    supplierIds: v.array(v.id("suppliers")),
+    productIds: v.array(v.id("products")),
+    warehouseIds: v.array(v.id("warehouses")),
+    categories: v.array(v.string()),
+    timeRange: v.optional(v.object({
+      start: v.number(),
+      end: v.number(),
+      label: v.string(),
+      direction: v.union(v.literal("past"), v.literal("future")),
+    })),
+  }),
+  results: v.object({
+    supplierIds: v.array(v.id("suppliers")),
+    productIds: v.array(v.id("products")),
+    shipmentIds: v.array(v.id("shipments")),
+  }),
+});
+
+export const entityRefValidator = v.union(
+  v.object({ kind: v.literal("supplier"), id: v.id("suppliers"), label: v.string() }),
+  v.object({ kind: v.literal("product"), id: v.id("products"), label: v.string() }),
+  v.object({ kind: v.literal("warehouse"), id: v.id("warehouses"), label: v.string() }),
+  v.object({ kind: v.literal("shipment"), id: v.id("shipments"), label: v.string() }),
+  v.object({ kind: v.literal("alert"), id: v.id("alerts"), label: v.string() })
+);
+
+export const answerTableValidator = v.object({
+  title: v.string(),
+  columns: v.array(v.string()),
+  rows: v.array(v.object({
+    cells: v.array(v.union(v.string(), v.number(), v.null())),
+    ref: v.optional(entityRefValidator),
+  })),
+});
+
+// Filled in once the user has confirmed and run the action
+const executionFields = {
+  executedAt: v.optional(v.number()),
+  outcome: v.optional(v.string()),
+};
+
+export const suggestedActionValidator = v.union(
+  v.object({
+    kind: v.literal("create_reorder"),
+    label: v.string(),
+    supplierId: v.id("suppliers"),
+    lines: v.array(v.object({
+      productId: v.id("products"),
+      quantity: v.number(),
+      warehouseId: v.optional(v.id("warehouses")),
+    })),
+    ...executionFields,
+  }),
+  v.object({
+    kind: v.literal("contact_supplier"),
+    label: v.string(),
+    supplierId: v.id("suppliers"),
+    subject: v.string(),
+    message: v.string(),
+    shipmentIds: v.array(v.id("shipments")),
+    ...executionFields,
+  }),
+  v.object({
+    kind: v.literal("resolve_alert"),
+    label: v.string(),
+    alertId: v.id("alerts"),
+    ...executionFields,
+  })
+);
@@ -0,0 +1,73 @@
+import { mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { markAlertResolved } from "./alerts";
+import { Permission, requirePermission } from "./organizations";
+import { createDraftOrder } from "./purchaseOrders";
+import { recordSupplierContact } from "./suppliers";
+import { SuggestedAction } from "./assistant/types";
+
+// Runs an action the assistant suggested in an answer, once the user has
+// confirmed it in the UI. The action is read from the stored answer rather
+// than taken from the client, and can only run once.
+
+// The same permission the equivalent button elsewhere in the app needs
+const ACTION_PERMISSIONS: Record<SuggestedAction["kind"], Permission> = {
+  create_reorder: "purchase",
+  contact_supplier: "purchase",
+  resolve_alert: "manage_alerts",
+};
+
+export const executeAction = mutation({
+  args: {
+    queryId: v.id("queries"),
+    actionIndex: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "read");
+
+    const answer = await ctx.db.get(args.queryId);
+    if (!answer || answer.userId !== userId || answer.orgId !== orgId) throw new Error("Answer not found");
+    const actions = answer.actions ?? [];
+    const action = actions[args.actionIndex];
+    if (!action) throw new Error("Action not found");
+    if (action.executedAt) throw new Error("This action has already been carried out");
+    await requirePermission(ctx, ACTION_PERMISSIONS[action.kind]);
+
+    let outcome: string;
+    switch (action.kind) {
+      case "create_reorder": {
+        const purchaseOrderId = await createDraftOrder(ctx, userId, orgId, {
+          supplierId: action.supplierId,
+          lines: action.lines,
+          notes: `Drafted from assistant answer to "${answer.question}"`,
+        });
+        const order = await ctx.db.get(purchaseOrderId);
+        outcome = `Created draft purchase order ${order?.orderNumber}`;
+        break;
+      }
+      case "contact_supplier": {
+        await recordSupplierContact(ctx, userId, orgId, {
+          supplierId: action.supplierId,
+          subject: action.subject,
+          message: action.message,
+          shipmentIds: action.shipmentIds,
+        });
+        const supplier = await ctx.db.get(action.supplierId);
+        outcome = `Logged request to ${supplier?.name || "supplier"} (${supplier?.contactEmail || "no email on file"})`;
+        break;
+      }
+      case "resolve_alert": {
+        const alert = await markAlertResolved(ctx, orgId, userId, action.alertId);
+        outcome = `Resolved alert "${alert.title}"`;
+        break;
+      }
+    }
+
+    await ctx.db.patch(answer._id, {
+      actions: actions.map((a, index) =>
+        index === args.actionIndex ? { ...a, executedAt: Date.now(), outcome } : a
+      ),
+    });
+    return outcome;
+  },
+});
@@ -0,0 +1,153 @@
+import { Doc } from "./_generated/dataModel";
+
+// Turns the tracking webhooks of different carriers and aggregators into one
+// event shape. Supported payloads:
+// - AfterShip style: { msg: { tracking_number, slug, checkpoints: [...] } }
+// - EasyPost style: { result: { tracking_code, carrier, tracking_details: [...] } }
+// - Our own: { trackingNumber, status, occurredAt, description?, location?, carrier? },
+//   or an array of them
+
+export type TrackingStatus = Doc<"shipmentEvents">["status"];
+
+export type TrackingEvent = {
+  trackingNumber: string;
+  carrier?: string;
+  status: TrackingStatus;
+  description: string;
+  location?: string;
+  occurredAt: number;
+};
+
+const TRACKING_STATUSES: TrackingStatus[] = ["info", "in_transit", "out_for_delivery", "delivered", "exception"];
+
+const AFTERSHIP_TAGS: Record<string, TrackingStatus> = {
+  InfoReceived: "info",
+  Pending: "info",
+  InTransit: "in_transit",
+  AvailableForPickup: "in_transit",
+  OutForDelivery: "out_for_delivery",
+  Delivered: "delivered",
+  Exception: "exception",
+  AttemptFail: "exception",
+  Expired: "exception",
+};
+
+const EASYPOST_STATUSES: Record<string, TrackingStatus> = {
+  pre_transit: "info",
+  unknown: "info",
+  in_transit: "in_transit",
+  available_for_pickup: "in_transit",
+  out_for_delivery: "out_for_delivery",
+  delivered: "delivered",
+  return_to_sender: "exception",
+  failure: "exception",
+  error: "exception",
+  cancelled: "exception",
+};
+
+// Fields are checked one by one, since carriers send null or numbers where
+// the docs promise strings. Events without a status or a readable time are
+// dropped rather than failing the whole batch.
+export function normalizeCarrierPayload(payload: unknown): TrackingEvent[] {
+  const msg = record(record(payload).msg);
+  if (typeof msg.tracking_number === "string") {
+    const trackingNumber = msg.tracking_number;
+    return list(msg.checkpoints).map(record).flatMap((checkpoint) => {
+      const tag = text(checkpoint.tag);
+      const occurredAt = parseTime(checkpoint.checkpoint_time);
+      if (!tag || occurredAt === undefined) return [];
+      return [{
+        trackingNumber,
+        carrier: text(msg.slug),
+        status: AFTERSHIP_TAGS[tag] ?? "info",
+        description: text(checkpoint.message) || text(checkpoint.subtag_message) || tag,
+        location: text(checkpoint.location) ||
+          joinLocation([text(checkpoint.city), text(checkpoint.state), text(checkpoint.country_name)]),
+        occurredAt,
+      }];
+    });
+  }
+
+  const result = record(record(payload).result);
+  if (typeof result.tracking_code === "string") {
+    const trackingNumber = result.tracking_code;
+    return list(result.tracking_details).map(record).flatMap((detail) => {
+      const status = text(detail.status);
+      const occurredAt = parseTime(detail.datetime);
+      if (!status || occurredAt === undefined) return [];
+      const location = record(detail.tracking_location);
+      return [{
+        trackingNumber,
+        carrier: text(result.carrier),
+        status: EASYPOST_STATUSES[status] ?? "info",
+        description: text(detail.message) || status,
+        location: joinLocation([text(location.city), text(location.state), text(location.country)]),
+        occurredAt,
+      }];
+    });
+  }
+
+  const events = (Array.isArray(payload) ? payload : [payload]).map(record);
+  if (events.length > 0 && events.every(event => typeof event.trackingNumber === "string")) {
+    return events.flatMap((event) => {
+      const trackingNumber = text(event.trackingNumber);
+      const status = text(event.status);
+      const occurredAt = parseTime(event.occurredAt);
+      if (!trackingNumber || !status || occurredAt === undefined) return [];
+      if (!isTrackingStatus(status)) {
+        throw new Error(`Unknown tracking status ${status}; expected one of ${TRACKING_STATUSES.join(", ")}`);
+      }
+      return [{
+        trackingNumber,
+        carrier: text(event.carrier),
+        status,
+        description: text(event.description) || status,
+        location: text(event.location),
+        occurredAt,
+      }];
+    });
+  }
+
+  throw new Error("Unrecognized carrier payload");
+}
+
+// What an event means for the shipment. Once delayed, a shipment stays
+// delayed until it is delivered, whatever the carrier reports in between.
+export function nextShipmentStatus(
+  current: Doc<"shipments">["status"],
+  event: TrackingStatus,
+): Doc<"shipments">["status"] | null {
+  if (current === "delivered" || current === "cancelled") return null;
+  if (event === "delivered") return "delivered";
+  if (event === "exception") return "delayed";
+  if ((event === "in_transit" || event === "out_for_delivery") && current === "ordered") return "in_transit";
+  return null;
+}
+
+// Undefined when the time can't be read
+function parseTime(value: unknown) {
+  const timestamp = typeof value === "number" ? value : typeof value === "string" ? Date.parse(value) : NaN;
+  return Number.isFinite(timestamp) ? timestamp : undefined;
+}
+
+function joinLocation(parts: (string | undefined)[]) {
+  const location = parts.filter(Boolean).join(", ");
+  return location || undefined;
+}
+
+function isTrackingStatus(value: string): value is TrackingStatus {
+  return (TRACKING_STATUSES as string[]).includes(value);
+}
+
+// An object's fields, or none for anything else
+function record(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function list(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function text(value: unknown) {
+  return typeof value === "string" ? value : undefined;
+}
@@ -0,0 +1,157 @@
+import { query, mutation, internalQuery, internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { raiseReceivingAlert, syncShipmentAlerts } from "./alerts";
+import { countShipmentChange } from "./dashboardCounters";
+import { nextShipmentStatus } from "./carrierEvents";
+import { inOrg, requirePermission } from "./organizations";
+import { receiveIntoStock, receivingWarehouse } from "./purchaseOrders";
+
+const trackingEventValidator = v.object({
+  trackingNumber: v.string(),
+  carrier: v.optional(v.string()),
+  status: v.union(
+    v.literal("info"),
+    v.literal("in_transit"),
+    v.literal("out_for_delivery"),
+    v.literal("delivered"),
+    v.literal("exception")
+  ),
+  description: v.string(),
+  location: v.optional(v.string()),
+  occurredAt: v.number(),
+});
+
+// Tracking history of one shipment, oldest first
+export const getShipmentEvents = query({
+  args: { shipmentId: v.id("shipments") },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    if (!inOrg(await ctx.db.get(args.shipmentId), orgId)) throw new Error("Shipment not found");
+    return await ctx.db.query("shipmentEvents")
+      .withIndex("by_shipment", q => q.eq("shipmentId", args.shipmentId))
+      .order("asc")
+      .collect();
+  },
+});
+
+export const getCarrierWebhook = query({
+  args: {},
+  handler: async (ctx) => {
+    const { orgId } = await requirePermission(ctx, "admin");
+
+    const organization = await ctx.db.get(orgId);
+    return { orgId, secret: organization?.carrierWebhookSecret ?? null };
+  },
+});
+
+// Enables the webhook, or rotates its secret. Carriers signing with the old
+// secret are rejected from then on.
+export const regenerateCarrierWebhookSecret = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const { orgId } = await requirePermission(ctx, "admin");
+
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    const secret = toHex(bytes);
+    await ctx.db.patch(orgId, { carrierWebhookSecret: secret });
+    return secret;
+  },
+});
+
+export const getWebhookSecret = internalQuery({
+  args: { orgId: v.string() },
+  handler: async (ctx, args) => {
+    const orgId = ctx.db.normalizeId("organizations", args.orgId);
+    const organization = orgId && await ctx.db.get(orgId);
+    return organization ? organization.carrierWebhookSecret ?? null : null;
+  },
+});
+
+// Appends events to the shipments with their tracking number and moves
+// those shipments along. Carriers resend their full history, so events
+// already recorded are skipped. A delivery that can't be received into
+// stock raises an alert rather than failing the whole batch.
+export const recordTrackingEvents = internalMutation({
+  args: {
+    orgId: v.id("organizations"),
+    events: v.array(trackingEventValidator),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const unmatched = new Set<string>();
+    let recorded = 0;
+
+    const events = [...args.events].sort((a, b) => a.occurredAt - b.occurredAt);
+    for (const event of events) {
+      const shipments = await ctx.db.query("shipments")
+        .withIndex("by_tracking_number", q => q.eq("orgId", args.orgId).eq("trackingNumber", event.trackingNumber))
+        .collect();
+      if (shipments.length === 0) unmatched.add(event.trackingNumber);
+
+      for (const shipment of shipments) {
+        const existing = await ctx.db.query("shipmentEvents")
+          .withIndex("by_shipment", q => q.eq("shipmentId", shipment._id).eq("occurredAt", event.occurredAt))
+          .collect();
+        if (existing.some(e => e.status === event.status && e.description === event.description)) continue;
+
+        await ctx.db.insert("shipmentEvents", {
+          orgId: args.orgId,
+          shipmentId: shipment._id,
+          ...event,
+          receivedAt: now,
+        });
+        recorded++;
+
+        // Re-read: an earlier event in this batch may have moved it on
+        const current = (await ctx.db.get(shipment._id))!;
+        const status = nextShipmentStatus(current.status, event.status);
+        if (status === "delivered") {
+          if (await receivingWarehouse(ctx, current)) {
+            await receiveIntoStock(ctx, current, current.quantity, {}, event.occurredAt);
+          } else {
+            await raiseReceivingAlert(ctx, current, "it has no receiving warehouse");
+          }
+        } else if (status === "delayed") {
+          await ctx.db.patch(current._id, { status, delayReason: event.description });
+          await countShipmentChange(ctx, current, { ...current, status });
+          await syncShipmentAlerts(ctx, current._id);
+        } else if (status) {
+          await ctx.db.patch(current._id, { status });
+          await countShipmentChange(ctx, current, { ...current, status });
+          await syncShipmentAlerts(ctx, current._id);
+        }
+      }
+    }
+
+    return { recorded, unmatchedTrackingNumbers: [...unmatched] };
+  },
+});
+
+// Helper functions
+
+// Checks an "X-Signature" header holding the hex HMAC-SHA256 of the raw
+// request body, with or without a "sha256=" prefix
+export async function verifyWebhookSignature(secret: string, body: string, signature: string | null) {
+  if (!signature) return false;
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const expected = toHex(new Uint8Array(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(body))));
+  const actual = signature.trim().toLowerCase().replace(/^sha256=/, "");
+
+  // Compare in constant time so the signature can't be guessed byte by byte
+  let difference = expected.length ^ actual.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ (actual.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,79 @@
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { requirePermission } from "./organizations";
+
+const TITLE_LENGTH = 60;
+
+export const getConversations = query({
+  args: {},
+  handler: async (ctx) => {
+    const { userId, orgId } = await requirePermission(ctx, "read");
+
+    return await ctx.db.query("conversations")
+      .withIndex("by_user", q => q.eq("orgId", orgId).eq("userId", userId))
+      .order("desc")
+      .take(20);
+  },
+});
+
+// Questions and answers in the order they were asked
+export const getConversationMessages = query({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "read");
+
+    await requireOwnConversation(ctx, args.conversationId, userId, orgId);
+    return await ctx.db.query("queries")
+      .withIndex("by_conversation", q => q.eq("conversationId", args.conversationId))
+      .order("asc")
+      .collect();
+  },
+});
+
+// Titled after the first question
+export const createConversation = mutation({
+  args: { title: v.string() },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "read");
+
+    const title = args.title.trim();
+    const now = Date.now();
+    return await ctx.db.insert("conversations", {
+      orgId,
+      userId,
+      title: title.length > TITLE_LENGTH ? `${title.slice(0, TITLE_LENGTH - 1)}…` : title || "New conversation",
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const deleteConversation = mutation({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "read");
+
+    await requireOwnConversation(ctx, args.conversationId, userId, orgId);
+    const turns = await ctx.db.query("queries")
+      .withIndex("by_conversation", q => q.eq("conversationId", args.conversationId))
+      .collect();
+    for (const turn of turns) {
+      await ctx.db.delete(turn._id);
+    }
+    await ctx.db.delete(args.conversationId);
+  },
+});
+
+// Helper functions
+export async function requireOwnConversation(
+  ctx: QueryCtx,
+  conversationId: Id<"conversations">,
+  userId: Id<"users">,
+  orgId: Id<"organizations">,
+) {
+  const conversation = await ctx.db.get(conversationId);
+  // Conversations stay behind in the organization they were started in
+  if (!conversation || conversation.userId !== userId || conversation.orgId !== orgId) throw new Error("Conversation not found");
+  return conversation;
+}
@@ -0,0 +1,334 @@
+import { query, mutation, internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { docLoader, isLocated } from "./lists";
+import { orgOf, requirePermission } from "./organizations";
+import { StockMovementInput } from "./stock";
+import { getProductSources, unitPriceFor } from "./supplierCatalog";
+
+// What the stock on hand cost. Every movement into a warehouse adds a cost
+// layer at its unit cost: receipts at the shipment's purchase cost,
+// transfers at what the units cost where they came from and other
+// additions at the location's current cost. Movements out use up layers
+// oldest first and record what they used up as the movement's cost, so
+// issues carry the cost of goods issued. Under weighted average every
+// addition re-prices the location's layers to their moving average.
+
+export type ValuationMethod = Doc<"valuationConfig">["method"];
+
+export const DEFAULT_VALUATION_METHOD: ValuationMethod = "fifo";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+const BACKFILL_BATCH = 100;
+
+export async function getValuationMethod(ctx: QueryCtx, orgId: Id<"organizations">): Promise<ValuationMethod> {
+  const config = await ctx.db.query("valuationConfig")
+    .withIndex("by_org", q => q.eq("orgId", orgId))
+    .unique();
+  return config?.method ?? DEFAULT_VALUATION_METHOD;
+}
+
+// Called by postStockMovement for every movement of on-hand stock. Returns
+// the movement's cost, signed like its quantity.
+export async function costMovement(ctx: MutationCtx, movement: StockMovementInput, timestamp: number) {
+  const layers = await locationLayers(ctx, movement.productId, movement.warehouseId);
+
+  if (movement.quantity > 0) {
+    const shipment = movement.shipmentId ? await ctx.db.get(movement.shipmentId) : null;
+    const unitCost = movement.unitCost ?? shipment?.unitCost ?? averageCost(layers) ??
+      await standardCost(ctx, movement.productId);
+    const layerId = await ctx.db.insert("costLayers", {
+      orgId: movement.orgId,
+      productId: movement.productId,
+      warehouseId: movement.warehouseId,
+      supplierId: shipment?.supplierId,
+      shipmentId: shipment?._id,
+      receivedAt: timestamp,
+      quantity: movement.quantity,
+      unitCost,
+    });
+    if (await getValuationMethod(ctx, movement.orgId) === "weighted_average") {
+      const layer = await ctx.db.get(layerId);
+      await averageLayers(ctx, [...layers, layer!]);
+    }
+    return movement.quantity * unitCost;
+  }
+
+  let remaining = -movement.quantity;
+  let cost = 0;
+  for (const layer of layers) {
+    if (remaining === 0) break;
+    const used = Math.min(layer.quantity, remaining);
+    cost += used * layer.unitCost;
+    remaining -= used;
+    if (used === layer.quantity) {
+      await ctx.db.delete(layer._id);
+    } else {
+      await ctx.db.patch(layer._id, { quantity: layer.quantity - used });
+    }
+  }
+  // Stock from before costing that the backfill hasn't reached yet
+  if (remaining > 0) cost += remaining * await standardCost(ctx, movement.productId);
+  return -cost;
+}
+
+export const getValuationSettings = query({
+  args: {},
+  handler: async (ctx) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    return { method: await getValuationMethod(ctx, orgId) };
+  },
+});
+
+// Switching to weighted average prices each location's layers at their
+// average, a batch of locations at a time after the setting is saved;
+// switching back to FIFO keeps those prices for the stock already on hand
+export const updateValuationMethod = mutation({
+  args: { method: v.union(v.literal("fifo"), v.literal("weighted_average")) },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "admin");
+
+    const config = await ctx.db.query("valuationConfig")
+      .withIndex("by_org", q => q.eq("orgId", orgId))
+      .unique();
+    if ((config?.method ?? DEFAULT_VALUATION_METHOD) === args.method) return;
+
+    const update = { method: args.method, updatedAt: Date.now(), updatedBy: userId };
+    if (config) {
+      await ctx.db.patch(config._id, update);
+    } else {
+      await ctx.db.insert("valuationConfig", { orgId, ...update });
+    }
+
+    if (args.method === "weighted_average") {
+      await ctx.scheduler.runAfter(0, internal.costing.averageCostLayers, { orgId });
+    }
+  },
+});
+
+// Re-prices the organization's stock at each location's average cost, a
+// batch of inventory rows per run. Stops if the organization switched back
+// to FIFO in the meantime.
+export const averageCostLayers = internalMutation({
+  args: {
+    orgId: v.id("organizations"),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    if (await getValuationMethod(ctx, args.orgId) !== "weighted_average") return 0;
+
+    const page = await ctx.db.query("inventory")
+      .withIndex("by_org", q => q.eq("orgId", args.orgId))
+      .paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_BATCH });
+
+    let averaged = 0;
+    for (const item of page.page.filter(isLocated)) {
+      await averageLayers(ctx, await locationLayers(ctx, item.productId, item.warehouseId));
+      averaged++;
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.costing.averageCostLayers, {
+        orgId: args.orgId,
+        cursor: page.continueCursor,
+      });
+    }
+    return averaged;
+  },
+});
+
+// The cost of the stock on hand grouped by warehouse, product category or
+// supplier. Stock not bought from a supplier, such as transfers and found
+// stock, counts towards the product's preferred supplier.
+export const getInventoryValuation = query({
+  args: { groupBy: v.union(v.literal("warehouse"), v.literal("category"), v.literal("supplier")) },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const layers = await ctx.db.query("costLayers").withIndex("by_org", q => q.eq("orgId", orgId)).collect();
+    const getDoc = docLoader(ctx);
+
+    const groups = new Map<string, { key: string; name: string; value: number; units: number; products: Set<Id<"products">> }>();
+    for (const layer of layers) {
+      const product = await getDoc(layer.productId);
+      let key: string;
+      let name: string;
+      if (args.groupBy === "warehouse") {
+        key = layer.warehouseId;
+        name = (await getDoc(layer.warehouseId))?.name || "Unknown";
+      } else if (args.groupBy === "category") {
+        key = product?.category ?? "Uncategorized";
+        name = key;
+      } else {
+        const supplierId = layer.supplierId ?? product?.supplierId;
+        key = supplierId ?? "none";
+        name = (supplierId && (await getDoc(supplierId))?.name) || "Unknown";
+      }
+
+      let group = groups.get(key);
+      if (!group) {
+        group = { key, name, value: 0, units: 0, products: new Set() };
+        groups.set(key, group);
+      }
+      group.value += layer.quantity * layer.unitCost;
+      group.units += layer.quantity;
+      group.products.add(layer.productId);
+    }
+
+    const rows = [...groups.values()]
+      .map(({ products, ...group }) => ({ ...group, value: roundMoney(group.value), products: products.size }))
+      .sort((a, b) => b.value - a.value);
+    return {
+      method: await getValuationMethod(ctx, orgId),
+      totalValue: roundMoney(rows.reduce((sum, row) => sum + row.value, 0)),
+      totalUnits: rows.reduce((sum, row) => sum + row.units, 0),
+      rows,
+    };
+  },
+});
+
+// What the stock issued in the range cost, per product, and what was
+// written off by negative adjustments
+export const getCostOfGoodsIssued = query({
+  args: { from: v.number(), to: v.number() },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    if (args.to < args.from) throw new Error("The range must end after it starts");
+    if (args.to - args.from > MAX_RANGE_DAYS * DAY_MS) {
+      throw new Error(`Choose a range of at most ${MAX_RANGE_DAYS} days`);
+    }
+
+    const movements = await ctx.db.query("stockMovements")
+      .withIndex("by_timestamp", q => q.eq("orgId", orgId).gte("timestamp", args.from).lte("timestamp", args.to))
+      .collect();
+
+    const byProduct = new Map<Id<"products">, { units: number; cost: number }>();
+    let writtenOff = 0;
+    for (const movement of movements) {
+      if (movement.type === "issue") {
+        const totals = byProduct.get(movement.productId) ?? { units: 0, cost: 0 };
+        totals.units -= movement.quantity;
+        totals.cost -= movement.cost ?? 0;
+        byProduct.set(movement.productId, totals);
+      } else if (movement.type === "adjustment" && movement.quantity < 0) {
+        writtenOff -= movement.cost ?? 0;
+      }
+    }
+
+    const getDoc = docLoader(ctx);
+    const products = await Promise.all([...byProduct].map(async ([productId, totals]) => {
+      const product = await getDoc(productId);
+      return {
+        productId,
+        productName: product?.name || "Unknown",
+        productSku: product?.sku || "Unknown",
+        units: totals.units,
+        cost: roundMoney(totals.cost),
+        averageUnitCost: roundMoney(totals.cost / totals.units),
+      };
+    }));
+
+    return {
+      totalCost: roundMoney(products.reduce((sum, product) => sum + product.cost, 0)),
+      writtenOff: roundMoney(writtenOff),
+      products: products.sort((a, b) => b.cost - a.cost),
+    };
+  },
+});
+
+// Makes an inventory row's cost layers add up to its on-hand stock, after
+// the stock was set without a movement (reconciliation) or was there before
+// cost layers existed. Missing stock is added as an opening layer at the
+// location's average or the product's standard cost; surplus layers are
+// used up oldest first. Returns the units added, negative when removed.
+export async function alignCostLayers(ctx: MutationCtx, item: Doc<"inventory">) {
+  if (!isLocated(item)) return 0;
+  const layers = await locationLayers(ctx, item.productId, item.warehouseId);
+  const difference = item.currentStock - layers.reduce((sum, layer) => sum + layer.quantity, 0);
+
+  if (difference > 0) {
+    await ctx.db.insert("costLayers", {
+      orgId: orgOf(item),
+      productId: item.productId,
+      warehouseId: item.warehouseId,
+      // Older than any layer added since, so FIFO uses it up first
+      receivedAt: Math.min(item._creationTime, ...layers.map(layer => layer.receivedAt)),
+      quantity: difference,
+      unitCost: averageCost(layers) ?? await standardCost(ctx, item.productId),
+    });
+  } else if (difference < 0) {
+    let surplus = -difference;
+    for (const layer of layers) {
+      if (surplus === 0) break;
+      const used = Math.min(layer.quantity, surplus);
+      surplus -= used;
+      if (used === layer.quantity) {
+        await ctx.db.delete(layer._id);
+      } else {
+        await ctx.db.patch(layer._id, { quantity: layer.quantity - used });
+      }
+    }
+  }
+  return difference;
+}
+
+// Adds opening layers for stock on hand from before cost layers existed, at
+// the product's standard cost, a batch of inventory rows per run:
+//   npx convex run costing:backfillCostLayers
+export const backfillCostLayers = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db.query("inventory").paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_BATCH });
+
+    let added = 0;
+    for (const item of page.page) {
+      if (await alignCostLayers(ctx, item) > 0) added++;
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.costing.backfillCostLayers, { cursor: page.continueCursor });
+    }
+    return added;
+  },
+});
+
+// Helper functions
+
+// Oldest first
+async function locationLayers(ctx: QueryCtx, productId: Id<"products">, warehouseId: Id<"warehouses">) {
+  return await ctx.db.query("costLayers")
+    .withIndex("by_location", q => q.eq("productId", productId).eq("warehouseId", warehouseId))
+    .collect();
+}
+
+// Undefined for a location without stock
+function averageCost(layers: Doc<"costLayers">[]) {
+  const units = layers.reduce((sum, layer) => sum + layer.quantity, 0);
+  if (units <= 0) return undefined;
+  return layers.reduce((sum, layer) => sum + layer.quantity * layer.unitCost, 0) / units;
+}
+
+async function averageLayers(ctx: MutationCtx, layers: Doc<"costLayers">[]) {
+  const unitCost = averageCost(layers);
+  if (unitCost === undefined) return;
+  for (const layer of layers) {
+    if (layer.unitCost !== unitCost) await ctx.db.patch(layer._id, { unitCost });
+  }
+}
+
+// The cost of stock with nothing better to go on: what the preferred
+// supplier charges for a unit
+async function standardCost(ctx: QueryCtx, productId: Id<"products">) {
+  const product = await ctx.db.get(productId);
+  if (!product) return 0;
+  const preferred = (await getProductSources(ctx, product)).find(source => source.isPreferred);
+  return preferred ? unitPriceFor(preferred, 1) : product.unitPrice;
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,57 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+crons.interval(
+  "evaluate alert rules",
+  { minutes: 15 },
+  internal.alerts.evaluateAlerts,
+  {},
+);
+
+crons.interval(
+  "escalate overdue alerts",
+  { minutes: 5 },
+  internal.alertEscalation.evaluateEscalations,
+  {},
+);
+
+// Digests that are due and deliveries waiting to be retried; new alerts
+// are sent straight away
+crons.interval(
+  "deliver alert notifications",
+  { minutes: 1 },
+  internal.notificationDelivery.deliverNotifications,
+);
+
+crons.daily(
+  "recompute supplier scores",
+  { hourUTC: 2, minuteUTC: 0 },
+  internal.supplierScoring.recomputeScores,
+  {},
+);
+
+crons.daily(
+  "reconcile inventory with stock ledger",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.stock.reconcileInventory,
+  {},
+);
+
+// Repairs dashboard counters that drifted from the tables they count
+crons.daily(
+  "check dashboard counters",
+  { hourUTC: 3, minuteUTC: 30 },
+  internal.dashboardCounters.checkDashboardCounters,
+  {},
+);
+
+// After the nightly repairs, so snapshots start from corrected figures
+crons.daily(
+  "capture KPI snapshots",
+  { hourUTC: 4, minuteUTC: 0 },
+  internal.analytics.captureKpiSnapshots,
+);
+
+export default crons;
@@ -0,0 +1,194 @@
+import { internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { scheduleForEachOrganization } from "./organizations";
+
+// The dashboard's stat cards read one document per organization instead of
+// scanning its suppliers, products, shipments and alerts. Every mutation
+// that inserts, changes or deletes one of those passes it as it was and as
+// it is now to the count*Change functions below, in the same transaction.
+// A daily job recounts from the tables and repairs any drift.
+
+export type DashboardCounts = {
+  suppliers: number;
+  reliabilityTotal: number;
+  products: number;
+  activeShipments: number;
+  delayedShipments: number;
+  activeAlerts: number;
+};
+
+const NO_COUNTS: DashboardCounts = {
+  suppliers: 0,
+  reliabilityTotal: 0,
+  products: 0,
+  activeShipments: 0,
+  delayedShipments: 0,
+  activeAlerts: 0,
+};
+
+type OrgDoc = { orgId?: Id<"organizations"> };
+
+// Pass null as before for an insert and as after for a delete
+export async function countSupplierChange(
+  ctx: MutationCtx,
+  before: Pick<Doc<"suppliers">, "orgId" | "reliabilityScore"> | null,
+  after: Pick<Doc<"suppliers">, "orgId" | "reliabilityScore"> | null,
+) {
+  await countChange(ctx, before, after, supplierCounts);
+}
+
+export async function countProductChange(ctx: MutationCtx, before: OrgDoc | null, after: OrgDoc | null) {
+  await countChange(ctx, before, after, () => ({ ...NO_COUNTS, products: 1 }));
+}
+
+export async function countShipmentChange(
+  ctx: MutationCtx,
+  before: Pick<Doc<"shipments">, "orgId" | "status"> | null,
+  after: Pick<Doc<"shipments">, "orgId" | "status"> | null,
+) {
+  await countChange(ctx, before, after, shipmentCounts);
+}
+
+export async function countAlertChange(
+  ctx: MutationCtx,
+  before: Pick<Doc<"alerts">, "orgId" | "isResolved"> | null,
+  after: Pick<Doc<"alerts">, "orgId" | "isResolved"> | null,
+) {
+  await countChange(ctx, before, after, alert => ({ ...NO_COUNTS, activeAlerts: alert.isResolved ? 0 : 1 }));
+}
+
+// Organizations without counters yet, e.g. from before they existed, are
+// counted from their tables until the first write or the daily check
+export async function getDashboardCounts(ctx: QueryCtx, orgId: Id<"organizations">) {
+  const counters = await getCounters(ctx, orgId);
+  return counters ? pickCounts(counters) : await countFromTables(ctx, orgId);
+}
+
+// Sets the counters from the tables, after bulk writes or to repair drift.
+// Returns the counts found and the ones they replaced, null if there were
+// none.
+export async function recountDashboard(ctx: MutationCtx, orgId: Id<"organizations">) {
+  const expected = await countFromTables(ctx, orgId);
+  const counters = await getCounters(ctx, orgId);
+  if (!counters) {
+    await ctx.db.insert("dashboardCounters", { orgId, ...expected, updatedAt: Date.now() });
+  } else if (!sameCounts(pickCounts(counters), expected)) {
+    await ctx.db.patch(counters._id, { ...expected, updatedAt: Date.now() });
+  }
+  return { expected, actual: counters ? pickCounts(counters) : null };
+}
+
+// Scheduled from crons.ts. Each organization is recounted in its own
+// mutation, which reads its suppliers and products but only the open
+// shipments and alerts, so it doesn't slow down as history grows.
+export const checkDashboardCounters = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args): Promise<number> => {
+    return await scheduleForEachOrganization(
+      ctx,
+      args.cursor,
+      internal.dashboardCounters.checkOrganizationCounters,
+      internal.dashboardCounters.checkDashboardCounters,
+    );
+  },
+});
+
+// Returns the counts found and the ones they replaced if the counters
+// needed repair, null if they were right
+export const checkOrganizationCounters = internalMutation({
+  args: { orgId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    const { expected, actual } = await recountDashboard(ctx, args.orgId);
+    return !actual || !sameCounts(actual, expected) ? { expected, actual } : null;
+  },
+});
+
+// Helper functions
+
+async function countChange<T extends OrgDoc>(
+  ctx: MutationCtx,
+  before: T | null,
+  after: T | null,
+  counts: (doc: T) => DashboardCounts,
+) {
+  const orgId = (after ?? before)?.orgId;
+  if (!orgId) return;
+  const delta = addCounts(after ? counts(after) : NO_COUNTS, before ? counts(before) : NO_COUNTS, -1);
+  // Writes that change no count leave the counters alone, so they don't
+  // conflict with other writes to them
+  if (sameCounts(delta, NO_COUNTS)) return;
+
+  const counters = await getCounters(ctx, orgId);
+  if (counters) {
+    await ctx.db.patch(counters._id, { ...addCounts(pickCounts(counters), delta), updatedAt: Date.now() });
+  } else {
+    // The tables already hold this change
+    await recountDashboard(ctx, orgId);
+  }
+}
+
+async function getCounters(ctx: QueryCtx, orgId: Id<"organizations">) {
+  return await ctx.db.query("dashboardCounters")
+    .withIndex("by_org", q => q.eq("orgId", orgId))
+    .unique();
+}
+
+async function countFromTables(ctx: QueryCtx, orgId: Id<"organizations">): Promise<DashboardCounts> {
+  const [suppliers, products, ordered, inTransit, delayed, alerts] = await Promise.all([
+    ctx.db.query("suppliers").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+    ctx.db.query("products").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+    shipmentsWithStatus(ctx, orgId, "ordered"),
+    shipmentsWithStatus(ctx, orgId, "in_transit"),
+    shipmentsWithStatus(ctx, orgId, "delayed"),
+    ctx.db.query("alerts").withIndex("by_org", q => q.eq("orgId", orgId).eq("isResolved", false)).collect(),
+  ]);
+  return {
+    suppliers: suppliers.length,
+    reliabilityTotal: suppliers.reduce((sum, supplier) => sum + supplier.reliabilityScore, 0),
+    products: products.length,
+    activeShipments: ordered.length + inTransit.length,
+    delayedShipments: delayed.length,
+    activeAlerts: alerts.length,
+  };
+}
+
+async function shipmentsWithStatus(ctx: QueryCtx, orgId: Id<"organizations">, status: Doc<"shipments">["status"]) {
+  return await ctx.db.query("shipments")
+    .withIndex("by_org_and_status", q => q.eq("orgId", orgId).eq("status", status))
+    .collect();
+}
+
+function supplierCounts(supplier: Pick<Doc<"suppliers">, "reliabilityScore">): DashboardCounts {
+  return { ...NO_COUNTS, suppliers: 1, reliabilityTotal: supplier.reliabilityScore };
+}
+
+function shipmentCounts(shipment: Pick<Doc<"shipments">, "status">): DashboardCounts {
+  return {
+    ...NO_COUNTS,
+    activeShipments: shipment.status === "ordered" || shipment.status === "in_transit" ? 1 : 0,
+    delayedShipments: shipment.status === "delayed" ? 1 : 0,
+  };
+}
+
+function pickCounts(counters: Doc<"dashboardCounters">): DashboardCounts {
+  const { suppliers, reliabilityTotal, products, activeShipments, delayedShipments, activeAlerts } = counters;
+  return { suppliers, reliabilityTotal, products, activeShipments, delayedShipments, activeAlerts };
+}
+
+// a + b, or a - b with a sign of -1
+function addCounts(a: DashboardCounts, b: DashboardCounts, sign = 1): DashboardCounts {
+  return {
+    suppliers: a.suppliers + sign * b.suppliers,
+    reliabilityTotal: a.reliabilityTotal + sign * b.reliabilityTotal,
+    products: a.products + sign * b.products,
+    activeShipments: a.activeShipments + sign * b.activeShipments,
+    delayedShipments: a.delayedShipments + sign * b.delayedShipments,
+    activeAlerts: a.activeAlerts + sign * b.activeAlerts,
+  };
+}
+
+function sameCounts(a: DashboardCounts, b: DashboardCounts) {
+  return (Object.keys(NO_COUNTS) as (keyof DashboardCounts)[]).every(key => a[key] === b[key]);
+}
@@ -0,0 +1,160 @@
+import { query, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { requirePermission } from "./organizations";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OPEN_SHIPMENT_STATUSES: Doc<"shipments">["status"][] = ["ordered", "in_transit", "delayed"];
+
+const DEFAULT_HISTORY_DAYS = 28;
+const DEFAULT_HORIZON_DAYS = 60;
+const DEFAULT_ALPHA = 0.3;
+
+export type ForecastMethod = "moving_average" | "exponential_smoothing";
+
+type InboundDelivery = { quantity: number; arrivesAt: number };
+
+// Daily issued quantities for the last `days` days, oldest first
+export function dailyDemandSeries(
+  movements: Pick<Doc<"stockMovements">, "type" | "quantity" | "timestamp">[],
+  days: number,
+  now: number,
+): number[] {
+  const start = now - days * DAY_MS;
+  const series: number[] = new Array(days).fill(0);
+  for (const movement of movements) {
+    if (movement.type !== "issue" || movement.timestamp < start || movement.timestamp >= now) continue;
+    const bucket = Math.floor((movement.timestamp - start) / DAY_MS);
+    series[bucket] += Math.abs(movement.quantity);
+  }
+  return series;
+}
+
+export function movingAverage(series: number[], window: number): number {
+  const recent = series.slice(-window);
+  if (recent.length === 0) return 0;
+  return recent.reduce((sum, value) => sum + value, 0) / recent.length;
+}
+
+export function exponentialSmoothing(series: number[], alpha: number): number {
+  if (series.length === 0) return 0;
+  let level = series[0];
+  for (let i = 1; i < series.length; i++) {
+    level = alpha * series[i] + (1 - alpha) * level;
+  }
+  return level;
+}
+
+// Walks forward one day at a time, consuming demand and adding inbound
+// deliveries on their arrival day. Returns the first day stock runs out,
+// or null if it lasts past the horizon.
+export function projectStockout(
+  available: number,
+  dailyDemand: number,
+  inbound: InboundDelivery[],
+  now: number,
+  horizonDays: number,
+): number | null {
+  if (available <= 0) return now;
+  if (dailyDemand <= 0) return null;
+
+  let stock = available;
+  for (let day = 1; day <= horizonDays; day++) {
+    const dayEnd = now + day * DAY_MS;
+    stock += inbound
+      .filter(d => d.arrivesAt > dayEnd - DAY_MS && d.arrivesAt <= dayEnd)
+      .reduce((sum, d) => sum + d.quantity, 0);
+    stock -= dailyDemand;
+    if (stock <= 0) {
+      // Interpolate within the day so the date isn't always rounded up
+      const overshoot = -stock / dailyDemand;
+      return Math.round(dayEnd - overshoot * DAY_MS);
+    }
+  }
+  return null;
+}
+
+// Shipments already past their expected date are assumed to slip by as much
+// again as they are already late, capped at the supplier's lead time
+export function estimateArrival(shipment: Doc<"shipments">, leadTimeDays: number, now: number): number {
+  if (shipment.expectedDeliveryDate >= now) return shipment.expectedDeliveryDate;
+  const lateness = now - shipment.expectedDeliveryDate;
+  return now + Math.max(DAY_MS, Math.min(lateness, leadTimeDays * DAY_MS));
+}
+
+export async function buildStockoutForecast(
+  ctx: QueryCtx,
+  orgId: Id<"organizations">,
+  options: { method?: ForecastMethod; historyDays?: number; horizonDays?: number; alpha?: number } = {},
+) {
+  const now = Date.now();
+  const method = options.method ?? "exponential_smoothing";
+  const historyDays = options.historyDays ?? DEFAULT_HISTORY_DAYS;
+  const horizonDays = options.horizonDays ?? DEFAULT_HORIZON_DAYS;
+  const alpha = options.alpha ?? DEFAULT_ALPHA;
+
+  const products = await ctx.db.query("products").withIndex("by_org", q => q.eq("orgId", orgId)).collect();
+  const forecast = await Promise.all(
+    products.map(async (product) => {
+      const [supplier, inventory, shipments, movements] = await Promise.all([
+        ctx.db.get(product.supplierId),
+        ctx.db.query("inventory").withIndex("by_product", q => q.eq("productId", product._id)).collect(),
+        ctx.db.query("shipments").withIndex("by_product", q => q.eq("productId", product._id)).collect(),
+        ctx.db.query("stockMovements")
+          .withIndex("by_product", q => q.eq("productId", product._id).gte("timestamp", now - historyDays * DAY_MS))
+          .collect(),
+      ]);
+
+      const leadTimeDays = supplier?.averageDeliveryDays ?? 0;
+      const available = inventory.reduce((sum, item) => sum + item.availableStock, 0);
+      const series = dailyDemandSeries(movements, historyDays, now);
+      const dailyDemand = method === "moving_average"
+        ? movingAverage(series, historyDays)
+        : exponentialSmoothing(series, alpha);
+
+      const inbound = shipments
+        .filter(s => OPEN_SHIPMENT_STATUSES.includes(s.status))
+        .map(s => ({ quantity: s.quantity, arrivesAt: estimateArrival(s, leadTimeDays, now) }));
+
+      const stockoutDate = projectStockout(available, dailyDemand, inbound, now, horizonDays);
+      const daysUntilStockout = stockoutDate === null ? null : Math.max(0, (stockoutDate - now) / DAY_MS);
+
+      return {
+        productId: product._id,
+        productName: product.name,
+        productSku: product.sku,
+        category: product.category,
+        supplierId: product.supplierId,
+        supplierName: supplier?.name || "Unknown",
+        availableStock: available,
+        dailyDemand: Math.round(dailyDemand * 100) / 100,
+        daysOfCover: dailyDemand > 0 ? Math.round((available / dailyDemand) * 10) / 10 : null,
+        inboundQuantity: inbound.reduce((sum, d) => sum + d.quantity, 0),
+        nextInboundDate: inbound.length > 0 ? Math.min(...inbound.map(d => d.arrivesAt)) : null,
+        leadTimeDays,
+        projectedStockoutDate: stockoutDate,
+        daysUntilStockout: daysUntilStockout === null ? null : Math.round(daysUntilStockout * 10) / 10,
+        // Latest date a new order can go out and still arrive before the stockout
+        reorderByDate: stockoutDate === null ? null : stockoutDate - leadTimeDays * DAY_MS,
+      };
+    })
+  );
+
+  return forecast.sort((a, b) =>
+    (a.projectedStockoutDate ?? Infinity) - (b.projectedStockoutDate ?? Infinity)
+  );
+}
+
+export const getStockoutForecast = query({
+  args: {
+    method: v.optional(v.union(v.literal("moving_average"), v.literal("exponential_smoothing"))),
+    historyDays: v.optional(v.number()),
+    horizonDays: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    return await buildStockoutForecast(ctx, orgId, args);
+  },
+});
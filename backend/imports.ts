@@ -0,0 +1,358 @@
+import { mutation, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { syncProductAlerts } from "./alerts";
+import { countProductChange, countSupplierChange } from "./dashboardCounters";
+import { Permission, requirePermission } from "./organizations";
+import { productSearchText } from "./products";
+import { postStockMovement } from "./stock";
+import { isValidEmail, NEW_SUPPLIER_RELIABILITY } from "./suppliers";
+
+// Bulk import of master data and stock counts. The client parses the file
+// and maps its columns onto the field names below; rows arrive as plain
+// strings and are validated and coerced here. Every import is planned first
+// and only written when no row has an error, so a file can be previewed
+// with dryRun and re-imported safely: rows that match what is stored
+// already come back as unchanged.
+
+const MAX_ROWS = 1000;
+
+const IMPORT_PERMISSIONS: Record<ImportEntity, Permission> = {
+  suppliers: "purchase",
+  products: "manage_inventory",
+  inventory: "manage_inventory",
+};
+
+type ImportEntity = "suppliers" | "products" | "inventory";
+
+type RawRow = Record<string, string>;
+
+type PlannedRow = {
+  row: number;
+  key: string;
+  action: "create" | "update" | "unchanged" | "error";
+  changes: string[];
+  errors: string[];
+  write?: () => Promise<void>;
+};
+
+export const importRecords = mutation({
+  args: {
+    entity: v.union(v.literal("suppliers"), v.literal("products"), v.literal("inventory")),
+    rows: v.array(v.record(v.string(), v.string())),
+    dryRun: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, IMPORT_PERMISSIONS[args.entity]);
+    if (args.rows.length === 0) throw new Error("The file has no rows to import");
+    if (args.rows.length > MAX_ROWS) {
+      throw new Error(`Imports are limited to ${MAX_ROWS} rows; split the file`);
+    }
+
+    const plan = args.entity === "suppliers"
+      ? await planSuppliers(ctx, orgId, args.rows)
+      : args.entity === "products"
+      ? await planProducts(ctx, orgId, args.rows)
+      : await planInventoryCounts(ctx, orgId, userId, args.rows);
+
+    const hasErrors = plan.some(row => row.action === "error");
+    const applied = !args.dryRun && !hasErrors;
+    if (applied) {
+      for (const row of plan) {
+        await row.write?.();
+      }
+    }
+
+    const count = (action: PlannedRow["action"]) => plan.filter(row => row.action === action).length;
+    return {
+      entity: args.entity,
+      dryRun: args.dryRun,
+      applied,
+      summary: { create: count("create"), update: count("update"), unchanged: count("unchanged"), error: count("error") },
+      rows: plan.map(({ write: _write, ...row }) => row),
+    };
+  },
+});
+
+// Suppliers are matched on contact email, then on name. Blank cells keep the
+// stored value when updating.
+async function planSuppliers(ctx: MutationCtx, orgId: Id<"organizations">, rows: RawRow[]) {
+  const suppliers = await ctx.db.query("suppliers").withIndex("by_org", q => q.eq("orgId", orgId)).collect();
+  const seen = new Map<string, number>();
+
+  return rows.map((raw, index): PlannedRow => {
+    const row = spreadsheetRow(index);
+    const read = rowReader(raw);
+    const name = read.text("name");
+    const contactEmail = read.text("contactEmail");
+    const fields = {
+      name,
+      contactEmail,
+      location: read.text("location"),
+      averageDeliveryDays: read.number("averageDeliveryDays", { min: 0 }),
+      status: read.choice("status", ["active", "inactive"] as const),
+      minimumOrderQuantity: read.number("minimumOrderQuantity", { min: 0, integer: true }),
+      minimumOrderValue: read.number("minimumOrderValue", { min: 0 }),
+    };
+    const key = name ?? contactEmail ?? "";
+    if (contactEmail && !isValidEmail(contactEmail)) read.errors.push(`contactEmail must be an email address, got "${contactEmail}"`);
+
+    const existing = (contactEmail && suppliers.find(s => s.contactEmail.toLowerCase() === contactEmail.toLowerCase())) ||
+      (name && suppliers.find(s => s.name.toLowerCase() === name.toLowerCase())) ||
+      null;
+    if (!existing) read.require(fields, ["name", "contactEmail", "location", "averageDeliveryDays"]);
+    read.unique(seen, existing?._id ?? key.toLowerCase(), row);
+    if (read.errors.length > 0) return { row, key, action: "error", changes: [], errors: read.errors };
+
+    if (!existing) {
+      return {
+        row, key, action: "create", changes: [], errors: [],
+        write: async () => {
+          await ctx.db.insert("suppliers", {
+            orgId,
+            name: fields.name!,
+            contactEmail: fields.contactEmail!,
+            location: fields.location!,
+            averageDeliveryDays: fields.averageDeliveryDays!,
+            status: fields.status ?? "active",
+            minimumOrderQuantity: fields.minimumOrderQuantity,
+            minimumOrderValue: fields.minimumOrderValue,
+            reliabilityScore: NEW_SUPPLIER_RELIABILITY,
+          });
+          await countSupplierChange(ctx, null, { orgId, reliabilityScore: NEW_SUPPLIER_RELIABILITY });
+        },
+      };
+    }
+
+    const patch = changedFields(existing, fields);
+    return updateOrUnchanged(row, existing.name, patch, () => ctx.db.patch(existing._id, patch));
+  });
+}
+
+// Products are matched on SKU. The supplier column holds a supplier's name or
+// contact email.
+async function planProducts(ctx: MutationCtx, orgId: Id<"organizations">, rows: RawRow[]) {
+  const [products, suppliers] = await Promise.all([
+    ctx.db.query("products").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+    ctx.db.query("suppliers").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+  ]);
+  const seen = new Map<string, number>();
+
+  const plan: PlannedRow[] = [];
+  for (const [index, raw] of rows.entries()) {
+    const row = spreadsheetRow(index);
+    const read = rowReader(raw);
+    const sku = read.text("sku");
+    const supplierRef = read.text("supplier");
+    const supplierId = supplierRef ? resolveSupplier(supplierRef, suppliers, read.errors) : undefined;
+    const fields = {
+      sku,
+      name: read.text("name"),
+      category: read.text("category"),
+      unitPrice: read.number("unitPrice", { min: 0 }),
+      reorderPoint: read.number("reorderPoint", { min: 0, integer: true }),
+      reorderQuantity: read.number("reorderQuantity", { min: 0, integer: true }),
+      supplierId,
+    };
+
+    if (!sku) read.errors.push("sku is required");
+    const existing = sku ? products.find(p => p.sku === sku) ?? null : null;
+    if (!existing) read.require(fields, ["name", "category", "unitPrice", "reorderPoint", "reorderQuantity"]);
+    if (!existing && !supplierRef) read.errors.push("supplier is required");
+    if (sku) read.unique(seen, sku, row);
+    if (read.errors.length > 0) {
+      plan.push({ row, key: sku ?? "", action: "error", changes: [], errors: read.errors });
+      continue;
+    }
+
+    if (!existing) {
+      plan.push({
+        row, key: sku!, action: "create", changes: [], errors: [],
+        write: async () => {
+          const productId = await ctx.db.insert("products", {
+            orgId,
+            sku: fields.sku!,
+            name: fields.name!,
+            category: fields.category!,
+            unitPrice: fields.unitPrice!,
+            reorderPoint: fields.reorderPoint!,
+            reorderQuantity: fields.reorderQuantity!,
+            supplierId: fields.supplierId!,
+            searchText: productSearchText({ name: fields.name!, sku: fields.sku! }),
+          });
+          await countProductChange(ctx, null, { orgId });
+          await syncProductAlerts(ctx, productId);
+        },
+      });
+      continue;
+    }
+
+    const patch = changedFields(existing, fields);
+    plan.push(updateOrUnchanged(row, existing.sku, patch, async () => {
+      await ctx.db.patch(existing._id, { ...patch, searchText: productSearchText({ ...existing, ...patch }) });
+      await syncProductAlerts(ctx, existing._id);
+    }));
+  }
+  return plan;
+}
+
+// Counted stock per product and warehouse, booked as cycle count
+// adjustments for the difference to the recorded stock
+async function planInventoryCounts(
+  ctx: MutationCtx,
+  orgId: Id<"organizations">,
+  userId: Id<"users">,
+  rows: RawRow[],
+) {
+  const [products, warehouses] = await Promise.all([
+    ctx.db.query("products").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+    ctx.db.query("warehouses").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+  ]);
+  const seen = new Map<string, number>();
+
+  const plan: PlannedRow[] = [];
+  for (const [index, raw] of rows.entries()) {
+    const row = spreadsheetRow(index);
+    const read = rowReader(raw);
+    const sku = read.text("sku");
+    const warehouseCode = read.text("warehouseCode")?.toUpperCase();
+    const countedStock = read.number("countedStock", { min: 0, integer: true });
+    const note = read.text("note");
+    read.require({ sku, warehouseCode, countedStock }, ["sku", "warehouseCode", "countedStock"]);
+    const key = `${sku ?? ""} @ ${warehouseCode ?? ""}`;
+
+    const product = sku ? products.find(p => p.sku === sku) : undefined;
+    const warehouse = warehouseCode ? warehouses.find(w => w.code === warehouseCode) : undefined;
+    if (sku && !product) read.errors.push(`No product with SKU ${sku}`);
+    if (warehouseCode && !warehouse) read.errors.push(`No warehouse with code ${warehouseCode}`);
+    if (product && warehouse) read.unique(seen, key, row);
+
+    const item = product && warehouse
+      ? await ctx.db.query("inventory")
+        .withIndex("by_product_and_warehouse", q => q.eq("productId", product._id).eq("warehouseId", warehouse._id))
+        .unique()
+      : null;
+    if (item && countedStock !== undefined && countedStock < item.reservedStock) {
+      read.errors.push(`countedStock is below the ${item.reservedStock} units reserved`);
+    }
+    if (read.errors.length > 0) {
+      plan.push({ row, key, action: "error", changes: [], errors: read.errors });
+      continue;
+    }
+
+    const difference = countedStock! - (item?.currentStock ?? 0);
+    if (difference === 0) {
+      plan.push({ row, key, action: "unchanged", changes: [], errors: [] });
+      continue;
+    }
+    plan.push({
+      row, key, action: item ? "update" : "create", changes: [`currentStock ${difference > 0 ? "+" : ""}${difference}`], errors: [],
+      write: async () => {
+        await postStockMovement(ctx, {
+          orgId,
+          productId: product!._id,
+          warehouseId: warehouse!._id,
+          type: "adjustment",
+          quantity: difference,
+          reasonCode: "cycle_count",
+          note: note ?? "Imported stock count",
+          userId,
+        });
+      },
+    });
+  }
+  return plan;
+}
+
+// Helper functions
+
+// Spreadsheet row numbers: the header is row 1
+function spreadsheetRow(index: number) {
+  return index + 2;
+}
+
+// Reads and coerces cells of one row, collecting an error per bad cell.
+// Blank cells read as undefined.
+function rowReader(raw: RawRow) {
+  const errors: string[] = [];
+  const cell = (field: string) => {
+    const value = raw[field]?.trim();
+    return value ? value : undefined;
+  };
+
+  return {
+    errors,
+    text: cell,
+    number(field: string, options: { min?: number; integer?: boolean } = {}) {
+      const value = cell(field);
+      if (value === undefined) return undefined;
+      const number = Number(value.replace(/[\s,]/g, ""));
+      if (!Number.isFinite(number)) {
+        errors.push(`${field} must be a number, got "${value}"`);
+      } else if (options.integer && !Number.isInteger(number)) {
+        errors.push(`${field} must be a whole number, got "${value}"`);
+      } else if (options.min !== undefined && number < options.min) {
+        errors.push(`${field} must be at least ${options.min}`);
+      } else {
+        return number;
+      }
+      return undefined;
+    },
+    choice<T extends string>(field: string, choices: readonly T[]) {
+      const value = cell(field)?.toLowerCase();
+      if (value === undefined) return undefined;
+      if (!(choices as readonly string[]).includes(value)) {
+        errors.push(`${field} must be one of ${choices.join(", ")}, got "${value}"`);
+        return undefined;
+      }
+      return value as T;
+    },
+    require(fields: Record<string, unknown>, required: string[]) {
+      for (const field of required) {
+        // Fields that failed to parse already have an error
+        if (fields[field] === undefined && !errors.some(e => e.startsWith(`${field} `))) {
+          errors.push(`${field} is required`);
+        }
+      }
+    },
+    // Flags the second and later rows in the file for the same record
+    unique(seen: Map<string, number>, key: string, row: number) {
+      const first = seen.get(key);
+      if (first !== undefined) {
+        errors.push(`Duplicate of row ${first}`);
+      } else {
+        seen.set(key, row);
+      }
+    },
+  };
+}
+
+function resolveSupplier(reference: string, suppliers: Doc<"suppliers">[], errors: string[]) {
+  const needle = reference.toLowerCase();
+  const byEmail = suppliers.find(s => s.contactEmail.toLowerCase() === needle);
+  if (byEmail) return byEmail._id;
+
+  const byName = suppliers.filter(s => s.name.toLowerCase() === needle);
+  if (byName.length === 1) return byName[0]._id;
+  errors.push(byName.length > 1
+    ? `Several suppliers are named "${reference}"; use the contact email instead`
+    : `No supplier with name or email "${reference}"`);
+  return undefined;
+}
+
+// The fields whose imported value differs from the stored one; blank
+// (undefined) imported values never count as a change
+function changedFields<T extends Record<string, unknown>>(existing: T, fields: Partial<T>): Partial<T> {
+  const patch: Partial<T> = {};
+  for (const [field, value] of Object.entries(fields) as [keyof T, T[keyof T] | undefined][]) {
+    if (value !== undefined && value !== existing[field]) patch[field] = value;
+  }
+  return patch;
+}
+
+function updateOrUnchanged(row: number, key: string, patch: object, write: () => Promise<unknown>): PlannedRow {
+  const changes = Object.keys(patch);
+  return changes.length === 0
+    ? { row, key, action: "unchanged", changes, errors: [] }
+    : { row, key, action: "update", changes, errors: [], write: async () => { await write(); } };
+}
@@ -0,0 +1,315 @@
+import { query, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { Doc, Id, TableNames } from "./_generated/dataModel";
+import { inOrg, requirePermission } from "./organizations";
+
+// Cursor-paginated lists behind the supplier, product, inventory and
+// shipment pages. Each filter narrows an index or a search index instead of
+// reading the whole organization, and only the rows of the requested page
+// are joined with the names they show.
+
+// Shipment date filters cover everything when left open
+const EARLIEST = 0;
+const LATEST = Number.MAX_SAFE_INTEGER;
+
+const shipmentStatusValidator = v.union(
+  v.literal("ordered"),
+  v.literal("in_transit"),
+  v.literal("delivered"),
+  v.literal("delayed"),
+  v.literal("cancelled")
+);
+
+// Search matches the supplier name
+export const listSuppliers = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    search: v.optional(v.string()),
+    status: v.optional(v.union(v.literal("active"), v.literal("inactive"))),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const search = args.search?.trim();
+    const { status } = args;
+    if (search) {
+      return await ctx.db.query("suppliers")
+        .withSearchIndex("search_name", q => {
+          const matches = q.search("name", search).eq("orgId", orgId);
+          return status ? matches.eq("status", status) : matches;
+        })
+        .paginate(args.paginationOpts);
+    }
+    const suppliers = status
+      ? ctx.db.query("suppliers").withIndex("by_status", q => q.eq("orgId", orgId).eq("status", status))
+      : ctx.db.query("suppliers").withIndex("by_org", q => q.eq("orgId", orgId));
+    return await suppliers.paginate(args.paginationOpts);
+  },
+});
+
+// Search matches the product name and SKU. The supplier filter is the
+// preferred supplier.
+export const listProducts = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    search: v.optional(v.string()),
+    category: v.optional(v.string()),
+    supplierId: v.optional(v.id("suppliers")),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const search = args.search?.trim();
+    const { category, supplierId } = args;
+    if (supplierId && !inOrg(await ctx.db.get(supplierId), orgId)) throw new Error("Supplier not found");
+
+    let result;
+    if (search) {
+      result = await ctx.db.query("products")
+        .withSearchIndex("search_text", q => {
+          let matches = q.search("searchText", search).eq("orgId", orgId);
+          if (category) matches = matches.eq("category", category);
+          if (supplierId) matches = matches.eq("supplierId", supplierId);
+          return matches;
+        })
+        .paginate(args.paginationOpts);
+    } else if (supplierId) {
+      result = await ctx.db.query("products")
+        .withIndex("by_supplier", q => q.eq("supplierId", supplierId))
+        .filter(q => category ? q.eq(q.field("category"), category) : true)
+        .paginate(args.paginationOpts);
+    } else if (category) {
+      result = await ctx.db.query("products")
+        .withIndex("by_category", q => q.eq("orgId", orgId).eq("category", category))
+        .paginate(args.paginationOpts);
+    } else {
+      result = await ctx.db.query("products")
+        .withIndex("by_org", q => q.eq("orgId", orgId))
+        .paginate(args.paginationOpts);
+    }
+
+    const getDoc = docLoader(ctx);
+    return {
+      ...result,
+      page: await Promise.all(result.page.map(async (product) => {
+        const [supplier, inventory] = await Promise.all([
+          getDoc(product.supplierId),
+          ctx.db.query("inventory").withIndex("by_product", q => q.eq("productId", product._id)).collect(),
+        ]);
+        const availableStock = inventory.reduce((sum, item) => sum + item.availableStock, 0);
+        return {
+          ...product,
+          supplierName: supplier?.name || "Unknown",
+          currentStock: inventory.reduce((sum, item) => sum + item.currentStock, 0),
+          availableStock,
+          needsReorder: availableStock <= product.reorderPoint,
+        };
+      })),
+    };
+  },
+});
+
+// The organization's product categories, one index read per category
+export const getProductCategories = query({
+  args: {},
+  handler: async (ctx) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const categories: string[] = [];
+    for (;;) {
+      const last = categories.at(-1);
+      const next = await ctx.db.query("products")
+        .withIndex("by_category", q => last === undefined ? q.eq("orgId", orgId) : q.eq("orgId", orgId).gt("category", last))
+        .first();
+      if (!next) return categories;
+      categories.push(next.category);
+    }
+  },
+});
+
+// Whether a row needs reordering depends on the product's stock in other
+// warehouses, which no index holds, so that filter is applied to each page
+// and pages can come back with fewer rows than asked for.
+export const listInventory = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    warehouseId: v.optional(v.id("warehouses")),
+    productId: v.optional(v.id("products")),
+    needsReorder: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const { warehouseId, productId } = args;
+    if (warehouseId && !inOrg(await ctx.db.get(warehouseId), orgId)) throw new Error("Warehouse not found");
+    if (productId && !inOrg(await ctx.db.get(productId), orgId)) throw new Error("Product not found");
+
+    const inventory = productId && warehouseId
+      ? ctx.db.query("inventory").withIndex("by_product_and_warehouse", q => q.eq("productId", productId).eq("warehouseId", warehouseId))
+      : productId
+        ? ctx.db.query("inventory").withIndex("by_product", q => q.eq("productId", productId))
+        : warehouseId
+          ? ctx.db.query("inventory").withIndex("by_warehouse", q => q.eq("warehouseId", warehouseId))
+          : ctx.db.query("inventory").withIndex("by_org", q => q.eq("orgId", orgId));
+    const result = await inventory.paginate(args.paginationOpts);
+
+    const rows = await describeInventory(ctx, result.page);
+    return {
+      ...result,
+      page: args.needsReorder === undefined ? rows : rows.filter(row => row.needsReorder === args.needsReorder),
+    };
+  },
+});
+
+// Newest expected delivery first. The date range applies to the expected
+// delivery date.
+export const listShipments = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    status: v.optional(shipmentStatusValidator),
+    supplierId: v.optional(v.id("suppliers")),
+    productId: v.optional(v.id("products")),
+    warehouseId: v.optional(v.id("warehouses")),
+    from: v.optional(v.number()),
+    to: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const { status, supplierId, productId, warehouseId } = args;
+    if (supplierId && !inOrg(await ctx.db.get(supplierId), orgId)) throw new Error("Supplier not found");
+    if (productId && !inOrg(await ctx.db.get(productId), orgId)) throw new Error("Product not found");
+    if (warehouseId && !inOrg(await ctx.db.get(warehouseId), orgId)) throw new Error("Warehouse not found");
+    const from = args.from ?? EARLIEST;
+    const to = args.to ?? LATEST;
+
+    // The most selective filter picks the index; the rest are checked per row
+    const indexed = supplierId
+      ? ctx.db.query("shipments").withIndex("by_supplier", q =>
+        q.eq("supplierId", supplierId).gte("expectedDeliveryDate", from).lte("expectedDeliveryDate", to))
+      : productId
+        ? ctx.db.query("shipments").withIndex("by_product", q =>
+          q.eq("productId", productId).gte("expectedDeliveryDate", from).lte("expectedDeliveryDate", to))
+        : warehouseId
+          ? ctx.db.query("shipments").withIndex("by_warehouse", q =>
+            q.eq("warehouseId", warehouseId).gte("expectedDeliveryDate", from).lte("expectedDeliveryDate", to))
+          : status
+            ? ctx.db.query("shipments").withIndex("by_org_and_status", q =>
+              q.eq("orgId", orgId).eq("status", status).gte("expectedDeliveryDate", from).lte("expectedDeliveryDate", to))
+            : ctx.db.query("shipments").withIndex("by_org_and_expected_delivery", q =>
+              q.eq("orgId", orgId).gte("expectedDeliveryDate", from).lte("expectedDeliveryDate", to));
+
+    const result = await indexed
+      .order("desc")
+      .filter(q => q.and(
+        status ? q.eq(q.field("status"), status) : true,
+        productId ? q.eq(q.field("productId"), productId) : true,
+        warehouseId ? q.eq(q.field("warehouseId"), warehouseId) : true,
+      ))
+      .paginate(args.paginationOpts);
+
+    const getDoc = docLoader(ctx);
+    return {
+      ...result,
+      page: await Promise.all(result.page.map(async (shipment) => {
+        const [supplier, product, warehouse] = await Promise.all([
+          getDoc(shipment.supplierId),
+          getDoc(shipment.productId),
+          shipment.warehouseId ? getDoc(shipment.warehouseId) : null,
+        ]);
+        return {
+          ...shipment,
+          supplierName: supplier?.name || "Unknown",
+          productName: product?.name || "Unknown",
+          productSku: product?.sku || "Unknown",
+          warehouseName: warehouse?.name ?? null,
+        };
+      })),
+    };
+  },
+});
+
+// The signed-in member's questions, newest first
+export const listQueryHistory = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    from: v.optional(v.number()),
+    to: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "read");
+
+    return await ctx.db.query("queries")
+      .withIndex("by_user", q => q.eq("orgId", orgId).eq("userId", userId)
+        .gte("timestamp", args.from ?? EARLIEST).lte("timestamp", args.to ?? LATEST))
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
+
+// Helper functions
+
+// Gets documents by id, reading each at most once however many rows refer
+// to it
+export function docLoader(ctx: QueryCtx) {
+  const loaded = new Map<string, Promise<unknown>>();
+  return <T extends TableNames>(id: Id<T>) => {
+    let doc = loaded.get(id);
+    if (!doc) {
+      doc = ctx.db.get(id);
+      loaded.set(id, doc);
+    }
+    return doc as Promise<Doc<T> | null>;
+  };
+}
+
+export type LocatedInventory = Doc<"inventory"> & { warehouseId: Id<"warehouses"> };
+
+// Rows from before warehouses existed have none until
+// warehouses:backfillInventoryWarehouses has moved them into one
+export function isLocated(item: Doc<"inventory">): item is LocatedInventory {
+  return item.warehouseId !== undefined;
+}
+
+// Inventory rows with their product and warehouse names and whether they
+// need reordering. Rows without a warehouse reorder point are judged on the
+// product's stock across all warehouses, not on the row alone.
+export async function describeInventory(ctx: QueryCtx, inventory: Doc<"inventory">[]) {
+  const getDoc = docLoader(ctx);
+  const productTotals = new Map<string, Promise<number>>();
+  const productAvailable = (productId: Id<"products">) => {
+    let total = productTotals.get(productId);
+    if (!total) {
+      total = ctx.db.query("inventory")
+        .withIndex("by_product", q => q.eq("productId", productId))
+        .collect()
+        .then(rows => rows.reduce((sum, row) => sum + row.availableStock, 0));
+      productTotals.set(productId, total);
+    }
+    return total;
+  };
+
+  return await Promise.all(
+    inventory.filter(isLocated).map(async (item) => {
+      const [product, warehouse, available] = await Promise.all([
+        getDoc(item.productId),
+        getDoc(item.warehouseId),
+        productAvailable(item.productId),
+      ]);
+      const reorderPoint = item.reorderPoint ?? product?.reorderPoint ?? 0;
+      return {
+        ...item,
+        productName: product?.name || "Unknown",
+        productSku: product?.sku || "Unknown",
+        warehouseName: warehouse?.name || "Unknown",
+        warehouseCode: warehouse?.code || "Unknown",
+        reorderPoint,
+        productAvailableStock: available,
+        needsReorder: item.reorderPoint !== undefined
+          ? item.availableStock <= item.reorderPoint
+          : available <= reorderPoint,
+      };
+    })
+  );
+}
@@ -1,33 +1,48 @@
-import { query, mutation, action } from "./_generated/server";
+import { query, mutation, internalMutation, action, QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
-import { getAuthUserId } from "@convex-dev/auth/server";
 import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { evaluateAllAlertRules } from "./alerts";
+import { countOverdueAlerts, getEscalationPolicies } from "./alertEscalation";
+import { getDashboardCounts, recountDashboard } from "./dashboardCounters";
+import { recomputeAllSupplierScores } from "./supplierScoring";
+import { postStockMovement } from "./stock";
+import { productSearchText } from "./products";
+import { describeInventory, docLoader } from "./lists";
+import { analyzeSupplyChainQuery } from "./assistant/pipeline";
+import { answerWithLlm, getConfiguredProvider } from "./assistant/llm";
+import { Analysis, TurnContext } from "./assistant/types";
+import { requireOwnConversation } from "./conversations";
+import { inOrg, requirePermission } from "./organizations";
+import {
+  answerTableValidator,
+  entityRefValidator,
+  suggestedActionValidator,
+  turnContextValidator,
+} from "./assistant/validators";
 
 // Query functions for dashboard data
 export const getDashboardStats = query({
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
-
-    const [suppliers, products, shipments, alerts] = await Promise.all([
-      ctx.db.query("suppliers").collect(),
-      ctx.db.query("products").collect(),
-      ctx.db.query("shipments").collect(),
-      ctx.db.query("alerts").filter(q => q.eq(q.field("isResolved"), false)).collect(),
-    ]);
+    const { orgId } = await requirePermission(ctx, "read");
 
-    const activeShipments = shipments.filter(s => s.status === "in_transit" || s.status === "ordered");
-    const delayedShipments = shipments.filter(s => s.status === "delayed");
-    const avgReliability = suppliers.reduce((sum, s) => sum + s.reliabilityScore, 0) / suppliers.length;
+    const [counts, policies] = await Promise.all([
+      getDashboardCounts(ctx, orgId),
+      getEscalationPolicies(ctx, orgId),
+    ]);
+    const overdueAlerts = await countOverdueAlerts(ctx, orgId, policies, Date.now());
 
     return {
-      totalSuppliers: suppliers.length,
-      totalProducts: products.length,
-      activeShipments: activeShipments.length,
-      delayedShipments: delayedShipments.length,
-      avgSupplierReliability: Math.round(avgReliability),
-      activeAlerts: alerts.length,
+      totalSuppliers: counts.suppliers,
+      totalProducts: counts.products,
+      activeShipments: counts.activeShipments,
+      delayedShipments: counts.delayedShipments,
+      // null until there are suppliers to average
+      avgSupplierReliability: counts.suppliers > 0 ? Math.round(counts.reliabilityTotal / counts.suppliers) : null,
+      activeAlerts: counts.activeAlerts,
+      overdueAlerts,
+      alertsWithinSla: counts.activeAlerts - overdueAlerts,
     };
   },
 });
@@ -35,23 +50,22 @@ export const getDashboardStats = query({
 export const getSuppliers = query({
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { orgId } = await requirePermission(ctx, "read");
     
-    return await ctx.db.query("suppliers").collect();
+    return await ctx.db.query("suppliers").withIndex("by_org", q => q.eq("orgId", orgId)).collect();
   },
 });
 
 export const getProducts = query({
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { orgId } = await requirePermission(ctx, "read");
     
-    const products = await ctx.db.query("products").collect();
+    const products = await ctx.db.query("products").withIndex("by_org", q => q.eq("orgId", orgId)).collect();
+    const getDoc = docLoader(ctx);
     const productsWithSuppliers = await Promise.all(
       products.map(async (product) => {
-        const supplier = await ctx.db.get(product.supplierId);
+        const supplier = await getDoc(product.supplierId);
         return { ...product, supplierName: supplier?.name || "Unknown" };
       })
     );
@@ -61,41 +75,32 @@ export const getProducts = query({
 });
 
 export const getInventoryStatus = query({
-  args: {},
-  handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
-    
-    const inventory = await ctx.db.query("inventory").collect();
-    const inventoryWithProducts = await Promise.all(
-      inventory.map(async (item) => {
-        const product = await ctx.db.get(item.productId);
-        return { 
-          ...item, 
-          productName: product?.name || "Unknown",
-          productSku: product?.sku || "Unknown",
-          reorderPoint: product?.reorderPoint || 0,
-          needsReorder: item.availableStock <= (product?.reorderPoint || 0)
-        };
-      })
-    );
+  args: { warehouseId: v.optional(v.id("warehouses")) },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
     
-    return inventoryWithProducts;
+    if (args.warehouseId && !inOrg(await ctx.db.get(args.warehouseId), orgId)) {
+      throw new Error("Warehouse not found");
+    }
+    return await buildInventoryStatus(ctx, orgId, args.warehouseId);
   },
 });
 
 export const getShipments = query({
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { orgId } = await requirePermission(ctx, "read");
     
-    const shipments = await ctx.db.query("shipments").order("desc").take(50);
+    const shipments = await ctx.db.query("shipments")
+      .withIndex("by_org", q => q.eq("orgId", orgId))
+      .order("desc")
+      .take(50);
+    const getDoc = docLoader(ctx);
     const shipmentsWithDetails = await Promise.all(
       shipments.map(async (shipment) => {
         const [supplier, product] = await Promise.all([
-          ctx.db.get(shipment.supplierId),
-          ctx.db.get(shipment.productId),
+          getDoc(shipment.supplierId),
+          getDoc(shipment.productId),
         ]);
         return {
           ...shipment,
@@ -110,15 +115,17 @@ export const getShipments = query({
   },
 });
 
+// The latest active alerts; snoozed ones stay out of sight until they wake up
 export const getAlerts = query({
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { orgId } = await requirePermission(ctx, "read");
     
+    const now = Date.now();
     return await ctx.db.query("alerts")
-      .filter(q => q.eq(q.field("isResolved"), false))
+      .withIndex("by_org", q => q.eq("orgId", orgId).eq("isResolved", false))
       .order("desc")
+      .filter(q => q.or(q.eq(q.field("snoozedUntil"), undefined), q.lte(q.field("snoozedUntil"), now)))
       .take(20);
   },
 });
@@ -126,217 +133,152 @@ export const getAlerts = query({
 export const getQueryHistory = query({
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId, orgId } = await requirePermission(ctx, "read");
     
     return await ctx.db.query("queries")
-      .withIndex("by_user", q => q.eq("userId", userId))
+      .withIndex("by_user", q => q.eq("orgId", orgId).eq("userId", userId))
       .order("desc")
       .take(10);
   },
 });
 
-// Smart query processing using rule-based analysis
+// Whether answers can come from a language model (see assistant/llm.ts)
+export const getAssistantInfo = query({
+  args: {},
+  handler: async (ctx) => {
+    await requirePermission(ctx, "read");
+
+    const provider = getConfiguredProvider();
+    return {
+      llmEnabled: provider !== null,
+      model: provider?.model ?? null,
+    };
+  },
+});
+
+// Smart query processing: a language model when one is configured and
+// requested, otherwise the intent pipeline in assistant/. Without a
+// conversationId the question starts a new conversation.
 export const processQuery = action({
-  args: { question: v.string() },
+  args: {
+    question: v.string(),
+    mode: v.optional(v.union(v.literal("auto"), v.literal("rules"))),
+    conversationId: v.optional(v.id("conversations")),
+  },
   handler: async (ctx, args): Promise<any> => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId, orgId } = await ctx.runQuery(internal.organizations.getCaller);
 
-    // Get relevant data for context
-    const [suppliers, products, shipments, inventory, alerts] = await Promise.all([
+    // Get relevant data for context. Each query checks the caller's
+    // membership and reads only their current organization's data.
+    const [suppliers, products, warehouses, shipments, inventory, alerts, forecast, scorecards, replenishment, catalog] = await Promise.all([
       ctx.runQuery(api.logistics.getSuppliers),
       ctx.runQuery(api.logistics.getProducts),
+      ctx.runQuery(api.warehouses.getWarehouses, {}),
       ctx.runQuery(api.logistics.getShipments),
-      ctx.runQuery(api.logistics.getInventoryStatus),
+      ctx.runQuery(api.logistics.getInventoryStatus, {}),
       ctx.runQuery(api.logistics.getAlerts),
+      ctx.runQuery(api.forecasting.getStockoutForecast, {}),
+      ctx.runQuery(api.supplierScoring.getSupplierScorecards),
+      ctx.runQuery(api.replenishment.getReplenishmentSuggestions, {}),
+      ctx.runQuery(api.supplierCatalog.getSupplierCatalog),
     ]);
 
-    // Analyze the question and generate insights
-    const analysis = analyzeSupplyChainQuery(
-      args.question,
-      suppliers,
-      products,
-      shipments,
-      inventory,
-      alerts,
-    );
+    const data = { suppliers, products, warehouses, shipments, inventory, alerts, forecast, scorecards, replenishment, catalog };
+
+    const conversationId = args.conversationId ??
+      await ctx.runMutation(api.conversations.createConversation, { title: args.question });
+    const history = args.conversationId
+      ? await ctx.runQuery(api.conversations.getConversationMessages, { conversationId })
+      : [];
+    const previous = history.at(-1)?.context ?? null;
+
+    let analysis: (Analysis & { answeredBy: string; intent?: string; context?: TurnContext }) | null = null;
+    const provider = args.mode === "rules" ? null : getConfiguredProvider();
+    if (provider) {
+      try {
+        analysis = {
+          ...(await answerWithLlm(ctx, provider, args.question, data, history)),
+          answeredBy: provider.model,
+        };
+      } catch (error) {
+        console.error("LLM answer failed, falling back to rules", error);
+      }
+    }
+
+    // Classify the question, resolve the entities it mentions (including
+    // references back to the previous answer) and let the matching intent
+    // handler answer it
+    analysis ??= {
+      ...analyzeSupplyChainQuery(args.question, data, Date.now(), previous),
+      answeredBy: "rules",
+    };
 
     // Save the query and response
-    await ctx.runMutation(api.logistics.saveQuery, {
+    const queryId = await ctx.runMutation(internal.logistics.saveQuery, {
+      userId,
+      orgId,
+      conversationId,
       question: args.question,
       response: analysis.response,
       insights: analysis.insights,
       recommendations: analysis.recommendations,
+      answeredBy: analysis.answeredBy,
+      intent: analysis.intent,
+      context: analysis.context,
+      tables: analysis.tables,
+      entityRefs: analysis.entityRefs,
+      actions: analysis.actions,
     });
 
-    return analysis;
+    return { ...analysis, conversationId, queryId };
   },
 });
 
-// Rule-based analysis function
-function analyzeSupplyChainQuery(
-  question: string,
-  suppliers: any[],
-  products: any[],
-  shipments: any[],
-  inventory: any[],
-  alerts: any[]
-): any {
-  const lowerQuestion = question.toLowerCase();
-  let response = "";
-  const insights: string[] = [];
-  const recommendations: string[] = [];
-
-  // Analyze supplier delays
-  if (lowerQuestion.includes("delay") || lowerQuestion.includes("delayed")) {
-    const delayedShipments = shipments.filter(s => s.status === "delayed");
-    const delayedSuppliers = [...new Set(delayedShipments.map(s => s.supplierName))];
-    
-    if (delayedShipments.length > 0) {
-      response = `Found ${delayedShipments.length} delayed shipments.`;
-      insights.push(`${delayedSuppliers.length} suppliers have delayed shipments`);
-      insights.push(`Most common delay reason: ${getMostCommonDelayReason(delayedShipments)}`);
-      recommendations.push("Contact delayed suppliers for updated delivery timelines");
-      recommendations.push("Consider alternative suppliers for critical items");
-    } else {
-      response = "No delayed shipments found in the system.";
-    }
-  }
-
-  // Analyze reorder needs
-  else if (lowerQuestion.includes("reorder") || lowerQuestion.includes("stock")) {
-    const lowStockItems = inventory.filter(item => item.needsReorder);
-    
-    if (lowStockItems.length > 0) {
-      response = `Found ${lowStockItems.length} items that need reordering.`;
-      insights.push(`${lowStockItems.length} products are below reorder points`);
-      insights.push(`Total value of items needing reorder: $${calculateReorderValue(lowStockItems, products)}`);
-      recommendations.push("Place orders for low stock items immediately");
-      recommendations.push("Review reorder points for frequently low items");
-    } else {
-      response = "All inventory levels are above reorder points.";
-    }
-  }
-
-  // Analyze supplier reliability
-  else if (lowerQuestion.includes("reliability") || lowerQuestion.includes("reliable")) {
-    const lowReliabilitySuppliers = suppliers.filter(s => s.reliabilityScore < 70);
-    const avgReliability = suppliers.reduce((sum, s) => sum + s.reliabilityScore, 0) / suppliers.length;
-    
-    response = `Average supplier reliability is ${Math.round(avgReliability)}%.`;
-    insights.push(`${lowReliabilitySuppliers.length} suppliers have reliability below 70%`);
-    if (lowReliabilitySuppliers.length > 0) {
-      insights.push(`Lowest reliability supplier: ${lowReliabilitySuppliers[0].name} (${lowReliabilitySuppliers[0].reliabilityScore}%)`);
-      recommendations.push("Review contracts with low reliability suppliers");
-      recommendations.push("Develop backup supplier relationships");
-    }
-  }
-
-  // Analyze inventory levels
-  else if (lowerQuestion.includes("inventory") || lowerQuestion.includes("stock level")) {
-    const totalItems = inventory.length;
-    const lowStockCount = inventory.filter(item => item.needsReorder).length;
-    const outOfStockCount = inventory.filter(item => item.availableStock === 0).length;
-    
-    response = `Current inventory status: ${totalItems} total items, ${lowStockCount} need reorder, ${outOfStockCount} out of stock.`;
-    insights.push(`${((lowStockCount / totalItems) * 100).toFixed(1)}% of items need reordering`);
-    if (outOfStockCount > 0) {
-      insights.push(`${outOfStockCount} items are completely out of stock`);
-      recommendations.push("Urgently reorder out-of-stock items");
-    }
-  }
-
-  // Analyze active shipments
-  else if (lowerQuestion.includes("shipment") || lowerQuestion.includes("delivery")) {
-    const activeShipments = shipments.filter(s => s.status === "in_transit" || s.status === "ordered");
-    const upcomingDeliveries = shipments.filter(s => 
-      s.expectedDeliveryDate > Date.now() && 
-      s.expectedDeliveryDate < Date.now() + 7 * 24 * 60 * 60 * 1000
-    );
-    
-    response = `There are ${activeShipments.length} active shipments.`;
-    insights.push(`${upcomingDeliveries.length} deliveries expected this week`);
-    if (upcomingDeliveries.length > 0) {
-      insights.push(`Next delivery: ${upcomingDeliveries[0].productName} from ${upcomingDeliveries[0].supplierName}`);
-    }
-  }
-
-  // Default response for unrecognized queries
-  else {
-    response = "I've analyzed your supply chain data. Here's what I found:";
-    insights.push(`Total suppliers: ${suppliers.length}`);
-    insights.push(`Total products: ${products.length}`);
-    insights.push(`Active shipments: ${shipments.filter(s => s.status === "in_transit" || s.status === "ordered").length}`);
-    insights.push(`Active alerts: ${alerts.length}`);
-    recommendations.push("Review dashboard metrics for detailed insights");
-    recommendations.push("Check alerts for any urgent issues");
-  }
-
-  return {
-    response,
-    insights,
-    recommendations,
-  };
-}
-
-// Helper functions
-function getMostCommonDelayReason(shipments: any[]): string {
-  const reasons = shipments.map(s => s.delayReason).filter(Boolean);
-  if (reasons.length === 0) return "Unknown";
-  
-  const counts: { [key: string]: number } = {};
-  reasons.forEach(reason => {
-    counts[reason] = (counts[reason] || 0) + 1;
-  });
-  
-  return Object.entries(counts).sort(([,a], [,b]) => b - a)[0][0];
-}
-
-function calculateReorderValue(lowStockItems: any[], products: any[]): number {
-  return lowStockItems.reduce((total, item) => {
-    const product = products.find(p => p._id === item.productId);
-    const reorderQuantity = product?.reorderQuantity || 0;
-    const unitPrice = product?.unitPrice || 0;
-    return total + (reorderQuantity * unitPrice);
-  }, 0);
-}
-
-export const saveQuery = mutation({
+// Only processQuery stores answers, so the suggested actions and follow-up
+// context in them come from the assistant, never from the client
+export const saveQuery = internalMutation({
   args: {
+    userId: v.id("users"),
+    orgId: v.id("organizations"),
+    conversationId: v.optional(v.id("conversations")),
     question: v.string(),
     response: v.string(),
     insights: v.array(v.string()),
     recommendations: v.array(v.string()),
+    answeredBy: v.optional(v.string()),
+    intent: v.optional(v.string()),
+    context: v.optional(turnContextValidator),
+    tables: v.optional(v.array(answerTableValidator)),
+    entityRefs: v.optional(v.array(entityRefValidator)),
+    actions: v.optional(v.array(suggestedActionValidator)),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const timestamp = Date.now();
+    if (args.conversationId) {
+      await requireOwnConversation(ctx, args.conversationId, args.userId, args.orgId);
+      await ctx.db.patch(args.conversationId, { updatedAt: timestamp });
+    }
 
     return await ctx.db.insert("queries", {
-      userId,
-      question: args.question,
-      response: args.response,
-      insights: args.insights,
-      recommendations: args.recommendations,
-      timestamp: Date.now(),
+      ...args,
+      timestamp,
     });
   },
 });
 
-// Initialize sample data
+// Initialize sample data in the current organization
 export const initializeSampleData = mutation({
   args: {},
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { userId, orgId } = await requirePermission(ctx, "admin");
 
     // Check if data already exists
-    const existingSuppliers = await ctx.db.query("suppliers").first();
+    const existingSuppliers = await ctx.db.query("suppliers").withIndex("by_org", q => q.eq("orgId", orgId)).first();
     if (existingSuppliers) return { message: "Sample data already exists" };
 
     // Create sample suppliers
     const supplier1 = await ctx.db.insert("suppliers", {
+      orgId,
       name: "Global Electronics Co.",
       location: "Shenzhen, China",
       reliabilityScore: 85,
@@ -346,6 +288,7 @@ export const initializeSampleData = mutation({
     });
 
     const supplier2 = await ctx.db.insert("suppliers", {
+      orgId,
       name: "FastTrack Logistics",
       location: "Los Angeles, USA",
       reliabilityScore: 92,
@@ -355,6 +298,7 @@ export const initializeSampleData = mutation({
     });
 
     const supplier3 = await ctx.db.insert("suppliers", {
+      orgId,
       name: "EuroTech Solutions",
       location: "Berlin, Germany",
       reliabilityScore: 78,
@@ -363,8 +307,26 @@ export const initializeSampleData = mutation({
       status: "active",
     });
 
+    // Create sample warehouses
+    const warehouseA = await ctx.db.insert("warehouses", {
+      orgId,
+      name: "Warehouse A",
+      code: "WH-A",
+      location: "Reno, USA",
+      isActive: true,
+    });
+
+    const warehouseB = await ctx.db.insert("warehouses", {
+      orgId,
+      name: "Warehouse B",
+      code: "WH-B",
+      location: "Rotterdam, Netherlands",
+      isActive: true,
+    });
+
     // Create sample products
     const product1 = await ctx.db.insert("products", {
+      orgId,
       name: "Wireless Headphones",
       sku: "WH-001",
       category: "Electronics",
@@ -372,9 +334,11 @@ export const initializeSampleData = mutation({
       reorderPoint: 50,
       reorderQuantity: 200,
       supplierId: supplier1,
+      searchText: productSearchText({ name: "Wireless Headphones", sku: "WH-001" }),
     });
 
     const product2 = await ctx.db.insert("products", {
+      orgId,
       name: "Smartphone Case",
       sku: "SC-002",
       category: "Accessories",
@@ -382,9 +346,11 @@ export const initializeSampleData = mutation({
       reorderPoint: 100,
       reorderQuantity: 500,
       supplierId: supplier2,
+      searchText: productSearchText({ name: "Smartphone Case", sku: "SC-002" }),
     });
 
     const product3 = await ctx.db.insert("products", {
+      orgId,
       name: "Bluetooth Speaker",
       sku: "BS-003",
       category: "Electronics",
@@ -392,41 +358,28 @@ export const initializeSampleData = mutation({
       reorderPoint: 25,
       reorderQuantity: 100,
       supplierId: supplier3,
+      searchText: productSearchText({ name: "Bluetooth Speaker", sku: "BS-003" }),
     });
 
-    // Create sample inventory
-    await ctx.db.insert("inventory", {
-      productId: product1,
-      currentStock: 45,
-      reservedStock: 10,
-      availableStock: 35,
-      lastUpdated: Date.now(),
-      warehouseLocation: "Warehouse A",
-    });
-
-    await ctx.db.insert("inventory", {
-      productId: product2,
-      currentStock: 250,
-      reservedStock: 50,
-      availableStock: 200,
-      lastUpdated: Date.now(),
-      warehouseLocation: "Warehouse B",
-    });
+    // Create sample supplier catalog entries, with alternate suppliers
+    const now = Date.now();
+    const dayMs = 24 * 60 * 60 * 1000;
 
-    await ctx.db.insert("inventory", {
-      productId: product3,
-      currentStock: 15,
-      reservedStock: 5,
-      availableStock: 10,
-      lastUpdated: Date.now(),
-      warehouseLocation: "Warehouse A",
-    });
+    const catalog = [
+      { supplierId: supplier1, productId: product1, unitPrice: 89.99, priceBreaks: [{ minQuantity: 500, unitPrice: 84.5 }], minimumOrderQuantity: 50, isPreferred: true },
+      { supplierId: supplier2, productId: product1, unitPrice: 96.5, priceBreaks: [], leadTimeDays: 5, isPreferred: false },
+      { supplierId: supplier3, productId: product3, unitPrice: 149.99, priceBreaks: [], isPreferred: true },
+      { supplierId: supplier1, productId: product3, unitPrice: 139, priceBreaks: [{ minQuantity: 200, unitPrice: 132 }], minimumOrderQuantity: 50, leadTimeDays: 16, isPreferred: false },
+      { supplierId: supplier2, productId: product3, unitPrice: 159, priceBreaks: [], leadTimeDays: 5, isPreferred: false },
+    ];
+    for (const entry of catalog) {
+      await ctx.db.insert("supplierProducts", { orgId, ...entry, updatedAt: now });
+    }
 
     // Create sample shipments
-    const now = Date.now();
-    const dayMs = 24 * 60 * 60 * 1000;
 
     await ctx.db.insert("shipments", {
+      orgId,
       supplierId: supplier1,
       productId: product1,
       quantity: 200,
@@ -434,9 +387,11 @@ export const initializeSampleData = mutation({
       expectedDeliveryDate: now + 4 * dayMs,
       status: "in_transit",
       trackingNumber: "TRK123456789",
+      unitCost: 89.99,
     });
 
     await ctx.db.insert("shipments", {
+      orgId,
       supplierId: supplier3,
       productId: product3,
       quantity: 100,
@@ -444,29 +399,112 @@ export const initializeSampleData = mutation({
       expectedDeliveryDate: now - 2 * dayMs,
       status: "delayed",
       delayReason: "Customs clearance issues",
+      unitCost: 149.99,
     });
 
-    // Create sample alerts
-    await ctx.db.insert("alerts", {
-      type: "low_stock",
-      title: "Low Stock Alert",
-      description: "Wireless Headphones stock is below reorder point",
-      severity: "high",
-      productId: product1,
-      isResolved: false,
-      createdAt: now,
-    });
+    // Create delivery history so supplier scores are computed from outcomes
+    const pastDeliveries = [
+      { supplierId: supplier1, productId: product1, orderedDaysAgo: 90, leadDays: 14, lateDays: 0, unitCost: 86 },
+      { supplierId: supplier1, productId: product1, orderedDaysAgo: 60, leadDays: 14, lateDays: 3, delayReason: "Port congestion", unitCost: 88.5 },
+      { supplierId: supplier1, productId: product1, orderedDaysAgo: 35, leadDays: 14, lateDays: -1, unitCost: 89.99 },
+      { supplierId: supplier2, productId: product2, orderedDaysAgo: 75, leadDays: 7, lateDays: 0, unitCost: 14.2 },
+      { supplierId: supplier2, productId: product2, orderedDaysAgo: 45, leadDays: 7, lateDays: -1, unitCost: 14.2 },
+      { supplierId: supplier2, productId: product2, orderedDaysAgo: 20, leadDays: 7, lateDays: 0, unitCost: 14.75 },
+      { supplierId: supplier3, productId: product3, orderedDaysAgo: 100, leadDays: 21, lateDays: 6, delayReason: "Customs clearance issues", unitCost: 145 },
+      { supplierId: supplier3, productId: product3, orderedDaysAgo: 70, leadDays: 21, lateDays: 0, unitCost: 149.99 },
+      { supplierId: supplier3, productId: product3, orderedDaysAgo: 45, leadDays: 21, lateDays: 4, delayReason: "Customs clearance issues", unitCost: 149.99 },
+    ];
+    for (const delivery of pastDeliveries) {
+      const orderDate = now - delivery.orderedDaysAgo * dayMs;
+      const expectedDeliveryDate = orderDate + delivery.leadDays * dayMs;
+      await ctx.db.insert("shipments", {
+        orgId,
+        supplierId: delivery.supplierId,
+        productId: delivery.productId,
+        quantity: 100,
+        orderDate,
+        expectedDeliveryDate,
+        actualDeliveryDate: expectedDeliveryDate + delivery.lateDays * dayMs,
+        status: "delivered",
+        delayReason: delivery.delayReason,
+        unitCost: delivery.unitCost,
+      });
+    }
 
-    await ctx.db.insert("alerts", {
-      type: "supplier_delay",
-      title: "Supplier Delay",
-      description: "EuroTech Solutions shipment delayed due to customs",
-      severity: "medium",
-      supplierId: supplier3,
-      isResolved: false,
-      createdAt: now,
-    });
+    // The sample suppliers, products and shipments are counted in one go
+    await recountDashboard(ctx, orgId);
+
+    // Build stock through the ledger: an opening receipt, 30 days of issues
+    // so forecasts have demand to work with, then the open reservations
+    const stockHistory = [
+      { productId: product1, warehouseId: warehouseA, onHand: 45, reserved: 10, base: 6, unitCost: 88.5 },
+      { productId: product2, warehouseId: warehouseB, onHand: 250, reserved: 50, base: 18, unitCost: 14.2 },
+      { productId: product3, warehouseId: warehouseA, onHand: 15, reserved: 5, base: 3, unitCost: 147.5 },
+    ];
+    for (const { productId, warehouseId, onHand, reserved, base, unitCost } of stockHistory) {
+      const issues = [];
+      for (let day = 30; day >= 1; day--) {
+        // Deterministic +/-30% variation around the base demand
+        const variation = 0.7 + 0.6 * (((day * 37 + base * 11) % 100) / 100);
+        issues.push({
+          quantity: Math.round(base * variation),
+          timestamp: now - day * dayMs + 12 * 60 * 60 * 1000,
+        });
+      }
+      const issued = issues.reduce((sum, issue) => sum + issue.quantity, 0);
+
+      await postStockMovement(ctx, {
+        orgId,
+        productId,
+        warehouseId,
+        type: "receipt",
+        quantity: onHand + issued,
+        reasonCode: "purchase_order",
+        note: "Opening balance",
+        userId,
+        unitCost,
+        timestamp: now - 31 * dayMs,
+      });
+      for (const issue of issues) {
+        await postStockMovement(ctx, {
+          orgId,
+          productId,
+          warehouseId,
+          type: "issue",
+          quantity: -issue.quantity,
+          reasonCode: "sales_order",
+          userId,
+          timestamp: issue.timestamp,
+        });
+      }
+      await postStockMovement(ctx, {
+        orgId,
+        productId,
+        warehouseId,
+        type: "reservation",
+        quantity: reserved,
+        reasonCode: "sales_order",
+        userId,
+        timestamp: now,
+      });
+    }
+
+    // Derive alerts and supplier scores from the seeded inventory and shipments
+    await evaluateAllAlertRules(ctx, orgId);
+    await recomputeAllSupplierScores(ctx, orgId);
 
     return { message: "Sample data initialized successfully" };
   },
 });
+
+// Helper functions
+export async function buildInventoryStatus(
+  ctx: QueryCtx,
+  orgId: Id<"organizations">,
+  warehouseId?: Id<"warehouses">,
+) {
+  const inventory = warehouseId
+    ? await ctx.db.query("inventory").withIndex("by_warehouse", q => q.eq("warehouseId", warehouseId)).collect()
+    : await ctx.db.query("inventory").withIndex("by_org", q => q.eq("orgId", orgId)).collect();
+  return await describeInventory(ctx, inventory);
+}
@@ -0,0 +1,253 @@
+"use node";
+
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { createHmac } from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import tls from "tls";
+import readline from "readline";
+import {
+  MAX_MESSAGES_PER_CLAIM,
+  MESSAGE_TIMEOUT_MS,
+  NotificationAlert,
+  NotificationBatch,
+  isPrivateHost,
+  webhookTargetError,
+} from "./notifications";
+
+// Sends due alert notifications (notifications.ts). Email goes through the
+// SMTP server configured in the deployment's environment:
+//
+//   SMTP_HOST, SMTP_PORT (default 587, or 465 with SMTP_SECURITY=tls)
+//   SMTP_SECURITY: starttls (default), tls or none
+//   SMTP_USER, SMTP_PASSWORD: optional, sent with AUTH PLAIN
+//   SMTP_FROM: the sender address
+//
+// Webhooks get a JSON body signed like the carrier tracking webhook; Slack
+// webhooks get a message in Slack's incoming webhook format.
+//
+// The messages of one claim are sent at the same time, and none takes
+// longer than MESSAGE_TIMEOUT_MS, so every claim is reported back well
+// before notifications.ts would claim it again.
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+const WEBHOOK_TIMEOUT_MS = 15 * 1000;
+
+export const deliverNotifications = internalAction({
+  args: {},
+  handler: async (ctx): Promise<number> => {
+    const batches: NotificationBatch[] = await ctx.runMutation(internal.notifications.claimDueNotifications, {});
+
+    await Promise.all(batches.map(async (batch) => {
+      let error: string | undefined;
+      try {
+        if (batch.alerts.length > 0 || batch.isTest) await sendBatch(batch);
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+      }
+      await ctx.runMutation(internal.notifications.recordDelivery, { notificationIds: batch.notificationIds, error });
+    }));
+
+    // A full claim may have left more that is due
+    if (batches.length === MAX_MESSAGES_PER_CLAIM) {
+      await ctx.scheduler.runAfter(0, internal.notificationDelivery.deliverNotifications, {});
+    }
+    return batches.length;
+  },
+});
+
+async function sendBatch(batch: NotificationBatch) {
+  const { subject, text } = formatMessage(batch);
+  // Checked again here for subscriptions saved before the check existed
+  if (batch.subscription.channel !== "email") {
+    const error = webhookTargetError(batch.subscription.target);
+    if (error) throw new Error(error);
+  }
+  switch (batch.subscription.channel) {
+    case "email":
+      return await sendMail({ to: batch.subscription.target, subject, text });
+    case "slack":
+      return await postJson(batch.subscription.target, { text: `*${subject}*\n${text}` });
+    case "webhook":
+      return await postJson(batch.subscription.target, {
+        organization: batch.organizationName,
+        test: batch.isTest,
+        alerts: batch.alerts,
+      }, batch.subscription.signingSecret);
+  }
+}
+
+export function formatMessage(batch: Pick<NotificationBatch, "alerts" | "isTest" | "organizationName">) {
+  if (batch.alerts.length === 0) {
+    return {
+      subject: `[${batch.organizationName}] Test notification`,
+      text: "Alert notifications for this channel are set up correctly.",
+    };
+  }
+  if (batch.alerts.length === 1) {
+    const [alert] = batch.alerts;
+    return {
+      subject: `[${batch.organizationName}] ${alert.trigger === "escalated" ? "Escalated: " : ""}${alert.title} (${alert.severity})`,
+      text: describeAlert(alert),
+    };
+  }
+  return {
+    subject: `[${batch.organizationName}] ${batch.alerts.length} alerts`,
+    text: batch.alerts.map(alert => `${alert.title} (${alert.severity})\n${describeAlert(alert)}`).join("\n\n"),
+  };
+}
+
+function describeAlert(alert: NotificationAlert) {
+  const about = [alert.productName, alert.supplierName, alert.warehouseName].filter(Boolean).join(" · ");
+  return [
+    alert.trigger === "escalated" ? `Severity raised to ${alert.severity}. ${alert.description}` : alert.description,
+    about,
+    alert.isResolved ? "This alert has since been resolved." : "",
+  ].filter(Boolean).join("\n");
+}
+
+async function postJson(url: string, payload: unknown, signingSecret?: string | null) {
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (signingSecret) {
+    headers["X-Signature"] = `sha256=${createHmac("sha256", signingSecret).update(body).digest("hex")}`;
+  }
+
+  const target = new URL(url);
+  const response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+    const request = (target.protocol === "http:" ? http : https).request(target, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    }, resolve);
+    request.on("error", reject);
+    request.end(body);
+  });
+  response.resume();
+  // Redirects aren't followed: where they point was never checked
+  const status = response.statusCode ?? 0;
+  if (status < 200 || status >= 300) {
+    throw new Error(`Webhook returned ${status} ${response.statusMessage ?? ""}`.trim());
+  }
+}
+
+// Resolves webhook hosts like the default lookup, but refuses to connect to
+// a non-public address. Checking the address the request actually connects
+// to also covers public names that resolve to private addresses.
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    const blocked = addresses.find(entry => isPrivateHost(entry.address));
+    if (blocked && process.env.ALLOW_PRIVATE_WEBHOOK_TARGETS !== "true") {
+      return callback(new Error(`${hostname} resolves to the non-public address ${blocked.address}`), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// A minimal SMTP client: enough to hand a plain text message to a relay
+export async function sendMail(message: { to: string; subject: string; text: string }) {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.SMTP_FROM;
+  if (!host || !from) throw new Error("Email is not configured: set SMTP_HOST and SMTP_FROM");
+  const security = process.env.SMTP_SECURITY || "starttls";
+  if (!["starttls", "tls", "none"].includes(security)) throw new Error(`Unknown SMTP_SECURITY "${security}"`);
+  const port = Number(process.env.SMTP_PORT || (security === "tls" ? 465 : 587));
+
+  let socket: net.Socket = security === "tls"
+    ? tls.connect({ host, port, servername: host })
+    : net.connect({ host, port });
+  let session = smtpSession(socket);
+  // Each reply has its own timeout, but a server answering slowly to every
+  // command could still hold the message past MESSAGE_TIMEOUT_MS
+  const deadline = setTimeout(() => {
+    socket.destroy(new Error("The SMTP server took too long to accept the message"));
+  }, MESSAGE_TIMEOUT_MS);
+  try {
+    await session.expect(220);
+    await session.command("EHLO localhost", 250);
+    if (security === "starttls") {
+      await session.command("STARTTLS", 220);
+      session.close();
+      socket = tls.connect({ socket, servername: host });
+      session = smtpSession(socket);
+      await session.command("EHLO localhost", 250);
+    }
+    if (process.env.SMTP_USER) {
+      const credentials = Buffer.from(`\0${process.env.SMTP_USER}\0${process.env.SMTP_PASSWORD ?? ""}`).toString("base64");
+      await session.command(`AUTH PLAIN ${credentials}`, 235);
+    }
+    await session.command(`MAIL FROM:<${from}>`, 250);
+    await session.command(`RCPT TO:<${message.to}>`, 250, 251);
+    await session.command("DATA", 354);
+    await session.command(`${formatMail(from, message)}\r\n.`, 250);
+    await session.command("QUIT", 221);
+  } finally {
+    clearTimeout(deadline);
+    session.close();
+    socket.destroy();
+  }
+}
+
+// Headers and body of a plain text email, with lines starting with a dot
+// escaped so they can't end the DATA section
+export function formatMail(from: string, message: { to: string; subject: string; text: string }) {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+  const body = message.text.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+  return `${headers.join("\r\n")}\r\n\r\n${body}`;
+}
+
+// Non-ASCII subjects are sent as an RFC 2047 encoded word
+function encodeHeader(value: string) {
+  const clean = value.replace(/[\r\n]+/g, " ");
+  const isAscii = [...clean].every(c => c.charCodeAt(0) <= 0x7f);
+  return isAscii ? clean : `=?utf-8?B?${Buffer.from(clean).toString("base64")}?=`;
+}
+
+// Sends commands and reads replies; a reply can span several lines, the
+// last of which has a space after the code
+function smtpSession(socket: net.Socket) {
+  socket.setTimeout(SMTP_TIMEOUT_MS);
+  const failed = new Promise<never>((_, reject) => {
+    socket.once("error", reject);
+    socket.once("timeout", () => reject(new Error("The SMTP server did not answer in time")));
+  });
+  failed.catch(() => {});
+  const lines = readline.createInterface({ input: socket, crlfDelay: Infinity });
+  const iterator = lines[Symbol.asyncIterator]();
+
+  const expect = async (...codes: number[]) => {
+    let reply = "";
+    for (;;) {
+      const { value, done } = await Promise.race([iterator.next(), failed]);
+      if (done) throw new Error("The SMTP server closed the connection");
+      reply += `${value}\n`;
+      if (value.charAt(3) !== "-") break;
+    }
+    if (!codes.includes(Number(reply.slice(0, 3)))) {
+      throw new Error(`SMTP server replied: ${reply.trim()}`);
+    }
+  };
+
+  return {
+    expect,
+    command: async (line: string, ...codes: number[]) => {
+      socket.write(`${line}\r\n`);
+      await expect(...codes);
+    },
+    close: () => lines.close(),
+  };
+}
@@ -0,0 +1,433 @@
+import { query, mutation, internalMutation, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { inOrg, orgOf, requirePermission, roleCan } from "./organizations";
+
+// Alert notifications. New and escalated alerts are matched against every
+// member's subscriptions and queued in the notifications outbox;
+// notificationDelivery.ts sends what is due by email, webhook or Slack.
+// Subscriptions with a digest collect alerts for that many minutes and send
+// them as one message. Only members who manage alerts can subscribe, and
+// webhooks only go to public https URLs, so a subscription can't be used to
+// send mail or requests on the deployment's behalf.
+
+const MINUTE_MS = 60 * 1000;
+
+const MAX_DIGEST_MINUTES = 24 * 60;
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = MINUTE_MS; // doubles with every failed attempt
+const RETRY_MAX_MS = 60 * MINUTE_MS;
+// The longest sending one message may take; notificationDelivery.ts gives
+// up on it after that
+export const MESSAGE_TIMEOUT_MS = 2 * MINUTE_MS;
+// The messages of one claim are sent at the same time, so a claim is
+// reported back within about one message's time. A delivery claimed well
+// past that without a result is assumed lost and claimed again.
+const CLAIM_TIMEOUT_MS = 5 * MESSAGE_TIMEOUT_MS;
+const BATCH_LIMIT = 100;
+// Messages (subscriptions) per claim; the rest wait for the next run
+export const MAX_MESSAGES_PER_CLAIM = 20;
+
+const SEVERITY_RANK: Record<Doc<"alerts">["severity"], number> = { low: 0, medium: 1, high: 2 };
+
+// One message to send: everything due for one subscription
+export type NotificationBatch = {
+  subscription: Pick<Doc<"notificationSubscriptions">, "channel" | "target"> & { signingSecret: string | null };
+  organizationName: string;
+  notificationIds: Id<"notifications">[];
+  alerts: NotificationAlert[];
+  isTest: boolean;
+};
+export type NotificationAlert = NonNullable<Awaited<ReturnType<typeof describeNotification>>>;
+
+const subscriptionFields = {
+  channel: v.union(v.literal("email"), v.literal("webhook"), v.literal("slack")),
+  target: v.string(),
+  alertTypes: v.array(v.union(
+    v.literal("low_stock"),
+    v.literal("supplier_delay"),
+    v.literal("quality_issue"),
+    v.literal("reorder_needed")
+  )),
+  minSeverity: v.union(v.literal("low"), v.literal("medium"), v.literal("high")),
+  supplierIds: v.array(v.id("suppliers")),
+  warehouseIds: v.array(v.id("warehouses")),
+  digestMinutes: v.number(),
+  isActive: v.boolean(),
+};
+
+// Why a webhook or Slack URL can't be used, or null if it can. Only https
+// URLs to public hosts are accepted, so subscriptions can't reach the
+// deployment's own network. Set ALLOW_PRIVATE_WEBHOOK_TARGETS=true in a
+// development deployment to allow http and local hosts, e.g. for
+// notification-sink.mjs.
+export function webhookTargetError(target: string) {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return "Enter the webhook's https:// URL";
+  }
+  if (process.env.ALLOW_PRIVATE_WEBHOOK_TARGETS === "true") {
+    return url.protocol === "https:" || url.protocol === "http:" ? null : "Enter the webhook's http:// or https:// URL";
+  }
+  if (url.protocol !== "https:") return "Webhook URLs must start with https://";
+  if (isPrivateHost(url.hostname)) return "Webhook URLs must point to a public host";
+  return null;
+}
+
+// Whether the alert passes the subscription's filters. Supplier and
+// warehouse filters only apply to alerts about a supplier or warehouse, so
+// product-wide stock alerts reach everyone watching the product's stock.
+export function subscriptionMatches(
+  subscription: Pick<Doc<"notificationSubscriptions">, "alertTypes" | "minSeverity" | "supplierIds" | "warehouseIds">,
+  alert: Pick<Doc<"alerts">, "type" | "severity" | "supplierId" | "warehouseId">,
+) {
+  if (subscription.alertTypes.length > 0 && !subscription.alertTypes.includes(alert.type)) return false;
+  if (SEVERITY_RANK[alert.severity] < SEVERITY_RANK[subscription.minSeverity]) return false;
+  if (alert.supplierId && subscription.supplierIds.length > 0 && !subscription.supplierIds.includes(alert.supplierId)) return false;
+  if (alert.warehouseId && subscription.warehouseIds.length > 0 && !subscription.warehouseIds.includes(alert.warehouseId)) return false;
+  return true;
+}
+
+// Delay before retrying a delivery that failed for the given time
+export function retryDelay(attempts: number) {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+}
+
+export function isEscalation(previous: Doc<"alerts">["severity"], next: Doc<"alerts">["severity"]) {
+  return SEVERITY_RANK[next] > SEVERITY_RANK[previous];
+}
+
+// Queues the alert for every matching subscription, or only those of the
+// given members. Call when an alert is raised or escalated.
+export async function notifyAlert(
+  ctx: MutationCtx,
+  alert: Doc<"alerts">,
+  trigger: "raised" | "escalated",
+  userIds?: Id<"users">[],
+) {
+  const now = Date.now();
+  const orgId = orgOf(alert);
+  const subscriptions = await ctx.db.query("notificationSubscriptions")
+    .withIndex("by_org", q => q.eq("orgId", orgId).eq("isActive", true))
+    .collect();
+
+  let sendNow = false;
+  for (const subscription of subscriptions) {
+    if (userIds && !userIds.includes(subscription.userId)) continue;
+    if (!subscriptionMatches(subscription, alert)) continue;
+    // Members who left the organization, or no longer manage its alerts,
+    // stop receiving them
+    const membership = await ctx.db.query("memberships")
+      .withIndex("by_org_and_user", q => q.eq("orgId", orgId).eq("userId", subscription.userId))
+      .unique();
+    if (!membership || !roleCan(membership.role, "manage_alerts")) continue;
+
+    const dueAt = await nextDueAt(ctx, subscription, now);
+    await ctx.db.insert("notifications", {
+      orgId,
+      subscriptionId: subscription._id,
+      alertId: alert._id,
+      trigger,
+      status: "pending",
+      dueAt,
+      attempts: 0,
+      createdAt: now,
+    });
+    sendNow ||= dueAt <= now;
+  }
+
+  if (sendNow) await ctx.scheduler.runAfter(0, internal.notificationDelivery.deliverNotifications, {});
+}
+
+export const getMySubscriptions = query({
+  args: {},
+  handler: async (ctx) => {
+    const { userId, orgId } = await requirePermission(ctx, "read");
+
+    return await ctx.db.query("notificationSubscriptions")
+      .withIndex("by_user", q => q.eq("userId", userId).eq("orgId", orgId))
+      .collect();
+  },
+});
+
+// The latest deliveries to the caller's subscriptions, to see what was sent
+// and why something failed
+export const getMyNotifications = query({
+  args: {},
+  handler: async (ctx) => {
+    const { userId, orgId } = await requirePermission(ctx, "read");
+
+    const subscriptions = await ctx.db.query("notificationSubscriptions")
+      .withIndex("by_user", q => q.eq("userId", userId).eq("orgId", orgId))
+      .collect();
+    const notifications = (await Promise.all(subscriptions.map(subscription =>
+      ctx.db.query("notifications")
+        .withIndex("by_subscription", q => q.eq("subscriptionId", subscription._id))
+        .order("desc")
+        .take(20)
+    ))).flat();
+
+    const latest = notifications.sort((a, b) => b.createdAt - a.createdAt).slice(0, 20);
+    return await Promise.all(latest.map(async (notification) => {
+      const alert = notification.alertId ? await ctx.db.get(notification.alertId) : null;
+      const subscription = subscriptions.find(s => s._id === notification.subscriptionId);
+      return {
+        ...notification,
+        alertTitle: alert?.title ?? null,
+        alertDescription: alert?.description ?? null,
+        channel: subscription?.channel ?? null,
+        target: subscription?.target ?? null,
+      };
+    }));
+  },
+});
+
+// Creates a subscription, or updates one of the caller's own
+export const saveSubscription = mutation({
+  args: {
+    subscriptionId: v.optional(v.id("notificationSubscriptions")),
+    ...subscriptionFields,
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_alerts");
+
+    const { subscriptionId, ...fields } = args;
+    const target = fields.target.trim();
+    if (fields.channel === "email" && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(target)) {
+      throw new Error("Enter a valid email address");
+    }
+    if (fields.channel !== "email") {
+      const error = webhookTargetError(target);
+      if (error) throw new Error(error);
+    }
+    if (!Number.isInteger(fields.digestMinutes) || fields.digestMinutes < 0 || fields.digestMinutes > MAX_DIGEST_MINUTES) {
+      throw new Error(`Digest interval must be a whole number of minutes between 0 and ${MAX_DIGEST_MINUTES}`);
+    }
+    for (const supplierId of fields.supplierIds) {
+      if (!inOrg(await ctx.db.get(supplierId), orgId)) throw new Error("Supplier not found");
+    }
+    for (const warehouseId of fields.warehouseIds) {
+      if (!inOrg(await ctx.db.get(warehouseId), orgId)) throw new Error("Warehouse not found");
+    }
+
+    const now = Date.now();
+    if (subscriptionId) {
+      const existing = await requireOwnSubscription(ctx, orgId, userId, subscriptionId);
+      await ctx.db.patch(existing._id, {
+        ...fields,
+        target,
+        signingSecret: fields.channel === "webhook" ? existing.signingSecret ?? generateSecret() : undefined,
+        updatedAt: now,
+      });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("notificationSubscriptions", {
+      orgId,
+      userId,
+      ...fields,
+      target,
+      signingSecret: fields.channel === "webhook" ? generateSecret() : undefined,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const deleteSubscription = mutation({
+  args: { subscriptionId: v.id("notificationSubscriptions") },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "read");
+
+    const subscription = await requireOwnSubscription(ctx, orgId, userId, args.subscriptionId);
+    const queued = await ctx.db.query("notifications")
+      .withIndex("by_subscription", q => q.eq("subscriptionId", subscription._id).eq("status", "pending"))
+      .collect();
+    for (const notification of queued) {
+      await ctx.db.delete(notification._id);
+    }
+    await ctx.db.delete(subscription._id);
+  },
+});
+
+// Sends a test message right away, ignoring the digest, to check the
+// channel is set up
+export const sendTestNotification = mutation({
+  args: { subscriptionId: v.id("notificationSubscriptions") },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_alerts");
+
+    const subscription = await requireOwnSubscription(ctx, orgId, userId, args.subscriptionId);
+    const now = Date.now();
+    await ctx.db.insert("notifications", {
+      orgId,
+      subscriptionId: subscription._id,
+      trigger: "test",
+      status: "pending",
+      dueAt: now,
+      attempts: 0,
+      createdAt: now,
+    });
+    await ctx.scheduler.runAfter(0, internal.notificationDelivery.deliverNotifications, {});
+  },
+});
+
+// Claims what is due, including deliveries that were claimed but never
+// reported back, grouped into one message per subscription, up to
+// MAX_MESSAGES_PER_CLAIM messages
+export const claimDueNotifications = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<NotificationBatch[]> => {
+    const now = Date.now();
+    const pending = await ctx.db.query("notifications")
+      .withIndex("by_status", q => q.eq("status", "pending").lte("dueAt", now))
+      .take(BATCH_LIMIT);
+    const stale = (await ctx.db.query("notifications")
+      .withIndex("by_status", q => q.eq("status", "sending"))
+      .take(BATCH_LIMIT))
+      .filter(n => (n.claimedAt ?? 0) < now - CLAIM_TIMEOUT_MS);
+
+    const bySubscription = new Map<Id<"notificationSubscriptions">, Doc<"notifications">[]>();
+    for (const notification of [...pending, ...stale]) {
+      bySubscription.set(notification.subscriptionId, [...(bySubscription.get(notification.subscriptionId) || []), notification]);
+    }
+
+    const batches: NotificationBatch[] = [];
+    for (const [subscriptionId, notifications] of bySubscription) {
+      if (batches.length === MAX_MESSAGES_PER_CLAIM) break;
+      const subscription = await ctx.db.get(subscriptionId);
+      if (!subscription?.isActive) {
+        for (const notification of notifications) {
+          await ctx.db.patch(notification._id, { status: "failed", lastError: "The subscription was turned off" });
+        }
+        continue;
+      }
+
+      for (const notification of notifications) {
+        await ctx.db.patch(notification._id, { status: "sending", claimedAt: now });
+      }
+      const organization = await ctx.db.get(subscription.orgId);
+      batches.push({
+        subscription: {
+          channel: subscription.channel,
+          target: subscription.target,
+          signingSecret: subscription.signingSecret ?? null,
+        },
+        organizationName: organization?.name || "Unknown",
+        notificationIds: notifications.map(n => n._id),
+        alerts: (await Promise.all(notifications.map(n => describeNotification(ctx, n)))).filter(a => a !== null),
+        isTest: notifications.every(n => n.trigger === "test"),
+      });
+    }
+    return batches;
+  },
+});
+
+// Records the outcome of sending a batch. Failures are retried with
+// exponential backoff until MAX_ATTEMPTS.
+export const recordDelivery = internalMutation({
+  args: {
+    notificationIds: v.array(v.id("notifications")),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    for (const notificationId of args.notificationIds) {
+      const notification = await ctx.db.get(notificationId);
+      if (!notification || notification.status !== "sending") continue;
+
+      if (args.error === undefined) {
+        await ctx.db.patch(notification._id, { status: "sent", sentAt: now, lastError: undefined });
+        continue;
+      }
+      const attempts = notification.attempts + 1;
+      await ctx.db.patch(notification._id, attempts >= MAX_ATTEMPTS
+        ? { status: "failed", attempts, lastError: args.error }
+        : { status: "pending", attempts, lastError: args.error, dueAt: now + retryDelay(attempts) });
+    }
+  },
+});
+
+// Helper functions
+
+// Loopback, private, link-local and other non-public addresses, and names
+// that only resolve inside a network. URL has already normalized the
+// hostname, e.g. 0x7f.1 to 127.0.0.1 and IPv6 addresses to brackets.
+// notificationDelivery.ts also checks the addresses a host resolves to.
+export function isPrivateHost(hostname: string) {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (!host.includes(".") && !host.includes(":")) return true;
+  if (/(^|\.)(localhost|local|internal|lan|home\.arpa)$/.test(host)) return true;
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19));
+  }
+  if (host.includes(":")) {
+    // Unspecified, loopback and IPv4-embedding addresses, NAT64, unique
+    // local and link-local
+    return host.startsWith("::") || host.startsWith("64:ff9b:") ||
+      /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+  }
+  return false;
+}
+
+// Notifications for a digest subscription share the due time of the first
+// one still waiting, so they go out together
+async function nextDueAt(ctx: MutationCtx, subscription: Doc<"notificationSubscriptions">, now: number) {
+  if (subscription.digestMinutes === 0) return now;
+  const waiting = await ctx.db.query("notifications")
+    .withIndex("by_subscription", q => q.eq("subscriptionId", subscription._id).eq("status", "pending"))
+    .filter(q => q.eq(q.field("attempts"), 0))
+    .first();
+  return waiting?.dueAt ?? now + subscription.digestMinutes * MINUTE_MS;
+}
+
+async function describeNotification(ctx: MutationCtx, notification: Doc<"notifications">) {
+  if (!notification.alertId) return null;
+  const alert = await ctx.db.get(notification.alertId);
+  if (!alert) return null;
+
+  const [product, supplier, warehouse] = await Promise.all([
+    alert.productId ? ctx.db.get(alert.productId) : null,
+    alert.supplierId ? ctx.db.get(alert.supplierId) : null,
+    alert.warehouseId ? ctx.db.get(alert.warehouseId) : null,
+  ]);
+  return {
+    alertId: alert._id,
+    trigger: notification.trigger,
+    type: alert.type,
+    title: alert.title,
+    description: alert.description,
+    severity: alert.severity,
+    isResolved: alert.isResolved,
+    productName: product?.name ?? null,
+    supplierName: supplier?.name ?? null,
+    warehouseName: warehouse?.name ?? null,
+    createdAt: alert.createdAt,
+  };
+}
+
+async function requireOwnSubscription(
+  ctx: MutationCtx,
+  orgId: Id<"organizations">,
+  userId: Id<"users">,
+  subscriptionId: Id<"notificationSubscriptions">,
+) {
+  const subscription = inOrg(await ctx.db.get(subscriptionId), orgId);
+  if (!subscription || subscription.userId !== userId) throw new Error("Subscription not found");
+  return subscription;
+}
+
+function generateSecret() {
+  return Array.from(crypto.getRandomValues(new Uint8Array(32)), b => b.toString(16).padStart(2, "0")).join("");
+}
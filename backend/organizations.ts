@@ -0,0 +1,371 @@
+import { query, mutation, internalQuery, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { FunctionReference } from "convex/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+
+export type Role = Doc<"memberships">["role"];
+
+// What each role may do. Every member can read the organization's data and
+// use the assistant; changes need one of these permissions.
+const PERMISSIONS = {
+  read: ["viewer", "planner", "buyer", "admin"],
+  manage_inventory: ["planner", "admin"], // stock movements, transfers, reorder points
+  purchase: ["buyer", "admin"], // purchase orders, receiving, supplier contact
+  manage_alerts: ["planner", "buyer", "admin"],
+  plan: ["planner", "buyer", "admin"], // replenishment runs; approving them into orders needs purchase
+  admin: ["admin"], // members, organization settings, warehouses, scoring weights
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+const roleValidator = v.union(
+  v.literal("viewer"),
+  v.literal("planner"),
+  v.literal("buyer"),
+  v.literal("admin")
+);
+
+// Resolves the signed-in user's current organization and checks the
+// permission. Every public function that touches organization data starts
+// here; the returned orgId scopes all reads and writes.
+export async function requirePermission(ctx: QueryCtx, permission: Permission) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) throw new Error("Not authenticated");
+
+  const membership = await ctx.db.query("memberships")
+    .withIndex("by_user", q => q.eq("userId", userId))
+    .order("desc")
+    .first();
+  if (!membership) throw new Error("Join or create an organization first");
+
+  const [user, organization] = await Promise.all([
+    ctx.db.get(userId),
+    ctx.db.get(membership.orgId),
+  ]);
+  if (!organization) throw new Error("Organization not found");
+  if (user?.isAnonymous && !organization.allowAnonymous) {
+    throw new Error(`${organization.name} does not allow anonymous access`);
+  }
+  if (!roleCan(membership.role, permission)) {
+    throw new Error(`The ${membership.role} role is not allowed to do this`);
+  }
+
+  return { userId, orgId: membership.orgId, role: membership.role };
+}
+
+export function roleCan(role: Role, permission: Permission) {
+  return (PERMISSIONS[permission] as Role[]).includes(role);
+}
+
+// Returns the document only if it belongs to the organization, so ids
+// passed in by a client can't reach into another organization. Rows not
+// yet assigned to an organization (see backfillOrganization) belong to none.
+export function inOrg<T extends { orgId?: Id<"organizations"> }>(
+  doc: T | null,
+  orgId: Id<"organizations">,
+): (T & { orgId: Id<"organizations"> }) | null {
+  return doc && doc.orgId === orgId ? doc as T & { orgId: Id<"organizations"> } : null;
+}
+
+// The organization of a row read without going through inOrg. Rows from
+// before organizations existed have none until backfillOrganization runs.
+export function orgOf(doc: { orgId?: Id<"organizations"> }) {
+  if (!doc.orgId) throw new Error("This record isn't assigned to an organization yet");
+  return doc.orgId;
+}
+
+const ORGANIZATION_BATCH = 100;
+const BACKFILL_BATCH = 100;
+
+// Tables that held data before organizations existed. Their orgId stays
+// optional in the schema until backfillOrganization has assigned every row.
+const UNASSIGNED_TABLES = [
+  "suppliers",
+  "supplierScores",
+  "supplierScoringConfig",
+  "supplierContacts",
+  "products",
+  "warehouses",
+  "inventory",
+  "stockTransfers",
+  "stockMovements",
+  "shipments",
+  "purchaseOrders",
+  "purchaseOrderLines",
+  "conversations",
+  "queries",
+  "alerts",
+] as const;
+
+// Background jobs that cover every organization schedule one run per
+// organization, so no transaction reads more than one organization's data.
+// Organizations are paged too: the job schedules itself again with the
+// next cursor until all of them are scheduled.
+export async function scheduleForEachOrganization(
+  ctx: MutationCtx,
+  cursor: string | null | undefined,
+  perOrganization: FunctionReference<"mutation", "internal", { orgId: Id<"organizations"> }>,
+  nextPage: FunctionReference<"mutation", "internal", { cursor?: string | null }>,
+) {
+  const page = await ctx.db.query("organizations").paginate({ cursor: cursor ?? null, numItems: ORGANIZATION_BATCH });
+  for (const organization of page.page) {
+    await ctx.scheduler.runAfter(0, perOrganization, { orgId: organization._id });
+  }
+  if (!page.isDone) {
+    await ctx.scheduler.runAfter(0, nextPage, { cursor: page.continueCursor });
+  }
+  return page.page.length;
+}
+
+// The signed-in user and their current organization, for actions that
+// write through internal mutations on the user's behalf
+export const getCaller = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const { userId, orgId } = await requirePermission(ctx, "read");
+    return { userId, orgId };
+  },
+});
+
+// The user's memberships, current organization first
+export const getMyOrganizations = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const memberships = await ctx.db.query("memberships")
+      .withIndex("by_user", q => q.eq("userId", userId))
+      .order("desc")
+      .collect();
+    const user = await ctx.db.get(userId);
+
+    return await Promise.all(
+      memberships.map(async (membership, index) => {
+        const organization = await ctx.db.get(membership.orgId);
+        return {
+          orgId: membership.orgId,
+          name: organization?.name || "Unknown",
+          role: membership.role,
+          isCurrent: index === 0,
+          allowAnonymous: organization?.allowAnonymous ?? false,
+          // Only admins see the code others join with
+          inviteCode: membership.role === "admin" ? organization?.inviteCode ?? null : null,
+          isBlocked: Boolean(user?.isAnonymous && !organization?.allowAnonymous),
+        };
+      })
+    );
+  },
+});
+
+export const createOrganization = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const name = args.name.trim();
+    if (!name) throw new Error("Organization name is required");
+
+    const now = Date.now();
+    const orgId = await ctx.db.insert("organizations", {
+      name,
+      allowAnonymous: true,
+      inviteCode: await newInviteCode(ctx),
+      createdBy: userId,
+      createdAt: now,
+    });
+    await ctx.db.insert("memberships", { orgId, userId, role: "admin", createdAt: now, lastActiveAt: now });
+
+    return orgId;
+  },
+});
+
+// New members start as viewers; an admin can promote them
+export const joinOrganization = mutation({
+  args: { inviteCode: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const organization = await ctx.db.query("organizations")
+      .withIndex("by_invite_code", q => q.eq("inviteCode", args.inviteCode.trim().toUpperCase()))
+      .unique();
+    if (!organization) throw new Error("Invalid invite code");
+
+    const user = await ctx.db.get(userId);
+    if (user?.isAnonymous && !organization.allowAnonymous) {
+      throw new Error(`${organization.name} does not allow anonymous access`);
+    }
+
+    const now = Date.now();
+    const existing = await ctx.db.query("memberships")
+      .withIndex("by_org_and_user", q => q.eq("orgId", organization._id).eq("userId", userId))
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, { lastActiveAt: now });
+      return organization._id;
+    }
+
+    await ctx.db.insert("memberships", {
+      orgId: organization._id,
+      userId,
+      role: "viewer",
+      createdAt: now,
+      lastActiveAt: now,
+    });
+    return organization._id;
+  },
+});
+
+export const switchOrganization = mutation({
+  args: { orgId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const membership = await ctx.db.query("memberships")
+      .withIndex("by_org_and_user", q => q.eq("orgId", args.orgId).eq("userId", userId))
+      .unique();
+    if (!membership) throw new Error("You are not a member of this organization");
+
+    await ctx.db.patch(membership._id, { lastActiveAt: Date.now() });
+  },
+});
+
+export const getMembers = query({
+  args: {},
+  handler: async (ctx) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const memberships = await ctx.db.query("memberships")
+      .withIndex("by_org", q => q.eq("orgId", orgId))
+      .collect();
+
+    return await Promise.all(
+      memberships.map(async (membership) => {
+        const user = await ctx.db.get(membership.userId);
+        return {
+          membershipId: membership._id,
+          userId: membership.userId,
+          name: user?.name || user?.email || (user?.isAnonymous ? "Anonymous user" : "Unknown"),
+          role: membership.role,
+          isAnonymous: Boolean(user?.isAnonymous),
+          createdAt: membership.createdAt,
+        };
+      })
+    );
+  },
+});
+
+export const setMemberRole = mutation({
+  args: {
+    membershipId: v.id("memberships"),
+    role: roleValidator,
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "admin");
+
+    const membership = inOrg(await ctx.db.get(args.membershipId), orgId);
+    if (!membership) throw new Error("Member not found");
+    if (membership.role === "admin" && args.role !== "admin") {
+      await requireAnotherAdmin(ctx, orgId, membership._id);
+    }
+
+    await ctx.db.patch(membership._id, { role: args.role });
+  },
+});
+
+export const removeMember = mutation({
+  args: { membershipId: v.id("memberships") },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "admin");
+
+    const membership = inOrg(await ctx.db.get(args.membershipId), orgId);
+    if (!membership) throw new Error("Member not found");
+    if (membership.role === "admin") {
+      await requireAnotherAdmin(ctx, orgId, membership._id);
+    }
+
+    await ctx.db.delete(membership._id);
+  },
+});
+
+export const updateOrganizationSettings = mutation({
+  args: {
+    name: v.optional(v.string()),
+    allowAnonymous: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "admin");
+
+    const name = args.name?.trim();
+    if (name === "") throw new Error("Organization name is required");
+    await ctx.db.patch(orgId, { name, allowAnonymous: args.allowAnonymous });
+  },
+});
+
+export const regenerateInviteCode = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const { orgId } = await requirePermission(ctx, "admin");
+
+    const inviteCode = await newInviteCode(ctx);
+    await ctx.db.patch(orgId, { inviteCode });
+    return inviteCode;
+  },
+});
+
+// Assigns rows from before organizations existed to one organization, a
+// batch of one table per run. Create the organization in the app first:
+//   npx convex run organizations:backfillOrganization '{"orgId": "<id>"}'
+export const backfillOrganization = internalMutation({
+  args: {
+    orgId: v.id("organizations"),
+    table: v.optional(v.number()), // index into UNASSIGNED_TABLES
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args): Promise<number> => {
+    if (!await ctx.db.get(args.orgId)) throw new Error("Organization not found");
+
+    const table = args.table ?? 0;
+    const page = await ctx.db.query(UNASSIGNED_TABLES[table])
+      .paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_BATCH });
+    let assigned = 0;
+    for (const doc of page.page) {
+      if (doc.orgId) continue;
+      await ctx.db.patch(doc._id, { orgId: args.orgId });
+      assigned++;
+    }
+
+    const next = page.isDone ? { table: table + 1, cursor: null } : { table, cursor: page.continueCursor };
+    if (next.table < UNASSIGNED_TABLES.length) {
+      await ctx.scheduler.runAfter(0, internal.organizations.backfillOrganization, { orgId: args.orgId, ...next });
+    }
+    return assigned;
+  },
+});
+
+// Helper functions
+async function requireAnotherAdmin(ctx: QueryCtx, orgId: Id<"organizations">, membershipId: Id<"memberships">) {
+  const admins = await ctx.db.query("memberships")
+    .withIndex("by_org", q => q.eq("orgId", orgId))
+    .filter(q => q.eq(q.field("role"), "admin"))
+    .collect();
+  if (!admins.some(admin => admin._id !== membershipId)) {
+    throw new Error("An organization needs at least one admin");
+  }
+}
+
+async function newInviteCode(ctx: MutationCtx) {
+  const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+  for (;;) {
+    const code = Array.from({ length: 8 }, () => alphabet[Math.floor(Math.random() * alphabet.length)]).join("");
+    const taken = await ctx.db.query("organizations")
+      .withIndex("by_invite_code", q => q.eq("inviteCode", code))
+      .first();
+    if (!taken) return code;
+  }
+}
@@ -0,0 +1,193 @@
+import { query, mutation, internalMutation, MutationCtx } from "./_generated/server";
+import { v, ObjectType } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { syncProductAlerts } from "./alerts";
+import { inOrg, requirePermission } from "./organizations";
+import { countProductChange } from "./dashboardCounters";
+import { isLocated } from "./lists";
+
+const BACKFILL_BATCH = 500;
+
+const productFields = {
+  name: v.string(),
+  sku: v.string(),
+  category: v.string(),
+  unitPrice: v.number(),
+  reorderPoint: v.number(),
+  reorderQuantity: v.number(),
+};
+
+// A product with its supplier, stock per warehouse and latest shipments, or
+// null for an unknown id from the page URL. The other suppliers come from
+// supplierCatalog.ts.
+export const getProduct = query({
+  args: { productId: v.string() },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const productId = ctx.db.normalizeId("products", args.productId);
+    const product = productId && inOrg(await ctx.db.get(productId), orgId);
+    if (!product) return null;
+    const [supplier, shipments, inventory, transfers] = await Promise.all([
+      ctx.db.get(product.supplierId),
+      ctx.db.query("shipments").withIndex("by_product", q => q.eq("productId", product._id)).order("desc").take(20),
+      ctx.db.query("inventory").withIndex("by_product", q => q.eq("productId", product._id)).collect(),
+      ctx.db.query("stockTransfers")
+        .withIndex("by_product", q => q.eq("productId", product._id).eq("status", "in_transit"))
+        .collect(),
+    ]);
+    const availableStock = inventory.reduce((sum, item) => sum + item.availableStock, 0);
+
+    return {
+      ...product,
+      supplierName: supplier?.name || "Unknown",
+      stock: {
+        currentStock: inventory.reduce((sum, item) => sum + item.currentStock, 0),
+        availableStock,
+        inTransitStock: transfers.reduce((sum, t) => sum + t.quantity, 0),
+        needsReorder: availableStock <= product.reorderPoint,
+        warehouses: await Promise.all(inventory.filter(isLocated).map(async (item) => {
+          const warehouse = await ctx.db.get(item.warehouseId);
+          return {
+            inventoryId: item._id,
+            warehouseId: item.warehouseId,
+            warehouseName: warehouse?.name || "Unknown",
+            currentStock: item.currentStock,
+            availableStock: item.availableStock,
+            reorderPoint: item.reorderPoint ?? null,
+          };
+        })),
+      },
+      shipments: await Promise.all(shipments.map(async (shipment) => {
+        const shipmentSupplier = await ctx.db.get(shipment.supplierId);
+        return { ...shipment, supplierName: shipmentSupplier?.name || "Unknown" };
+      })),
+    };
+  },
+});
+
+export const createProduct = mutation({
+  args: {
+    ...productFields,
+    supplierId: v.id("suppliers"),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "manage_inventory");
+
+    const { supplierId, ...rest } = args;
+    const fields = await validateProduct(ctx, orgId, rest);
+    if (!inOrg(await ctx.db.get(supplierId), orgId)) throw new Error("Supplier not found");
+
+    const productId = await ctx.db.insert("products", { orgId, ...fields, supplierId, searchText: productSearchText(fields) });
+    await countProductChange(ctx, null, { orgId });
+    await syncProductAlerts(ctx, productId);
+    return productId;
+  },
+});
+
+// The preferred supplier is changed in the product's supplier catalog
+export const updateProduct = mutation({
+  args: {
+    productId: v.id("products"),
+    ...productFields,
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "manage_inventory");
+
+    const { productId, ...rest } = args;
+    const product = inOrg(await ctx.db.get(productId), orgId);
+    if (!product) throw new Error("Product not found");
+    const fields = await validateProduct(ctx, orgId, rest, product);
+
+    await ctx.db.patch(product._id, { ...fields, searchText: productSearchText(fields) });
+    await syncProductAlerts(ctx, product._id);
+  },
+});
+
+// Only products that never had stock or orders can be deleted, so the
+// stock ledger and order history keep pointing at something
+export const deleteProduct = mutation({
+  args: { productId: v.id("products") },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "manage_inventory");
+
+    const product = inOrg(await ctx.db.get(args.productId), orgId);
+    if (!product) throw new Error("Product not found");
+    const [movement, shipment, orderLine, transfer] = await Promise.all([
+      ctx.db.query("stockMovements").withIndex("by_product", q => q.eq("productId", product._id)).first(),
+      ctx.db.query("shipments").withIndex("by_product", q => q.eq("productId", product._id)).first(),
+      ctx.db.query("purchaseOrderLines").withIndex("by_product", q => q.eq("productId", product._id)).first(),
+      ctx.db.query("stockTransfers").withIndex("by_product", q => q.eq("productId", product._id)).first(),
+    ]);
+    if (movement || transfer) throw new Error(`${product.name} has stock history and can't be deleted`);
+    if (shipment || orderLine) throw new Error(`${product.name} has shipments or purchase orders and can't be deleted`);
+
+    const [inventory, catalog] = await Promise.all([
+      ctx.db.query("inventory").withIndex("by_product", q => q.eq("productId", product._id)).collect(),
+      ctx.db.query("supplierProducts").withIndex("by_product", q => q.eq("productId", product._id)).collect(),
+    ]);
+    for (const row of [...inventory, ...catalog]) {
+      await ctx.db.delete(row._id);
+    }
+    await ctx.db.delete(product._id);
+    await countProductChange(ctx, product, null);
+    await syncProductAlerts(ctx, product._id);
+  },
+});
+
+// Fills in searchText on products saved before it existed, a batch per run:
+//   npx convex run products:backfillProductSearchText
+export const backfillProductSearchText = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const products = await ctx.db.query("products")
+      .filter(q => q.eq(q.field("searchText"), undefined))
+      .take(BACKFILL_BATCH);
+    for (const product of products) {
+      await ctx.db.patch(product._id, { searchText: productSearchText(product) });
+    }
+    if (products.length === BACKFILL_BATCH) {
+      await ctx.scheduler.runAfter(0, internal.products.backfillProductSearchText, {});
+    }
+    return products.length;
+  },
+});
+
+// The text the product search index matches, so one search box finds
+// products by name or SKU. Every write of a product's name or SKU sets it.
+export function productSearchText(product: Pick<Doc<"products">, "name" | "sku">) {
+  return `${product.name} ${product.sku}`;
+}
+
+// Helper functions
+
+// Trimmed and checked fields of a product form. SKUs are unique within the
+// organization.
+async function validateProduct(
+  ctx: MutationCtx,
+  orgId: Id<"organizations">,
+  args: ObjectType<typeof productFields>,
+  existing?: Doc<"products">,
+) {
+  const name = args.name.trim();
+  const sku = args.sku.trim();
+  const category = args.category.trim();
+  if (!name) throw new Error("Name is required");
+  if (!sku) throw new Error("SKU is required");
+  if (!category) throw new Error("Category is required");
+  if (args.unitPrice < 0) throw new Error("Unit price can't be negative");
+  if (!Number.isInteger(args.reorderPoint) || args.reorderPoint < 0) {
+    throw new Error("Reorder point must be a whole number of at least 0");
+  }
+  if (!Number.isInteger(args.reorderQuantity) || args.reorderQuantity < 0) {
+    throw new Error("Reorder quantity must be a whole number of at least 0");
+  }
+
+  const sameSku = await ctx.db.query("products")
+    .withIndex("by_sku", q => q.eq("orgId", orgId).eq("sku", sku))
+    .first();
+  if (sameSku && sameSku._id !== existing?._id) throw new Error(`SKU ${sku} is already used by ${sameSku.name}`);
+
+  return { ...args, name, sku, category };
+}
@@ -0,0 +1,653 @@
+import { query, mutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { syncProductAlerts, syncShipmentAlerts } from "./alerts";
+import { countShipmentChange } from "./dashboardCounters";
+import { inOrg, orgOf, requirePermission } from "./organizations";
+import { recomputeSupplierScore } from "./supplierScoring";
+import { postStockMovement } from "./stock";
+import { findProductSource, unitPriceFor } from "./supplierCatalog";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OPEN_SHIPMENT_STATUSES: Doc<"shipments">["status"][] = ["ordered", "in_transit", "delayed"];
+
+const lineValidator = v.object({
+  productId: v.id("products"),
+  quantity: v.number(),
+  unitCost: v.optional(v.number()),
+  warehouseId: v.optional(v.id("warehouses")),
+});
+
+const statusValidator = v.union(
+  v.literal("draft"),
+  v.literal("approved"),
+  v.literal("sent"),
+  v.literal("partially_received"),
+  v.literal("closed"),
+  v.literal("cancelled")
+);
+
+export const getPurchaseOrders = query({
+  args: { status: v.optional(statusValidator) },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const orders = args.status
+      ? await ctx.db.query("purchaseOrders")
+        .withIndex("by_status", q => q.eq("orgId", orgId).eq("status", args.status!))
+        .order("desc")
+        .take(50)
+      : await ctx.db.query("purchaseOrders")
+        .withIndex("by_org", q => q.eq("orgId", orgId))
+        .order("desc")
+        .take(50);
+
+    return await Promise.all(
+      orders.map(async (order) => {
+        const [supplier, lines] = await Promise.all([
+          ctx.db.get(order.supplierId),
+          ctx.db.query("purchaseOrderLines")
+            .withIndex("by_purchase_order", q => q.eq("purchaseOrderId", order._id))
+            .collect(),
+        ]);
+        return {
+          ...order,
+          supplierName: supplier?.name || "Unknown",
+          lineCount: lines.length,
+          totalValue: lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0),
+        };
+      })
+    );
+  },
+});
+
+export const getPurchaseOrder = query({
+  args: { purchaseOrderId: v.id("purchaseOrders") },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const order = inOrg(await ctx.db.get(args.purchaseOrderId), orgId);
+    if (!order) return null;
+
+    const [supplier, lines, shipments] = await Promise.all([
+      ctx.db.get(order.supplierId),
+      ctx.db.query("purchaseOrderLines")
+        .withIndex("by_purchase_order", q => q.eq("purchaseOrderId", order._id))
+        .collect(),
+      ctx.db.query("shipments")
+        .withIndex("by_purchase_order", q => q.eq("purchaseOrderId", order._id))
+        .collect(),
+    ]);
+
+    const linesWithProducts = await Promise.all(
+      lines.map(async (line) => {
+        const product = await ctx.db.get(line.productId);
+        return {
+          ...line,
+          productName: product?.name || "Unknown",
+          productSku: product?.sku || "Unknown",
+        };
+      })
+    );
+
+    return {
+      ...order,
+      supplierName: supplier?.name || "Unknown",
+      lines: linesWithProducts,
+      shipments,
+    };
+  },
+});
+
+export const createPurchaseOrder = mutation({
+  args: {
+    supplierId: v.id("suppliers"),
+    lines: v.array(lineValidator),
+    expectedDeliveryDate: v.optional(v.number()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "purchase");
+
+    return await createDraftOrder(ctx, userId, orgId, args);
+  },
+});
+
+// Replaces all lines of a draft order
+export const updatePurchaseOrderLines = mutation({
+  args: {
+    purchaseOrderId: v.id("purchaseOrders"),
+    lines: v.array(lineValidator),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const order = await requireOrder(ctx, orgId, args.purchaseOrderId, ["draft"]);
+    if (args.lines.length === 0) throw new Error("A purchase order needs at least one line");
+
+    const existing = await ctx.db.query("purchaseOrderLines")
+      .withIndex("by_purchase_order", q => q.eq("purchaseOrderId", order._id))
+      .collect();
+    for (const line of existing) {
+      await ctx.db.delete(line._id);
+    }
+    await insertLines(ctx, order, args.lines);
+    await ctx.db.patch(order._id, { updatedAt: Date.now() });
+  },
+});
+
+export const approvePurchaseOrder = mutation({
+  args: { purchaseOrderId: v.id("purchaseOrders") },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "purchase");
+
+    const order = await requireOrder(ctx, orgId, args.purchaseOrderId, ["draft"]);
+    const now = Date.now();
+    await ctx.db.patch(order._id, {
+      status: "approved",
+      approvedBy: userId,
+      approvedAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Marks the order as sent to the supplier and spawns one shipment per line.
+// Shipments can be split afterwards if the supplier delivers in batches.
+export const sendPurchaseOrder = mutation({
+  args: { purchaseOrderId: v.id("purchaseOrders") },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const order = await requireOrder(ctx, orgId, args.purchaseOrderId, ["approved"]);
+    const supplier = await ctx.db.get(order.supplierId);
+    if (!supplier) throw new Error("Supplier not found");
+
+    const now = Date.now();
+    const lines = await ctx.db.query("purchaseOrderLines")
+      .withIndex("by_purchase_order", q => q.eq("purchaseOrderId", order._id))
+      .collect();
+
+    for (const line of lines) {
+      // Without an agreed date, each line is due after its catalog lead time
+      const product = await ctx.db.get(line.productId);
+      const source = product && await findProductSource(ctx, product, order.supplierId);
+      const expectedDeliveryDate = order.expectedDeliveryDate ??
+        now + (source?.leadTimeDays ?? supplier.averageDeliveryDays) * DAY_MS;
+      const shipmentId = await ctx.db.insert("shipments", {
+        orgId,
+        supplierId: order.supplierId,
+        productId: line.productId,
+        quantity: line.quantityOrdered,
+        orderDate: now,
+        expectedDeliveryDate,
+        status: "ordered",
+        purchaseOrderId: order._id,
+        purchaseOrderLineId: line._id,
+        warehouseId: line.warehouseId,
+        unitCost: line.unitCost,
+      });
+      await countShipmentChange(ctx, null, { orgId, status: "ordered" });
+      await syncShipmentAlerts(ctx, shipmentId);
+      await syncProductAlerts(ctx, line.productId);
+    }
+
+    await ctx.db.patch(order._id, { status: "sent", sentAt: now, updatedAt: now });
+  },
+});
+
+// Splits part of a not-yet-received shipment into a separate delivery
+export const splitShipment = mutation({
+  args: {
+    shipmentId: v.id("shipments"),
+    quantity: v.number(),
+    expectedDeliveryDate: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const shipment = await requireOpenShipment(ctx, orgId, args.shipmentId);
+    if (!Number.isInteger(args.quantity) || args.quantity <= 0 || args.quantity >= shipment.quantity) {
+      throw new Error(`Split quantity must be between 1 and ${shipment.quantity - 1}`);
+    }
+
+    await ctx.db.patch(shipment._id, { quantity: shipment.quantity - args.quantity });
+    const { _id, _creationTime, ...rest } = shipment;
+    const newShipmentId = await ctx.db.insert("shipments", {
+      ...rest,
+      quantity: args.quantity,
+      expectedDeliveryDate: args.expectedDeliveryDate,
+      status: "ordered",
+      trackingNumber: undefined,
+      delayReason: undefined,
+    });
+    await countShipmentChange(ctx, null, { orgId, status: "ordered" });
+    await syncShipmentAlerts(ctx, shipment._id);
+    await syncShipmentAlerts(ctx, newShipmentId);
+
+    return newShipmentId;
+  },
+});
+
+export const markShipmentInTransit = mutation({
+  args: {
+    shipmentId: v.id("shipments"),
+    trackingNumber: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const shipment = await requireOpenShipment(ctx, orgId, args.shipmentId);
+    await ctx.db.patch(shipment._id, {
+      status: "in_transit",
+      trackingNumber: args.trackingNumber ?? shipment.trackingNumber,
+    });
+    await countShipmentChange(ctx, shipment, { orgId, status: "in_transit" });
+    await syncShipmentAlerts(ctx, shipment._id);
+  },
+});
+
+// Books a delivery into inventory. Receiving less than the shipped quantity
+// closes the shipment short; the purchase order stays partially received.
+// A unit cost replaces the shipment's with what was actually invoiced.
+export const receiveShipment = mutation({
+  args: {
+    shipmentId: v.id("shipments"),
+    quantity: v.optional(v.number()),
+    unitCost: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "purchase");
+
+    const shipment = await requireOpenShipment(ctx, orgId, args.shipmentId);
+    if (args.unitCost !== undefined) {
+      requireUnitCost(args.unitCost);
+      await ctx.db.patch(shipment._id, { unitCost: args.unitCost });
+    }
+    await receiveIntoStock(ctx, shipment, args.quantity ?? shipment.quantity, { userId });
+  },
+});
+
+// A shipment with the names of what it refers to, and its purchase order.
+// Null for an unknown id from the page URL.
+export const getShipment = query({
+  args: { shipmentId: v.string() },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const shipmentId = ctx.db.normalizeId("shipments", args.shipmentId);
+    const shipment = shipmentId && inOrg(await ctx.db.get(shipmentId), orgId);
+    if (!shipment) return null;
+    const [supplier, product, warehouse, order] = await Promise.all([
+      ctx.db.get(shipment.supplierId),
+      ctx.db.get(shipment.productId),
+      shipment.warehouseId ? ctx.db.get(shipment.warehouseId) : null,
+      shipment.purchaseOrderId ? ctx.db.get(shipment.purchaseOrderId) : null,
+    ]);
+    return {
+      ...shipment,
+      supplierName: supplier?.name || "Unknown",
+      productName: product?.name || "Unknown",
+      productSku: product?.sku || "Unknown",
+      warehouseName: warehouse?.name ?? null,
+      orderNumber: order?.orderNumber ?? null,
+    };
+  },
+});
+
+// A shipment entered by hand rather than spawned from a purchase order, from
+// any supplier of the product. Without a unit cost it costs the supplier's
+// price for the quantity.
+export const createShipment = mutation({
+  args: {
+    productId: v.id("products"),
+    supplierId: v.id("suppliers"),
+    quantity: v.number(),
+    orderDate: v.number(),
+    expectedDeliveryDate: v.number(),
+    trackingNumber: v.optional(v.string()),
+    warehouseId: v.optional(v.id("warehouses")),
+    unitCost: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const product = inOrg(await ctx.db.get(args.productId), orgId);
+    if (!product) throw new Error("Product not found");
+    const source = await findProductSource(ctx, product, args.supplierId);
+    if (!source) {
+      throw new Error(`${product.name} is not supplied by this supplier`);
+    }
+    if (!Number.isInteger(args.quantity) || args.quantity <= 0) {
+      throw new Error("Quantity must be a positive whole number");
+    }
+    if (args.unitCost !== undefined) requireUnitCost(args.unitCost);
+    if (args.expectedDeliveryDate < args.orderDate) {
+      throw new Error("Expected delivery can't be before the order date");
+    }
+    if (args.warehouseId) await requireActiveWarehouse(ctx, orgId, args.warehouseId);
+
+    const shipmentId = await ctx.db.insert("shipments", {
+      orgId,
+      supplierId: args.supplierId,
+      productId: product._id,
+      quantity: args.quantity,
+      orderDate: args.orderDate,
+      expectedDeliveryDate: args.expectedDeliveryDate,
+      status: "ordered",
+      trackingNumber: args.trackingNumber?.trim() || undefined,
+      warehouseId: args.warehouseId,
+      unitCost: args.unitCost ?? unitPriceFor(source, args.quantity),
+    });
+    await countShipmentChange(ctx, null, { orgId, status: "ordered" });
+    await syncShipmentAlerts(ctx, shipmentId);
+    await syncProductAlerts(ctx, product._id);
+    return shipmentId;
+  },
+});
+
+// Edits a shipment that hasn't arrived. Deliveries of a purchase order keep
+// their quantity; split them instead.
+export const updateShipment = mutation({
+  args: {
+    shipmentId: v.id("shipments"),
+    quantity: v.number(),
+    expectedDeliveryDate: v.number(),
+    status: v.union(v.literal("ordered"), v.literal("in_transit"), v.literal("delayed")),
+    delayReason: v.union(v.string(), v.null()),
+    trackingNumber: v.union(v.string(), v.null()),
+    warehouseId: v.union(v.id("warehouses"), v.null()),
+    unitCost: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const shipment = await requireOpenShipment(ctx, orgId, args.shipmentId);
+    if (!Number.isInteger(args.quantity) || args.quantity <= 0) {
+      throw new Error("Quantity must be a positive whole number");
+    }
+    if (shipment.purchaseOrderLineId && args.quantity !== shipment.quantity) {
+      throw new Error("This shipment belongs to a purchase order; split it to change the quantity");
+    }
+    if (args.expectedDeliveryDate < shipment.orderDate) {
+      throw new Error("Expected delivery can't be before the order date");
+    }
+    const delayReason = args.delayReason?.trim() || undefined;
+    if (args.status === "delayed" && !delayReason) throw new Error("Give a reason for the delay");
+    if (args.warehouseId) await requireActiveWarehouse(ctx, orgId, args.warehouseId);
+    if (args.unitCost !== undefined) requireUnitCost(args.unitCost);
+
+    await ctx.db.patch(shipment._id, {
+      quantity: args.quantity,
+      expectedDeliveryDate: args.expectedDeliveryDate,
+      status: args.status,
+      delayReason: args.status === "delayed" ? delayReason : undefined,
+      trackingNumber: args.trackingNumber?.trim() || undefined,
+      warehouseId: args.warehouseId ?? undefined,
+      unitCost: args.unitCost ?? shipment.unitCost,
+    });
+    await countShipmentChange(ctx, shipment, { orgId, status: args.status });
+    await syncShipmentAlerts(ctx, shipment._id);
+    await syncProductAlerts(ctx, shipment.productId);
+  },
+});
+
+// Shipments of a purchase order are cancelled with the order
+export const cancelShipment = mutation({
+  args: { shipmentId: v.id("shipments") },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const shipment = await requireOpenShipment(ctx, orgId, args.shipmentId);
+    if (shipment.purchaseOrderId) {
+      throw new Error("This shipment belongs to a purchase order; cancel or close the order instead");
+    }
+
+    await ctx.db.patch(shipment._id, { status: "cancelled" });
+    await countShipmentChange(ctx, shipment, { orgId, status: "cancelled" });
+    await syncShipmentAlerts(ctx, shipment._id);
+    await syncProductAlerts(ctx, shipment.productId);
+    await recomputeSupplierScore(ctx, shipment.supplierId);
+  },
+});
+
+// Closes a partially received order, cancelling whatever is still open
+export const closePurchaseOrder = mutation({
+  args: { purchaseOrderId: v.id("purchaseOrders") },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const order = await requireOrder(ctx, orgId, args.purchaseOrderId, ["sent", "partially_received"]);
+    const now = Date.now();
+    await cancelOpenShipments(ctx, order._id);
+    await ctx.db.patch(order._id, { status: "closed", closedAt: now, updatedAt: now });
+  },
+});
+
+export const cancelPurchaseOrder = mutation({
+  args: { purchaseOrderId: v.id("purchaseOrders") },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const order = await requireOrder(ctx, orgId, args.purchaseOrderId, ["draft", "approved", "sent"]);
+    const now = Date.now();
+    await cancelOpenShipments(ctx, order._id);
+    await ctx.db.patch(order._id, { status: "cancelled", closedAt: now, updatedAt: now });
+  },
+});
+
+// Helper functions
+export async function createDraftOrder(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  orgId: Id<"organizations">,
+  order: {
+    supplierId: Id<"suppliers">;
+    lines: Infer<typeof lineValidator>[];
+    expectedDeliveryDate?: number;
+    notes?: string;
+  },
+) {
+  const supplier = inOrg(await ctx.db.get(order.supplierId), orgId);
+  if (!supplier) throw new Error("Supplier not found");
+  if (supplier.status !== "active") throw new Error(`${supplier.name} is not an active supplier`);
+  if (order.lines.length === 0) throw new Error("A purchase order needs at least one line");
+
+  const now = Date.now();
+  const purchaseOrderId = await ctx.db.insert("purchaseOrders", {
+    orgId,
+    orderNumber: await nextOrderNumber(ctx, orgId),
+    supplierId: order.supplierId,
+    status: "draft",
+    expectedDeliveryDate: order.expectedDeliveryDate,
+    notes: order.notes,
+    createdBy: userId,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await insertLines(ctx, { _id: purchaseOrderId, orgId, supplierId: order.supplierId }, order.lines);
+
+  return purchaseOrderId;
+}
+
+// Books a delivery into inventory and updates the shipment, its purchase
+// order line and the order. Shared by the receiving screen, the REST API
+// and carrier tracking, which knows when the delivery actually happened.
+export async function receiveIntoStock(
+  ctx: MutationCtx,
+  shipment: Doc<"shipments">,
+  quantity: number,
+  by: { userId?: Id<"users">; apiKeyId?: Id<"apiKeys"> },
+  deliveredAt = Date.now(),
+) {
+  if (!OPEN_SHIPMENT_STATUSES.includes(shipment.status)) {
+    throw new Error(`Shipment is already ${shipment.status}`);
+  }
+  if (!Number.isInteger(quantity) || quantity < 0 || quantity > shipment.quantity) {
+    throw new Error(`Received quantity must be between 0 and ${shipment.quantity}`);
+  }
+
+  const now = Date.now();
+  const warehouseId = await receivingWarehouse(ctx, shipment);
+  if (!warehouseId) throw new Error("Shipment has no receiving warehouse");
+
+  if (quantity > 0) {
+    await postStockMovement(ctx, {
+      orgId: orgOf(shipment),
+      productId: shipment.productId,
+      warehouseId,
+      type: "receipt",
+      quantity,
+      reasonCode: "purchase_order",
+      ...by,
+      shipmentId: shipment._id,
+      timestamp: now,
+    });
+  }
+  await ctx.db.patch(shipment._id, {
+    status: "delivered",
+    actualDeliveryDate: deliveredAt,
+    receivedQuantity: quantity,
+  });
+  await countShipmentChange(ctx, shipment, { ...shipment, status: "delivered" });
+
+  if (shipment.purchaseOrderLineId) {
+    const line = await ctx.db.get(shipment.purchaseOrderLineId);
+    if (line) {
+      await ctx.db.patch(line._id, { quantityReceived: line.quantityReceived + quantity });
+    }
+  }
+  if (shipment.purchaseOrderId) {
+    await refreshOrderStatus(ctx, shipment.purchaseOrderId, now);
+  }
+
+  await syncShipmentAlerts(ctx, shipment._id);
+  await syncProductAlerts(ctx, shipment.productId);
+  await recomputeSupplierScore(ctx, shipment.supplierId);
+}
+
+async function requireOrder(
+  ctx: MutationCtx,
+  orgId: Id<"organizations">,
+  purchaseOrderId: Id<"purchaseOrders">,
+  allowedStatuses: Doc<"purchaseOrders">["status"][],
+) {
+  const order = inOrg(await ctx.db.get(purchaseOrderId), orgId);
+  if (!order) throw new Error("Purchase order not found");
+  if (!allowedStatuses.includes(order.status)) {
+    throw new Error(`Purchase order ${order.orderNumber} is ${order.status}`);
+  }
+  return order;
+}
+
+async function requireOpenShipment(ctx: MutationCtx, orgId: Id<"organizations">, shipmentId: Id<"shipments">) {
+  const shipment = inOrg(await ctx.db.get(shipmentId), orgId);
+  if (!shipment) throw new Error("Shipment not found");
+  if (!OPEN_SHIPMENT_STATUSES.includes(shipment.status)) {
+    throw new Error(`Shipment is already ${shipment.status}`);
+  }
+  return shipment;
+}
+
+async function requireActiveWarehouse(ctx: MutationCtx, orgId: Id<"organizations">, warehouseId: Id<"warehouses">) {
+  const warehouse = inOrg(await ctx.db.get(warehouseId), orgId);
+  if (!warehouse?.isActive) throw new Error("Receiving warehouse is not active");
+  return warehouse;
+}
+
+function requireUnitCost(unitCost: number) {
+  if (!(unitCost >= 0)) throw new Error("Unit cost can't be negative");
+}
+
+// Order numbers run per organization
+async function nextOrderNumber(ctx: MutationCtx, orgId: Id<"organizations">) {
+  const last = await ctx.db.query("purchaseOrders")
+    .withIndex("by_order_number", q => q.eq("orgId", orgId))
+    .order("desc")
+    .first();
+  const lastNumber = last ? parseInt(last.orderNumber.replace("PO-", ""), 10) : 0;
+  return `PO-${String(lastNumber + 1).padStart(6, "0")}`;
+}
+
+async function insertLines(
+  ctx: MutationCtx,
+  order: Pick<Doc<"purchaseOrders">, "_id" | "orgId" | "supplierId">,
+  lines: { productId: Id<"products">; quantity: number; unitCost?: number; warehouseId?: Id<"warehouses"> }[],
+) {
+  const orgId = orgOf(order);
+  for (const line of lines) {
+    const product = inOrg(await ctx.db.get(line.productId), orgId);
+    if (!product) throw new Error("Product not found");
+    const source = await findProductSource(ctx, product, order.supplierId);
+    if (!source) {
+      throw new Error(`${product.name} is not supplied by this supplier`);
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new Error(`Quantity for ${product.name} must be a positive whole number`);
+    }
+    if (source.minimumOrderQuantity && line.quantity < source.minimumOrderQuantity) {
+      throw new Error(`This supplier sells ${product.name} in orders of at least ${source.minimumOrderQuantity}`);
+    }
+
+    const warehouseId = line.warehouseId ?? await defaultWarehouse(ctx, product._id);
+    if (!warehouseId) {
+      throw new Error(`Choose a receiving warehouse for ${product.name}`);
+    }
+    await requireActiveWarehouse(ctx, orgId, warehouseId);
+
+    await ctx.db.insert("purchaseOrderLines", {
+      orgId,
+      purchaseOrderId: order._id,
+      productId: product._id,
+      quantityOrdered: line.quantity,
+      quantityReceived: 0,
+      unitCost: line.unitCost ?? unitPriceFor(source, line.quantity),
+      warehouseId,
+    });
+  }
+}
+
+// Where a shipment is received: its own warehouse, or the first one holding
+// the product. Null when there is neither.
+export async function receivingWarehouse(ctx: QueryCtx, shipment: Doc<"shipments">) {
+  return shipment.warehouseId ?? await defaultWarehouse(ctx, shipment.productId);
+}
+
+// Products without an explicit warehouse are received where they are already stocked
+async function defaultWarehouse(ctx: QueryCtx, productId: Id<"products">) {
+  const item = await ctx.db.query("inventory")
+    .withIndex("by_product", q => q.eq("productId", productId))
+    .first();
+  return item?.warehouseId ?? null;
+}
+
+async function refreshOrderStatus(ctx: MutationCtx, purchaseOrderId: Id<"purchaseOrders">, now: number) {
+  const order = await ctx.db.get(purchaseOrderId);
+  if (!order || order.status === "closed" || order.status === "cancelled") return;
+
+  const lines = await ctx.db.query("purchaseOrderLines")
+    .withIndex("by_purchase_order", q => q.eq("purchaseOrderId", purchaseOrderId))
+    .collect();
+  const fullyReceived = lines.every(line => line.quantityReceived >= line.quantityOrdered);
+
+  await ctx.db.patch(purchaseOrderId, fullyReceived
+    ? { status: "closed", closedAt: now, updatedAt: now }
+    : { status: "partially_received", updatedAt: now });
+}
+
+async function cancelOpenShipments(ctx: MutationCtx, purchaseOrderId: Id<"purchaseOrders">) {
+  const shipments = await ctx.db.query("shipments")
+    .withIndex("by_purchase_order", q => q.eq("purchaseOrderId", purchaseOrderId))
+    .collect();
+  const open = shipments.filter(s => OPEN_SHIPMENT_STATUSES.includes(s.status));
+  for (const shipment of open) {
+    await ctx.db.patch(shipment._id, { status: "cancelled" });
+    await countShipmentChange(ctx, shipment, { ...shipment, status: "cancelled" });
+    await syncShipmentAlerts(ctx, shipment._id);
+    await syncProductAlerts(ctx, shipment.productId);
+  }
+  if (open.length > 0) {
+    await recomputeSupplierScore(ctx, open[0].supplierId);
+  }
+}
@@ -0,0 +1,355 @@
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { syncProductAlerts } from "./alerts";
+import { dailyDemandSeries } from "./forecasting";
+import { inOrg, requirePermission } from "./organizations";
+import { findProductSource, unitPriceFor } from "./supplierCatalog";
+
+// Recommends each product's reorder point and order quantity from its
+// demand history and its supplier's delivery history:
+// - safety stock = z × √(L·σd² + d²·σL²), z from the target cycle service level
+// - reorder point = d·L + safety stock
+// - order quantity = EOQ = √(2·D·S / H)
+// where d and σd are mean and deviation of daily demand, L and σL of the
+// supplier's lead time in days, D is annual demand, S the cost of placing
+// an order and H the annual cost of holding a unit. Holding and stockout
+// costs are based on what the preferred supplier charges for a unit, not
+// the product's selling price.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Deliveries are far sparser than issues, so lead times look further back
+const LEAD_TIME_HISTORY_DAYS = 365;
+
+export type PolicySettings = {
+  serviceLevel: number; // share of order cycles without a stockout, e.g. 0.95
+  orderingCost: number; // per purchase order
+  holdingCostRate: number; // per year, as a share of the unit price
+  stockoutCostRate: number; // per unit short, as a share of the unit price
+  historyDays: number;
+};
+
+export const DEFAULT_POLICY_SETTINGS: PolicySettings = {
+  serviceLevel: 0.95,
+  orderingCost: 50,
+  holdingCostRate: 0.25,
+  stockoutCostRate: 0.5,
+  historyDays: 90,
+};
+
+type PolicyCosts = {
+  holding: number;
+  ordering: number;
+  stockout: number;
+  total: number;
+  serviceLevel: number;
+};
+
+export function mean(values: number[]) {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function standardDeviation(values: number[]) {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+// Standard normal cumulative distribution (Abramowitz and Stegun 26.2.17)
+export function normalCdf(z: number) {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
+
+// Inverse of normalCdf (Acklam's rational approximation)
+export function normalQuantile(p: number) {
+  if (p <= 0 || p >= 1) throw new Error("Service level must be between 0 and 1");
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.3577518672690, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+
+  const low = 0.02425;
+  if (p < low || p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(p < low ? p : 1 - p));
+    const z = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return p < low ? z : -z;
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+// Expected annual costs of a reorder point and order quantity. Units short
+// per cycle use the standard normal loss function; with no variability at
+// all only a reorder point below lead time demand runs short.
+export function policyCosts(
+  policy: { reorderPoint: number; orderQuantity: number },
+  demand: { daily: number; leadTimeDays: number; leadTimeDeviation: number },
+  unitCost: number,
+  settings: PolicySettings,
+): PolicyCosts {
+  const annualDemand = demand.daily * 365;
+  const safetyStock = policy.reorderPoint - demand.daily * demand.leadTimeDays;
+  const ordersPerYear = policy.orderQuantity > 0 ? annualDemand / policy.orderQuantity : 0;
+
+  let unitsShort: number;
+  let serviceLevel: number;
+  if (demand.leadTimeDeviation > 0) {
+    const z = safetyStock / demand.leadTimeDeviation;
+    const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+    unitsShort = demand.leadTimeDeviation * (density - z * (1 - normalCdf(z)));
+    serviceLevel = normalCdf(z);
+  } else {
+    unitsShort = Math.max(0, -safetyStock);
+    serviceLevel = safetyStock >= 0 ? 1 : 0;
+  }
+
+  const holding = unitCost * settings.holdingCostRate * (policy.orderQuantity / 2 + Math.max(0, safetyStock));
+  const ordering = ordersPerYear * settings.orderingCost;
+  const stockout = ordersPerYear * unitsShort * unitCost * settings.stockoutCostRate;
+  return {
+    holding: roundMoney(holding),
+    ordering: roundMoney(ordering),
+    stockout: roundMoney(stockout),
+    total: roundMoney(holding + ordering + stockout),
+    serviceLevel: Math.round(serviceLevel * 1000) / 1000,
+  };
+}
+
+// Recommendation for one product, or null without demand to base it on
+export function recommendPolicy(
+  demandSeries: number[],
+  leadTimes: number[],
+  product: Pick<Doc<"products">, "reorderPoint" | "reorderQuantity">,
+  unitCost: number,
+  defaultLeadTimeDays: number,
+  settings: PolicySettings,
+) {
+  const daily = mean(demandSeries);
+  if (daily <= 0) return null;
+  const dailyDeviation = standardDeviation(demandSeries);
+  const leadTimeDays = leadTimes.length > 0 ? mean(leadTimes) : defaultLeadTimeDays;
+  const leadTimeVariability = standardDeviation(leadTimes);
+
+  // Deviation of demand over the lead time
+  const leadTimeDeviation = Math.sqrt(
+    leadTimeDays * dailyDeviation ** 2 + daily ** 2 * leadTimeVariability ** 2
+  );
+  const z = normalQuantile(settings.serviceLevel);
+  const safetyStock = Math.max(0, Math.ceil(z * leadTimeDeviation));
+  const reorderPoint = Math.ceil(daily * leadTimeDays) + safetyStock;
+
+  const holdingCost = unitCost * settings.holdingCostRate;
+  const orderQuantity = holdingCost > 0
+    ? Math.max(1, Math.round(Math.sqrt(2 * daily * 365 * settings.orderingCost / holdingCost)))
+    : product.reorderQuantity;
+
+  const demand = { daily, leadTimeDays, leadTimeDeviation };
+  return {
+    dailyDemand: round(daily, 2),
+    dailyDemandDeviation: round(dailyDeviation, 2),
+    leadTimeDays: round(leadTimeDays, 1),
+    leadTimeDeviationDays: round(leadTimeVariability, 1),
+    leadTimeSamples: leadTimes.length,
+    safetyStock,
+    reorderPoint,
+    orderQuantity,
+    currentCosts: product.reorderQuantity > 0
+      ? policyCosts({ reorderPoint: product.reorderPoint, orderQuantity: product.reorderQuantity }, demand, unitCost, settings)
+      : null,
+    recommendedCosts: policyCosts({ reorderPoint, orderQuantity }, demand, unitCost, settings),
+  };
+}
+
+export async function getPolicySettings(ctx: QueryCtx, orgId: Id<"organizations">): Promise<PolicySettings> {
+  const config = await ctx.db.query("reorderPolicyConfig")
+    .withIndex("by_org", q => q.eq("orgId", orgId))
+    .first();
+  if (!config) return DEFAULT_POLICY_SETTINGS;
+  const { serviceLevel, orderingCost, holdingCostRate, stockoutCostRate, historyDays } = config;
+  return { serviceLevel, orderingCost, holdingCostRate, stockoutCostRate, historyDays };
+}
+
+export async function buildReorderRecommendations(
+  ctx: QueryCtx,
+  orgId: Id<"organizations">,
+  productIds?: Id<"products">[],
+) {
+  const now = Date.now();
+  const settings = await getPolicySettings(ctx, orgId);
+  const products = productIds
+    ? (await Promise.all(productIds.map(async id => inOrg(await ctx.db.get(id), orgId))))
+      .filter((product): product is NonNullable<typeof product> => product !== null)
+    : await ctx.db.query("products").withIndex("by_org", q => q.eq("orgId", orgId)).collect();
+
+  // Lead times observed per supplier, in days from order to delivery
+  const leadTimesBySupplier = new Map<Id<"suppliers">, number[]>();
+  const supplierLeadTimes = async (supplierId: Id<"suppliers">) => {
+    let leadTimes = leadTimesBySupplier.get(supplierId);
+    if (!leadTimes) {
+      const shipments = await ctx.db.query("shipments").withIndex("by_supplier", q => q.eq("supplierId", supplierId)).collect();
+      leadTimes = shipments
+        .filter(s => s.status === "delivered" && s.actualDeliveryDate !== undefined && s.actualDeliveryDate >= now - LEAD_TIME_HISTORY_DAYS * DAY_MS)
+        .map(s => (s.actualDeliveryDate! - s.orderDate) / DAY_MS);
+      leadTimesBySupplier.set(supplierId, leadTimes);
+    }
+    return leadTimes;
+  };
+
+  const recommendations = await Promise.all(products.map(async (product) => {
+    const [supplier, source, movements] = await Promise.all([
+      ctx.db.get(product.supplierId),
+      findProductSource(ctx, product, product.supplierId),
+      ctx.db.query("stockMovements")
+        .withIndex("by_product", q => q.eq("productId", product._id).gte("timestamp", now - settings.historyDays * DAY_MS))
+        .collect(),
+    ]);
+    // Products stocked more recently than the history window are judged on
+    // the days since their first movement, not diluted with empty days
+    const days = movements.length > 0
+      ? Math.max(1, Math.min(settings.historyDays, Math.ceil((now - movements[0].timestamp) / DAY_MS)))
+      : settings.historyDays;
+    const unitCost = source ? unitPriceFor(source, product.reorderQuantity) : product.unitPrice;
+    const recommendation = recommendPolicy(
+      dailyDemandSeries(movements, days, now),
+      await supplierLeadTimes(product.supplierId),
+      product,
+      unitCost,
+      supplier?.averageDeliveryDays ?? 0,
+      settings,
+    );
+    return {
+      productId: product._id,
+      productName: product.name,
+      productSku: product.sku,
+      supplierName: supplier?.name || "Unknown",
+      unitCost,
+      currentReorderPoint: product.reorderPoint,
+      currentReorderQuantity: product.reorderQuantity,
+      recommendation,
+    };
+  }));
+
+  return { settings, recommendations };
+}
+
+export const getReorderRecommendations = query({
+  args: {},
+  handler: async (ctx) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    return await buildReorderRecommendations(ctx, orgId);
+  },
+});
+
+export const updatePolicySettings = mutation({
+  args: {
+    serviceLevel: v.number(),
+    orderingCost: v.number(),
+    holdingCostRate: v.number(),
+    stockoutCostRate: v.number(),
+    historyDays: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_inventory");
+
+    if (args.serviceLevel < 0.5 || args.serviceLevel > 0.999) {
+      throw new Error("Service level must be between 50% and 99.9%");
+    }
+    if (args.orderingCost < 0 || args.stockoutCostRate < 0) {
+      throw new Error("Costs cannot be negative");
+    }
+    if (args.holdingCostRate <= 0) throw new Error("Holding cost rate must be positive");
+    if (args.historyDays < 14 || args.historyDays > 365) {
+      throw new Error("History must be between 14 and 365 days");
+    }
+
+    const existing = await ctx.db.query("reorderPolicyConfig")
+      .withIndex("by_org", q => q.eq("orgId", orgId))
+      .first();
+    const config = { ...args, orgId, updatedAt: Date.now(), updatedBy: userId };
+    if (existing) {
+      await ctx.db.patch(existing._id, config);
+    } else {
+      await ctx.db.insert("reorderPolicyConfig", config);
+    }
+  },
+});
+
+// Applies the current recommendations to the given products. They are
+// recomputed here rather than taken from the client, so what is logged is
+// what the recommendation was at the time.
+export const acceptReorderRecommendations = mutation({
+  args: { productIds: v.array(v.id("products")) },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_inventory");
+
+    const { settings, recommendations } = await buildReorderRecommendations(ctx, orgId, args.productIds);
+    const now = Date.now();
+    let updated = 0;
+    for (const { productId, currentReorderPoint, currentReorderQuantity, recommendation } of recommendations) {
+      if (!recommendation) continue;
+      if (recommendation.reorderPoint === currentReorderPoint && recommendation.orderQuantity === currentReorderQuantity) continue;
+
+      await ctx.db.patch(productId, {
+        reorderPoint: recommendation.reorderPoint,
+        reorderQuantity: recommendation.orderQuantity,
+      });
+      await ctx.db.insert("reorderPolicyChanges", {
+        orgId,
+        productId,
+        previousReorderPoint: currentReorderPoint,
+        reorderPoint: recommendation.reorderPoint,
+        previousReorderQuantity: currentReorderQuantity,
+        reorderQuantity: recommendation.orderQuantity,
+        safetyStock: recommendation.safetyStock,
+        serviceLevel: settings.serviceLevel,
+        dailyDemand: recommendation.dailyDemand,
+        leadTimeDays: recommendation.leadTimeDays,
+        changedBy: userId,
+        changedAt: now,
+      });
+      await syncProductAlerts(ctx, productId);
+      updated++;
+    }
+    return updated;
+  },
+});
+
+export const getReorderPolicyChanges = query({
+  args: {},
+  handler: async (ctx) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const changes = await ctx.db.query("reorderPolicyChanges")
+      .withIndex("by_org", q => q.eq("orgId", orgId))
+      .order("desc")
+      .take(50);
+    return await Promise.all(
+      changes.map(async (change) => {
+        const [product, user] = await Promise.all([ctx.db.get(change.productId), ctx.db.get(change.changedBy)]);
+        return {
+          ...change,
+          productName: product?.name || "Unknown",
+          userName: user?.name || user?.email || "Unknown",
+        };
+      })
+    );
+  },
+});
+
+// Helper functions
+function round(value: number, digits: number) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function roundMoney(value: number) {
+  return round(value, 2);
+}
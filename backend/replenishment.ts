@@ -0,0 +1,463 @@
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { dailyDemandSeries, exponentialSmoothing } from "./forecasting";
+import { isLocated } from "./lists";
+import { inOrg, requirePermission } from "./organizations";
+import { createDraftOrder, receivingWarehouse } from "./purchaseOrders";
+import { ProductSource, getProductSources, onTimeUnitCost, unitPriceFor } from "./supplierCatalog";
+
+// The replenishment planner. For every product and warehouse it compares the
+// stock position (available stock plus everything already on order) with
+// a reorder level that covers demand over the supplier's lead time plus
+// safety stock. Positions at or below it are ordered up to a target that
+// also covers demand until the next run. Products are ordered from their
+// preferred supplier on its catalog terms, or from the best active
+// alternate while it is inactive. Suggestions are grouped by supplier and
+// rounded up to the supplier's minimum order.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEMAND_HISTORY_DAYS = 28;
+const DEMAND_ALPHA = 0.3;
+const DEFAULT_REVIEW_PERIOD_DAYS = 7;
+const DEFAULT_SAFETY_DAYS = 7;
+
+const OPEN_SHIPMENT_STATUSES: Doc<"shipments">["status"][] = ["ordered", "in_transit", "delayed"];
+
+// Orders whose lines don't have shipments yet
+const UNSENT_ORDER_STATUSES: Doc<"purchaseOrders">["status"][] = ["draft", "approved"];
+
+type PlanOptions = { reviewPeriodDays?: number; safetyDays?: number };
+
+export type PlannedLine = {
+  supplierId: Id<"suppliers">;
+  productId: Id<"products">;
+  warehouseId: Id<"warehouses">;
+  availableStock: number;
+  inboundQuantity: number;
+  dailyDemand: number;
+  leadTimeDays: number;
+  safetyStock: number;
+  reorderLevel: number;
+  targetStock: number;
+  suggestedQuantity: number;
+  unitCost: number;
+  note?: string;
+};
+
+// Reorder level and order quantity for one product in one warehouse. The
+// static reorder point acts as a floor for the reorder level, and the
+// product's reorder quantity as the smallest quantity worth ordering.
+export function planLocation(input: {
+  availableStock: number;
+  inboundQuantity: number;
+  dailyDemand: number;
+  leadTimeDays: number;
+  reviewPeriodDays: number;
+  safetyDays: number;
+  reorderPoint?: number;
+  reorderQuantity: number;
+}) {
+  const safetyStock = Math.ceil(input.dailyDemand * input.safetyDays);
+  const reorderLevel = Math.max(
+    Math.ceil(input.dailyDemand * input.leadTimeDays) + safetyStock,
+    input.reorderPoint ?? 0,
+  );
+  const targetStock = reorderLevel + Math.ceil(input.dailyDemand * input.reviewPeriodDays);
+  const position = input.availableStock + input.inboundQuantity;
+  const quantity = position > reorderLevel
+    ? 0
+    : Math.max(targetStock - position, input.reorderQuantity, 1);
+  return { safetyStock, reorderLevel, targetStock, quantity };
+}
+
+// Raises a supplier's lines to its minimum order quantity and value. The
+// shortfall goes onto the line with the highest demand, which will use the
+// extra stock soonest.
+export function applySupplierMinimums<T extends { quantity: number; unitCost: number; dailyDemand: number; note?: string }>(
+  lines: T[],
+  supplier: Pick<Doc<"suppliers">, "minimumOrderQuantity" | "minimumOrderValue">,
+): T[] {
+  if (lines.length === 0) return lines;
+  const result = lines.map(line => ({ ...line }));
+  const busiest = result.reduce((best, line) => line.dailyDemand > best.dailyDemand ? line : best, result[0]);
+
+  const totalQuantity = result.reduce((sum, line) => sum + line.quantity, 0);
+  if (supplier.minimumOrderQuantity && totalQuantity < supplier.minimumOrderQuantity) {
+    const extra = supplier.minimumOrderQuantity - totalQuantity;
+    busiest.quantity += extra;
+    busiest.note = joinNotes(busiest.note, `Raised by ${extra} to meet the minimum order of ${supplier.minimumOrderQuantity} units`);
+  }
+
+  const totalValue = result.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+  if (supplier.minimumOrderValue && totalValue < supplier.minimumOrderValue && busiest.unitCost > 0) {
+    const extra = Math.ceil((supplier.minimumOrderValue - totalValue) / busiest.unitCost);
+    busiest.quantity += extra;
+    busiest.note = joinNotes(busiest.note, `Raised by ${extra} to meet the minimum order value of $${supplier.minimumOrderValue}`);
+  }
+  return result;
+}
+
+export async function buildReplenishmentPlan(
+  ctx: QueryCtx,
+  orgId: Id<"organizations">,
+  options: PlanOptions = {},
+): Promise<PlannedLine[]> {
+  const now = Date.now();
+  const reviewPeriodDays = options.reviewPeriodDays ?? DEFAULT_REVIEW_PERIOD_DAYS;
+  const safetyDays = options.safetyDays ?? DEFAULT_SAFETY_DAYS;
+
+  const [products, suppliers, warehouses] = await Promise.all([
+    ctx.db.query("products").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+    ctx.db.query("suppliers").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+    ctx.db.query("warehouses").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+  ]);
+  const activeWarehouses = new Set(warehouses.filter(w => w.isActive).map(w => w._id));
+  const unsentLines = await unsentOrderLines(ctx, orgId);
+
+  const lines: PlannedLine[] = [];
+  for (const product of products) {
+    // Inactive suppliers can't be ordered from
+    const choice = chooseSource(await getProductSources(ctx, product), suppliers);
+    if (!choice) continue;
+    const { source, supplier } = choice;
+    const leadTimeDays = source.leadTimeDays ?? supplier.averageDeliveryDays;
+
+    const inventory = (await ctx.db.query("inventory")
+      .withIndex("by_product", q => q.eq("productId", product._id))
+      .collect())
+      .filter(isLocated)
+      .filter(item => activeWarehouses.has(item.warehouseId));
+    if (inventory.length === 0) continue;
+
+    const inbound = await inboundByWarehouse(ctx, product._id, unsentLines);
+    const locations = await Promise.all(inventory.map(async (item) => {
+      const movements = await ctx.db.query("stockMovements")
+        .withIndex("by_product_and_warehouse", q => q
+          .eq("productId", product._id)
+          .eq("warehouseId", item.warehouseId)
+          .gte("timestamp", now - DEMAND_HISTORY_DAYS * DAY_MS))
+        .collect();
+      const dailyDemand = exponentialSmoothing(dailyDemandSeries(movements, DEMAND_HISTORY_DAYS, now), DEMAND_ALPHA);
+      const inboundQuantity = inbound.get(item.warehouseId) ?? 0;
+      return {
+        item,
+        dailyDemand,
+        inboundQuantity,
+        ...planLocation({
+          availableStock: item.availableStock,
+          inboundQuantity,
+          dailyDemand,
+          leadTimeDays,
+          reviewPeriodDays,
+          safetyDays,
+          reorderPoint: item.reorderPoint,
+          reorderQuantity: product.reorderQuantity,
+        }),
+      };
+    }));
+
+    // Warehouses without their own reorder point share the product's, which
+    // is judged on their combined position, as in the inventory view
+    const shared = locations.filter(l => l.item.reorderPoint === undefined);
+    const sharedPosition = shared.reduce((sum, l) => sum + l.item.availableStock + l.inboundQuantity, 0);
+    if (shared.length > 0 && shared.every(l => l.quantity === 0) && sharedPosition <= product.reorderPoint) {
+      const busiest = shared.reduce((best, l) => l.dailyDemand > best.dailyDemand ? l : best, shared[0]);
+      busiest.quantity = Math.max(product.reorderQuantity, product.reorderPoint - sharedPosition + 1);
+    }
+
+    for (const location of locations.filter(l => l.quantity > 0)) {
+      const quantity = Math.max(location.quantity, source.minimumOrderQuantity ?? 0);
+      lines.push({
+        supplierId: supplier._id,
+        productId: product._id,
+        warehouseId: location.item.warehouseId,
+        availableStock: location.item.availableStock,
+        inboundQuantity: location.inboundQuantity,
+        dailyDemand: Math.round(location.dailyDemand * 100) / 100,
+        leadTimeDays,
+        safetyStock: location.safetyStock,
+        reorderLevel: location.reorderLevel,
+        targetStock: location.targetStock,
+        suggestedQuantity: quantity,
+        unitCost: unitPriceFor(source, quantity),
+        note: joinNotes(
+          supplier._id !== product.supplierId ? "Preferred supplier is inactive" : undefined,
+          quantity > location.quantity ? `Raised to the supplier's minimum of ${quantity} for this product` : undefined,
+        ) || undefined,
+      });
+    }
+  }
+
+  return suppliers.flatMap(supplier =>
+    applySupplierMinimums(
+      lines.filter(line => line.supplierId === supplier._id).map(line => ({ ...line, quantity: line.suggestedQuantity })),
+      supplier,
+    ).map(({ quantity, ...line }) => ({ ...line, suggestedQuantity: quantity }))
+  );
+}
+
+// The plan grouped by supplier, as shown for review
+export async function buildReplenishmentSuggestions(ctx: QueryCtx, orgId: Id<"organizations">, options: PlanOptions = {}) {
+  const plan = await buildReplenishmentPlan(ctx, orgId, options);
+  return await describeLines(ctx, plan.map(line => ({ ...line, quantity: line.suggestedQuantity })));
+}
+
+// What the planner would suggest right now, without creating a run
+export const getReplenishmentSuggestions = query({
+  args: {
+    reviewPeriodDays: v.optional(v.number()),
+    safetyDays: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    return await buildReplenishmentSuggestions(ctx, orgId, args);
+  },
+});
+
+// A run with its lines grouped by supplier; the open run if none is given
+export const getReplenishmentRun = query({
+  args: { runId: v.optional(v.id("replenishmentRuns")) },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const run = args.runId
+      ? inOrg(await ctx.db.get(args.runId), orgId)
+      : await ctx.db.query("replenishmentRuns")
+        .withIndex("by_org", q => q.eq("orgId", orgId).eq("status", "open"))
+        .first();
+    if (!run) return null;
+
+    const lines = await ctx.db.query("replenishmentLines")
+      .withIndex("by_run", q => q.eq("runId", run._id))
+      .collect();
+    const orders = await Promise.all(run.purchaseOrderIds.map(id => ctx.db.get(id)));
+    return {
+      ...run,
+      orderNumbers: orders.map(order => order?.orderNumber || "Unknown"),
+      suppliers: await describeLines(ctx, lines),
+    };
+  },
+});
+
+export const createReplenishmentRun = mutation({
+  args: {
+    reviewPeriodDays: v.optional(v.number()),
+    safetyDays: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "plan");
+
+    const reviewPeriodDays = args.reviewPeriodDays ?? DEFAULT_REVIEW_PERIOD_DAYS;
+    const safetyDays = args.safetyDays ?? DEFAULT_SAFETY_DAYS;
+    if (reviewPeriodDays < 1 || reviewPeriodDays > 90) throw new Error("Review period must be between 1 and 90 days");
+    if (safetyDays < 0 || safetyDays > 90) throw new Error("Safety stock must be between 0 and 90 days");
+
+    const now = Date.now();
+    const open = await ctx.db.query("replenishmentRuns")
+      .withIndex("by_org", q => q.eq("orgId", orgId).eq("status", "open"))
+      .collect();
+    for (const run of open) {
+      await ctx.db.patch(run._id, { status: "discarded", decidedBy: userId, decidedAt: now });
+    }
+
+    const plan = await buildReplenishmentPlan(ctx, orgId, { reviewPeriodDays, safetyDays });
+    const runId = await ctx.db.insert("replenishmentRuns", {
+      orgId,
+      status: "open",
+      reviewPeriodDays,
+      safetyDays,
+      createdBy: userId,
+      createdAt: now,
+      purchaseOrderIds: [],
+    });
+    for (const line of plan) {
+      await ctx.db.insert("replenishmentLines", { orgId, runId, ...line, quantity: line.suggestedQuantity });
+    }
+    return runId;
+  },
+});
+
+export const updateReplenishmentLine = mutation({
+  args: {
+    lineId: v.id("replenishmentLines"),
+    quantity: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "plan");
+
+    const line = inOrg(await ctx.db.get(args.lineId), orgId);
+    if (!line) throw new Error("Replenishment line not found");
+    await requireOpenRun(ctx, orgId, line.runId);
+    if (!Number.isInteger(args.quantity) || args.quantity < 0) {
+      throw new Error("Quantity must be a whole number of at least 0");
+    }
+    await ctx.db.patch(line._id, { quantity: args.quantity });
+  },
+});
+
+export const discardReplenishmentRun = mutation({
+  args: { runId: v.id("replenishmentRuns") },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "plan");
+
+    const run = await requireOpenRun(ctx, orgId, args.runId);
+    await ctx.db.patch(run._id, { status: "discarded", decidedBy: userId, decidedAt: Date.now() });
+  },
+});
+
+// Turns the reviewed run into one approved purchase order per supplier
+export const approveReplenishmentRun = mutation({
+  args: { runId: v.id("replenishmentRuns") },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "purchase");
+
+    const run = await requireOpenRun(ctx, orgId, args.runId);
+    const lines = (await ctx.db.query("replenishmentLines")
+      .withIndex("by_run", q => q.eq("runId", run._id))
+      .collect())
+      .filter(line => line.quantity > 0);
+    if (lines.length === 0) throw new Error("Nothing to order: every line has a quantity of 0");
+
+    const now = Date.now();
+    const purchaseOrderIds: Id<"purchaseOrders">[] = [];
+    for (const supplierId of new Set(lines.map(line => line.supplierId))) {
+      const supplierLines = lines.filter(line => line.supplierId === supplierId);
+      const supplier = inOrg(await ctx.db.get(supplierId), orgId);
+      if (!supplier) throw new Error("Supplier not found");
+      const shortfall = minimumShortfall(supplier, supplierLines);
+      if (shortfall) throw new Error(`The order to ${supplier.name} ${shortfall}`);
+
+      const purchaseOrderId = await createDraftOrder(ctx, userId, orgId, {
+        supplierId,
+        lines: supplierLines.map(line => ({
+          productId: line.productId,
+          quantity: line.quantity,
+          unitCost: line.unitCost,
+          warehouseId: line.warehouseId,
+        })),
+        notes: "Created by the replenishment planner",
+      });
+      await ctx.db.patch(purchaseOrderId, { status: "approved", approvedBy: userId, approvedAt: now, updatedAt: now });
+      purchaseOrderIds.push(purchaseOrderId);
+    }
+
+    await ctx.db.patch(run._id, { status: "approved", decidedBy: userId, decidedAt: now, purchaseOrderIds });
+    return purchaseOrderIds;
+  },
+});
+
+// Helper functions
+
+// The preferred supplier while it is active, otherwise the active alternate
+// with the lowest on-time unit cost
+function chooseSource(sources: ProductSource[], suppliers: Doc<"suppliers">[]) {
+  const candidates = sources
+    .map(source => ({ source, supplier: suppliers.find(s => s._id === source.supplierId) }))
+    .filter((c): c is { source: ProductSource; supplier: Doc<"suppliers"> } => c.supplier?.status === "active");
+  const preferred = candidates.find(c => c.source.isPreferred);
+  if (preferred) return preferred;
+  return candidates.sort((a, b) =>
+    onTimeUnitCost(a.source.unitPrice, a.supplier.reliabilityScore) - onTimeUnitCost(b.source.unitPrice, b.supplier.reliabilityScore)
+  )[0] ?? null;
+}
+
+// Quantities expected per warehouse from open shipments and from order lines
+// not sent to the supplier yet. Shipments without a receiving warehouse are
+// counted where receiving will book them.
+async function inboundByWarehouse(
+  ctx: QueryCtx,
+  productId: Id<"products">,
+  unsentLines: Doc<"purchaseOrderLines">[],
+) {
+  const inbound = new Map<Id<"warehouses">, number>();
+  const add = (warehouseId: Id<"warehouses">, quantity: number) => {
+    inbound.set(warehouseId, (inbound.get(warehouseId) ?? 0) + quantity);
+  };
+
+  const shipments = (await Promise.all(OPEN_SHIPMENT_STATUSES.map(status =>
+    ctx.db.query("shipments").withIndex("by_product_and_status", q => q.eq("productId", productId).eq("status", status)).collect()
+  ))).flat();
+  for (const shipment of shipments) {
+    const warehouseId = await receivingWarehouse(ctx, shipment);
+    if (warehouseId) add(warehouseId, shipment.quantity);
+  }
+
+  for (const line of unsentLines.filter(line => line.productId === productId)) {
+    add(line.warehouseId, line.quantityOrdered);
+  }
+  return inbound;
+}
+
+// Lines of the organization's orders that haven't been sent yet, read once
+// per plan
+async function unsentOrderLines(ctx: QueryCtx, orgId: Id<"organizations">) {
+  const orders = (await Promise.all(UNSENT_ORDER_STATUSES.map(status =>
+    ctx.db.query("purchaseOrders").withIndex("by_status", q => q.eq("orgId", orgId).eq("status", status)).collect()
+  ))).flat();
+  const lines = await Promise.all(orders.map(order =>
+    ctx.db.query("purchaseOrderLines").withIndex("by_purchase_order", q => q.eq("purchaseOrderId", order._id)).collect()
+  ));
+  return lines.flat();
+}
+
+// Adds names and groups lines by supplier, with order totals checked
+// against the supplier's minimums
+async function describeLines<T extends PlannedLine & { quantity: number }>(ctx: QueryCtx, lines: T[]) {
+  const described = await Promise.all(lines.map(async (line) => {
+    const [product, warehouse] = await Promise.all([ctx.db.get(line.productId), ctx.db.get(line.warehouseId)]);
+    return {
+      ...line,
+      productName: product?.name || "Unknown",
+      productSku: product?.sku || "Unknown",
+      warehouseName: warehouse?.name || "Unknown",
+    };
+  }));
+
+  const supplierIds = [...new Set(lines.map(line => line.supplierId))];
+  return await Promise.all(supplierIds.map(async (supplierId) => {
+    const supplier = await ctx.db.get(supplierId);
+    const supplierLines = described.filter(line => line.supplierId === supplierId);
+    return {
+      supplierId,
+      supplierName: supplier?.name || "Unknown",
+      minimumOrderQuantity: supplier?.minimumOrderQuantity ?? null,
+      minimumOrderValue: supplier?.minimumOrderValue ?? null,
+      totalQuantity: supplierLines.reduce((sum, line) => sum + line.quantity, 0),
+      totalValue: supplierLines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0),
+      shortfall: supplier ? minimumShortfall(supplier, supplierLines) : null,
+      lines: supplierLines,
+    };
+  }));
+}
+
+// Why an order falls short of the supplier's minimums, or null. An order of
+// nothing isn't placed, so it can't fall short.
+function minimumShortfall(
+  supplier: Pick<Doc<"suppliers">, "minimumOrderQuantity" | "minimumOrderValue">,
+  lines: { quantity: number; unitCost: number }[],
+) {
+  const quantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const value = lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+  if (quantity === 0) return null;
+  if (supplier.minimumOrderQuantity && quantity < supplier.minimumOrderQuantity) {
+    return `is ${quantity} units, below the minimum of ${supplier.minimumOrderQuantity}`;
+  }
+  if (supplier.minimumOrderValue && value < supplier.minimumOrderValue) {
+    return `is worth $${value.toFixed(2)}, below the minimum of $${supplier.minimumOrderValue}`;
+  }
+  return null;
+}
+
+function joinNotes(...notes: (string | undefined)[]) {
+  return notes.filter(Boolean).join("; ");
+}
+
+async function requireOpenRun(ctx: MutationCtx, orgId: Id<"organizations">, runId: Id<"replenishmentRuns">) {
+  const run = inOrg(await ctx.db.get(runId), orgId);
+  if (!run) throw new Error("Replenishment run not found");
+  if (run.status !== "open") throw new Error(`This replenishment run was already ${run.status}`);
+  return run;
+}
@@ -0,0 +1,389 @@
+import { internalQuery, internalMutation, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { syncProductAlerts, syncShipmentAlerts } from "./alerts";
+import { countShipmentChange } from "./dashboardCounters";
+import { buildStockoutForecast } from "./forecasting";
+import { buildInventoryStatus } from "./logistics";
+import { inOrg } from "./organizations";
+import { receiveIntoStock } from "./purchaseOrders";
+import { postStockMovement, reasonCodeValidator } from "./stock";
+import { findProductSource, unitPriceFor } from "./supplierCatalog";
+import { recomputeSupplierScore } from "./supplierScoring";
+
+// Internal functions behind the REST API in router.ts. The HTTP layer has
+// already checked the API key and its scopes; orgId comes from the key.
+// Results use the API's own representation: products and warehouses are
+// addressed by SKU and code, dates are ISO 8601 strings.
+
+const OPEN_SHIPMENT_STATUSES: Doc<"shipments">["status"][] = ["ordered", "in_transit", "delayed"];
+
+const MAX_SHIPMENTS = 100;
+
+const DEFAULT_REASONS = {
+  receipt: "purchase_order",
+  issue: "sales_order",
+  adjustment: "correction",
+} as const;
+
+const shipmentStatusValidator = v.union(
+  v.literal("ordered"),
+  v.literal("in_transit"),
+  v.literal("delivered"),
+  v.literal("delayed"),
+  v.literal("cancelled")
+);
+
+// What each request may send. router.ts checks requests against these
+// before calling the functions below, so bad input gets a 400 naming the
+// field.
+
+export const shipmentFilterFields = {
+  status: v.optional(shipmentStatusValidator),
+};
+
+export const movementFields = {
+  sku: v.string(),
+  warehouseCode: v.string(),
+  type: v.union(v.literal("receipt"), v.literal("issue"), v.literal("adjustment")),
+  quantity: v.number(),
+  reasonCode: v.optional(reasonCodeValidator),
+  reference: v.optional(v.string()),
+  note: v.optional(v.string()),
+  unitCost: v.optional(v.number()),
+};
+
+export const shipmentFields = {
+  sku: v.string(),
+  quantity: v.number(),
+  expectedDeliveryDate: v.string(),
+  orderDate: v.optional(v.string()),
+  status: v.optional(v.union(v.literal("ordered"), v.literal("in_transit"))),
+  trackingNumber: v.optional(v.string()),
+  warehouseCode: v.optional(v.string()),
+  unitCost: v.optional(v.number()),
+};
+
+export const shipmentStatusFields = {
+  status: v.union(v.literal("in_transit"), v.literal("delayed"), v.literal("delivered"), v.literal("cancelled")),
+  trackingNumber: v.optional(v.string()),
+  delayReason: v.optional(v.string()),
+  expectedDeliveryDate: v.optional(v.string()),
+  receivedQuantity: v.optional(v.number()),
+};
+
+export const listSuppliers = internalQuery({
+  args: { orgId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    const suppliers = await ctx.db.query("suppliers")
+      .withIndex("by_org", q => q.eq("orgId", args.orgId))
+      .collect();
+
+    return suppliers.map(supplier => ({
+      id: supplier._id,
+      name: supplier.name,
+      location: supplier.location,
+      contactEmail: supplier.contactEmail,
+      status: supplier.status,
+      reliabilityScore: supplier.reliabilityScore,
+      averageDeliveryDays: supplier.averageDeliveryDays,
+    }));
+  },
+});
+
+export const listProducts = internalQuery({
+  args: { orgId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    const products = await ctx.db.query("products")
+      .withIndex("by_org", q => q.eq("orgId", args.orgId))
+      .collect();
+
+    return await Promise.all(
+      products.map(async (product) => {
+        const supplier = await ctx.db.get(product.supplierId);
+        return {
+          id: product._id,
+          sku: product.sku,
+          name: product.name,
+          category: product.category,
+          unitPrice: product.unitPrice,
+          reorderPoint: product.reorderPoint,
+          reorderQuantity: product.reorderQuantity,
+          supplierId: product.supplierId,
+          supplierName: supplier?.name || "Unknown",
+        };
+      })
+    );
+  },
+});
+
+export const listInventory = internalQuery({
+  args: {
+    orgId: v.id("organizations"),
+    warehouseCode: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const warehouse = args.warehouseCode ? await requireWarehouse(ctx, args.orgId, args.warehouseCode) : null;
+    const [inventory, warehouseCodes] = await Promise.all([
+      buildInventoryStatus(ctx, args.orgId, warehouse?._id),
+      warehouseCodesOf(ctx, args.orgId),
+    ]);
+
+    return inventory.map(item => ({
+      sku: item.productSku,
+      productName: item.productName,
+      warehouseCode: warehouseCodes.get(item.warehouseId) ?? null,
+      warehouseName: item.warehouseName,
+      currentStock: item.currentStock,
+      reservedStock: item.reservedStock,
+      availableStock: item.availableStock,
+      reorderPoint: item.reorderPoint,
+      needsReorder: item.needsReorder,
+      lastUpdated: toIso(item.lastUpdated),
+    }));
+  },
+});
+
+// Goods receipts, issues and adjustments. Receipts and issues take a
+// positive quantity; adjustments are signed. Stock added can carry its
+// unit cost; otherwise it costs what the stock already there cost.
+export const postInventoryMovement = internalMutation({
+  args: {
+    orgId: v.id("organizations"),
+    apiKeyId: v.id("apiKeys"),
+    ...movementFields,
+  },
+  handler: async (ctx, args) => {
+    const product = await requireProduct(ctx, args.orgId, args.sku);
+    const warehouse = await requireWarehouse(ctx, args.orgId, args.warehouseCode);
+    if (args.type !== "adjustment" && args.quantity <= 0) {
+      throw new Error(`A ${args.type} needs a positive quantity`);
+    }
+    if (args.unitCost !== undefined) {
+      if (args.type === "issue" || args.quantity < 0) throw new Error("unitCost only applies to stock added");
+      if (!(args.unitCost >= 0)) throw new Error("unitCost can't be negative");
+    }
+
+    const movementId = await postStockMovement(ctx, {
+      orgId: args.orgId,
+      productId: product._id,
+      warehouseId: warehouse._id,
+      type: args.type,
+      quantity: args.type === "issue" ? -args.quantity : args.quantity,
+      reasonCode: args.reasonCode ?? DEFAULT_REASONS[args.type],
+      reference: args.reference,
+      note: args.note,
+      apiKeyId: args.apiKeyId,
+      unitCost: args.unitCost,
+    });
+    const movement = await ctx.db.get(movementId);
+
+    return {
+      id: movementId,
+      sku: product.sku,
+      warehouseCode: warehouse.code,
+      type: args.type,
+      quantity: movement!.quantity,
+      cost: movement!.cost ?? null,
+      currentStock: movement!.currentStockAfter,
+      reservedStock: movement!.reservedStockAfter,
+      availableStock: movement!.currentStockAfter - movement!.reservedStockAfter,
+      timestamp: toIso(movement!.timestamp),
+    };
+  },
+});
+
+export const listShipments = internalQuery({
+  args: {
+    orgId: v.id("organizations"),
+    ...shipmentFilterFields,
+  },
+  handler: async (ctx, args) => {
+    const shipments = await ctx.db.query("shipments")
+      .withIndex("by_org", q => q.eq("orgId", args.orgId))
+      .filter(q => args.status ? q.eq(q.field("status"), args.status) : true)
+      .order("desc")
+      .take(MAX_SHIPMENTS);
+
+    return await Promise.all(shipments.map(shipment => shipmentResource(ctx, shipment)));
+  },
+});
+
+// A shipment announced by the ERP or a carrier rather than spawned from
+// a purchase order. The supplier is the product's supplier; without a unit
+// cost it costs that supplier's price for the quantity.
+export const createShipment = internalMutation({
+  args: {
+    orgId: v.id("organizations"),
+    ...shipmentFields,
+  },
+  handler: async (ctx, args) => {
+    const product = await requireProduct(ctx, args.orgId, args.sku);
+    const warehouse = args.warehouseCode ? await requireWarehouse(ctx, args.orgId, args.warehouseCode) : null;
+    // Inactive warehouses and suppliers are refused, as in the app
+    if (warehouse && !warehouse.isActive) throw new Error(`Warehouse ${warehouse.code} is not active`);
+    const supplier = inOrg(await ctx.db.get(product.supplierId), args.orgId);
+    if (!supplier) throw new Error("Supplier not found");
+    if (supplier.status !== "active") throw new Error(`${supplier.name} is not an active supplier`);
+    if (!Number.isInteger(args.quantity) || args.quantity <= 0) {
+      throw new Error("Quantity must be a positive whole number");
+    }
+    if (args.unitCost !== undefined && !(args.unitCost >= 0)) throw new Error("unitCost can't be negative");
+    const source = await findProductSource(ctx, product, product.supplierId);
+
+    const shipmentId = await ctx.db.insert("shipments", {
+      orgId: args.orgId,
+      supplierId: product.supplierId,
+      productId: product._id,
+      quantity: args.quantity,
+      orderDate: args.orderDate ? parseDate(args.orderDate, "orderDate") : Date.now(),
+      expectedDeliveryDate: parseDate(args.expectedDeliveryDate, "expectedDeliveryDate"),
+      status: args.status ?? "ordered",
+      trackingNumber: args.trackingNumber,
+      warehouseId: warehouse?._id,
+      unitCost: args.unitCost ?? (source ? unitPriceFor(source, args.quantity) : undefined),
+    });
+    await countShipmentChange(ctx, null, { orgId: args.orgId, status: args.status ?? "ordered" });
+    await syncShipmentAlerts(ctx, shipmentId);
+    await syncProductAlerts(ctx, product._id);
+
+    return await shipmentResource(ctx, (await ctx.db.get(shipmentId))!);
+  },
+});
+
+// Carrier and ERP status updates. Delivered books the received quantity
+// (the full shipment unless given) into stock. Shipments of a purchase
+// order are cancelled with the order, as in the app.
+export const updateShipmentStatus = internalMutation({
+  args: {
+    orgId: v.id("organizations"),
+    apiKeyId: v.id("apiKeys"),
+    shipmentId: v.string(),
+    ...shipmentStatusFields,
+  },
+  handler: async (ctx, args) => {
+    const shipmentId = ctx.db.normalizeId("shipments", args.shipmentId);
+    const shipment = shipmentId && inOrg(await ctx.db.get(shipmentId), args.orgId);
+    if (!shipment) throw new Error("Shipment not found");
+    if (!OPEN_SHIPMENT_STATUSES.includes(shipment.status)) {
+      throw new Error(`Shipment is already ${shipment.status}`);
+    }
+    if (args.status === "cancelled" && shipment.purchaseOrderId) {
+      throw new Error("This shipment belongs to a purchase order; cancel or close the order instead");
+    }
+
+    if (args.status === "delivered") {
+      await receiveIntoStock(ctx, shipment, args.receivedQuantity ?? shipment.quantity, { apiKeyId: args.apiKeyId });
+    } else {
+      await ctx.db.patch(shipment._id, {
+        status: args.status,
+        trackingNumber: args.trackingNumber ?? shipment.trackingNumber,
+        delayReason: args.status === "delayed" ? args.delayReason ?? shipment.delayReason : shipment.delayReason,
+        expectedDeliveryDate: args.expectedDeliveryDate
+          ? parseDate(args.expectedDeliveryDate, "expectedDeliveryDate")
+          : shipment.expectedDeliveryDate,
+      });
+      await countShipmentChange(ctx, shipment, { ...shipment, status: args.status });
+      await syncShipmentAlerts(ctx, shipment._id);
+      if (args.status === "cancelled") {
+        await syncProductAlerts(ctx, shipment.productId);
+        await recomputeSupplierScore(ctx, shipment.supplierId);
+      }
+    }
+
+    return await shipmentResource(ctx, (await ctx.db.get(shipment._id))!);
+  },
+});
+
+// Stock rows at or below their reorder point, with the product's reorder
+// quantity and the latest date an order still arrives before a stockout
+export const listReorderSuggestions = internalQuery({
+  args: { orgId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    const [inventory, forecast, warehouseCodes] = await Promise.all([
+      buildInventoryStatus(ctx, args.orgId),
+      buildStockoutForecast(ctx, args.orgId),
+      warehouseCodesOf(ctx, args.orgId),
+    ]);
+    const forecastByProduct = new Map(forecast.map(row => [row.productId, row]));
+
+    return await Promise.all(
+      inventory.filter(item => item.needsReorder).map(async (item) => {
+        const product = await ctx.db.get(item.productId);
+        const projection = forecastByProduct.get(item.productId);
+        return {
+          sku: item.productSku,
+          productName: item.productName,
+          warehouseCode: warehouseCodes.get(item.warehouseId) ?? null,
+          availableStock: item.availableStock,
+          reorderPoint: item.reorderPoint,
+          suggestedQuantity: product?.reorderQuantity ?? 0,
+          supplierId: projection?.supplierId ?? product?.supplierId ?? null,
+          supplierName: projection?.supplierName ?? "Unknown",
+          projectedStockoutDate: toIso(projection?.projectedStockoutDate),
+          reorderByDate: toIso(projection?.reorderByDate),
+        };
+      })
+    );
+  },
+});
+
+// Helper functions
+async function requireProduct(ctx: QueryCtx, orgId: Id<"organizations">, sku: string) {
+  const product = await ctx.db.query("products")
+    .withIndex("by_sku", q => q.eq("orgId", orgId).eq("sku", sku.trim()))
+    .unique();
+  if (!product) throw new Error(`Product ${sku} not found`);
+  return product;
+}
+
+async function requireWarehouse(ctx: QueryCtx, orgId: Id<"organizations">, code: string) {
+  const warehouse = await ctx.db.query("warehouses")
+    .withIndex("by_code", q => q.eq("orgId", orgId).eq("code", code.trim().toUpperCase()))
+    .unique();
+  if (!warehouse) throw new Error(`Warehouse ${code} not found`);
+  return warehouse;
+}
+
+async function warehouseCodesOf(ctx: QueryCtx, orgId: Id<"organizations">) {
+  const warehouses = await ctx.db.query("warehouses")
+    .withIndex("by_org", q => q.eq("orgId", orgId))
+    .collect();
+  return new Map<Id<"warehouses">, string>(warehouses.map(w => [w._id, w.code]));
+}
+
+async function shipmentResource(ctx: QueryCtx, shipment: Doc<"shipments">) {
+  const [supplier, product, warehouse] = await Promise.all([
+    ctx.db.get(shipment.supplierId),
+    ctx.db.get(shipment.productId),
+    shipment.warehouseId ? ctx.db.get(shipment.warehouseId) : null,
+  ]);
+  return {
+    id: shipment._id,
+    sku: product?.sku || "Unknown",
+    productName: product?.name || "Unknown",
+    supplierId: shipment.supplierId,
+    supplierName: supplier?.name || "Unknown",
+    warehouseCode: warehouse?.code ?? null,
+    quantity: shipment.quantity,
+    unitCost: shipment.unitCost ?? null,
+    status: shipment.status,
+    orderDate: toIso(shipment.orderDate),
+    expectedDeliveryDate: toIso(shipment.expectedDeliveryDate),
+    actualDeliveryDate: toIso(shipment.actualDeliveryDate),
+    receivedQuantity: shipment.receivedQuantity ?? null,
+    trackingNumber: shipment.trackingNumber ?? null,
+    delayReason: shipment.delayReason ?? null,
+    purchaseOrderId: shipment.purchaseOrderId ?? null,
+  };
+}
+
+function parseDate(value: string, field: string) {
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) throw new Error(`${field} must be an ISO 8601 date`);
+  return timestamp;
+}
+
+function toIso(timestamp: number | null | undefined) {
+  return timestamp == null ? null : new Date(timestamp).toISOString();
+}
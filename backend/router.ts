@@ -1,5 +1,224 @@
 import { httpRouter } from "convex/server";
+import { GenericValidator, ObjectType, PropertyValidators } from "convex/values";
+import { httpAction, ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { ApiScope, hashApiKey } from "./apiKeys";
+import { normalizeCarrierPayload } from "./carrierEvents";
+import { verifyWebhookSignature } from "./carrierTracking";
+import { movementFields, shipmentFields, shipmentFilterFields, shipmentStatusFields } from "./restApi";
 
 const http = httpRouter();
 
+// REST API for external systems (ERP, WMS, carriers). Requests carry an
+// organization API key as "Authorization: Bearer <key>"; each route needs
+// one scope on that key. Breaking changes go under a new version prefix.
+const API_PREFIX = "/api/v1";
+
+type ApiKey = { apiKeyId: Id<"apiKeys">; orgId: Id<"organizations"> };
+
+http.route({
+  path: `${API_PREFIX}/suppliers`,
+  method: "GET",
+  handler: apiRoute("suppliers:read", async (ctx, _request, key) => ({
+    data: await ctx.runQuery(internal.restApi.listSuppliers, { orgId: key.orgId }),
+  })),
+});
+
+http.route({
+  path: `${API_PREFIX}/products`,
+  method: "GET",
+  handler: apiRoute("products:read", async (ctx, _request, key) => ({
+    data: await ctx.runQuery(internal.restApi.listProducts, { orgId: key.orgId }),
+  })),
+});
+
+http.route({
+  path: `${API_PREFIX}/inventory`,
+  method: "GET",
+  handler: apiRoute("inventory:read", async (ctx, request, key) => ({
+    data: await ctx.runQuery(internal.restApi.listInventory, {
+      orgId: key.orgId,
+      warehouseCode: new URL(request.url).searchParams.get("warehouse") ?? undefined,
+    }),
+  })),
+});
+
+// Goods receipts, issues and adjustments
+http.route({
+  path: `${API_PREFIX}/inventory/movements`,
+  method: "POST",
+  handler: apiRoute("inventory:write", async (ctx, request, key) => ({
+    data: await ctx.runMutation(internal.restApi.postInventoryMovement, {
+      ...checkFields(await readBody(request), movementFields),
+      orgId: key.orgId,
+      apiKeyId: key.apiKeyId,
+    }),
+  }), 201),
+});
+
+http.route({
+  path: `${API_PREFIX}/shipments`,
+  method: "GET",
+  handler: apiRoute("shipments:read", async (ctx, request, key) => ({
+    data: await ctx.runQuery(internal.restApi.listShipments, {
+      orgId: key.orgId,
+      ...checkFields({ status: new URL(request.url).searchParams.get("status") ?? undefined }, shipmentFilterFields),
+    }),
+  })),
+});
+
+http.route({
+  path: `${API_PREFIX}/shipments`,
+  method: "POST",
+  handler: apiRoute("shipments:write", async (ctx, request, key) => ({
+    data: await ctx.runMutation(internal.restApi.createShipment, {
+      ...checkFields(await readBody(request), shipmentFields),
+      orgId: key.orgId,
+    }),
+  }), 201),
+});
+
+// POST /api/v1/shipments/{id}/status
+http.route({
+  pathPrefix: `${API_PREFIX}/shipments/`,
+  method: "POST",
+  handler: apiRoute("shipments:write", async (ctx, request, key) => {
+    const match = new URL(request.url).pathname.match(/\/shipments\/([^/]+)\/status$/);
+    if (!match) throw new Error("Route not found");
+    return {
+      data: await ctx.runMutation(internal.restApi.updateShipmentStatus, {
+        ...checkFields(await readBody(request), shipmentStatusFields),
+        orgId: key.orgId,
+        apiKeyId: key.apiKeyId,
+        shipmentId: match[1],
+      }),
+    };
+  }),
+});
+
+http.route({
+  path: `${API_PREFIX}/reorder-suggestions`,
+  method: "GET",
+  handler: apiRoute("reorders:read", async (ctx, _request, key) => ({
+    data: await ctx.runQuery(internal.restApi.listReorderSuggestions, { orgId: key.orgId }),
+  })),
+});
+
+// Carrier tracking webhook: POST /webhooks/carrier-tracking/{orgId}, signed
+// with the organization's webhook secret
+http.route({
+  pathPrefix: "/webhooks/carrier-tracking/",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const orgId = new URL(request.url).pathname.split("/").pop() ?? "";
+    const secret = await ctx.runQuery(internal.carrierTracking.getWebhookSecret, { orgId });
+    if (!secret) return json({ error: "Webhook not found" }, 404);
+
+    const body = await request.text();
+    if (!await verifyWebhookSignature(secret, body, request.headers.get("X-Signature"))) {
+      return json({ error: "Invalid signature" }, 401);
+    }
+
+    try {
+      const events = normalizeCarrierPayload(JSON.parse(body));
+      return json(await ctx.runMutation(internal.carrierTracking.recordTrackingEvents, {
+        orgId: orgId as Id<"organizations">,
+        events,
+      }), 200);
+    } catch (error) {
+      return json({ error: error instanceof Error ? error.message : "Invalid payload" }, 400);
+    }
+  }),
+});
+
 export default http;
+
+// Helper functions
+
+// Authenticates the key, checks the scope and turns thrown errors into
+// JSON error responses
+function apiRoute(
+  scope: ApiScope,
+  handler: (ctx: ActionCtx, request: Request, key: ApiKey) => Promise<unknown>,
+  successStatus = 200,
+) {
+  return httpAction(async (ctx, request) => {
+    const token = request.headers.get("Authorization")?.match(/^Bearer\s+(\S+)$/)?.[1];
+    if (!token) return json({ error: "Missing API key" }, 401);
+
+    const key = await ctx.runQuery(internal.apiKeys.authenticateApiKey, { hashedKey: await hashApiKey(token) });
+    if (!key) return json({ error: "Invalid or revoked API key" }, 401);
+    if (!key.scopes.includes(scope)) return json({ error: `This API key lacks the ${scope} scope` }, 403);
+    await ctx.runMutation(internal.apiKeys.recordApiKeyUse, { apiKeyId: key.apiKeyId });
+
+    try {
+      return json(await handler(ctx, request, key), successStatus);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Request failed";
+      return json({ error: message }, /not found/i.test(message) ? 404 : 400);
+    }
+  });
+}
+
+async function readBody(request: Request): Promise<unknown> {
+  return await request.json().catch(() => null);
+}
+
+// Checks a request body or query against the fields a route takes, so bad
+// input is answered with a 400 naming the field rather than reaching the
+// internal function
+function checkFields<Fields extends PropertyValidators>(input: unknown, fields: Fields): ObjectType<Fields> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("Request body must be a JSON object");
+  }
+  const values = input as Record<string, unknown>;
+  // Own fields only, so names like constructor or toString are unknown too
+  for (const name of Object.keys(values)) {
+    if (!Object.prototype.hasOwnProperty.call(fields, name)) throw new Error(`Unknown field ${name}`);
+  }
+  for (const [name, validator] of Object.entries(fields)) {
+    const value = values[name];
+    if (value === undefined && validator.isOptional === "optional") continue;
+    if (value === undefined) throw new Error(`${name} is required`);
+    if (!matches(validator, value)) throw new Error(`${name} must be ${describe(validator)}`);
+  }
+  return values as ObjectType<Fields>;
+}
+
+function matches(validator: GenericValidator, value: unknown): boolean {
+  switch (validator.kind) {
+    case "string":
+      return typeof value === "string";
+    case "float64":
+      return typeof value === "number" && Number.isFinite(value);
+    case "literal":
+      return value === validator.value;
+    case "union":
+      return validator.members.some(member => matches(member, value));
+    default:
+      return false;
+  }
+}
+
+function describe(validator: GenericValidator): string {
+  switch (validator.kind) {
+    case "string":
+      return "a string";
+    case "float64":
+      return "a number";
+    case "literal":
+      return String(validator.value);
+    case "union":
+      return `one of ${validator.members.map(describe).join(", ")}`;
+    default:
+      return "valid";
+  }
+}
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
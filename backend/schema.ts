@@ -1,39 +1,313 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
+import {
+  answerTableValidator,
+  entityRefValidator,
+  suggestedActionValidator,
+  turnContextValidator,
+} from "./assistant/validators";
 
 const applicationTables = {
+  // Tenants. Every other application table carries an orgId and is only
+  // visible to the organization's members. Tables that predate
+  // organizations keep orgId optional until organizations:backfillOrganization
+  // has assigned their existing rows.
+  organizations: defineTable({
+    name: v.string(),
+    // Whether users who signed in anonymously may use the organization
+    allowAnonymous: v.boolean(),
+    inviteCode: v.string(),
+    // Signs carrier tracking webhooks (carrierTracking.ts); unset until an
+    // admin enables the webhook
+    carrierWebhookSecret: v.optional(v.string()),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+  }).index("by_invite_code", ["inviteCode"]),
+
+  memberships: defineTable({
+    orgId: v.id("organizations"),
+    userId: v.id("users"),
+    role: v.union(
+      v.literal("viewer"),
+      v.literal("planner"),
+      v.literal("buyer"),
+      v.literal("admin")
+    ),
+    createdAt: v.number(),
+    lastActiveAt: v.number(), // the most recently active membership is the user's current organization
+  }).index("by_user", ["userId", "lastActiveAt"])
+    .index("by_org", ["orgId"])
+    .index("by_org_and_user", ["orgId", "userId"]),
+
+  // Credentials for the REST API (router.ts). Only a SHA-256 hash of the key
+  // is stored; the key itself is shown once when it is created.
+  apiKeys: defineTable({
+    orgId: v.id("organizations"),
+    name: v.string(),
+    prefix: v.string(), // first characters of the key, to tell keys apart
+    hashedKey: v.string(),
+    scopes: v.array(v.union(
+      v.literal("suppliers:read"),
+      v.literal("products:read"),
+      v.literal("inventory:read"),
+      v.literal("inventory:write"),
+      v.literal("shipments:read"),
+      v.literal("shipments:write"),
+      v.literal("reorders:read")
+    )),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    lastUsedAt: v.optional(v.number()),
+    revokedAt: v.optional(v.number()),
+  }).index("by_org", ["orgId"])
+    .index("by_hashed_key", ["hashedKey"]),
+
   suppliers: defineTable({
+    orgId: v.optional(v.id("organizations")),
     name: v.string(),
     location: v.string(),
     reliabilityScore: v.number(), // 0-100
     averageDeliveryDays: v.number(),
     contactEmail: v.string(),
     status: v.union(v.literal("active"), v.literal("inactive")),
-  }),
+    scoreUpdatedAt: v.optional(v.number()), // set once computed from shipment history
+    // Order terms the replenishment planner rounds suggested orders up to
+    minimumOrderQuantity: v.optional(v.number()), // units per order
+    minimumOrderValue: v.optional(v.number()),
+  }).index("by_org", ["orgId"])
+    .index("by_status", ["orgId", "status"])
+    .searchIndex("search_name", { searchField: "name", filterFields: ["orgId", "status"] }),
+
+  // Time series of computed reliability scores, one row per recomputation
+  supplierScores: defineTable({
+    orgId: v.optional(v.id("organizations")),
+    supplierId: v.id("suppliers"),
+    computedAt: v.number(),
+    score: v.number(),
+    onTimeRate: v.number(),
+    meanLatenessDays: v.number(),
+    cancellationRate: v.number(),
+    averageDeliveryDays: v.optional(v.number()),
+    shipmentCount: v.number(),
+    delayReasons: v.array(v.object({ reason: v.string(), count: v.number() })),
+  }).index("by_supplier", ["supplierId", "computedAt"]),
+
+  // Per-organization weighting used when computing supplier scores
+  supplierScoringConfig: defineTable({
+    orgId: v.optional(v.id("organizations")),
+    onTimeWeight: v.number(),
+    latenessWeight: v.number(),
+    cancellationWeight: v.number(),
+    latenessToleranceDays: v.number(), // mean lateness at which the lateness component hits zero
+    historyDays: v.number(),
+    updatedAt: v.number(),
+    updatedBy: v.optional(v.id("users")),
+  }).index("by_org", ["orgId"]),
+
+  // Log of outreach to suppliers, e.g. chasing delayed shipments
+  supplierContacts: defineTable({
+    orgId: v.optional(v.id("organizations")),
+    supplierId: v.id("suppliers"),
+    subject: v.string(),
+    message: v.string(),
+    shipmentIds: v.array(v.id("shipments")),
+    userId: v.id("users"),
+    createdAt: v.number(),
+  }).index("by_supplier", ["supplierId", "createdAt"]),
+
+  // Per-organization inputs to the reorder point recommendations in
+  // reorderPolicy.ts
+  reorderPolicyConfig: defineTable({
+    orgId: v.id("organizations"),
+    serviceLevel: v.number(), // target share of order cycles without a stockout
+    orderingCost: v.number(), // per purchase order
+    holdingCostRate: v.number(), // per year, share of unit price
+    stockoutCostRate: v.number(), // per unit short, share of unit price
+    historyDays: v.number(),
+    updatedAt: v.number(),
+    updatedBy: v.optional(v.id("users")),
+  }).index("by_org", ["orgId"]),
+
+  // Log of reorder points and quantities changed by accepting recommendations
+  reorderPolicyChanges: defineTable({
+    orgId: v.id("organizations"),
+    productId: v.id("products"),
+    previousReorderPoint: v.number(),
+    reorderPoint: v.number(),
+    previousReorderQuantity: v.number(),
+    reorderQuantity: v.number(),
+    // The recommendation's inputs at the time
+    safetyStock: v.number(),
+    serviceLevel: v.number(),
+    dailyDemand: v.number(),
+    leadTimeDays: v.number(),
+    changedBy: v.id("users"),
+    changedAt: v.number(),
+  }).index("by_org", ["orgId", "changedAt"])
+    .index("by_product", ["productId", "changedAt"]),
 
   products: defineTable({
+    orgId: v.optional(v.id("organizations")),
     name: v.string(),
     sku: v.string(),
     category: v.string(),
     unitPrice: v.number(),
     reorderPoint: v.number(),
     reorderQuantity: v.number(),
+    supplierId: v.id("suppliers"), // the preferred supplier
+    // Name and SKU together, for the search index; see productSearchText
+    searchText: v.optional(v.string()),
+  }).index("by_org", ["orgId"])
+    .index("by_supplier", ["supplierId"])
+    .index("by_sku", ["orgId", "sku"])
+    .index("by_category", ["orgId", "category"])
+    .searchIndex("search_text", { searchField: "searchText", filterFields: ["orgId", "category", "supplierId"] }),
+
+  // Which suppliers can deliver a product, and on what terms. Products
+  // without entries are bought from their own supplier at their unit price
+  // (supplierCatalog.ts).
+  supplierProducts: defineTable({
+    orgId: v.id("organizations"),
     supplierId: v.id("suppliers"),
-  }).index("by_supplier", ["supplierId"])
-    .index("by_sku", ["sku"]),
+    productId: v.id("products"),
+    supplierSku: v.optional(v.string()),
+    unitPrice: v.number(),
+    // Lower prices from a quantity upwards
+    priceBreaks: v.array(v.object({
+      minQuantity: v.number(),
+      unitPrice: v.number(),
+    })),
+    minimumOrderQuantity: v.optional(v.number()),
+    leadTimeDays: v.optional(v.number()), // the supplier's average delivery time if unset
+    isPreferred: v.boolean(),
+    updatedAt: v.number(),
+  }).index("by_org", ["orgId"])
+    .index("by_product", ["productId"])
+    .index("by_supplier", ["supplierId"]),
+
+  warehouses: defineTable({
+    orgId: v.optional(v.id("organizations")),
+    name: v.string(),
+    code: v.string(),
+    location: v.string(),
+    isActive: v.boolean(),
+  }).index("by_org", ["orgId"])
+    .index("by_code", ["orgId", "code"]),
 
   inventory: defineTable({
+    orgId: v.optional(v.id("organizations")),
     productId: v.id("products"),
     currentStock: v.number(),
     reservedStock: v.number(),
     availableStock: v.number(),
     lastUpdated: v.number(),
-    warehouseLocation: v.string(),
-  }).index("by_product", ["productId"])
-    .index("by_warehouse", ["warehouseLocation"]),
+    // Optional until warehouses:backfillInventoryWarehouses has moved rows
+    // from before warehouses existed off warehouseLocation
+    warehouseId: v.optional(v.id("warehouses")),
+    warehouseLocation: v.optional(v.string()),
+    reorderPoint: v.optional(v.number()), // overrides the product's reorder point for this warehouse
+  }).index("by_org", ["orgId"])
+    .index("by_product", ["productId"])
+    .index("by_warehouse", ["warehouseId"])
+    .index("by_product_and_warehouse", ["productId", "warehouseId"]),
+
+  // Stock leaves the source warehouse when the transfer is created and
+  // arrives at the destination when it is received
+  stockTransfers: defineTable({
+    orgId: v.optional(v.id("organizations")),
+    productId: v.id("products"),
+    fromWarehouseId: v.id("warehouses"),
+    toWarehouseId: v.id("warehouses"),
+    quantity: v.number(),
+    status: v.union(
+      v.literal("in_transit"),
+      v.literal("received"),
+      v.literal("cancelled")
+    ),
+    notes: v.optional(v.string()),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    receivedAt: v.optional(v.number()),
+    unitCost: v.optional(v.number()), // what the units sent cost, carried to the destination
+  }).index("by_org", ["orgId"])
+    .index("by_status", ["orgId", "status"])
+    .index("by_product", ["productId", "status"]),
+
+  // What the stock on hand cost (costing.ts). Each layer is stock received
+  // into one warehouse at one unit cost; outbound movements use up the
+  // oldest layers first and empty layers are deleted, so the layers of a
+  // location add up to its on-hand stock.
+  costLayers: defineTable({
+    orgId: v.id("organizations"),
+    productId: v.id("products"),
+    warehouseId: v.id("warehouses"),
+    supplierId: v.optional(v.id("suppliers")), // unset for stock not bought, e.g. found or returned
+    shipmentId: v.optional(v.id("shipments")),
+    receivedAt: v.number(),
+    quantity: v.number(), // still on hand
+    unitCost: v.number(),
+  }).index("by_org", ["orgId"])
+    .index("by_location", ["productId", "warehouseId", "receivedAt"]),
+
+  // Per-organization valuation method; FIFO until an admin changes it
+  valuationConfig: defineTable({
+    orgId: v.id("organizations"),
+    method: v.union(v.literal("fifo"), v.literal("weighted_average")),
+    updatedAt: v.number(),
+    updatedBy: v.optional(v.id("users")),
+  }).index("by_org", ["orgId"]),
+
+  // Append-only stock ledger; inventory rows are the running balance of it.
+  // quantity is signed and applies to on-hand stock, except for
+  // reservation/release where it applies to reserved stock.
+  stockMovements: defineTable({
+    orgId: v.optional(v.id("organizations")),
+    productId: v.id("products"),
+    warehouseId: v.id("warehouses"),
+    type: v.union(
+      v.literal("receipt"),
+      v.literal("issue"),
+      v.literal("adjustment"),
+      v.literal("reservation"),
+      v.literal("release"),
+      v.literal("transfer_out"),
+      v.literal("transfer_in")
+    ),
+    quantity: v.number(),
+    reasonCode: v.optional(v.union(
+      v.literal("purchase_order"),
+      v.literal("customer_return"),
+      v.literal("sales_order"),
+      v.literal("production"),
+      v.literal("cycle_count"),
+      v.literal("damaged"),
+      v.literal("lost"),
+      v.literal("found"),
+      v.literal("expired"),
+      v.literal("correction"),
+      v.literal("transfer"),
+      v.literal("other")
+    )),
+    note: v.optional(v.string()),
+    reference: v.optional(v.string()), // external document, e.g. a sales order number
+    userId: v.optional(v.id("users")), // unset for system-generated movements
+    apiKeyId: v.optional(v.id("apiKeys")), // set when posted through the REST API
+    timestamp: v.number(),
+    currentStockAfter: v.number(),
+    reservedStockAfter: v.number(),
+    // Value of the on-hand stock moved, signed like quantity; unset for
+    // reservations and releases. On issues, the cost of goods issued.
+    cost: v.optional(v.number()),
+    shipmentId: v.optional(v.id("shipments")),
+    transferId: v.optional(v.id("stockTransfers")),
+  }).index("by_product", ["productId", "timestamp"])
+    .index("by_product_and_warehouse", ["productId", "warehouseId", "timestamp"])
+    .index("by_warehouse", ["warehouseId", "timestamp"])
+    .index("by_timestamp", ["orgId", "timestamp"]),
 
   shipments: defineTable({
+    orgId: v.optional(v.id("organizations")),
     supplierId: v.id("suppliers"),
     productId: v.id("products"),
     quantity: v.number(),
@@ -49,22 +323,146 @@ const applicationTables = {
     ),
     trackingNumber: v.optional(v.string()),
     delayReason: v.optional(v.string()),
-  }).index("by_supplier", ["supplierId"])
-    .index("by_product", ["productId"])
+    purchaseOrderId: v.optional(v.id("purchaseOrders")),
+    purchaseOrderLineId: v.optional(v.id("purchaseOrderLines")),
+    warehouseId: v.optional(v.id("warehouses")), // receiving warehouse
+    receivedQuantity: v.optional(v.number()),
+    unitCost: v.optional(v.number()), // purchase cost per unit; unset on shipments from before costing
+  }).index("by_org", ["orgId"])
+    .index("by_supplier", ["supplierId", "expectedDeliveryDate"])
+    .index("by_product", ["productId", "expectedDeliveryDate"])
+    .index("by_product_and_status", ["productId", "status"])
+    .index("by_warehouse", ["warehouseId", "expectedDeliveryDate"])
     .index("by_status", ["status"])
-    .index("by_expected_delivery", ["expectedDeliveryDate"]),
+    .index("by_org_and_status", ["orgId", "status", "expectedDeliveryDate"])
+    .index("by_org_and_expected_delivery", ["orgId", "expectedDeliveryDate"])
+    .index("by_expected_delivery", ["expectedDeliveryDate"])
+    .index("by_purchase_order", ["purchaseOrderId"])
+    .index("by_tracking_number", ["orgId", "trackingNumber"]),
+
+  // Carrier tracking history, appended by the tracking webhook
+  shipmentEvents: defineTable({
+    orgId: v.id("organizations"),
+    shipmentId: v.id("shipments"),
+    carrier: v.optional(v.string()),
+    trackingNumber: v.string(),
+    status: v.union(
+      v.literal("info"),
+      v.literal("in_transit"),
+      v.literal("out_for_delivery"),
+      v.literal("delivered"),
+      v.literal("exception")
+    ),
+    description: v.string(),
+    location: v.optional(v.string()),
+    occurredAt: v.number(),
+    receivedAt: v.number(),
+  }).index("by_shipment", ["shipmentId", "occurredAt"]),
+
+  purchaseOrders: defineTable({
+    orgId: v.optional(v.id("organizations")),
+    orderNumber: v.string(),
+    supplierId: v.id("suppliers"),
+    status: v.union(
+      v.literal("draft"),
+      v.literal("approved"),
+      v.literal("sent"),
+      v.literal("partially_received"),
+      v.literal("closed"),
+      v.literal("cancelled")
+    ),
+    expectedDeliveryDate: v.optional(v.number()),
+    notes: v.optional(v.string()),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    approvedBy: v.optional(v.id("users")),
+    approvedAt: v.optional(v.number()),
+    sentAt: v.optional(v.number()),
+    closedAt: v.optional(v.number()),
+  }).index("by_org", ["orgId"])
+    .index("by_supplier", ["supplierId"])
+    .index("by_status", ["orgId", "status"])
+    .index("by_order_number", ["orgId", "orderNumber"]),
+
+  purchaseOrderLines: defineTable({
+    orgId: v.optional(v.id("organizations")),
+    purchaseOrderId: v.id("purchaseOrders"),
+    productId: v.id("products"),
+    quantityOrdered: v.number(),
+    quantityReceived: v.number(),
+    unitCost: v.number(),
+    warehouseId: v.id("warehouses"),
+  }).index("by_purchase_order", ["purchaseOrderId"])
+    .index("by_product", ["productId"]),
+
+  // A replenishment planner run: suggested order quantities per product and
+  // warehouse, reviewed and edited before being approved into purchase
+  // orders. Creating a run discards the previous open one.
+  replenishmentRuns: defineTable({
+    orgId: v.id("organizations"),
+    status: v.union(v.literal("open"), v.literal("approved"), v.literal("discarded")),
+    reviewPeriodDays: v.number(), // time until the next run; orders cover demand until then
+    safetyDays: v.number(), // days of demand held as safety stock
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    decidedBy: v.optional(v.id("users")),
+    decidedAt: v.optional(v.number()),
+    purchaseOrderIds: v.array(v.id("purchaseOrders")), // created on approval
+  }).index("by_org", ["orgId", "status"]),
+
+  replenishmentLines: defineTable({
+    orgId: v.id("organizations"),
+    runId: v.id("replenishmentRuns"),
+    supplierId: v.id("suppliers"),
+    productId: v.id("products"),
+    warehouseId: v.id("warehouses"),
+    // Inputs as of the run
+    availableStock: v.number(),
+    inboundQuantity: v.number(), // open shipments and unsent order lines
+    dailyDemand: v.number(),
+    leadTimeDays: v.number(),
+    safetyStock: v.number(),
+    reorderLevel: v.number(),
+    targetStock: v.number(),
+    suggestedQuantity: v.number(),
+    quantity: v.number(), // as edited by the reviewer; 0 leaves the line out
+    unitCost: v.number(),
+    note: v.optional(v.string()),
+  }).index("by_run", ["runId"]),
+
+  conversations: defineTable({
+    orgId: v.optional(v.id("organizations")),
+    userId: v.id("users"),
+    title: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_user", ["orgId", "userId", "updatedAt"]),
 
   queries: defineTable({
+    orgId: v.optional(v.id("organizations")),
     userId: v.id("users"),
+    conversationId: v.optional(v.id("conversations")),
     question: v.string(),
     response: v.string(),
     insights: v.array(v.string()),
     recommendations: v.array(v.string()),
+    answeredBy: v.optional(v.string()),
+    intent: v.optional(v.string()),
+    // What the answer was about, so a follow-up in the same conversation
+    // can refer back to it ("which of those...")
+    context: v.optional(turnContextValidator),
+    // Structured parts of the answer, re-rendered as-is from history
+    tables: v.optional(v.array(answerTableValidator)),
+    entityRefs: v.optional(v.array(entityRefValidator)),
+    actions: v.optional(v.array(suggestedActionValidator)),
     timestamp: v.number(),
-  }).index("by_user", ["userId"])
-    .index("by_timestamp", ["timestamp"]),
+  }).index("by_user", ["orgId", "userId", "timestamp"])
+    .index("by_timestamp", ["timestamp"])
+    .index("by_conversation", ["conversationId", "timestamp"]),
 
   alerts: defineTable({
+    orgId: v.optional(v.id("organizations")),
     type: v.union(
       v.literal("low_stock"),
       v.literal("supplier_delay"),
@@ -76,11 +474,152 @@ const applicationTables = {
     severity: v.union(v.literal("low"), v.literal("medium"), v.literal("high")),
     productId: v.optional(v.id("products")),
     supplierId: v.optional(v.id("suppliers")),
+    shipmentId: v.optional(v.id("shipments")),
+    warehouseId: v.optional(v.id("warehouses")), // set when the alert is about one warehouse
+    // Set on alerts raised by the rule engine so re-evaluation updates
+    // the existing alert instead of creating a duplicate
+    dedupeKey: v.optional(v.string()),
     isResolved: v.boolean(),
     createdAt: v.number(),
-  }).index("by_severity", ["severity"])
-    .index("by_type", ["type"])
-    .index("by_resolved", ["isResolved"]),
+    createdBy: v.optional(v.id("users")), // alerts raised by hand
+    updatedAt: v.optional(v.number()),
+    acknowledgedAt: v.optional(v.number()),
+    acknowledgedBy: v.optional(v.id("users")),
+    assignedTo: v.optional(v.id("users")),
+    snoozedUntil: v.optional(v.number()), // hidden from the active list until then
+    resolvedAt: v.optional(v.number()),
+    resolvedBy: v.optional(v.id("users")), // unset when the engine resolved it
+    resolutionNote: v.optional(v.string()),
+    // Escalation policies that have fired, so each fires once (alertEscalation.ts)
+    escalations: v.optional(v.array(v.object({
+      policyId: v.string(),
+      action: v.union(v.literal("escalate_to_admin"), v.literal("promote_severity")),
+      severity: v.optional(v.union(v.literal("low"), v.literal("medium"), v.literal("high"))), // after a promotion
+      assignedTo: v.optional(v.id("users")),
+      at: v.number(),
+    }))),
+  }).index("by_severity", ["orgId", "severity", "isResolved", "createdAt"])
+    .index("by_type", ["orgId", "type", "isResolved"])
+    .index("by_resolved", ["isResolved"])
+    .index("by_org", ["orgId", "isResolved"])
+    .index("by_dedupe_key", ["dedupeKey", "isResolved"])
+    .index("by_product", ["productId", "isResolved"]),
+
+  // Audit trail of each alert, from being raised to being resolved.
+  // Events without a userId were recorded by the rule engine.
+  alertEvents: defineTable({
+    orgId: v.id("organizations"),
+    alertId: v.id("alerts"),
+    kind: v.union(
+      v.literal("raised"),
+      v.literal("severity_changed"),
+      v.literal("acknowledged"),
+      v.literal("assigned"),
+      v.literal("commented"),
+      v.literal("snoozed"),
+      v.literal("escalated"),
+      v.literal("resolved")
+    ),
+    userId: v.optional(v.id("users")),
+    note: v.optional(v.string()),
+    severity: v.optional(v.union(v.literal("low"), v.literal("medium"), v.literal("high"))),
+    assignedTo: v.optional(v.id("users")), // unset when an assignee was removed
+    snoozedUntil: v.optional(v.number()),
+    createdAt: v.number(),
+  }).index("by_alert", ["alertId", "createdAt"]),
+
+  // Per-organization escalation policies; the defaults in alertEscalation.ts
+  // apply until an admin saves their own
+  alertEscalationConfig: defineTable({
+    orgId: v.id("organizations"),
+    policies: v.array(v.object({
+      id: v.string(),
+      severity: v.union(v.literal("low"), v.literal("medium"), v.literal("high")), // applies to open alerts of this severity
+      condition: v.union(v.literal("unacknowledged"), v.literal("unresolved")),
+      afterMinutes: v.number(), // since the alert was raised
+      action: v.union(v.literal("escalate_to_admin"), v.literal("promote_severity")),
+    })),
+    updatedAt: v.number(),
+    updatedBy: v.optional(v.id("users")),
+  }).index("by_org", ["orgId"]),
+
+  // Running totals behind the dashboard's stat cards, one per organization,
+  // kept up to date by the mutations that write the counted documents
+  // (dashboardCounters.ts)
+  dashboardCounters: defineTable({
+    orgId: v.id("organizations"),
+    suppliers: v.number(),
+    reliabilityTotal: v.number(), // sum of the suppliers' reliability scores
+    products: v.number(),
+    activeShipments: v.number(), // ordered or in transit
+    delayedShipments: v.number(),
+    activeAlerts: v.number(), // unresolved
+    updatedAt: v.number(),
+  }).index("by_org", ["orgId"]),
+
+  // One row per organization and day, captured by a nightly job
+  // (analytics.ts). Rates cover the 30 days before capture and are unset
+  // when there was nothing to measure.
+  kpiSnapshots: defineTable({
+    orgId: v.id("organizations"),
+    date: v.number(), // start of the UTC day
+    capturedAt: v.number(),
+    onTimeRate: v.optional(v.number()), // 0-1, of shipments due in the window
+    fillRate: v.optional(v.number()), // 0-1, received over ordered on delivered shipments
+    inventoryValue: v.number(), // on-hand units at the product's unit price
+    daysOfCover: v.optional(v.number()), // available stock over average daily issues
+    openAlerts: v.number(),
+    activeShipments: v.number(),
+    delayedShipments: v.number(),
+    categories: v.array(v.object({
+      category: v.string(),
+      inventoryValue: v.number(),
+      units: v.number(),
+      daysOfCover: v.optional(v.number()),
+    })),
+  }).index("by_org_and_date", ["orgId", "date"]),
+
+  // Where a member wants alerts delivered, and which ones. Empty type,
+  // supplier and warehouse lists match everything (notifications.ts).
+  notificationSubscriptions: defineTable({
+    orgId: v.id("organizations"),
+    userId: v.id("users"),
+    channel: v.union(v.literal("email"), v.literal("webhook"), v.literal("slack")),
+    target: v.string(), // email address or webhook URL
+    signingSecret: v.optional(v.string()), // signs webhook deliveries
+    alertTypes: v.array(v.union(
+      v.literal("low_stock"),
+      v.literal("supplier_delay"),
+      v.literal("quality_issue"),
+      v.literal("reorder_needed")
+    )),
+    minSeverity: v.union(v.literal("low"), v.literal("medium"), v.literal("high")),
+    supplierIds: v.array(v.id("suppliers")),
+    warehouseIds: v.array(v.id("warehouses")),
+    digestMinutes: v.number(), // 0 sends each alert on its own right away
+    isActive: v.boolean(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_org", ["orgId", "isActive"])
+    .index("by_user", ["userId", "orgId"]),
+
+  // Outbox of alert notifications. Pending rows for one subscription that
+  // are due together go out as a single message; failed deliveries are
+  // retried with backoff.
+  notifications: defineTable({
+    orgId: v.id("organizations"),
+    subscriptionId: v.id("notificationSubscriptions"),
+    alertId: v.optional(v.id("alerts")), // unset for test messages
+    trigger: v.union(v.literal("raised"), v.literal("escalated"), v.literal("test")),
+    status: v.union(v.literal("pending"), v.literal("sending"), v.literal("sent"), v.literal("failed")),
+    dueAt: v.number(),
+    attempts: v.number(),
+    claimedAt: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+    createdAt: v.number(),
+    sentAt: v.optional(v.number()),
+  }).index("by_status", ["status", "dueAt"])
+    .index("by_subscription", ["subscriptionId", "status"]),
 };
 
 export default defineSchema({
@@ -0,0 +1,372 @@
+import { query, mutation, internalMutation, MutationCtx } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { syncProductAlerts } from "./alerts";
+import { alignCostLayers, costMovement } from "./costing";
+import { isLocated } from "./lists";
+import { inOrg, requirePermission } from "./organizations";
+
+export const reasonCodeValidator = v.union(
+  v.literal("purchase_order"),
+  v.literal("customer_return"),
+  v.literal("sales_order"),
+  v.literal("production"),
+  v.literal("cycle_count"),
+  v.literal("damaged"),
+  v.literal("lost"),
+  v.literal("found"),
+  v.literal("expired"),
+  v.literal("correction"),
+  v.literal("transfer"),
+  v.literal("other")
+);
+
+type MovementType = Doc<"stockMovements">["type"];
+
+export type StockMovementInput = {
+  orgId: Id<"organizations">;
+  productId: Id<"products">;
+  warehouseId: Id<"warehouses">;
+  type: MovementType;
+  quantity: number;
+  reasonCode?: Infer<typeof reasonCodeValidator>;
+  note?: string;
+  reference?: string;
+  userId?: Id<"users">;
+  apiKeyId?: Id<"apiKeys">;
+  shipmentId?: Id<"shipments">;
+  transferId?: Id<"stockTransfers">;
+  unitCost?: number; // for stock added; defaults to the shipment's cost, then the location's
+  timestamp?: number; // defaults to now; only set when backfilling history
+};
+
+type Balance = { currentStock: number; reservedStock: number };
+
+// Inventory rows per reconciliation run; each reads its full ledger
+const RECONCILE_BATCH = 50;
+
+// Applies one movement to a balance. Throws if the result would break an
+// invariant: on-hand and reserved stock never go negative and reserved
+// stock never exceeds on-hand, so available stock is never negative.
+export function applyMovement(balance: Balance, type: MovementType, quantity: number): Balance {
+  const next = { ...balance };
+  if (type === "reservation" || type === "release") {
+    next.reservedStock += quantity;
+  } else {
+    next.currentStock += quantity;
+  }
+
+  if (next.currentStock < 0) {
+    throw new Error(`Only ${balance.currentStock} units on hand`);
+  }
+  if (next.reservedStock < 0) {
+    throw new Error(`Only ${balance.reservedStock} units reserved`);
+  }
+  if (next.currentStock - next.reservedStock < 0) {
+    throw new Error(`Only ${balance.currentStock - balance.reservedStock} units available`);
+  }
+  return next;
+}
+
+// The expected sign of quantity for each movement type
+const DIRECTION: Record<MovementType, 1 | -1 | 0> = {
+  receipt: 1,
+  issue: -1,
+  adjustment: 0,
+  reservation: 1,
+  release: -1,
+  transfer_out: -1,
+  transfer_in: 1,
+};
+
+// The only way stock levels change: appends a ledger entry and updates the
+// inventory row and cost layers for the product and warehouse in the same
+// transaction
+export async function postStockMovement(ctx: MutationCtx, movement: StockMovementInput) {
+  if (!Number.isInteger(movement.quantity) || movement.quantity === 0) {
+    throw new Error("Movement quantity must be a non-zero whole number");
+  }
+  const direction = DIRECTION[movement.type];
+  if (direction !== 0 && Math.sign(movement.quantity) !== direction) {
+    throw new Error(`A ${movement.type} must have a ${direction > 0 ? "positive" : "negative"} quantity`);
+  }
+
+  const timestamp = movement.timestamp ?? Date.now();
+  const item = await ctx.db.query("inventory")
+    .withIndex("by_product_and_warehouse", q =>
+      q.eq("productId", movement.productId).eq("warehouseId", movement.warehouseId))
+    .unique();
+
+  const balance = applyMovement(
+    item ? { currentStock: item.currentStock, reservedStock: item.reservedStock } : { currentStock: 0, reservedStock: 0 },
+    movement.type,
+    movement.quantity,
+  );
+  const row = {
+    currentStock: balance.currentStock,
+    reservedStock: balance.reservedStock,
+    availableStock: balance.currentStock - balance.reservedStock,
+    lastUpdated: timestamp,
+  };
+
+  if (item) {
+    await ctx.db.patch(item._id, row);
+  } else {
+    await ctx.db.insert("inventory", {
+      orgId: movement.orgId,
+      productId: movement.productId,
+      warehouseId: movement.warehouseId,
+      ...row,
+    });
+  }
+
+  const cost = movement.type === "reservation" || movement.type === "release"
+    ? undefined
+    : await costMovement(ctx, movement, timestamp);
+
+  const { timestamp: _timestamp, unitCost: _unitCost, ...fields } = movement;
+  const movementId = await ctx.db.insert("stockMovements", {
+    ...fields,
+    timestamp,
+    cost,
+    currentStockAfter: balance.currentStock,
+    reservedStockAfter: balance.reservedStock,
+  });
+
+  await syncProductAlerts(ctx, movement.productId);
+  return movementId;
+}
+
+const locationArgs = {
+  productId: v.id("products"),
+  warehouseId: v.id("warehouses"),
+};
+
+export const adjustStock = mutation({
+  args: {
+    ...locationArgs,
+    quantity: v.number(),
+    reasonCode: reasonCodeValidator,
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_inventory");
+
+    await requireLocation(ctx, orgId, args);
+    return await postStockMovement(ctx, { ...args, orgId, type: "adjustment", userId });
+  },
+});
+
+// Cycle count: books the difference between the counted and recorded stock
+export const recordStockCount = mutation({
+  args: {
+    ...locationArgs,
+    countedStock: v.number(),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_inventory");
+
+    await requireLocation(ctx, orgId, args);
+    const item = await ctx.db.query("inventory")
+      .withIndex("by_product_and_warehouse", q =>
+        q.eq("productId", args.productId).eq("warehouseId", args.warehouseId))
+      .unique();
+    const difference = args.countedStock - (item?.currentStock ?? 0);
+    if (difference === 0) return null;
+
+    return await postStockMovement(ctx, {
+      orgId,
+      productId: args.productId,
+      warehouseId: args.warehouseId,
+      type: "adjustment",
+      quantity: difference,
+      reasonCode: "cycle_count",
+      note: args.note,
+      userId,
+    });
+  },
+});
+
+// Ships stock out. With fromReservation the matching reservation is
+// released first, so reserved stock can be issued.
+export const issueStock = mutation({
+  args: {
+    ...locationArgs,
+    quantity: v.number(),
+    reasonCode: v.optional(reasonCodeValidator),
+    reference: v.optional(v.string()),
+    note: v.optional(v.string()),
+    fromReservation: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_inventory");
+
+    await requireLocation(ctx, orgId, args);
+    const { fromReservation, quantity, ...rest } = args;
+    if (fromReservation) {
+      await postStockMovement(ctx, { ...rest, orgId, type: "release", quantity: -quantity, userId });
+    }
+    return await postStockMovement(ctx, {
+      ...rest,
+      orgId,
+      type: "issue",
+      quantity: -quantity,
+      reasonCode: args.reasonCode ?? "sales_order",
+      userId,
+    });
+  },
+});
+
+export const reserveStock = mutation({
+  args: {
+    ...locationArgs,
+    quantity: v.number(),
+    reasonCode: v.optional(reasonCodeValidator),
+    reference: v.optional(v.string()),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_inventory");
+
+    await requireLocation(ctx, orgId, args);
+    return await postStockMovement(ctx, { ...args, orgId, type: "reservation", userId });
+  },
+});
+
+export const releaseStock = mutation({
+  args: {
+    ...locationArgs,
+    quantity: v.number(),
+    reasonCode: v.optional(reasonCodeValidator),
+    reference: v.optional(v.string()),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_inventory");
+
+    await requireLocation(ctx, orgId, args);
+    return await postStockMovement(ctx, { ...args, orgId, type: "release", quantity: -args.quantity, userId });
+  },
+});
+
+export const getStockLedger = query({
+  args: {
+    productId: v.optional(v.id("products")),
+    warehouseId: v.optional(v.id("warehouses")),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const limit = Math.min(args.limit ?? 50, 200);
+    const productId = args.productId && inOrg(await ctx.db.get(args.productId), orgId)?._id;
+    const warehouseId = args.warehouseId && inOrg(await ctx.db.get(args.warehouseId), orgId)?._id;
+    if (args.productId && !productId) throw new Error("Product not found");
+    if (args.warehouseId && !warehouseId) throw new Error("Warehouse not found");
+    const movements = productId && warehouseId
+      ? await ctx.db.query("stockMovements")
+        .withIndex("by_product_and_warehouse", q => q.eq("productId", productId).eq("warehouseId", warehouseId))
+        .order("desc")
+        .take(limit)
+      : productId
+      ? await ctx.db.query("stockMovements")
+        .withIndex("by_product", q => q.eq("productId", productId))
+        .order("desc")
+        .take(limit)
+      : warehouseId
+      ? await ctx.db.query("stockMovements")
+        .withIndex("by_warehouse", q => q.eq("warehouseId", warehouseId))
+        .order("desc")
+        .take(limit)
+      : await ctx.db.query("stockMovements")
+        .withIndex("by_timestamp", q => q.eq("orgId", orgId))
+        .order("desc")
+        .take(limit);
+
+    return await Promise.all(
+      movements.map(async (movement) => {
+        const [product, warehouse, user, apiKey] = await Promise.all([
+          ctx.db.get(movement.productId),
+          ctx.db.get(movement.warehouseId),
+          movement.userId ? ctx.db.get(movement.userId) : null,
+          movement.apiKeyId ? ctx.db.get(movement.apiKeyId) : null,
+        ]);
+        return {
+          ...movement,
+          productName: product?.name || "Unknown",
+          warehouseName: warehouse?.name || "Unknown",
+          userName: apiKey
+            ? `API: ${apiKey.name}`
+            : user?.name || user?.email || (movement.userId ? "Unknown" : "System"),
+        };
+      })
+    );
+  },
+});
+
+// Replays the ledger for every inventory row and repairs rows that drifted
+// from it, along with their cost layers, so valuation matches the repaired
+// stock. Rows are checked a batch per mutation, each run scheduling the
+// next, so no transaction reads the whole ledger. Returns what the batch
+// repaired.
+export const reconcileInventory = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db.query("inventory").paginate({ cursor: args.cursor ?? null, numItems: RECONCILE_BATCH });
+    const repaired: { inventoryId: Id<"inventory">; expected: Balance; actual: Balance; layerUnits: number }[] = [];
+
+    for (const item of page.page) {
+      if (!isLocated(item)) continue;
+      const movements = await ctx.db.query("stockMovements")
+        .withIndex("by_product_and_warehouse", q =>
+          q.eq("productId", item.productId).eq("warehouseId", item.warehouseId))
+        .collect();
+      const expected = movements.reduce<Balance>(
+        (balance, m) => m.type === "reservation" || m.type === "release"
+          ? { ...balance, reservedStock: balance.reservedStock + m.quantity }
+          : { ...balance, currentStock: balance.currentStock + m.quantity },
+        { currentStock: 0, reservedStock: 0 },
+      );
+
+      const drifted = expected.currentStock !== item.currentStock ||
+        expected.reservedStock !== item.reservedStock ||
+        item.availableStock !== item.currentStock - item.reservedStock;
+      if (drifted) {
+        await ctx.db.patch(item._id, {
+          currentStock: expected.currentStock,
+          reservedStock: expected.reservedStock,
+          availableStock: expected.currentStock - expected.reservedStock,
+        });
+        await syncProductAlerts(ctx, item.productId);
+      }
+      // Units added to (or removed from) the cost layers to match on-hand
+      // stock, also when only the layers drifted
+      const layerUnits = await alignCostLayers(ctx, { ...item, currentStock: expected.currentStock });
+      if (drifted || layerUnits !== 0) {
+        repaired.push({
+          inventoryId: item._id,
+          expected,
+          actual: { currentStock: item.currentStock, reservedStock: item.reservedStock },
+          layerUnits,
+        });
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.stock.reconcileInventory, { cursor: page.continueCursor });
+    }
+    return repaired;
+  },
+});
+
+// Helper functions
+async function requireLocation(
+  ctx: MutationCtx,
+  orgId: Id<"organizations">,
+  location: { productId: Id<"products">; warehouseId: Id<"warehouses"> },
+) {
+  if (!inOrg(await ctx.db.get(location.productId), orgId)) throw new Error("Product not found");
+  if (!inOrg(await ctx.db.get(location.warehouseId), orgId)) throw new Error("Warehouse not found");
+}
@@ -0,0 +1,241 @@
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { syncProductAlerts } from "./alerts";
+import { inOrg, requirePermission } from "./organizations";
+
+// The supplier-product catalog: every supplier a product can be bought from,
+// with its price, price breaks, minimum order and lead time. The product's
+// own supplierId is its preferred supplier. Products without catalog entries
+// are bought from that supplier at the last unit cost paid to it, or at the
+// product's unit price until something has been delivered, so the catalog
+// only needs filling in for products with more than one source or with
+// negotiated terms.
+
+const priceBreakValidator = v.object({
+  minQuantity: v.number(),
+  unitPrice: v.number(),
+});
+
+export type ProductSource = Pick<
+  Doc<"supplierProducts">,
+  "supplierId" | "productId" | "supplierSku" | "unitPrice" | "priceBreaks" | "minimumOrderQuantity" | "leadTimeDays" | "isPreferred"
+> & { _id: Id<"supplierProducts"> | null };
+
+// The price per unit for an order of the given quantity
+export function unitPriceFor(source: Pick<ProductSource, "unitPrice" | "priceBreaks">, quantity: number) {
+  return source.priceBreaks
+    .filter(b => quantity >= b.minQuantity)
+    .reduce((price, b) => Math.min(price, b.unitPrice), source.unitPrice);
+}
+
+// The price of a unit that arrives on time. Alternates are ranked by it, so
+// a cheap supplier that is often late can rank below a dearer one.
+export function onTimeUnitCost(unitPrice: number, reliabilityScore: number) {
+  return reliabilityScore > 0 ? unitPrice / (reliabilityScore / 100) : Infinity;
+}
+
+// Every supplier the product can be bought from, including the preferred
+// supplier when it has no catalog entry of its own. The product's supplierId
+// decides which one is preferred, as imports and the REST API only set that.
+export async function getProductSources(ctx: QueryCtx, product: Doc<"products">): Promise<ProductSource[]> {
+  const entries = (await ctx.db.query("supplierProducts")
+    .withIndex("by_product", q => q.eq("productId", product._id))
+    .collect())
+    .map(entry => ({ ...entry, isPreferred: entry.supplierId === product.supplierId }));
+  if (entries.some(entry => entry.isPreferred)) return entries;
+  return [await implicitSource(ctx, product), ...entries];
+}
+
+export async function findProductSource(ctx: QueryCtx, product: Doc<"products">, supplierId: Id<"suppliers">) {
+  const sources = await getProductSources(ctx, product);
+  return sources.find(source => source.supplierId === supplierId) ?? null;
+}
+
+// All sources of all products with their supplier's name, reliability and
+// delivery time; what the assistant suggests alternates from
+export async function buildSupplierCatalog(ctx: QueryCtx, orgId: Id<"organizations">) {
+  const [products, suppliers] = await Promise.all([
+    ctx.db.query("products").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+    ctx.db.query("suppliers").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+  ]);
+
+  const rows = [];
+  for (const product of products) {
+    for (const source of await getProductSources(ctx, product)) {
+      const supplier = suppliers.find(s => s._id === source.supplierId);
+      if (supplier) rows.push(describeSource(source, supplier));
+    }
+  }
+  return rows;
+}
+
+export const getSupplierCatalog = query({
+  args: {},
+  handler: async (ctx) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    return await buildSupplierCatalog(ctx, orgId);
+  },
+});
+
+// A product's sources, preferred first and the rest by on-time unit cost
+export const getProductSuppliers = query({
+  args: { productId: v.id("products") },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const product = inOrg(await ctx.db.get(args.productId), orgId);
+    if (!product) throw new Error("Product not found");
+
+    const sources = await Promise.all((await getProductSources(ctx, product)).map(async (source) => {
+      const supplier = await ctx.db.get(source.supplierId);
+      return supplier ? describeSource(source, supplier) : null;
+    }));
+    return sources
+      .filter(source => source !== null)
+      .sort((a, b) => Number(b.isPreferred) - Number(a.isPreferred) ||
+        onTimeUnitCost(a.unitPrice, a.reliabilityScore) - onTimeUnitCost(b.unitPrice, b.reliabilityScore));
+  },
+});
+
+// Adds a supplier to a product's catalog or updates its terms
+export const upsertSupplierProduct = mutation({
+  args: {
+    productId: v.id("products"),
+    supplierId: v.id("suppliers"),
+    supplierSku: v.optional(v.string()),
+    unitPrice: v.number(),
+    priceBreaks: v.array(priceBreakValidator),
+    minimumOrderQuantity: v.optional(v.number()),
+    leadTimeDays: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const product = inOrg(await ctx.db.get(args.productId), orgId);
+    if (!product) throw new Error("Product not found");
+    const supplier = inOrg(await ctx.db.get(args.supplierId), orgId);
+    if (!supplier) throw new Error("Supplier not found");
+
+    if (!(args.unitPrice >= 0)) throw new Error("Unit price can't be negative");
+    const quantities = args.priceBreaks.map(b => b.minQuantity);
+    if (args.priceBreaks.some(b => !Number.isInteger(b.minQuantity) || b.minQuantity < 2 || !(b.unitPrice >= 0))) {
+      throw new Error("Price breaks need a whole quantity of at least 2 and a price of at least 0");
+    }
+    if (new Set(quantities).size !== quantities.length) {
+      throw new Error("Each price break needs a different quantity");
+    }
+    if (args.minimumOrderQuantity !== undefined && (!Number.isInteger(args.minimumOrderQuantity) || args.minimumOrderQuantity < 1)) {
+      throw new Error("Minimum order quantity must be a whole number of at least 1");
+    }
+    if (args.leadTimeDays !== undefined && !(args.leadTimeDays >= 0)) {
+      throw new Error("Lead time can't be negative");
+    }
+
+    const terms = {
+      supplierSku: args.supplierSku?.trim() || undefined,
+      unitPrice: args.unitPrice,
+      priceBreaks: [...args.priceBreaks].sort((a, b) => a.minQuantity - b.minQuantity),
+      minimumOrderQuantity: args.minimumOrderQuantity,
+      leadTimeDays: args.leadTimeDays,
+      updatedAt: Date.now(),
+    };
+    const existing = (await findProductSource(ctx, product, supplier._id))?._id;
+    if (existing) {
+      await ctx.db.patch(existing, terms);
+      return existing;
+    }
+    return await ctx.db.insert("supplierProducts", {
+      orgId,
+      productId: product._id,
+      supplierId: supplier._id,
+      isPreferred: supplier._id === product.supplierId,
+      ...terms,
+    });
+  },
+});
+
+export const removeSupplierProduct = mutation({
+  args: { supplierProductId: v.id("supplierProducts") },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const entry = inOrg(await ctx.db.get(args.supplierProductId), orgId);
+    if (!entry) throw new Error("Catalog entry not found");
+    const product = await ctx.db.get(entry.productId);
+    if (product?.supplierId === entry.supplierId) {
+      throw new Error("Choose another preferred supplier before removing this one");
+    }
+    await ctx.db.delete(entry._id);
+  },
+});
+
+// Makes another catalog supplier the one the product is normally ordered from
+export const setPreferredSupplier = mutation({
+  args: {
+    productId: v.id("products"),
+    supplierId: v.id("suppliers"),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const product = inOrg(await ctx.db.get(args.productId), orgId);
+    if (!product) throw new Error("Product not found");
+    const supplier = inOrg(await ctx.db.get(args.supplierId), orgId);
+    if (!supplier) throw new Error("Supplier not found");
+    if (supplier.status !== "active") throw new Error(`${supplier.name} is inactive`);
+    if (supplier._id === product.supplierId) return;
+
+    const sources = await getProductSources(ctx, product);
+    if (!sources.some(source => source.supplierId === supplier._id)) {
+      throw new Error(`Add ${supplier.name} to the product's suppliers first`);
+    }
+
+    // The current preferred supplier keeps its terms as an alternate
+    const now = Date.now();
+    for (const { _id, ...source } of sources) {
+      const isPreferred = source.supplierId === supplier._id;
+      if (_id) {
+        await ctx.db.patch(_id, { isPreferred });
+      } else {
+        await ctx.db.insert("supplierProducts", { ...source, orgId, isPreferred, updatedAt: now });
+      }
+    }
+    await ctx.db.patch(product._id, { supplierId: supplier._id });
+    await syncProductAlerts(ctx, product._id);
+  },
+});
+
+// Helper functions
+
+async function implicitSource(ctx: QueryCtx, product: Doc<"products">): Promise<ProductSource> {
+  const lastDelivery = await ctx.db.query("shipments")
+    .withIndex("by_product", q => q.eq("productId", product._id))
+    .order("desc")
+    .filter(q => q.and(
+      q.eq(q.field("supplierId"), product.supplierId),
+      q.eq(q.field("status"), "delivered"),
+      q.neq(q.field("unitCost"), undefined),
+    ))
+    .first();
+  return {
+    _id: null,
+    supplierId: product.supplierId,
+    productId: product._id,
+    unitPrice: lastDelivery?.unitCost ?? product.unitPrice,
+    priceBreaks: [],
+    isPreferred: true,
+  };
+}
+
+function describeSource(source: ProductSource, supplier: Doc<"suppliers">) {
+  return {
+    ...source,
+    supplierName: supplier.name,
+    supplierStatus: supplier.status,
+    reliabilityScore: supplier.reliabilityScore,
+    // The catalog lead time, or the supplier's average delivery time
+    deliveryDays: source.leadTimeDays ?? supplier.averageDeliveryDays,
+  };
+}
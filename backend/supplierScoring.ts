@@ -0,0 +1,264 @@
+import { query, mutation, internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { inOrg, orgOf, requirePermission, scheduleForEachOrganization } from "./organizations";
+import { countSupplierChange } from "./dashboardCounters";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ScoringWeights = {
+  onTimeWeight: number;
+  latenessWeight: number;
+  cancellationWeight: number;
+  latenessToleranceDays: number;
+  historyDays: number;
+};
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  onTimeWeight: 0.6,
+  latenessWeight: 0.25,
+  cancellationWeight: 0.15,
+  latenessToleranceDays: 14,
+  historyDays: 180,
+};
+
+export type SupplierMetrics = {
+  score: number;
+  onTimeRate: number;
+  meanLatenessDays: number;
+  cancellationRate: number;
+  averageDeliveryDays?: number;
+  shipmentCount: number;
+  delayReasons: { reason: string; count: number }[];
+};
+
+// Scores a supplier from its shipment outcomes. Delivered and cancelled
+// shipments count, as do open ones already past their expected date (they
+// are late whatever happens next). Returns null when there is nothing to
+// judge by, so the existing score is kept.
+export function computeSupplierMetrics(
+  shipments: Doc<"shipments">[],
+  weights: ScoringWeights,
+  now: number,
+): SupplierMetrics | null {
+  const delivered = shipments.filter(s => s.status === "delivered" && s.actualDeliveryDate !== undefined);
+  const cancelled = shipments.filter(s => s.status === "cancelled");
+  const overdue = shipments.filter(s =>
+    (s.status === "ordered" || s.status === "in_transit" || s.status === "delayed") &&
+    s.expectedDeliveryDate < now
+  );
+
+  const observed = [
+    ...delivered.map(s => s.actualDeliveryDate! - s.expectedDeliveryDate),
+    ...overdue.map(s => now - s.expectedDeliveryDate),
+  ];
+  const shipmentCount = observed.length + cancelled.length;
+  if (shipmentCount === 0) return null;
+
+  const onTime = observed.filter(lateness => lateness <= 0).length;
+  const onTimeRate = observed.length > 0 ? onTime / observed.length : 0;
+  const meanLatenessDays = observed.length > 0
+    ? observed.reduce((sum, lateness) => sum + Math.max(0, lateness), 0) / observed.length / DAY_MS
+    : 0;
+  const cancellationRate = cancelled.length / shipmentCount;
+
+  const averageDeliveryDays = delivered.length > 0
+    ? delivered.reduce((sum, s) => sum + (s.actualDeliveryDate! - s.orderDate), 0) / delivered.length / DAY_MS
+    : undefined;
+
+  const reasonCounts: Record<string, number> = {};
+  for (const s of shipments) {
+    if (s.delayReason) reasonCounts[s.delayReason] = (reasonCounts[s.delayReason] || 0) + 1;
+  }
+  const delayReasons = Object.entries(reasonCounts)
+    .map(([reason, count]) => ({ reason, count }))
+    .sort((a, b) => b.count - a.count);
+
+  const latenessScore = Math.max(0, 1 - meanLatenessDays / weights.latenessToleranceDays);
+  const totalWeight = weights.onTimeWeight + weights.latenessWeight + weights.cancellationWeight;
+  const score = 100 * (
+    weights.onTimeWeight * onTimeRate +
+    weights.latenessWeight * latenessScore +
+    weights.cancellationWeight * (1 - cancellationRate)
+  ) / totalWeight;
+
+  return {
+    score: Math.round(score * 10) / 10,
+    onTimeRate: Math.round(onTimeRate * 1000) / 1000,
+    meanLatenessDays: Math.round(meanLatenessDays * 10) / 10,
+    cancellationRate: Math.round(cancellationRate * 1000) / 1000,
+    averageDeliveryDays: averageDeliveryDays === undefined ? undefined : Math.round(averageDeliveryDays * 10) / 10,
+    shipmentCount,
+    delayReasons,
+  };
+}
+
+export async function getScoringWeights(ctx: QueryCtx, orgId: Id<"organizations">): Promise<ScoringWeights> {
+  const config = await ctx.db.query("supplierScoringConfig")
+    .withIndex("by_org", q => q.eq("orgId", orgId))
+    .first();
+  if (!config) return DEFAULT_SCORING_WEIGHTS;
+  const { onTimeWeight, latenessWeight, cancellationWeight, latenessToleranceDays, historyDays } = config;
+  return { onTimeWeight, latenessWeight, cancellationWeight, latenessToleranceDays, historyDays };
+}
+
+// Recomputes one supplier's score, appends it to the time series and writes
+// it back to the supplier. Call after any shipment outcome changes.
+export async function recomputeSupplierScore(ctx: MutationCtx, supplierId: Id<"suppliers">) {
+  const supplier = await ctx.db.get(supplierId);
+  if (!supplier) return null;
+
+  const now = Date.now();
+  const orgId = orgOf(supplier);
+  const weights = await getScoringWeights(ctx, orgId);
+  const shipments = await ctx.db.query("shipments")
+    .withIndex("by_supplier", q => q.eq("supplierId", supplierId))
+    .filter(q => q.gte(q.field("orderDate"), now - weights.historyDays * DAY_MS))
+    .collect();
+
+  const metrics = computeSupplierMetrics(shipments, weights, now);
+  if (!metrics) return null;
+
+  await ctx.db.insert("supplierScores", { orgId, supplierId, computedAt: now, ...metrics });
+  const reliabilityScore = Math.round(metrics.score);
+  await ctx.db.patch(supplierId, {
+    reliabilityScore,
+    averageDeliveryDays: metrics.averageDeliveryDays !== undefined
+      ? Math.round(metrics.averageDeliveryDays)
+      : supplier.averageDeliveryDays,
+    scoreUpdatedAt: now,
+  });
+  await countSupplierChange(ctx, supplier, { ...supplier, reliabilityScore });
+  return metrics;
+}
+
+export async function recomputeAllSupplierScores(ctx: MutationCtx, orgId: Id<"organizations">) {
+  const suppliers = await ctx.db.query("suppliers").withIndex("by_org", q => q.eq("orgId", orgId)).collect();
+  let updated = 0;
+  for (const supplier of suppliers) {
+    if (await recomputeSupplierScore(ctx, supplier._id)) updated++;
+  }
+  return { updated };
+}
+
+// Score change over the window, from the oldest to the newest point
+export function scoreTrend(history: Pick<Doc<"supplierScores">, "score" | "computedAt">[]): number | null {
+  if (history.length < 2) return null;
+  const sorted = [...history].sort((a, b) => a.computedAt - b.computedAt);
+  return Math.round((sorted[sorted.length - 1].score - sorted[0].score) * 10) / 10;
+}
+
+export const getSupplierScoreHistory = query({
+  args: {
+    supplierId: v.id("suppliers"),
+    days: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const supplier = inOrg(await ctx.db.get(args.supplierId), orgId);
+    if (!supplier) throw new Error("Supplier not found");
+
+    const since = Date.now() - (args.days ?? 90) * DAY_MS;
+    return await ctx.db.query("supplierScores")
+      .withIndex("by_supplier", q => q.eq("supplierId", args.supplierId).gte("computedAt", since))
+      .collect();
+  },
+});
+
+// Latest metrics and 30-day trend for every supplier
+export const getSupplierScorecards = query({
+  args: {},
+  handler: async (ctx) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const since = Date.now() - 30 * DAY_MS;
+    const suppliers = await ctx.db.query("suppliers").withIndex("by_org", q => q.eq("orgId", orgId)).collect();
+    return await Promise.all(
+      suppliers.map(async (supplier) => {
+        const history = await ctx.db.query("supplierScores")
+          .withIndex("by_supplier", q => q.eq("supplierId", supplier._id).gte("computedAt", since))
+          .collect();
+        const latest = history.length > 0 ? history[history.length - 1] : null;
+        return {
+          supplierId: supplier._id,
+          name: supplier.name,
+          reliabilityScore: supplier.reliabilityScore,
+          isComputed: supplier.scoreUpdatedAt !== undefined,
+          onTimeRate: latest?.onTimeRate ?? null,
+          meanLatenessDays: latest?.meanLatenessDays ?? null,
+          cancellationRate: latest?.cancellationRate ?? null,
+          topDelayReason: latest?.delayReasons[0]?.reason ?? null,
+          trend30d: scoreTrend(history),
+        };
+      })
+    );
+  },
+});
+
+export const getScoringConfig = query({
+  args: {},
+  handler: async (ctx) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    return await getScoringWeights(ctx, orgId);
+  },
+});
+
+export const updateScoringConfig = mutation({
+  args: {
+    onTimeWeight: v.number(),
+    latenessWeight: v.number(),
+    cancellationWeight: v.number(),
+    latenessToleranceDays: v.number(),
+    historyDays: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "admin");
+
+    if (args.onTimeWeight < 0 || args.latenessWeight < 0 || args.cancellationWeight < 0) {
+      throw new Error("Weights cannot be negative");
+    }
+    if (args.onTimeWeight + args.latenessWeight + args.cancellationWeight === 0) {
+      throw new Error("At least one weight must be positive");
+    }
+    if (args.latenessToleranceDays <= 0 || args.historyDays <= 0) {
+      throw new Error("Tolerance and history window must be positive");
+    }
+
+    const existing = await ctx.db.query("supplierScoringConfig")
+      .withIndex("by_org", q => q.eq("orgId", orgId))
+      .first();
+    const config = { ...args, orgId, updatedAt: Date.now(), updatedBy: userId };
+    if (existing) {
+      await ctx.db.patch(existing._id, config);
+    } else {
+      await ctx.db.insert("supplierScoringConfig", config);
+    }
+
+    return await recomputeAllSupplierScores(ctx, orgId);
+  },
+});
+
+// Daily from crons.ts, so overdue shipments keep dragging scores down
+// even when nothing is received. Each organization is scored in its own
+// mutation.
+export const recomputeScores = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args): Promise<number> => {
+    return await scheduleForEachOrganization(
+      ctx,
+      args.cursor,
+      internal.supplierScoring.recomputeOrganizationScores,
+      internal.supplierScoring.recomputeScores,
+    );
+  },
+});
+
+export const recomputeOrganizationScores = internalMutation({
+  args: { orgId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    return await recomputeAllSupplierScores(ctx, args.orgId);
+  },
+});
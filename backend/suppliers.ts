@@ -0,0 +1,271 @@
+import { query, mutation, MutationCtx } from "./_generated/server";
+import { v, ObjectType } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { inOrg, requirePermission } from "./organizations";
+import { countSupplierChange } from "./dashboardCounters";
+import { findProductSource } from "./supplierCatalog";
+
+// New suppliers have no shipment history to score yet
+export const NEW_SUPPLIER_RELIABILITY = 100;
+
+const OPEN_SHIPMENT_STATUSES: Doc<"shipments">["status"][] = ["ordered", "in_transit", "delayed"];
+
+const supplierFields = {
+  name: v.string(),
+  location: v.string(),
+  contactEmail: v.string(),
+  averageDeliveryDays: v.number(),
+  // Only set by hand until the score is computed from shipment history
+  reliabilityScore: v.optional(v.number()),
+  status: v.union(v.literal("active"), v.literal("inactive")),
+  minimumOrderQuantity: v.union(v.number(), v.null()),
+  minimumOrderValue: v.union(v.number(), v.null()),
+};
+
+// A supplier with what it supplies and its latest shipments. The id comes
+// from the page URL, so an unknown one gives null rather than an error.
+export const getSupplier = query({
+  args: { supplierId: v.string() },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const supplierId = ctx.db.normalizeId("suppliers", args.supplierId);
+    const supplier = supplierId && inOrg(await ctx.db.get(supplierId), orgId);
+    if (!supplier) return null;
+    const [catalog, preferredProducts, shipments] = await Promise.all([
+      ctx.db.query("supplierProducts").withIndex("by_supplier", q => q.eq("supplierId", supplier._id)).collect(),
+      ctx.db.query("products").withIndex("by_supplier", q => q.eq("supplierId", supplier._id)).collect(),
+      ctx.db.query("shipments").withIndex("by_supplier", q => q.eq("supplierId", supplier._id)).order("desc").take(20),
+    ]);
+
+    // Preferred products without a catalog entry are supplied at the last
+    // cost paid, or their unit price
+    const productIds = [...new Set([...catalog.map(entry => entry.productId), ...preferredProducts.map(p => p._id)])];
+    const products = await Promise.all(productIds.map(async (productId) => {
+      const product = preferredProducts.find(p => p._id === productId) ?? await ctx.db.get(productId);
+      const entry = catalog.find(entry => entry.productId === productId);
+      return {
+        productId,
+        productName: product?.name || "Unknown",
+        productSku: product?.sku || "Unknown",
+        unitPrice: entry?.unitPrice ?? (product && (await findProductSource(ctx, product, supplier._id))?.unitPrice) ?? 0,
+        leadTimeDays: entry?.leadTimeDays ?? supplier.averageDeliveryDays,
+        isPreferred: product?.supplierId === supplier._id,
+      };
+    }));
+
+    return {
+      ...supplier,
+      products: products.sort((a, b) => a.productName.localeCompare(b.productName)),
+      shipments: await Promise.all(shipments.map(async (shipment) => {
+        const product = await ctx.db.get(shipment.productId);
+        return { ...shipment, productName: product?.name || "Unknown" };
+      })),
+      openShipments: shipments.filter(s => OPEN_SHIPMENT_STATUSES.includes(s.status)).length,
+    };
+  },
+});
+
+export const createSupplier = mutation({
+  args: supplierFields,
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const fields = await validateSupplier(ctx, orgId, args);
+    const reliabilityScore = fields.reliabilityScore ?? NEW_SUPPLIER_RELIABILITY;
+    const supplierId = await ctx.db.insert("suppliers", { orgId, ...fields, reliabilityScore });
+    await countSupplierChange(ctx, null, { orgId, reliabilityScore });
+    return supplierId;
+  },
+});
+
+export const updateSupplier = mutation({
+  args: {
+    supplierId: v.id("suppliers"),
+    ...supplierFields,
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const { supplierId, ...rest } = args;
+    const supplier = inOrg(await ctx.db.get(supplierId), orgId);
+    if (!supplier) throw new Error("Supplier not found");
+    const fields = await validateSupplier(ctx, orgId, rest, supplier);
+    if (supplier.scoreUpdatedAt !== undefined && fields.reliabilityScore !== undefined &&
+      fields.reliabilityScore !== supplier.reliabilityScore) {
+      throw new Error(`${supplier.name}'s reliability score is computed from its shipment history`);
+    }
+
+    const reliabilityScore = fields.reliabilityScore ?? supplier.reliabilityScore;
+    await ctx.db.patch(supplier._id, { ...fields, reliabilityScore });
+    await countSupplierChange(ctx, supplier, { orgId, reliabilityScore });
+  },
+});
+
+// Only suppliers that were never used can be deleted; set the others
+// inactive instead
+export const deleteSupplier = mutation({
+  args: { supplierId: v.id("suppliers") },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const supplier = inOrg(await ctx.db.get(args.supplierId), orgId);
+    if (!supplier) throw new Error("Supplier not found");
+    const [product, catalogEntry, shipment, order] = await Promise.all([
+      ctx.db.query("products").withIndex("by_supplier", q => q.eq("supplierId", supplier._id)).first(),
+      ctx.db.query("supplierProducts").withIndex("by_supplier", q => q.eq("supplierId", supplier._id)).first(),
+      ctx.db.query("shipments").withIndex("by_supplier", q => q.eq("supplierId", supplier._id)).first(),
+      ctx.db.query("purchaseOrders").withIndex("by_supplier", q => q.eq("supplierId", supplier._id)).first(),
+    ]);
+    if (product || catalogEntry) {
+      throw new Error(`${supplier.name} supplies products; remove it from their suppliers or set it inactive`);
+    }
+    if (shipment || order) {
+      throw new Error(`${supplier.name} has shipments or purchase orders; set it inactive instead`);
+    }
+
+    const [scores, contacts, subscriptions] = await Promise.all([
+      ctx.db.query("supplierScores").withIndex("by_supplier", q => q.eq("supplierId", supplier._id)).collect(),
+      ctx.db.query("supplierContacts").withIndex("by_supplier", q => q.eq("supplierId", supplier._id)).collect(),
+      ctx.db.query("notificationSubscriptions").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+    ]);
+    for (const row of [...scores, ...contacts]) {
+      await ctx.db.delete(row._id);
+    }
+    for (const subscription of subscriptions.filter(s => s.supplierIds.includes(supplier._id))) {
+      await ctx.db.patch(subscription._id, { supplierIds: subscription.supplierIds.filter(id => id !== supplier._id) });
+    }
+    await ctx.db.delete(supplier._id);
+    await countSupplierChange(ctx, supplier, null);
+  },
+});
+
+export const getSupplierContacts = query({
+  args: { supplierId: v.id("suppliers") },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    if (!inOrg(await ctx.db.get(args.supplierId), orgId)) throw new Error("Supplier not found");
+    const contacts = await ctx.db.query("supplierContacts")
+      .withIndex("by_supplier", q => q.eq("supplierId", args.supplierId))
+      .order("desc")
+      .take(20);
+
+    return await Promise.all(
+      contacts.map(async (contact) => {
+        const user = await ctx.db.get(contact.userId);
+        return { ...contact, userName: user?.name || user?.email || "Unknown" };
+      })
+    );
+  },
+});
+
+export const contactSupplier = mutation({
+  args: {
+    supplierId: v.id("suppliers"),
+    subject: v.string(),
+    message: v.string(),
+    shipmentIds: v.optional(v.array(v.id("shipments"))),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "purchase");
+
+    return await recordSupplierContact(ctx, userId, orgId, { ...args, shipmentIds: args.shipmentIds ?? [] });
+  },
+});
+
+// Minimum order terms the replenishment planner rounds orders up to; null
+// clears a minimum
+export const updateSupplierOrderTerms = mutation({
+  args: {
+    supplierId: v.id("suppliers"),
+    minimumOrderQuantity: v.union(v.number(), v.null()),
+    minimumOrderValue: v.union(v.number(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "purchase");
+
+    const supplier = inOrg(await ctx.db.get(args.supplierId), orgId);
+    if (!supplier) throw new Error("Supplier not found");
+    if (args.minimumOrderQuantity !== null && (!Number.isInteger(args.minimumOrderQuantity) || args.minimumOrderQuantity < 0)) {
+      throw new Error("Minimum order quantity must be a whole number of at least 0");
+    }
+    if (args.minimumOrderValue !== null && args.minimumOrderValue < 0) {
+      throw new Error("Minimum order value can't be negative");
+    }
+
+    await ctx.db.patch(supplier._id, {
+      minimumOrderQuantity: args.minimumOrderQuantity ?? undefined,
+      minimumOrderValue: args.minimumOrderValue ?? undefined,
+    });
+  },
+});
+
+// Helper functions
+export async function recordSupplierContact(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  orgId: Id<"organizations">,
+  contact: { supplierId: Id<"suppliers">; subject: string; message: string; shipmentIds: Id<"shipments">[] },
+) {
+  const supplier = inOrg(await ctx.db.get(contact.supplierId), orgId);
+  if (!supplier) throw new Error("Supplier not found");
+  if (!contact.subject.trim()) throw new Error("Subject is required");
+
+  return await ctx.db.insert("supplierContacts", {
+    orgId,
+    ...contact,
+    userId,
+    createdAt: Date.now(),
+  });
+}
+
+export function isValidEmail(email: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+// Trimmed and checked fields of a supplier form. Names and contact emails
+// are unique, as imports match suppliers on them.
+async function validateSupplier(
+  ctx: MutationCtx,
+  orgId: Id<"organizations">,
+  args: ObjectType<typeof supplierFields>,
+  existing?: Doc<"suppliers">,
+) {
+  const name = args.name.trim();
+  const location = args.location.trim();
+  const contactEmail = args.contactEmail.trim();
+  if (!name) throw new Error("Name is required");
+  if (!location) throw new Error("Location is required");
+  if (!isValidEmail(contactEmail)) throw new Error(`"${contactEmail}" is not a valid email address`);
+  if (args.averageDeliveryDays < 0) throw new Error("Average delivery days can't be negative");
+  if (args.reliabilityScore !== undefined && (args.reliabilityScore < 0 || args.reliabilityScore > 100)) {
+    throw new Error("Reliability score must be between 0 and 100");
+  }
+  if (args.minimumOrderQuantity !== null && (!Number.isInteger(args.minimumOrderQuantity) || args.minimumOrderQuantity < 0)) {
+    throw new Error("Minimum order quantity must be a whole number of at least 0");
+  }
+  if (args.minimumOrderValue !== null && args.minimumOrderValue < 0) {
+    throw new Error("Minimum order value can't be negative");
+  }
+
+  const suppliers = await ctx.db.query("suppliers").withIndex("by_org", q => q.eq("orgId", orgId)).collect();
+  const others = suppliers.filter(s => s._id !== existing?._id);
+  if (others.some(s => s.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`There is already a supplier named ${name}`);
+  }
+  if (others.some(s => s.contactEmail.toLowerCase() === contactEmail.toLowerCase())) {
+    throw new Error(`Another supplier already uses ${contactEmail}`);
+  }
+
+  return {
+    name,
+    location,
+    contactEmail,
+    averageDeliveryDays: args.averageDeliveryDays,
+    reliabilityScore: args.reliabilityScore,
+    status: args.status,
+    minimumOrderQuantity: args.minimumOrderQuantity ?? undefined,
+    minimumOrderValue: args.minimumOrderValue ?? undefined,
+  };
+}
@@ -0,0 +1,354 @@
+import { query, mutation, internalMutation, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { syncProductAlerts } from "./alerts";
+import { isLocated } from "./lists";
+import { inOrg, requirePermission } from "./organizations";
+import { postStockMovement } from "./stock";
+
+const BACKFILL_BATCH = 100;
+
+export const getWarehouses = query({
+  args: { includeInactive: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const warehouses = await ctx.db.query("warehouses").withIndex("by_org", q => q.eq("orgId", orgId)).collect();
+    return args.includeInactive ? warehouses : warehouses.filter(w => w.isActive);
+  },
+});
+
+export const createWarehouse = mutation({
+  args: {
+    name: v.string(),
+    code: v.string(),
+    location: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "admin");
+
+    const code = args.code.trim().toUpperCase();
+    if (!code) throw new Error("Warehouse code is required");
+    const existing = await ctx.db.query("warehouses")
+      .withIndex("by_code", q => q.eq("orgId", orgId).eq("code", code))
+      .first();
+    if (existing) throw new Error(`Warehouse code ${code} is already in use`);
+
+    return await ctx.db.insert("warehouses", {
+      orgId,
+      name: args.name.trim(),
+      code,
+      location: args.location.trim(),
+      isActive: true,
+    });
+  },
+});
+
+export const setWarehouseActive = mutation({
+  args: {
+    warehouseId: v.id("warehouses"),
+    isActive: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "admin");
+
+    if (!inOrg(await ctx.db.get(args.warehouseId), orgId)) throw new Error("Warehouse not found");
+    if (!args.isActive) {
+      const stocked = await ctx.db.query("inventory")
+        .withIndex("by_warehouse", q => q.eq("warehouseId", args.warehouseId))
+        .filter(q => q.gt(q.field("currentStock"), 0))
+        .first();
+      if (stocked) throw new Error("Move or issue all stock before deactivating a warehouse");
+      const inTransit = await ctx.db.query("stockTransfers")
+        .withIndex("by_status", q => q.eq("orgId", orgId).eq("status", "in_transit"))
+        .filter(q => q.or(
+          q.eq(q.field("toWarehouseId"), args.warehouseId),
+          q.eq(q.field("fromWarehouseId"), args.warehouseId),
+        ))
+        .first();
+      if (inTransit) throw new Error("Receive or cancel the transfers in transit before deactivating a warehouse");
+    }
+    await ctx.db.patch(args.warehouseId, { isActive: args.isActive });
+  },
+});
+
+// Pass null to fall back to the product's reorder point
+export const setWarehouseReorderPoint = mutation({
+  args: {
+    inventoryId: v.id("inventory"),
+    reorderPoint: v.union(v.number(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "manage_inventory");
+
+    const item = inOrg(await ctx.db.get(args.inventoryId), orgId);
+    if (!item) throw new Error("Inventory record not found");
+    if (args.reorderPoint !== null && args.reorderPoint < 0) {
+      throw new Error("Reorder point cannot be negative");
+    }
+
+    await ctx.db.patch(item._id, { reorderPoint: args.reorderPoint ?? undefined });
+    await syncProductAlerts(ctx, item.productId);
+  },
+});
+
+// Stock per product summed over warehouses, with the per-warehouse breakdown
+export const getProductStockSummary = query({
+  args: {},
+  handler: async (ctx) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const [products, warehouses] = await Promise.all([
+      ctx.db.query("products").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+      ctx.db.query("warehouses").withIndex("by_org", q => q.eq("orgId", orgId)).collect(),
+    ]);
+    const warehouseNames = new Map(warehouses.map(w => [w._id, w.name]));
+
+    return await Promise.all(
+      products.map(async (product) => {
+        const [items, transfers] = await Promise.all([
+          ctx.db.query("inventory").withIndex("by_product", q => q.eq("productId", product._id)).collect(),
+          ctx.db.query("stockTransfers")
+            .withIndex("by_product", q => q.eq("productId", product._id).eq("status", "in_transit"))
+            .collect(),
+        ]);
+        const availableStock = items.reduce((sum, item) => sum + item.availableStock, 0);
+
+        return {
+          productId: product._id,
+          productName: product.name,
+          productSku: product.sku,
+          reorderPoint: product.reorderPoint,
+          currentStock: items.reduce((sum, item) => sum + item.currentStock, 0),
+          reservedStock: items.reduce((sum, item) => sum + item.reservedStock, 0),
+          availableStock,
+          inTransitStock: transfers.reduce((sum, t) => sum + t.quantity, 0),
+          needsReorder: availableStock <= product.reorderPoint,
+          warehouses: items.filter(isLocated).map(item => ({
+            inventoryId: item._id,
+            warehouseId: item.warehouseId,
+            warehouseName: warehouseNames.get(item.warehouseId) || "Unknown",
+            currentStock: item.currentStock,
+            availableStock: item.availableStock,
+            reorderPoint: item.reorderPoint ?? null,
+          })),
+        };
+      })
+    );
+  },
+});
+
+export const getTransfers = query({
+  args: {
+    status: v.optional(v.union(v.literal("in_transit"), v.literal("received"), v.literal("cancelled"))),
+  },
+  handler: async (ctx, args) => {
+    const { orgId } = await requirePermission(ctx, "read");
+
+    const transfers = args.status
+      ? await ctx.db.query("stockTransfers")
+        .withIndex("by_status", q => q.eq("orgId", orgId).eq("status", args.status!))
+        .order("desc")
+        .take(50)
+      : await ctx.db.query("stockTransfers")
+        .withIndex("by_org", q => q.eq("orgId", orgId))
+        .order("desc")
+        .take(50);
+
+    return await Promise.all(
+      transfers.map(async (transfer) => {
+        const [product, from, to] = await Promise.all([
+          ctx.db.get(transfer.productId),
+          ctx.db.get(transfer.fromWarehouseId),
+          ctx.db.get(transfer.toWarehouseId),
+        ]);
+        return {
+          ...transfer,
+          productName: product?.name || "Unknown",
+          fromWarehouseName: from?.name || "Unknown",
+          toWarehouseName: to?.name || "Unknown",
+        };
+      })
+    );
+  },
+});
+
+// Takes stock out of the source warehouse immediately; it stays in transit
+// until the destination receives it
+export const createTransfer = mutation({
+  args: {
+    productId: v.id("products"),
+    fromWarehouseId: v.id("warehouses"),
+    toWarehouseId: v.id("warehouses"),
+    quantity: v.number(),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_inventory");
+
+    if (args.fromWarehouseId === args.toWarehouseId) {
+      throw new Error("Source and destination warehouses must differ");
+    }
+    if (!Number.isInteger(args.quantity) || args.quantity <= 0) {
+      throw new Error("Transfer quantity must be a positive whole number");
+    }
+    if (!inOrg(await ctx.db.get(args.productId), orgId)) throw new Error("Product not found");
+    if (!inOrg(await ctx.db.get(args.fromWarehouseId), orgId)) throw new Error("Source warehouse not found");
+    const destination = inOrg(await ctx.db.get(args.toWarehouseId), orgId);
+    if (!destination?.isActive) throw new Error("Destination warehouse is not active");
+
+    const now = Date.now();
+    const transferId = await ctx.db.insert("stockTransfers", {
+      orgId,
+      productId: args.productId,
+      fromWarehouseId: args.fromWarehouseId,
+      toWarehouseId: args.toWarehouseId,
+      quantity: args.quantity,
+      status: "in_transit",
+      notes: args.notes,
+      createdBy: userId,
+      createdAt: now,
+    });
+    // Throws (rolling back the transfer) if the source lacks available stock
+    const movementId = await postStockMovement(ctx, {
+      orgId,
+      productId: args.productId,
+      warehouseId: args.fromWarehouseId,
+      type: "transfer_out",
+      quantity: -args.quantity,
+      reasonCode: "transfer",
+      userId,
+      transferId,
+      timestamp: now,
+    });
+    // The units keep the cost they left the source with
+    const movement = await ctx.db.get(movementId);
+    await ctx.db.patch(transferId, { unitCost: -(movement?.cost ?? 0) / args.quantity });
+
+    return transferId;
+  },
+});
+
+export const receiveTransfer = mutation({
+  args: { transferId: v.id("stockTransfers") },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_inventory");
+
+    const transfer = await requireInTransit(ctx, orgId, args.transferId);
+    const destination = await ctx.db.get(transfer.toWarehouseId);
+    if (!destination?.isActive) throw new Error("The destination warehouse is not active; cancel the transfer instead");
+    const now = Date.now();
+    await postStockMovement(ctx, {
+      orgId,
+      productId: transfer.productId,
+      warehouseId: transfer.toWarehouseId,
+      type: "transfer_in",
+      quantity: transfer.quantity,
+      reasonCode: "transfer",
+      userId,
+      transferId: transfer._id,
+      unitCost: transfer.unitCost,
+      timestamp: now,
+    });
+    await ctx.db.patch(transfer._id, { status: "received", receivedAt: now });
+  },
+});
+
+// Returns in-transit stock to the source warehouse
+export const cancelTransfer = mutation({
+  args: { transferId: v.id("stockTransfers") },
+  handler: async (ctx, args) => {
+    const { userId, orgId } = await requirePermission(ctx, "manage_inventory");
+
+    const transfer = await requireInTransit(ctx, orgId, args.transferId);
+    await postStockMovement(ctx, {
+      orgId,
+      productId: transfer.productId,
+      warehouseId: transfer.fromWarehouseId,
+      type: "transfer_in",
+      quantity: transfer.quantity,
+      reasonCode: "transfer",
+      note: "Transfer cancelled",
+      userId,
+      transferId: transfer._id,
+      unitCost: transfer.unitCost,
+    });
+    await ctx.db.patch(transfer._id, { status: "cancelled" });
+  },
+});
+
+// Moves inventory rows from before warehouses existed, which name their
+// location in warehouseLocation, into the warehouse of that name, creating
+// it where needed. Their stock is posted to the ledger as an opening
+// balance, so reconciliation and valuation count it. Rows need an
+// organization, so run this after organizations:backfillOrganization:
+//   npx convex run warehouses:backfillInventoryWarehouses
+export const backfillInventoryWarehouses = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args): Promise<number> => {
+    const page = await ctx.db.query("inventory").paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_BATCH });
+
+    let moved = 0;
+    for (const item of page.page) {
+      if (isLocated(item) || !item.orgId) continue;
+      const warehouseId = await warehouseForLocation(ctx, item.orgId, item.warehouseLocation?.trim() || "Main warehouse");
+
+      const existing = await ctx.db.query("inventory")
+        .withIndex("by_product_and_warehouse", q => q.eq("productId", item.productId).eq("warehouseId", warehouseId))
+        .unique();
+      if (existing) {
+        await ctx.db.delete(item._id);
+      } else {
+        // Emptied, so the opening balance below fills it through the ledger
+        await ctx.db.patch(item._id, {
+          warehouseId,
+          warehouseLocation: undefined,
+          currentStock: 0,
+          reservedStock: 0,
+          availableStock: 0,
+        });
+      }
+
+      const opening = {
+        orgId: item.orgId,
+        productId: item.productId,
+        warehouseId,
+        reasonCode: "other" as const,
+        note: "Opening balance from before warehouses",
+        timestamp: item.lastUpdated,
+      };
+      if (item.currentStock > 0) {
+        await postStockMovement(ctx, { ...opening, type: "adjustment", quantity: item.currentStock });
+      }
+      if (item.reservedStock > 0) {
+        await postStockMovement(ctx, { ...opening, type: "reservation", quantity: item.reservedStock });
+      }
+      moved++;
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.warehouses.backfillInventoryWarehouses, { cursor: page.continueCursor });
+    }
+    return moved;
+  },
+});
+
+// Helper functions
+async function warehouseForLocation(ctx: MutationCtx, orgId: Id<"organizations">, location: string) {
+  const warehouses = await ctx.db.query("warehouses").withIndex("by_org", q => q.eq("orgId", orgId)).collect();
+  const existing = warehouses.find(w => w.name === location);
+  if (existing) return existing._id;
+
+  const base = location.toUpperCase().replace(/[^A-Z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 12) || "WH";
+  let code = base;
+  for (let n = 2; warehouses.some(w => w.code === code); n++) code = `${base}-${n}`;
+  return await ctx.db.insert("warehouses", { orgId, name: location, code, location, isActive: true });
+}
+
+async function requireInTransit(ctx: MutationCtx, orgId: Id<"organizations">, transferId: Id<"stockTransfers">) {
+  const transfer = inOrg(await ctx.db.get(transferId), orgId);
+  if (!transfer) throw new Error("Transfer not found");
+  if (transfer.status !== "in_transit") throw new Error(`Transfer is already ${transfer.status}`);
+  return transfer;
+}
@@ -0,0 +1,71 @@
+/**
+ * A minimal OpenAI-compatible chat completions server for trying the
+ * assistant's LLM mode without a real model.
+ *
+ *   node mock-llm-server.mjs            # listens on http://localhost:8787
+ *   npx convex env set LLM_BASE_URL http://localhost:8787/v1
+ *
+ * The first request for a question asks for the stockout forecast tool;
+ * once a tool result is in the conversation it answers with a JSON summary
+ * of what it received. Requests are logged so the exchanged messages can
+ * be inspected.
+ */
+
+import http from "http";
+
+const port = Number(process.env.PORT || 8787);
+
+function reply(res, message) {
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({
+    id: `chatcmpl-mock-${Date.now()}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: "mock",
+    choices: [{ index: 0, message: { role: "assistant", ...message }, finish_reason: "stop" }],
+  }));
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method !== "POST" || !req.url.endsWith("/chat/completions")) {
+    res.writeHead(404).end();
+    return;
+  }
+
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const request = JSON.parse(body);
+    console.log(JSON.stringify(request, null, 2));
+
+    const toolResults = request.messages.filter((m) => m.role === "tool");
+    const question = request.messages.find((m) => m.role === "user")?.content ?? "";
+
+    if (toolResults.length === 0 && request.tools?.length > 0) {
+      reply(res, {
+        content: null,
+        tool_calls: [{
+          id: "call_1",
+          type: "function",
+          function: { name: "get_stockout_forecast", arguments: "{}" },
+        }],
+      });
+      return;
+    }
+
+    const forecast = JSON.parse(toolResults[0]?.content ?? "[]");
+    reply(res, {
+      content: JSON.stringify({
+        response: `Mock answer to: ${question}`,
+        insights: Array.isArray(forecast)
+          ? forecast.slice(0, 3).map((f) => `${f.productName}: ${f.availableStock} available`)
+          : [],
+        recommendations: ["This answer came from mock-llm-server.mjs"],
+      }),
+    });
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Mock LLM server listening on http://localhost:${port}/v1`);
+});
@@ -0,0 +1,91 @@
+/**
+ * A local SMTP and HTTP sink for trying alert notifications without a mail
+ * server or Slack workspace. Everything received is printed.
+ *
+ *   node notification-sink.mjs       # SMTP on port 2525, HTTP on 8788
+ *   npx convex env set SMTP_HOST localhost
+ *   npx convex env set SMTP_PORT 2525
+ *   npx convex env set SMTP_SECURITY none
+ *   npx convex env set SMTP_FROM alerts@example.com
+ *
+ * Use http://localhost:8788/webhook as a webhook or Slack URL. Any path
+ * starting with /fail answers 500, to watch deliveries being retried.
+ */
+
+import http from "http";
+import net from "net";
+
+const smtpPort = Number(process.env.SMTP_PORT || 2525);
+const httpPort = Number(process.env.HTTP_PORT || 8788);
+
+const smtp = net.createServer((socket) => {
+  let buffer = "";
+  let inData = false;
+  let message = [];
+  const envelope = { from: "", to: [] };
+  const reply = (line) => socket.write(`${line}\r\n`);
+
+  reply("220 notification-sink ready");
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf8");
+    let index;
+    while ((index = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+
+      if (inData) {
+        if (line === ".") {
+          inData = false;
+          console.log(`--- email from ${envelope.from} to ${envelope.to.join(", ")}\n${message.join("\n")}\n---`);
+          message = [];
+          envelope.to = [];
+          reply("250 OK: queued");
+        } else {
+          message.push(line.startsWith("..") ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+      if (command === "EHLO" || command === "HELO") {
+        reply("250-notification-sink");
+        reply("250 AUTH PLAIN");
+      } else if (command === "AUTH") {
+        reply("235 Authenticated");
+      } else if (command === "MAIL") {
+        envelope.from = line.slice(10).trim();
+        reply("250 OK");
+      } else if (command === "RCPT") {
+        envelope.to.push(line.slice(8).trim());
+        reply("250 OK");
+      } else if (command === "DATA") {
+        inData = true;
+        reply("354 End data with <CR><LF>.<CR><LF>");
+      } else if (command === "QUIT") {
+        reply("221 Bye");
+        socket.end();
+      } else {
+        reply("250 OK");
+      }
+    }
+  });
+  socket.on("error", () => {});
+});
+
+const web = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    console.log(`--- ${req.method} ${req.url}${req.headers["x-signature"] ? ` (X-Signature: ${req.headers["x-signature"]})` : ""}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    console.log("---");
+    res.writeHead(req.url.startsWith("/fail") ? 500 : 200).end();
+  });
+});
+
+smtp.listen(smtpPort, () => console.log(`SMTP sink on port ${smtpPort}`));
+web.listen(httpPort, () => console.log(`HTTP sink on http://localhost:${httpPort}`));
@@ -0,0 +1,492 @@
+import { useQuery, useMutation, usePaginatedQuery, UsePaginatedQueryReturnType } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Doc, Id } from "../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { useState } from "react";
+
+type AlertStatus = "active" | "snoozed" | "resolved" | "all";
+type AlertItem = UsePaginatedQueryReturnType<typeof api.alerts.getAlertList>["results"][number];
+type Severity = Doc<"alerts">["severity"];
+type Policy = Doc<"alertEscalationConfig">["policies"][number];
+type PolicyForm = Omit<Policy, "id" | "afterMinutes"> & { id?: string; afterHours: string };
+
+const TYPE_LABELS: Record<Doc<"alerts">["type"], string> = {
+  low_stock: "Low stock",
+  reorder_needed: "Reorder needed",
+  supplier_delay: "Supplier delay",
+  quality_issue: "Quality issue",
+};
+
+const SEVERITY_STYLES: Record<Severity, { card: string; badge: string }> = {
+  high: { card: "bg-red-50 border-red-400", badge: "bg-red-100 text-red-800" },
+  medium: { card: "bg-yellow-50 border-yellow-400", badge: "bg-yellow-100 text-yellow-800" },
+  low: { card: "bg-blue-50 border-blue-400", badge: "bg-blue-100 text-blue-800" },
+};
+
+const SNOOZE_OPTIONS = [
+  { label: "1 hour", hours: 1 },
+  { label: "1 day", hours: 24 },
+  { label: "3 days", hours: 72 },
+  { label: "1 week", hours: 168 },
+];
+
+const EVENT_LABELS: Record<Doc<"alertEvents">["kind"], string> = {
+  raised: "raised the alert",
+  severity_changed: "changed the severity",
+  acknowledged: "acknowledged",
+  assigned: "assigned",
+  commented: "commented",
+  snoozed: "snoozed",
+  escalated: "escalated the alert",
+  resolved: "resolved",
+};
+
+const CONDITION_LABELS: Record<Policy["condition"], string> = {
+  unacknowledged: "still unacknowledged",
+  unresolved: "still unresolved",
+};
+
+const ACTION_LABELS: Record<Policy["action"], string> = {
+  escalate_to_admin: "escalate to the admin",
+  promote_severity: "promote to the next severity",
+};
+
+function onError(fallback: string) {
+  return (error: unknown) => {
+    toast.error(error instanceof Error ? error.message : fallback);
+  };
+}
+
+// Alerts with their lifecycle: acknowledge, assign, comment, snooze and
+// resolve, filtered by status, type, severity or assignee
+export function AlertsPanel({ canManage, isAdmin }: { canManage: boolean; isAdmin: boolean }) {
+  const [status, setStatus] = useState<AlertStatus>("active");
+  const [type, setType] = useState<Doc<"alerts">["type"] | "">("");
+  const [severity, setSeverity] = useState<Severity | "">("");
+  const [assignedToMe, setAssignedToMe] = useState(false);
+  const [isRaising, setIsRaising] = useState(false);
+  const [showPolicies, setShowPolicies] = useState(false);
+  const { results: alerts, status: loadStatus, loadMore } = usePaginatedQuery(
+    api.alerts.getAlertList,
+    {
+      status,
+      type: type || undefined,
+      severity: severity || undefined,
+      assignedToMe,
+    },
+    { initialNumItems: 20 }
+  );
+  const members = useQuery(api.organizations.getMembers);
+
+  const assignees = (members ?? []).filter(m => m.role !== "viewer");
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4 text-sm">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-xl font-semibold">Alerts</h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={status} onChange={(e) => setStatus(e.target.value as AlertStatus)} className="border border-gray-300 rounded-lg px-3 py-1">
+            <option value="active">Active</option>
+            <option value="snoozed">Snoozed</option>
+            <option value="resolved">Resolved</option>
+            <option value="all">All</option>
+          </select>
+          <select value={type} onChange={(e) => setType(e.target.value as Doc<"alerts">["type"] | "")} className="border border-gray-300 rounded-lg px-3 py-1">
+            <option value="">All types</option>
+            {Object.entries(TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select value={severity} onChange={(e) => setSeverity(e.target.value as Severity | "")} className="border border-gray-300 rounded-lg px-3 py-1">
+            <option value="">All severities</option>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+          <label className="flex items-center gap-2 text-gray-700">
+            <input type="checkbox" checked={assignedToMe} onChange={(e) => setAssignedToMe(e.target.checked)} />
+            Assigned to me
+          </label>
+          {canManage && !isRaising && (
+            <button type="button" onClick={() => setIsRaising(true)} className="text-blue-600 hover:text-blue-800">
+              Raise quality issue
+            </button>
+          )}
+          <button type="button" onClick={() => setShowPolicies(!showPolicies)} className="text-gray-600 hover:text-gray-800">
+            {showPolicies ? "Hide escalation" : "Escalation"}
+          </button>
+        </div>
+      </div>
+
+      {showPolicies && <EscalationPolicies canEdit={isAdmin} />}
+
+      {isRaising && <QualityIssueForm onDone={() => setIsRaising(false)} />}
+
+      {loadStatus === "Exhausted" && alerts.length === 0 && <p className="text-gray-600">No alerts match these filters.</p>}
+
+      <div className="space-y-3">
+        {alerts.map((alert) => (
+          <AlertCard key={alert._id} alert={alert} canManage={canManage} assignees={assignees} />
+        ))}
+      </div>
+
+      {(loadStatus === "CanLoadMore" || loadStatus === "LoadingMore") && (
+        <button
+          type="button"
+          disabled={loadStatus === "LoadingMore"}
+          onClick={() => loadMore(20)}
+          className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          {loadStatus === "LoadingMore" ? "Loading..." : "Show more alerts"}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function AlertCard({ alert, canManage, assignees }: {
+  alert: AlertItem;
+  canManage: boolean;
+  assignees: { userId: Id<"users">; name: string }[];
+}) {
+  const [showHistory, setShowHistory] = useState(false);
+  const [resolutionNote, setResolutionNote] = useState<string | null>(null);
+  const acknowledge = useMutation(api.alerts.acknowledgeAlert);
+  const assign = useMutation(api.alerts.assignAlert);
+  const snooze = useMutation(api.alerts.snoozeAlert);
+  const resolve = useMutation(api.alerts.resolveAlert);
+
+  const canAct = canManage && !alert.isResolved;
+  const isOverdue = !alert.isResolved && alert.slaDueAt !== null && alert.slaDueAt <= Date.now();
+  const subject = [alert.productName, alert.supplierName].filter(Boolean).join(" · ");
+
+  const handleResolve = (e: React.FormEvent) => {
+    e.preventDefault();
+    resolve({ alertId: alert._id, note: resolutionNote ?? undefined }).then(() => {
+      setResolutionNote(null);
+    }).catch(onError("Failed to resolve the alert"));
+  };
+
+  return (
+    <div className={`p-3 rounded-lg border-l-4 space-y-2 ${alert.isResolved ? "bg-gray-50 border-gray-300" : SEVERITY_STYLES[alert.severity].card}`}>
+      <div className="flex justify-between items-start gap-3">
+        <div>
+          <h3 className="font-medium text-gray-900">{alert.title}</h3>
+          <p className="text-gray-600 mt-1">{alert.description}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {TYPE_LABELS[alert.type]}
+            {subject && ` · ${subject}`}
+            {` · raised ${new Date(alert.createdAt).toLocaleString()}`}
+            {alert.acknowledgedByName && ` · acknowledged by ${alert.acknowledgedByName}`}
+            {alert.assigneeName && ` · assigned to ${alert.assigneeName}`}
+            {alert.isSnoozed && alert.snoozedUntil && ` · snoozed until ${new Date(alert.snoozedUntil).toLocaleString()}`}
+            {!alert.isResolved && alert.slaDueAt !== null && !isOverdue && ` · SLA due ${new Date(alert.slaDueAt).toLocaleString()}`}
+          </p>
+          {alert.isResolved && alert.resolvedAt && (
+            <p className="text-xs text-gray-500 mt-1">
+              Resolved {new Date(alert.resolvedAt).toLocaleString()} {alert.resolvedByName ? `by ${alert.resolvedByName}` : "automatically"}
+              {alert.resolutionNote && `: ${alert.resolutionNote}`}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {isOverdue && <span className="text-xs px-2 py-1 rounded-full bg-red-600 text-white">overdue</span>}
+          <span className={`text-xs px-2 py-1 rounded-full ${SEVERITY_STYLES[alert.severity].badge}`}>{alert.severity}</span>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        {canAct && !alert.acknowledgedAt && (
+          <button
+            type="button"
+            onClick={() => { acknowledge({ alertId: alert._id }).catch(onError("Failed to acknowledge the alert")); }}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            Acknowledge
+          </button>
+        )}
+        {canAct && (
+          <select
+            value={alert.assignedTo ?? ""}
+            onChange={(e) => {
+              assign({ alertId: alert._id, assignedTo: (e.target.value || null) as Id<"users"> | null })
+                .catch(onError("Failed to assign the alert"));
+            }}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="">Unassigned</option>
+            {assignees.map((member) => (
+              <option key={member.userId} value={member.userId}>{member.name}</option>
+            ))}
+          </select>
+        )}
+        {canAct && (
+          <select
+            value=""
+            onChange={(e) => {
+              const hours = Number(e.target.value);
+              snooze({ alertId: alert._id, until: hours > 0 ? Date.now() + hours * 60 * 60 * 1000 : null })
+                .catch(onError("Failed to snooze the alert"));
+            }}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="">{alert.isSnoozed ? "Snoozed" : "Snooze"}</option>
+            {SNOOZE_OPTIONS.map(({ label, hours }) => (
+              <option key={hours} value={hours}>{label}</option>
+            ))}
+            {alert.isSnoozed && <option value="0">Wake up now</option>}
+          </select>
+        )}
+        {canAct && resolutionNote === null && (
+          <button type="button" onClick={() => setResolutionNote("")} className="text-green-700 hover:text-green-900">
+            Resolve
+          </button>
+        )}
+        <button type="button" onClick={() => setShowHistory(!showHistory)} className="text-gray-600 hover:text-gray-800">
+          {showHistory ? "Hide history" : "History"}
+        </button>
+      </div>
+
+      {resolutionNote !== null && (
+        <form onSubmit={handleResolve} className="flex flex-wrap gap-2">
+          <input
+            value={resolutionNote}
+            onChange={(e) => setResolutionNote(e.target.value)}
+            placeholder="Resolution note (optional)"
+            className="flex-1 border border-gray-300 rounded px-2 py-1"
+          />
+          <button type="submit" className="bg-green-700 text-white px-3 py-1 rounded">Resolve</button>
+          <button type="button" onClick={() => setResolutionNote(null)} className="text-gray-600">Cancel</button>
+        </form>
+      )}
+
+      {showHistory && <AlertHistory alertId={alert._id} canComment={canManage} />}
+    </div>
+  );
+}
+
+function AlertHistory({ alertId, canComment }: { alertId: Id<"alerts">; canComment: boolean }) {
+  const [comment, setComment] = useState("");
+  const events = useQuery(api.alerts.getAlertHistory, { alertId });
+  const addComment = useMutation(api.alerts.commentOnAlert);
+
+  const handleComment = (e: React.FormEvent) => {
+    e.preventDefault();
+    addComment({ alertId, note: comment }).then(() => {
+      setComment("");
+    }).catch(onError("Failed to add the comment"));
+  };
+
+  if (!events) return null;
+
+  return (
+    <div className="border-t pt-2 space-y-2">
+      <ul className="space-y-1">
+        {events.map((event) => (
+          <li key={event._id} className="text-gray-700">
+            <span className="text-gray-500">{new Date(event.createdAt).toLocaleString()}</span>{" "}
+            {event.userName ?? (event.kind === "escalated" ? "An escalation policy" : "The rule engine")} {EVENT_LABELS[event.kind]}
+            {event.kind === "assigned" && (event.assigneeName ? ` to ${event.assigneeName}` : " nobody")}
+            {event.kind === "escalated" && event.assigneeName && ` to ${event.assigneeName}`}
+            {event.kind === "snoozed" && (event.snoozedUntil ? ` until ${new Date(event.snoozedUntil).toLocaleString()}` : " off")}
+            {event.severity && event.kind !== "assigned" && ` (${event.severity})`}
+            {event.note && `: ${event.note}`}
+          </li>
+        ))}
+      </ul>
+      {canComment && (
+        <form onSubmit={handleComment} className="flex gap-2">
+          <input
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Add a comment"
+            className="flex-1 border border-gray-300 rounded px-2 py-1"
+          />
+          <button type="submit" disabled={!comment.trim()} className="bg-blue-600 text-white px-3 py-1 rounded disabled:opacity-50">
+            Comment
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+// Time limits on open alerts and what happens when they pass. Everyone can
+// see them; admins change them.
+function EscalationPolicies({ canEdit }: { canEdit: boolean }) {
+  const [form, setForm] = useState<PolicyForm[] | null>(null);
+  const settings = useQuery(api.alertEscalation.getEscalationSettings);
+  const updatePolicies = useMutation(api.alertEscalation.updateEscalationPolicies);
+
+  if (!settings) return null;
+
+  const edit = () => {
+    setForm(settings.policies.map(({ afterMinutes, ...policy }) => ({ ...policy, afterHours: String(afterMinutes / 60) })));
+  };
+
+  const update = (index: number, changes: Partial<PolicyForm>) => {
+    if (!form) return;
+    setForm(form.map((policy, i) => i === index ? { ...policy, ...changes } : policy));
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    updatePolicies({
+      policies: form.map(({ afterHours, ...policy }) => ({ ...policy, afterMinutes: Math.round(Number(afterHours) * 60) })),
+    }).then(() => {
+      setForm(null);
+    }).catch(onError("Failed to save the escalation policies"));
+  };
+
+  if (!form) {
+    return (
+      <div className="p-3 bg-gray-50 rounded space-y-2">
+        {settings.policies.length === 0 && <p className="text-gray-600">No escalation policies; alerts have no SLA.</p>}
+        <ul className="space-y-1 text-gray-700">
+          {settings.policies.map((policy) => (
+            <li key={policy.id}>
+              {policy.severity.charAt(0).toUpperCase() + policy.severity.slice(1)} alerts {CONDITION_LABELS[policy.condition]} after{" "}
+              {policy.afterMinutes / 60} hours: {ACTION_LABELS[policy.action]}
+            </li>
+          ))}
+        </ul>
+        {settings.isDefault && <p className="text-xs text-gray-500">These are the default policies.</p>}
+        {canEdit && (
+          <button type="button" onClick={edit} className="text-blue-600 hover:text-blue-800">
+            Change
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSave} className="p-3 bg-gray-50 rounded space-y-2">
+      {form.map((policy, index) => (
+        <div key={policy.id ?? `new-${index}`} className="flex flex-wrap items-center gap-2 text-gray-700">
+          <select
+            value={policy.severity}
+            onChange={(e) => update(index, { severity: e.target.value as Severity })}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+          alerts
+          <select
+            value={policy.condition}
+            onChange={(e) => update(index, { condition: e.target.value as Policy["condition"] })}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            {Object.entries(CONDITION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          after
+          <input
+            type="number"
+            step="any"
+            min="0"
+            value={policy.afterHours}
+            onChange={(e) => update(index, { afterHours: e.target.value })}
+            className="w-20 border border-gray-300 rounded px-2 py-1"
+          />
+          hours:
+          <select
+            value={policy.action}
+            onChange={(e) => update(index, { action: e.target.value as Policy["action"] })}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            {Object.entries(ACTION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <button type="button" onClick={() => setForm(form.filter((_, i) => i !== index))} className="text-red-600 hover:text-red-800">
+            Remove
+          </button>
+        </div>
+      ))}
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={() => setForm([...form, { severity: "high", condition: "unacknowledged", afterHours: "2", action: "escalate_to_admin" }])}
+          className="text-blue-600 hover:text-blue-800"
+        >
+          Add a policy
+        </button>
+        <button type="submit" className="bg-blue-600 text-white px-3 py-1 rounded">Save</button>
+        <button type="button" onClick={() => setForm(null)} className="text-gray-600">Cancel</button>
+      </div>
+    </form>
+  );
+}
+
+function QualityIssueForm({ onDone }: { onDone: () => void }) {
+  const [description, setDescription] = useState("");
+  const [severity, setSeverity] = useState<Severity>("medium");
+  const [productId, setProductId] = useState("");
+  const [supplierId, setSupplierId] = useState("");
+  const products = useQuery(api.logistics.getProducts);
+  const suppliers = useQuery(api.logistics.getSuppliers);
+  const raiseQualityIssue = useMutation(api.alerts.raiseQualityIssue);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    raiseQualityIssue({
+      description,
+      severity,
+      productId: (productId || undefined) as Id<"products"> | undefined,
+      supplierId: (supplierId || undefined) as Id<"suppliers"> | undefined,
+    }).then(() => {
+      toast.success("Quality issue raised");
+      onDone();
+    }).catch(onError("Failed to raise the quality issue"));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 p-3 bg-gray-50 rounded">
+      <label className="flex flex-col gap-1 text-gray-700 md:col-span-4">
+        What is wrong?
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          required
+          rows={2}
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Product
+        <select value={productId} onChange={(e) => setProductId(e.target.value)} className="border border-gray-300 rounded px-2 py-1">
+          <option value="">None</option>
+          {products?.map((product) => (
+            <option key={product._id} value={product._id}>{product.name}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Supplier
+        <select value={supplierId} onChange={(e) => setSupplierId(e.target.value)} className="border border-gray-300 rounded px-2 py-1">
+          <option value="">None</option>
+          {suppliers?.map((supplier) => (
+            <option key={supplier._id} value={supplier._id}>{supplier.name}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Severity
+        <select value={severity} onChange={(e) => setSeverity(e.target.value as Severity)} className="border border-gray-300 rounded px-2 py-1">
+          <option value="high">High</option>
+          <option value="medium">Medium</option>
+          <option value="low">Low</option>
+        </select>
+      </label>
+      <div className="flex items-end gap-3">
+        <button type="submit" className="bg-blue-600 text-white px-3 py-1 rounded">Raise</button>
+        <button type="button" onClick={onDone} className="text-gray-600">Cancel</button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,228 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Doc } from "../convex/_generated/dataModel";
+import { FunctionReturnType } from "convex/server";
+import { toast } from "sonner";
+import { useState } from "react";
+import { BarList, LineChart } from "./Charts";
+import { Column, DataTable } from "./DataTable";
+import { DAY_MS, fromDateInput, toDateInput } from "./lib/dates";
+
+// The server refuses longer ranges
+const MAX_RANGE_DAYS = 366;
+
+const PRESET_DAYS = [30, 90, 180, 365];
+
+type Snapshot = FunctionReturnType<typeof api.analytics.getKpiTrends>[number];
+type SupplierRow = FunctionReturnType<typeof api.analytics.getShipmentBreakdown>["suppliers"][number] & { _id: string };
+
+const KPIS: {
+  title: string;
+  value: (snapshot: Snapshot) => number | undefined;
+  format: (value: number) => string;
+  color: string;
+}[] = [
+  { title: "On-time delivery", value: s => s.onTimeRate, format: percent, color: "#16a34a" },
+  { title: "Fill rate", value: s => s.fillRate, format: percent, color: "#16a34a" },
+  { title: "Inventory value", value: s => s.inventoryValue, format: money, color: "#2563eb" },
+  { title: "Days of cover", value: s => s.daysOfCover, format: value => `${value} days`, color: "#2563eb" },
+  { title: "Open alerts", value: s => s.openAlerts, format: String, color: "#ea580c" },
+  { title: "Delayed shipments", value: s => s.delayedShipments, format: String, color: "#dc2626" },
+];
+
+const STATUS_COLORS: Record<Doc<"shipments">["status"], string> = {
+  ordered: "bg-gray-400",
+  in_transit: "bg-blue-500",
+  delivered: "bg-green-500",
+  delayed: "bg-red-500",
+  cancelled: "bg-gray-300",
+};
+
+const SUPPLIER_COLUMNS: Column<SupplierRow>[] = [
+  { header: "Supplier", value: row => row.supplierName },
+  { header: "Shipments", value: row => row.shipments, align: "right" },
+  { header: "Delayed", value: row => row.delayed, align: "right" },
+  { header: "On time", value: row => row.onTimeRate, render: row => optionalPercent(row.onTimeRate), align: "right" },
+  { header: "Fill rate", value: row => row.fillRate, render: row => optionalPercent(row.fillRate), align: "right" },
+];
+
+// KPI trends from the daily snapshots, and how the shipments expected in
+// the range went
+export function AnalyticsPage({ canCapture }: { canCapture: boolean }) {
+  const today = toDateInput(Date.now());
+  const [preset, setPreset] = useState<number | "custom">(90);
+  const [customFrom, setCustomFrom] = useState(toDateInput(Date.now() - 29 * DAY_MS));
+  const [customTo, setCustomTo] = useState(today);
+
+  // Whole local days, so the range stays the same between renders
+  const from = preset === "custom" ? fromDateInput(customFrom) : fromDateInput(today) - (preset - 1) * DAY_MS;
+  const to = (preset === "custom" ? fromDateInput(customTo) : fromDateInput(today)) + DAY_MS - 1;
+  const rangeError = Number.isNaN(from) || Number.isNaN(to)
+    ? "Choose both dates"
+    : to < from
+      ? "The range must end after it starts"
+      : to - from > MAX_RANGE_DAYS * DAY_MS
+        ? `Choose a range of at most ${MAX_RANGE_DAYS} days`
+        : null;
+
+  const range = rangeError ? "skip" : { from, to };
+  const snapshots = useQuery(api.analytics.getKpiTrends, range);
+  const breakdown = useQuery(api.analytics.getShipmentBreakdown, range);
+  const captureKpis = useMutation(api.analytics.captureKpisNow);
+
+  const handleCapture = () => {
+    captureKpis().then(() => {
+      toast.success("Today's KPIs captured");
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to capture KPIs");
+    });
+  };
+
+  const latest = snapshots?.at(-1);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border p-6 flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h2 className="text-xl font-semibold">Analytics</h2>
+          <p className="text-sm text-gray-600">
+            KPIs are captured every night. Delivery rates cover the 30 days before each capture.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          {canCapture && (
+            <button type="button" onClick={handleCapture} className="text-blue-600 hover:text-blue-800">
+              Capture now
+            </button>
+          )}
+          <select
+            value={preset}
+            onChange={(e) => setPreset(e.target.value === "custom" ? "custom" : Number(e.target.value))}
+            className="border border-gray-300 rounded-lg px-3 py-1"
+          >
+            {PRESET_DAYS.map((days) => (
+              <option key={days} value={days}>Last {days} days</option>
+            ))}
+            <option value="custom">Custom range</option>
+          </select>
+          {preset === "custom" && (
+            <>
+              <input
+                type="date"
+                value={customFrom}
+                max={customTo}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3 py-1"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="date"
+                value={customTo}
+                min={customFrom}
+                onChange={(e) => setCustomTo(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3 py-1"
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      {rangeError ? (
+        <p className="text-sm text-red-600">{rangeError}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {KPIS.map((kpi) => {
+              const current = latest && kpi.value(latest);
+              return (
+                <div key={kpi.title} className="bg-white rounded-lg shadow-sm border p-4 space-y-3">
+                  <div className="flex justify-between items-baseline">
+                    <h3 className="text-sm font-medium text-gray-600">{kpi.title}</h3>
+                    <span className="text-lg font-semibold">{current === undefined ? "—" : kpi.format(current)}</span>
+                  </div>
+                  {snapshots === undefined ? (
+                    <p className="h-20 text-sm text-gray-500">Loading...</p>
+                  ) : (
+                    <LineChart
+                      points={snapshots.map(s => ({ at: s.date, value: kpi.value(s) ?? null }))}
+                      format={kpi.format}
+                      color={kpi.color}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white rounded-lg shadow-sm border p-6">
+              <h3 className="text-lg font-semibold mb-1">Shipments by status</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Expected in the range
+                {breakdown && breakdown.onTimeRate !== null && ` · ${percent(breakdown.onTimeRate)} on time`}
+                {breakdown && breakdown.fillRate !== null && ` · ${percent(breakdown.fillRate)} fill rate`}
+              </p>
+              {breakdown === undefined ? (
+                <p className="text-sm text-gray-500">Loading...</p>
+              ) : (
+                <BarList
+                  items={breakdown.statuses.map(({ status, count }) => ({
+                    label: status.replace("_", " "),
+                    value: count,
+                    color: STATUS_COLORS[status],
+                  }))}
+                  format={String}
+                />
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border p-6">
+              <h3 className="text-lg font-semibold mb-1">Inventory value by category</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                {latest ? `As of ${new Date(latest.capturedAt).toLocaleDateString()}` : "No snapshot in this range yet."}
+              </p>
+              {latest && (
+                <BarList
+                  items={latest.categories.map(category => ({
+                    label: category.daysOfCover === undefined
+                      ? `${category.category} · ${category.units} units`
+                      : `${category.category} · ${category.units} units · ${category.daysOfCover} days of cover`,
+                    value: category.inventoryValue,
+                  }))}
+                  format={money}
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <h3 className="text-lg font-semibold mb-4">Suppliers</h3>
+            {breakdown === undefined ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : (
+              <DataTable
+                rows={breakdown.suppliers.map(row => ({ ...row, _id: row.supplierId }))}
+                columns={SUPPLIER_COLUMNS}
+                rowHref={row => `/suppliers/${row.supplierId}`}
+                initialSort={{ column: 1, descending: true }}
+                emptyText="No shipments expected in this range."
+              />
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function percent(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function optionalPercent(rate: number | null) {
+  return rate === null ? "—" : percent(rate);
+}
+
+function money(value: number) {
+  return `$${Math.round(value).toLocaleString()}`;
+}
@@ -0,0 +1,129 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Doc, Id } from "../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { useState } from "react";
+
+type ApiScope = Doc<"apiKeys">["scopes"][number];
+
+const SCOPES: { scope: ApiScope; label: string }[] = [
+  { scope: "suppliers:read", label: "Read suppliers" },
+  { scope: "products:read", label: "Read products" },
+  { scope: "inventory:read", label: "Read inventory" },
+  { scope: "inventory:write", label: "Post receipts, issues and adjustments" },
+  { scope: "shipments:read", label: "Read shipments" },
+  { scope: "shipments:write", label: "Create shipments and update their status" },
+  { scope: "reorders:read", label: "Read reorder suggestions" },
+];
+
+// Admin-only: keys external systems use for the REST API
+export function ApiKeysPanel() {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiScope[]>([]);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const keys = useQuery(api.apiKeys.getApiKeys);
+  const createApiKey = useMutation(api.apiKeys.createApiKey);
+  const revokeApiKey = useMutation(api.apiKeys.revokeApiKey);
+
+  const toggleScope = (scope: ApiScope) => {
+    setScopes(scopes.includes(scope) ? scopes.filter(s => s !== scope) : [...scopes, scope]);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createApiKey({ name, scopes }).then(({ key }) => {
+      setNewKey(key);
+      setName("");
+      setScopes([]);
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to create API key");
+    });
+  };
+
+  const handleRevoke = (apiKeyId: Id<"apiKeys">, keyName: string) => {
+    revokeApiKey({ apiKeyId }).then(() => {
+      toast.success(`Revoked ${keyName}`);
+    }).catch(() => {
+      toast.error("Failed to revoke API key");
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+      <h2 className="text-xl font-semibold">API Keys</h2>
+
+      {newKey && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded text-sm space-y-1">
+          <p className="text-green-800">Copy this key now, it won't be shown again:</p>
+          <code className="block break-all bg-white px-2 py-1 rounded border">{newKey}</code>
+          <button type="button" onClick={() => setNewKey(null)} className="text-green-800 hover:underline">
+            Done
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-3">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Key name, e.g. ERP integration"
+          className="w-full border border-gray-300 rounded px-3 py-1"
+        />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+          {SCOPES.map(({ scope, label }) => (
+            <label key={scope} className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+              {label} <span className="text-gray-400">{scope}</span>
+            </label>
+          ))}
+        </div>
+        <button
+          type="submit"
+          disabled={!name.trim() || scopes.length === 0}
+          className="text-sm bg-blue-600 text-white px-3 py-1 rounded disabled:opacity-50"
+        >
+          Create key
+        </button>
+      </form>
+
+      {keys && keys.length > 0 && (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-4">Name</th>
+              <th className="py-2 pr-4">Key</th>
+              <th className="py-2 pr-4">Scopes</th>
+              <th className="py-2 pr-4">Last used</th>
+              <th className="py-2 pr-4"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {keys.map((key) => (
+              <tr key={key._id} className={`border-b last:border-0 ${key.revokedAt ? "text-gray-400" : ""}`}>
+                <td className="py-2 pr-4">{key.name}</td>
+                <td className="py-2 pr-4"><code>{key.prefix}…</code></td>
+                <td className="py-2 pr-4">{key.scopes.join(", ")}</td>
+                <td className="py-2 pr-4">
+                  {key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : "Never"}
+                </td>
+                <td className="py-2 pr-4 text-right">
+                  {key.revokedAt ? (
+                    "Revoked"
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => handleRevoke(key._id, key.name)}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,23 @@
 import { Authenticated, Unauthenticated, useQuery, useMutation, useAction } from "convex/react";
 import { api } from "../convex/_generated/api";
+import { Doc, Id } from "../convex/_generated/dataModel";
 import { SignInForm } from "./SignInForm";
 import { SignOutButton } from "./SignOutButton";
+import { ApiKeysPanel } from "./ApiKeys";
+import { CarrierWebhookSettings, ShipmentDetail, ShipmentsPage } from "./Shipments";
+import { SupplierDetail, SuppliersPage } from "./Suppliers";
+import { ProductDetail, ProductsPage } from "./Products";
+import { InventoryPage } from "./Inventory";
+import { AnalyticsPage } from "./Analytics";
+import { ImportPanel } from "./Import";
+import { ReplenishmentPanel } from "./Replenishment";
+import { ReorderPolicyPanel } from "./ReorderPolicy";
+import { SupplierCatalogPanel } from "./SupplierCatalog";
+import { AlertsPanel } from "./Alerts";
+import { NotificationsPanel } from "./Notifications";
+import { downloadCsv } from "./lib/spreadsheet";
+import { useRoute } from "./lib/router";
+import { Membership, OrganizationGate, OrganizationSettings, OrganizationSwitcher } from "./Organizations";
 import { Toaster, toast } from "sonner";
 import { useState, useEffect } from "react";
 
@@ -10,7 +26,12 @@ export default function App() {
     <div className="min-h-screen flex flex-col bg-gray-50">
       <header className="sticky top-0 z-10 bg-white/80 backdrop-blur-sm h-16 flex justify-between items-center border-b shadow-sm px-4">
         <h2 className="text-xl font-semibold text-blue-600">🚚 SupplyChainPro</h2>
-        <SignOutButton />
+        <div className="flex items-center gap-3">
+          <Authenticated>
+            <OrganizationSwitcher />
+          </Authenticated>
+          <SignOutButton />
+        </div>
       </header>
       <main className="flex-1 p-4">
         <Content />
@@ -34,7 +55,9 @@ function Content() {
   return (
     <div className="max-w-7xl mx-auto">
       <Authenticated>
-        <LogisticsDashboard />
+        <OrganizationGate>
+          {(organization) => <Workspace key={organization.orgId} organization={organization} />}
+        </OrganizationGate>
       </Authenticated>
       <Unauthenticated>
         <div className="flex flex-col items-center justify-center min-h-96 gap-8">
@@ -53,42 +76,114 @@ function Content() {
   );
 }
 
-function LogisticsDashboard() {
-  const [query, setQuery] = useState("");
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [currentResponse, setCurrentResponse] = useState<any>(null);
-  
+const PAGES = [
+  { path: "", label: "Dashboard" },
+  { path: "suppliers", label: "Suppliers" },
+  { path: "products", label: "Products" },
+  { path: "inventory", label: "Inventory" },
+  { path: "shipments", label: "Shipments" },
+  { path: "analytics", label: "Analytics" },
+];
+
+// The page for the URL hash; see lib/router.ts
+function Workspace({ organization }: { organization: Membership }) {
+  const [page, id] = useRoute();
+  const isAdmin = organization.role === "admin";
+  const canPurchase = organization.role === "buyer" || isAdmin;
+  const canManageInventory = organization.role === "planner" || isAdmin;
+
   const dashboardStats = useQuery(api.logistics.getDashboardStats);
-  const alerts = useQuery(api.logistics.getAlerts);
-  const queryHistory = useQuery(api.logistics.getQueryHistory);
-  const processQuery = useAction(api.logistics.processQuery);
   const initializeData = useMutation(api.logistics.initializeSampleData);
 
+  // A new organization starts with sample data; only admins may seed it
   useEffect(() => {
-    if (dashboardStats && dashboardStats.totalSuppliers === 0) {
+    if (isAdmin && dashboardStats && dashboardStats.totalSuppliers === 0) {
       initializeData().then(() => {
         toast.success("Sample supply chain data loaded!");
       }).catch(() => {
         toast.error("Failed to load sample data");
       });
     }
-  }, [dashboardStats, initializeData]);
+  }, [isAdmin, dashboardStats, initializeData]);
+
+  let content;
+  if (page === "suppliers") {
+    content = id
+      ? <SupplierDetail key={id} supplierId={id} canEdit={canPurchase} />
+      : <SuppliersPage canEdit={canPurchase} />;
+  } else if (page === "products") {
+    content = id
+      ? <ProductDetail key={id} productId={id} canEdit={canManageInventory} canEditSuppliers={canPurchase} />
+      : <ProductsPage canEdit={canManageInventory} />;
+  } else if (page === "inventory") {
+    content = <InventoryPage canChangeValuation={isAdmin} />;
+  } else if (page === "shipments") {
+    content = id
+      ? <ShipmentDetail key={id} shipmentId={id} canEdit={canPurchase} />
+      : <ShipmentsPage canEdit={canPurchase} />;
+  } else if (page === "analytics") {
+    content = <AnalyticsPage canCapture={isAdmin} />;
+  } else {
+    content = <LogisticsDashboard organization={organization} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <nav className="flex flex-wrap gap-2 text-sm">
+        {PAGES.map(({ path, label }) => (
+          <a
+            key={path}
+            href={`#/${path}`}
+            className={`px-3 py-1 rounded-lg ${
+              (page ?? "") === path ? "bg-blue-600 text-white" : "text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            {label}
+          </a>
+        ))}
+      </nav>
+      {content}
+    </div>
+  );
+}
+
+function LogisticsDashboard({ organization }: { organization: Membership }) {
+  const isAdmin = organization.role === "admin";
+  const [query, setQuery] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [conversationId, setConversationId] = useState<Id<"conversations"> | null>(null);
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [useModel, setUseModel] = useState(true);
+  
+  const dashboardStats = useQuery(api.logistics.getDashboardStats);
+  const conversations = useQuery(api.conversations.getConversations);
+  const messages = useQuery(
+    api.conversations.getConversationMessages,
+    conversationId ? { conversationId } : "skip"
+  );
+  const assistantInfo = useQuery(api.logistics.getAssistantInfo);
+  const processQuery = useAction(api.logistics.processQuery);
 
   const handleSubmitQuery = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!query.trim() || isProcessing) return;
 
     setIsProcessing(true);
+    setPendingQuestion(query);
     try {
-      const response = await processQuery({ question: query });
-      setCurrentResponse(response);
+      const response = await processQuery({
+        question: query,
+        mode: useModel ? "auto" : "rules",
+        conversationId: conversationId ?? undefined,
+      });
+      setConversationId(response.conversationId);
       setQuery("");
-      toast.success("Query processed successfully!");
     } catch (error) {
       toast.error("Failed to process query");
       console.error(error);
     } finally {
       setIsProcessing(false);
+      setPendingQuestion(null);
     }
   };
 
@@ -109,20 +204,58 @@ function LogisticsDashboard() {
           <StatCard title="Products" value={dashboardStats.totalProducts} />
           <StatCard title="Active Shipments" value={dashboardStats.activeShipments} />
           <StatCard title="Delayed" value={dashboardStats.delayedShipments} color="red" />
-          <StatCard title="Avg Reliability" value={`${dashboardStats.avgSupplierReliability}%`} />
-          <StatCard title="Active Alerts" value={dashboardStats.activeAlerts} color="orange" />
+          <StatCard
+            title="Avg Reliability"
+            value={dashboardStats.avgSupplierReliability === null ? "—" : `${dashboardStats.avgSupplierReliability}%`}
+          />
+          <StatCard
+            title="Active Alerts"
+            value={dashboardStats.activeAlerts}
+            detail={`${dashboardStats.overdueAlerts} overdue · ${dashboardStats.alertsWithinSla} within SLA`}
+            color={dashboardStats.overdueAlerts > 0 ? "red" : "orange"}
+          />
         </div>
       )}
 
       <div className="bg-white rounded-lg shadow-sm border p-6">
-        <h2 className="text-xl font-semibold mb-4">Ask Your Logistics Assistant</h2>
-        
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Ask Your Logistics Assistant</h2>
+          {conversationId && (
+            <button
+              type="button"
+              onClick={() => setConversationId(null)}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              New conversation
+            </button>
+          )}
+        </div>
+
+        {(conversationId || pendingQuestion) && (
+          <div className="mb-6 space-y-4 max-h-[32rem] overflow-y-auto">
+            {messages?.map((message) => (
+              <div key={message._id} className="space-y-2">
+                <QuestionBubble question={message.question} />
+                <AnswerBubble answer={message} onAsk={setQuery} />
+              </div>
+            ))}
+            {pendingQuestion && (
+              <div className="space-y-2">
+                <QuestionBubble question={pendingQuestion} />
+                <p className="text-sm text-gray-500">Thinking...</p>
+              </div>
+            )}
+          </div>
+        )}
+
         <form onSubmit={handleSubmitQuery} className="space-y-4">
           <div>
             <textarea
               value={query}
               onChange={(e) => setQuery(e.target.value)}
-              placeholder="Ask me anything about your supply chain..."
+              placeholder={conversationId
+                ? "Ask a follow-up, e.g. \"and which of those are from EuroTech?\""
+                : "Ask me anything about your supply chain..."}
               className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
               rows={3}
             />
@@ -142,110 +275,273 @@ function LogisticsDashboard() {
             ))}
           </div>
           
-          <button
-            type="submit"
-            disabled={!query.trim() || isProcessing}
-            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            {isProcessing ? "Processing..." : "Ask Assistant"}
-          </button>
-        </form>
-
-        {currentResponse && (
-          <div className="mt-6 p-4 bg-gray-50 rounded-lg">
-            <h3 className="font-semibold text-gray-900 mb-2">Response:</h3>
-            <p className="text-gray-700 mb-4">{currentResponse.response}</p>
-            
-            {currentResponse.insights.length > 0 && (
-              <div className="mb-4">
-                <h4 className="font-medium text-gray-900 mb-2">Key Insights:</h4>
-                <ul className="list-disc list-inside space-y-1">
-                  {currentResponse.insights.map((insight: string, index: number) => (
-                    <li key={index} className="text-gray-700">{insight}</li>
-                  ))}
-                </ul>
-              </div>
-            )}
-            
-            {currentResponse.recommendations.length > 0 && (
-              <div>
-                <h4 className="font-medium text-gray-900 mb-2">Recommendations:</h4>
-                <ul className="list-disc list-inside space-y-1">
-                  {currentResponse.recommendations.map((rec: string, index: number) => (
-                    <li key={index} className="text-gray-700">{rec}</li>
-                  ))}
-                </ul>
-              </div>
+          <div className="flex items-center gap-4">
+            <button
+              type="submit"
+              disabled={!query.trim() || isProcessing}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isProcessing ? "Processing..." : "Ask Assistant"}
+            </button>
+            {assistantInfo?.llmEnabled && (
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={useModel}
+                  onChange={(e) => setUseModel(e.target.checked)}
+                />
+                Answer with {assistantInfo.model}
+              </label>
             )}
           </div>
-        )}
+        </form>
+
       </div>
 
-      {alerts && alerts.length > 0 && (
+      {organization.role !== "viewer" && <ReplenishmentPanel role={organization.role} />}
+
+      {organization.role !== "viewer" && (
+        <ReorderPolicyPanel canEdit={organization.role === "planner" || organization.role === "admin"} />
+      )}
+
+      <SupplierCatalogPanel canEdit={organization.role === "buyer" || organization.role === "admin"} />
+
+      {organization.role !== "viewer" && <ImportPanel />}
+
+      <AlertsPanel canManage={organization.role !== "viewer"} isAdmin={organization.role === "admin"} />
+
+      {organization.role !== "viewer" && <NotificationsPanel />}
+
+      {conversations && conversations.length > 0 && (
         <div className="bg-white rounded-lg shadow-sm border p-6">
-          <h2 className="text-xl font-semibold mb-4">Active Alerts</h2>
+          <h2 className="text-xl font-semibold mb-4">Recent Conversations</h2>
           <div className="space-y-3">
-            {alerts.map((alert) => (
-              <div
-                key={alert._id}
-                className={`p-3 rounded-lg border-l-4 ${
-                  alert.severity === "high"
-                    ? "bg-red-50 border-red-400"
-                    : alert.severity === "medium"
-                    ? "bg-yellow-50 border-yellow-400"
-                    : "bg-blue-50 border-blue-400"
+            {conversations.map((conversation) => (
+              <button
+                key={conversation._id}
+                type="button"
+                onClick={() => setConversationId(conversation._id)}
+                className={`w-full text-left p-3 rounded-lg transition-colors ${
+                  conversation._id === conversationId ? "bg-blue-50" : "bg-gray-50 hover:bg-gray-100"
                 }`}
               >
-                <div className="flex justify-between items-start">
-                  <div>
-                    <h3 className="font-medium text-gray-900">{alert.title}</h3>
-                    <p className="text-sm text-gray-600 mt-1">{alert.description}</p>
-                  </div>
-                  <span
-                    className={`text-xs px-2 py-1 rounded-full ${
-                      alert.severity === "high"
-                        ? "bg-red-100 text-red-800"
-                        : alert.severity === "medium"
-                        ? "bg-yellow-100 text-yellow-800"
-                        : "bg-blue-100 text-blue-800"
-                    }`}
-                  >
-                    {alert.severity}
-                  </span>
-                </div>
-              </div>
+                <p className="font-medium text-gray-900 mb-1">{conversation.title}</p>
+                <p className="text-xs text-gray-500">
+                  {new Date(conversation.updatedAt).toLocaleString()}
+                </p>
+              </button>
             ))}
           </div>
         </div>
       )}
 
-      {queryHistory && queryHistory.length > 0 && (
-        <div className="bg-white rounded-lg shadow-sm border p-6">
-          <h2 className="text-xl font-semibold mb-4">Recent Queries</h2>
-          <div className="space-y-3">
-            {queryHistory.map((queryItem) => (
-              <div key={queryItem._id} className="p-3 bg-gray-50 rounded-lg">
-                <p className="font-medium text-gray-900 mb-1">{queryItem.question}</p>
-                <p className="text-sm text-gray-600">{queryItem.response}</p>
-                <p className="text-xs text-gray-500 mt-2">
-                  {new Date(queryItem.timestamp).toLocaleString()}
-                </p>
-              </div>
-            ))}
+      {isAdmin && <OrganizationSettings organization={organization} />}
+      {isAdmin && <ApiKeysPanel />}
+      {isAdmin && <CarrierWebhookSettings />}
+    </div>
+  );
+}
+
+function QuestionBubble({ question }: { question: string }) {
+  return (
+    <div className="flex justify-end">
+      <p className="max-w-[80%] bg-blue-600 text-white px-4 py-2 rounded-lg">{question}</p>
+    </div>
+  );
+}
+
+type AnswerAction = NonNullable<Doc<"queries">["actions"]>[number];
+type EntityKind = NonNullable<Doc<"queries">["entityRefs"]>[number]["kind"];
+
+function AnswerBubble({ answer, onAsk }: { answer: Doc<"queries">; onAsk: (question: string) => void }) {
+  return (
+    <div className="max-w-[90%] p-4 bg-gray-50 rounded-lg">
+      <p className="text-gray-700">{answer.response}</p>
+
+      {answer.tables?.map((table, tableIndex) => table.rows.length > 0 && (
+        <div key={tableIndex} className="mt-3 overflow-x-auto">
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="font-medium text-gray-900">{table.title}</h4>
+            <button
+              type="button"
+              onClick={() => downloadCsv(
+                `${table.title}.csv`,
+                table.columns.map((header, i) => ({ header, value: (row: typeof table.rows[number]) => row.cells[i] })),
+                table.rows,
+              )}
+              className="text-xs text-blue-600 hover:text-blue-800"
+            >
+              Export CSV
+            </button>
           </div>
+          <table className="min-w-full text-sm bg-white border rounded">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                {table.columns.map((column) => (
+                  <th key={column} className="py-1 px-2">{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-b last:border-0">
+                  {row.cells.map((cell, cellIndex) => (
+                    <td key={cellIndex} className="py-1 px-2 text-gray-700">{cell ?? "—"}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+
+      {answer.insights.length > 0 && (
+        <div className="mt-3">
+          <h4 className="font-medium text-gray-900 mb-2">Key Insights:</h4>
+          <ul className="list-disc list-inside space-y-1">
+            {answer.insights.map((insight, index) => (
+              <li key={index} className="text-gray-700">{insight}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {answer.recommendations.length > 0 && (
+        <div className="mt-3">
+          <h4 className="font-medium text-gray-900 mb-2">Recommendations:</h4>
+          <ul className="list-disc list-inside space-y-1">
+            {answer.recommendations.map((rec, index) => (
+              <li key={index} className="text-gray-700">{rec}</li>
+            ))}
+          </ul>
         </div>
       )}
+
+      {answer.actions && answer.actions.length > 0 && (
+        <div className="mt-3 space-y-2">
+          <h4 className="font-medium text-gray-900">Suggested Actions:</h4>
+          {answer.actions.map((action, index) => (
+            <SuggestedAction key={index} queryId={answer._id} actionIndex={index} action={action} />
+          ))}
+        </div>
+      )}
+
+      {answer.entityRefs && answer.entityRefs.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {answer.entityRefs.map((ref) => {
+            const followUp = FOLLOW_UPS[ref.kind]?.(ref.label);
+            return (
+              <button
+                key={ref.id}
+                type="button"
+                disabled={!followUp}
+                onClick={() => followUp && onAsk(followUp)}
+                title={followUp}
+                className="text-xs bg-white border text-gray-700 px-2 py-1 rounded-full hover:bg-blue-50 disabled:hover:bg-white"
+              >
+                <span className="text-gray-400">{ref.kind}</span> {ref.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {answer.answeredBy && (
+        <p className="text-xs text-gray-500 mt-3">Answered by {answer.answeredBy}</p>
+      )}
+    </div>
+  );
+}
+
+// The question an entity chip fills in when clicked
+const FOLLOW_UPS: Partial<Record<EntityKind, (label: string) => string>> = {
+  supplier: (label) => `How reliable is ${label}?`,
+  product: (label) => `What are the stock levels for ${label}?`,
+};
+
+function SuggestedAction({
+  queryId,
+  actionIndex,
+  action,
+}: {
+  queryId: Id<"queries">;
+  actionIndex: number;
+  action: AnswerAction;
+}) {
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const executeAction = useMutation(api.assistantActions.executeAction);
+
+  if (action.executedAt) {
+    return (
+      <div className="text-sm p-2 bg-green-50 text-green-800 rounded">
+        ✓ {action.outcome ?? action.label}
+      </div>
+    );
+  }
+
+  const handleConfirm = async () => {
+    setIsRunning(true);
+    try {
+      toast.success(await executeAction({ queryId, actionIndex }));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Action failed");
+    } finally {
+      setIsRunning(false);
+      setIsConfirming(false);
+    }
+  };
+
+  return (
+    <div className="text-sm p-2 bg-white border rounded flex flex-wrap items-center justify-between gap-2">
+      <span className="text-gray-700">{action.label}</span>
+      {isConfirming ? (
+        <span className="flex gap-2">
+          <button
+            type="button"
+            disabled={isRunning}
+            onClick={() => void handleConfirm()}
+            className="bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isRunning ? "Working..." : "Confirm"}
+          </button>
+          <button
+            type="button"
+            disabled={isRunning}
+            onClick={() => setIsConfirming(false)}
+            className="px-3 py-1 rounded border hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        </span>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsConfirming(true)}
+          className="text-blue-600 hover:text-blue-800"
+        >
+          {ACTION_VERBS[action.kind]}
+        </button>
+      )}
     </div>
   );
 }
 
+const ACTION_VERBS: Record<AnswerAction["kind"], string> = {
+  create_reorder: "Create PO",
+  contact_supplier: "Contact",
+  resolve_alert: "Resolve",
+};
+
 function StatCard({ 
   title, 
   value, 
+  detail,
   color = "blue" 
 }: { 
   title: string; 
   value: string | number; 
+  detail?: string;
   color?: "blue" | "red" | "orange" | "green";
 }) {
   const colorClasses = {
@@ -259,6 +555,7 @@ function StatCard({
     <div className={`p-4 rounded-lg border ${colorClasses[color]}`}>
       <h3 className="text-sm font-medium opacity-80">{title}</h3>
       <p className="text-2xl font-bold mt-1">{value}</p>
+      {detail && <p className="text-xs mt-1 opacity-80">{detail}</p>}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,104 @@
+// Charts drawn as plain SVG and divs, without a charting library
+
+const WIDTH = 300;
+const HEIGHT = 80;
+
+type Point = { at: number; value: number | null };
+
+// A value over time, scaled from zero to its highest point. Points without
+// a value break the line.
+export function LineChart({
+  points,
+  format,
+  color = "#2563eb",
+}: {
+  points: Point[];
+  format: (value: number) => string;
+  color?: string;
+}) {
+  const values = points.flatMap(point => point.value === null ? [] : [point.value]);
+  if (values.length === 0) return <p className="h-20 text-sm text-gray-500">No data in this range.</p>;
+
+  const first = points[0].at;
+  const last = points[points.length - 1].at;
+  const max = Math.max(0, ...values);
+  const min = Math.min(0, ...values);
+  const x = (at: number) => last === first ? WIDTH / 2 : ((at - first) / (last - first)) * WIDTH;
+  const y = (value: number) => max === min ? HEIGHT : HEIGHT - ((value - min) / (max - min)) * HEIGHT;
+
+  const segments: Point[][] = [[]];
+  for (const point of points) {
+    if (point.value === null) {
+      if (segments[segments.length - 1].length > 0) segments.push([]);
+    } else {
+      segments[segments.length - 1].push(point);
+    }
+  }
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-20 overflow-visible">
+        <line x1={0} y1={HEIGHT} x2={WIDTH} y2={HEIGHT} stroke="#e5e7eb" vectorEffect="non-scaling-stroke" />
+        {segments.filter(segment => segment.length > 0).map((segment) => segment.length === 1 ? (
+          // A lone point, drawn as a dot
+          <line
+            key={segment[0].at}
+            x1={x(segment[0].at)}
+            y1={y(segment[0].value!)}
+            x2={x(segment[0].at)}
+            y2={y(segment[0].value!)}
+            stroke={color}
+            strokeWidth={6}
+            strokeLinecap="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        ) : (
+          <polyline
+            key={segment[0].at}
+            points={segment.map(point => `${x(point.at)},${y(point.value!)}`).join(" ")}
+            fill="none"
+            stroke={color}
+            strokeWidth={2}
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{new Date(first).toLocaleDateString()}</span>
+        <span>high {format(Math.max(...values))}</span>
+        <span>{new Date(last).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+}
+
+// Horizontal bars relative to the largest value
+export function BarList({
+  items,
+  format,
+}: {
+  items: { label: string; value: number; color?: string }[];
+  format: (value: number) => string;
+}) {
+  const max = Math.max(0, ...items.map(item => item.value));
+
+  return (
+    <ul className="space-y-2 text-sm">
+      {items.map((item) => (
+        <li key={item.label}>
+          <div className="flex justify-between text-gray-700">
+            <span>{item.label}</span>
+            <span>{format(item.value)}</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded">
+            <div
+              className={`h-2 rounded ${item.color ?? "bg-blue-500"}`}
+              style={{ width: `${max > 0 ? (item.value / max) * 100 : 0}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,141 @@
+import { PaginationStatus } from "convex/react";
+import { useState } from "react";
+import { navigate } from "./lib/router";
+
+export type Column<T> = {
+  header: string;
+  // Sorts the column, and is shown unless the column renders its own cell
+  value: (row: T) => string | number | null | undefined;
+  render?: (row: T) => React.ReactNode;
+  align?: "right";
+};
+
+type Sort = { column: number; descending: boolean };
+
+// What usePaginatedQuery returns besides the rows
+type Pagination = { status: PaginationStatus; loadMore: (numItems: number) => void };
+
+// A table sorted by clicking its headers and paged in the browser. Rows
+// with an href open it when clicked. Rows from a paginated query instead
+// keep the server's order and load a page more at a time.
+export function DataTable<T extends { _id: string }>({
+  rows,
+  columns,
+  rowHref,
+  initialSort = { column: 0, descending: false },
+  pageSize = 25,
+  pagination,
+  emptyText = "Nothing to show.",
+}: {
+  rows: T[];
+  columns: Column<T>[];
+  rowHref?: (row: T) => string;
+  initialSort?: Sort;
+  pageSize?: number;
+  pagination?: Pagination;
+  emptyText?: string;
+}) {
+  const [sort, setSort] = useState<Sort>(initialSort);
+  const [page, setPage] = useState(0);
+
+  if (pagination?.status === "LoadingFirstPage") return <p className="text-sm text-gray-500">Loading...</p>;
+  if (rows.length === 0 && pagination?.status !== "CanLoadMore") {
+    return <p className="text-sm text-gray-600">{emptyText}</p>;
+  }
+
+  const sortValue = columns[sort.column].value;
+  const sorted = pagination ? rows : [...rows].sort((a, b) => {
+    const order = compare(sortValue(a), sortValue(b));
+    return sort.descending ? -order : order;
+  });
+  const pageCount = pagination ? 1 : Math.ceil(sorted.length / pageSize);
+  const currentPage = Math.min(page, pageCount - 1);
+  const visible = pagination ? sorted : sorted.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+  const toggleSort = (column: number) => {
+    setSort(sort.column === column ? { column, descending: !sort.descending } : { column, descending: false });
+    setPage(0);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              {columns.map((column, index) => (
+                <th key={column.header} className={`py-2 pr-4 font-medium ${column.align === "right" ? "text-right" : ""}`}>
+                  {pagination ? column.header : (
+                    <button type="button" onClick={() => toggleSort(index)} className="hover:text-gray-900">
+                      {column.header}
+                      {sort.column === index && (sort.descending ? " ↓" : " ↑")}
+                    </button>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((row) => (
+              <tr
+                key={row._id}
+                onClick={rowHref ? () => navigate(rowHref(row)) : undefined}
+                className={`border-b last:border-0 ${rowHref ? "cursor-pointer hover:bg-gray-50" : ""}`}
+              >
+                {columns.map((column) => (
+                  <td key={column.header} className={`py-2 pr-4 text-gray-700 ${column.align === "right" ? "text-right" : ""}`}>
+                    {column.render ? column.render(row) : column.value(row) ?? "—"}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {pagination && pagination.status !== "Exhausted" && (
+        <div className="flex items-center justify-end gap-3 text-sm text-gray-600">
+          <span>{sorted.length} shown</span>
+          <button
+            type="button"
+            disabled={pagination.status === "LoadingMore"}
+            onClick={() => pagination.loadMore(pageSize)}
+            className="px-2 py-1 border rounded disabled:opacity-50"
+          >
+            {pagination.status === "LoadingMore" ? "Loading..." : "Load more"}
+          </button>
+        </div>
+      )}
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-3 text-sm text-gray-600">
+          <span>
+            {currentPage * pageSize + 1}–{Math.min((currentPage + 1) * pageSize, sorted.length)} of {sorted.length}
+          </span>
+          <button
+            type="button"
+            disabled={currentPage === 0}
+            onClick={() => setPage(currentPage - 1)}
+            className="px-2 py-1 border rounded disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <button
+            type="button"
+            disabled={currentPage === pageCount - 1}
+            onClick={() => setPage(currentPage + 1)}
+            className="px-2 py-1 border rounded disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Blanks sort after everything else in ascending order
+function compare(a: string | number | null | undefined, b: string | number | null | undefined) {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return typeof a === "number" && typeof b === "number" ? a - b : String(a).localeCompare(String(b));
+}
@@ -0,0 +1,19 @@
+// Building blocks of the supplier, product and shipment detail pages
+
+export function Field({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-gray-500">{label}</dt>
+      <dd className="text-gray-900">{value}</dd>
+    </div>
+  );
+}
+
+export function NotFound({ what, backHref, backLabel }: { what: string; backHref: string; backLabel: string }) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 text-sm space-y-2">
+      <p className="text-gray-700">This {what} doesn't exist or was deleted.</p>
+      <a href={backHref} className="text-blue-600 hover:text-blue-800">{backLabel}</a>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useMutation } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { toast } from "sonner";
+import { useState } from "react";
+import { FunctionReturnType } from "convex/server";
+import { Sheet, readSpreadsheet } from "./lib/spreadsheet";
+
+type ImportEntity = "suppliers" | "products" | "inventory";
+type ImportResult = FunctionReturnType<typeof api.imports.importRecords>;
+
+type TargetField = { field: string; label: string; aliases: string[] };
+
+// The fields each import understands, and header names they are matched
+// to automatically
+const TARGET_FIELDS: Record<ImportEntity, TargetField[]> = {
+  suppliers: [
+    { field: "name", label: "Name", aliases: ["supplier", "supplier name", "company"] },
+    { field: "contactEmail", label: "Contact email", aliases: ["email", "contact", "e-mail"] },
+    { field: "location", label: "Location", aliases: ["city", "country", "address"] },
+    { field: "averageDeliveryDays", label: "Avg delivery days", aliases: ["lead time", "delivery days", "lead time days"] },
+    { field: "status", label: "Status (active/inactive)", aliases: ["active"] },
+    { field: "minimumOrderQuantity", label: "Minimum order quantity", aliases: ["moq", "min order qty"] },
+    { field: "minimumOrderValue", label: "Minimum order value", aliases: ["mov", "min order value"] },
+  ],
+  products: [
+    { field: "sku", label: "SKU", aliases: ["item", "item code", "product code", "part number"] },
+    { field: "name", label: "Name", aliases: ["product", "product name", "description"] },
+    { field: "category", label: "Category", aliases: ["group", "type"] },
+    { field: "unitPrice", label: "Unit price", aliases: ["price", "cost", "unit cost"] },
+    { field: "reorderPoint", label: "Reorder point", aliases: ["rop", "min", "minimum"] },
+    { field: "reorderQuantity", label: "Reorder quantity", aliases: ["order quantity", "reorder qty", "moq"] },
+    { field: "supplier", label: "Supplier name or email", aliases: ["supplier name", "supplier email", "vendor"] },
+  ],
+  inventory: [
+    { field: "sku", label: "SKU", aliases: ["item", "item code", "product code"] },
+    { field: "warehouseCode", label: "Warehouse code", aliases: ["warehouse", "location", "site"] },
+    { field: "countedStock", label: "Counted stock", aliases: ["count", "quantity", "qty", "on hand", "stock"] },
+    { field: "note", label: "Note", aliases: ["comment", "remarks"] },
+  ],
+};
+
+const ACTION_STYLES: Record<ImportResult["rows"][number]["action"], string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  unchanged: "bg-gray-100 text-gray-600",
+  error: "bg-red-100 text-red-800",
+};
+
+// Bulk upload of suppliers, products or stock counts from CSV or XLSX: map
+// the file's columns, preview what would change, then import
+export function ImportPanel() {
+  const [entity, setEntity] = useState<ImportEntity>("products");
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const importRecords = useMutation(api.imports.importRecords);
+
+  const fields = TARGET_FIELDS[entity];
+
+  const reset = (nextSheet: Sheet | null, nextEntity: ImportEntity) => {
+    setSheet(nextSheet);
+    setMapping(nextSheet ? autoMap(nextSheet.headers, TARGET_FIELDS[nextEntity]) : {});
+    setResult(null);
+  };
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    readSpreadsheet(file).then((parsed) => {
+      if (parsed.rows.length === 0) {
+        toast.error("The file has no data rows");
+        return;
+      }
+      reset(parsed, entity);
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to read the file");
+    });
+  };
+
+  const run = (dryRun: boolean) => {
+    if (!sheet) return;
+    const rows = sheet.rows.map(row => Object.fromEntries(
+      fields.filter(f => mapping[f.field]).map(f => [f.field, row[mapping[f.field]] ?? ""])
+    ));
+
+    setIsWorking(true);
+    importRecords({ entity, rows, dryRun }).then((response) => {
+      setResult(response);
+      if (response.applied) {
+        toast.success(`Imported ${response.summary.create} new and ${response.summary.update} updated ${entity}`);
+      }
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Import failed");
+    }).finally(() => {
+      setIsWorking(false);
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4 text-sm">
+      <h2 className="text-xl font-semibold">Import</h2>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={entity}
+          onChange={(e) => {
+            const next = e.target.value as ImportEntity;
+            setEntity(next);
+            reset(sheet, next);
+          }}
+          className="border border-gray-300 rounded-lg px-3 py-1"
+        >
+          <option value="suppliers">Suppliers</option>
+          <option value="products">Products</option>
+          <option value="inventory">Stock counts</option>
+        </select>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,.xlsx"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {sheet && (
+        <>
+          <p className="text-gray-600">{sheet.rows.length} rows. Match the file's columns to the fields:</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {fields.map(({ field, label }) => (
+              <label key={field} className="flex items-center justify-between gap-3">
+                <span className="text-gray-700">{label}</span>
+                <select
+                  value={mapping[field] ?? ""}
+                  onChange={(e) => {
+                    setMapping({ ...mapping, [field]: e.target.value });
+                    setResult(null);
+                  }}
+                  className="border border-gray-300 rounded px-2 py-1 w-48"
+                >
+                  <option value="">Not in file</option>
+                  {sheet.headers.map((header) => (
+                    <option key={header} value={header}>{header}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => run(true)}
+              disabled={isWorking}
+              className="border border-blue-600 text-blue-600 px-3 py-1 rounded disabled:opacity-50"
+            >
+              Preview
+            </button>
+            <button
+              type="button"
+              onClick={() => run(false)}
+              disabled={isWorking || !result || result.applied || result.summary.error > 0}
+              className="bg-blue-600 text-white px-3 py-1 rounded disabled:opacity-50"
+            >
+              Import
+            </button>
+          </div>
+        </>
+      )}
+
+      {result && <ImportReport result={result} />}
+    </div>
+  );
+}
+
+function ImportReport({ result }: { result: ImportResult }) {
+  const { summary } = result;
+  const rows = result.rows.filter(row => row.action !== "unchanged");
+
+  return (
+    <div className="space-y-2">
+      <p className={summary.error > 0 ? "text-red-700" : "text-gray-700"}>
+        {result.applied ? "Imported: " : "Preview: "}
+        {summary.create} to create, {summary.update} to update, {summary.unchanged} unchanged
+        {summary.error > 0 && `, ${summary.error} with errors. Fix them in the file and upload it again; nothing is imported while any row has an error.`}
+      </p>
+      {rows.length > 0 && (
+        <div className="overflow-x-auto max-h-96">
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-4 font-medium">Row</th>
+                <th className="py-2 pr-4 font-medium">Record</th>
+                <th className="py-2 pr-4 font-medium">Result</th>
+                <th className="py-2 font-medium">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.row} className="border-b last:border-0 align-top">
+                  <td className="py-2 pr-4 text-gray-500">{row.row}</td>
+                  <td className="py-2 pr-4 text-gray-900">{row.key || "—"}</td>
+                  <td className="py-2 pr-4">
+                    <span className={`text-xs px-2 py-1 rounded-full ${ACTION_STYLES[row.action]}`}>{row.action}</span>
+                  </td>
+                  <td className="py-2 text-gray-700">
+                    {row.errors.length > 0 ? row.errors.join("; ") : row.changes.join(", ")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Matches headers to fields by name or alias, ignoring case, spaces and
+// punctuation
+function autoMap(headers: string[], fields: TargetField[]) {
+  const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+  const mapping: Record<string, string> = {};
+  for (const { field, aliases } of fields) {
+    const names = [field, ...aliases].map(normalize);
+    const header = headers.find(h => names.includes(normalize(h)) && !Object.values(mapping).includes(h));
+    if (header) mapping[field] = header;
+  }
+  return mapping;
+}
@@ -0,0 +1,112 @@
+import { useConvex, useQuery, usePaginatedQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Id } from "../convex/_generated/dataModel";
+import { FunctionReturnType } from "convex/server";
+import { toast } from "sonner";
+import { useState } from "react";
+import { Column, DataTable } from "./DataTable";
+import { StockStatus } from "./Products";
+import { InventoryValuation } from "./Valuation";
+import { CsvColumn, downloadCsv } from "./lib/spreadsheet";
+
+type InventoryRow = FunctionReturnType<typeof api.logistics.getInventoryStatus>[number];
+
+// Headers match the stock count import, so an export can be counted and
+// uploaded again
+const INVENTORY_CSV_COLUMNS: CsvColumn<InventoryRow>[] = [
+  { header: "SKU", value: item => item.productSku },
+  { header: "Product", value: item => item.productName },
+  { header: "Warehouse code", value: item => item.warehouseCode },
+  { header: "Warehouse", value: item => item.warehouseName },
+  { header: "On hand", value: item => item.currentStock },
+  { header: "Reserved", value: item => item.reservedStock },
+  { header: "Available", value: item => item.availableStock },
+  { header: "Reorder point", value: item => item.reorderPoint },
+  { header: "Needs reorder", value: item => item.needsReorder ? "yes" : "no" },
+];
+
+const INVENTORY_COLUMNS: Column<InventoryRow>[] = [
+  {
+    header: "Product",
+    value: item => item.productName,
+    render: item => (
+      <>
+        <span className="text-gray-900">{item.productName}</span>
+        <span className="text-xs text-gray-500 ml-2">{item.productSku}</span>
+      </>
+    ),
+  },
+  { header: "Warehouse", value: item => item.warehouseName },
+  { header: "On hand", value: item => item.currentStock, align: "right" },
+  { header: "Reserved", value: item => item.reservedStock, align: "right" },
+  { header: "Available", value: item => item.availableStock, align: "right" },
+  { header: "Reorder point", value: item => item.reorderPoint, align: "right" },
+  {
+    header: "Status",
+    value: item => item.needsReorder ? "reorder" : "ok",
+    render: item => <StockStatus needsReorder={item.needsReorder} />,
+  },
+];
+
+export function InventoryPage({ canChangeValuation }: { canChangeValuation: boolean }) {
+  const [warehouseId, setWarehouseId] = useState<Id<"warehouses"> | "">("");
+  const [onlyReorder, setOnlyReorder] = useState(false);
+  const convex = useConvex();
+  const warehouses = useQuery(api.warehouses.getWarehouses, {});
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.lists.listInventory,
+    { warehouseId: warehouseId || undefined, needsReorder: onlyReorder || undefined },
+    { initialNumItems: 25 }
+  );
+
+  // The export holds every matching row, not only the pages loaded so far
+  const handleExport = () => {
+    convex.query(api.logistics.getInventoryStatus, warehouseId ? { warehouseId } : {}).then((inventory) => {
+      downloadCsv("inventory.csv", INVENTORY_CSV_COLUMNS, onlyReorder ? inventory.filter(item => item.needsReorder) : inventory);
+    }).catch(() => {
+      toast.error("Failed to export inventory");
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <h2 className="text-xl font-semibold">Inventory</h2>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            {results.length > 0 && (
+              <button type="button" onClick={handleExport} className="text-blue-600 hover:text-blue-800">
+                Export CSV
+              </button>
+            )}
+            <label className="flex items-center gap-2 text-gray-600">
+              <input type="checkbox" checked={onlyReorder} onChange={(e) => setOnlyReorder(e.target.checked)} />
+              Needs reorder
+            </label>
+            <select
+              value={warehouseId}
+              onChange={(e) => setWarehouseId(e.target.value as Id<"warehouses"> | "")}
+              className="border border-gray-300 rounded-lg px-3 py-1"
+            >
+              <option value="">All warehouses</option>
+              {warehouses?.map((warehouse) => (
+                <option key={warehouse._id} value={warehouse._id}>
+                  {warehouse.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <DataTable
+          rows={results}
+          columns={INVENTORY_COLUMNS}
+          rowHref={item => `/products/${item.productId}`}
+          pagination={{ status, loadMore }}
+          emptyText={onlyReorder ? "Nothing needs reordering." : "No stock in this warehouse."}
+        />
+      </div>
+      <InventoryValuation canChangeMethod={canChangeValuation} />
+    </div>
+  );
+}
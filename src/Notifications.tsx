@@ -0,0 +1,303 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Doc, Id } from "../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { useState } from "react";
+
+type Subscription = Doc<"notificationSubscriptions">;
+type SubscriptionForm = Pick<
+  Subscription,
+  "channel" | "target" | "alertTypes" | "minSeverity" | "supplierIds" | "warehouseIds" | "digestMinutes" | "isActive"
+> & { subscriptionId?: Id<"notificationSubscriptions"> };
+
+const CHANNEL_LABELS: Record<Subscription["channel"], string> = {
+  email: "Email",
+  webhook: "Webhook",
+  slack: "Slack",
+};
+
+const TYPE_LABELS: Record<Subscription["alertTypes"][number], string> = {
+  low_stock: "Low stock",
+  reorder_needed: "Reorder needed",
+  supplier_delay: "Supplier delay",
+  quality_issue: "Quality issue",
+};
+
+const DIGEST_OPTIONS = [
+  { minutes: 0, label: "Right away" },
+  { minutes: 15, label: "Every 15 minutes" },
+  { minutes: 60, label: "Hourly" },
+  { minutes: 24 * 60, label: "Daily" },
+];
+
+const STATUS_STYLES: Record<Doc<"notifications">["status"], string> = {
+  pending: "bg-gray-100 text-gray-700",
+  sending: "bg-blue-100 text-blue-800",
+  sent: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const EMPTY_FORM: SubscriptionForm = {
+  channel: "email",
+  target: "",
+  alertTypes: [],
+  minSeverity: "medium",
+  supplierIds: [],
+  warehouseIds: [],
+  digestMinutes: 0,
+  isActive: true,
+};
+
+// The signed-in member's alert notifications: where they go, which alerts
+// they cover and what was delivered lately
+export function NotificationsPanel() {
+  const [form, setForm] = useState<SubscriptionForm | null>(null);
+  const [showDeliveries, setShowDeliveries] = useState(false);
+  const subscriptions = useQuery(api.notifications.getMySubscriptions);
+  const deliveries = useQuery(api.notifications.getMyNotifications, showDeliveries ? {} : "skip");
+  const suppliers = useQuery(api.logistics.getSuppliers);
+  const warehouses = useQuery(api.warehouses.getWarehouses, {});
+  const saveSubscription = useMutation(api.notifications.saveSubscription);
+  const deleteSubscription = useMutation(api.notifications.deleteSubscription);
+  const sendTest = useMutation(api.notifications.sendTestNotification);
+
+  if (!subscriptions || !suppliers || !warehouses) return null;
+
+  const nameOf = (id: string) =>
+    suppliers.find(s => s._id === id)?.name ?? warehouses.find(w => w._id === id)?.name ?? "Unknown";
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    saveSubscription(form).then(() => {
+      setForm(null);
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save the subscription");
+    });
+  };
+
+  const handleTest = (subscriptionId: Id<"notificationSubscriptions">) => {
+    sendTest({ subscriptionId }).then(() => {
+      toast.success("Test notification queued");
+      setShowDeliveries(true);
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to send a test notification");
+    });
+  };
+
+  const handleDelete = (subscriptionId: Id<"notificationSubscriptions">) => {
+    deleteSubscription({ subscriptionId }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to delete the subscription");
+    });
+  };
+
+  const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4 text-sm">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-xl font-semibold">My Notifications</h2>
+        <div className="flex gap-3">
+          {!form && (
+            <button type="button" onClick={() => setForm(EMPTY_FORM)} className="text-blue-600 hover:text-blue-800">
+              Add a channel
+            </button>
+          )}
+          <button type="button" onClick={() => setShowDeliveries(!showDeliveries)} className="text-gray-600 hover:text-gray-800">
+            {showDeliveries ? "Hide deliveries" : "Recent deliveries"}
+          </button>
+        </div>
+      </div>
+
+      {subscriptions.length === 0 && !form && (
+        <p className="text-gray-600">
+          Get new and escalated alerts by email, webhook or Slack instead of keeping the dashboard open.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {subscriptions.map((subscription) => (
+          <div key={subscription._id} className="border rounded-lg p-3 flex flex-wrap justify-between gap-3">
+            <div>
+              <p className="text-gray-900">
+                {CHANNEL_LABELS[subscription.channel]} to {subscription.target}
+                {!subscription.isActive && <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-600 ml-2">paused</span>}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                {subscription.alertTypes.length > 0 ? subscription.alertTypes.map(t => TYPE_LABELS[t]).join(", ") : "All alerts"}
+                {` · ${subscription.minSeverity} severity and up`}
+                {subscription.supplierIds.length > 0 && ` · ${subscription.supplierIds.map(nameOf).join(", ")}`}
+                {subscription.warehouseIds.length > 0 && ` · ${subscription.warehouseIds.map(nameOf).join(", ")}`}
+                {` · ${DIGEST_OPTIONS.find(o => o.minutes === subscription.digestMinutes)?.label ?? `every ${subscription.digestMinutes} minutes`}`}
+              </p>
+              {subscription.signingSecret && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Signing secret: <code className="bg-gray-100 px-1 rounded">{subscription.signingSecret}</code>
+                </p>
+              )}
+            </div>
+            <div className="flex items-start gap-3">
+              <button type="button" onClick={() => handleTest(subscription._id)} className="text-blue-600 hover:text-blue-800">
+                Send test
+              </button>
+              <button
+                type="button"
+                onClick={() => setForm({
+                  subscriptionId: subscription._id,
+                  channel: subscription.channel,
+                  target: subscription.target,
+                  alertTypes: subscription.alertTypes,
+                  minSeverity: subscription.minSeverity,
+                  supplierIds: subscription.supplierIds,
+                  warehouseIds: subscription.warehouseIds,
+                  digestMinutes: subscription.digestMinutes,
+                  isActive: subscription.isActive,
+                })}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                Edit
+              </button>
+              <button type="button" onClick={() => handleDelete(subscription._id)} className="text-red-600 hover:text-red-800">
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {form && (
+        <form onSubmit={handleSave} className="space-y-3 p-3 bg-gray-50 rounded">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <label className="flex flex-col gap-1 text-gray-700">
+              Channel
+              <select
+                value={form.channel}
+                onChange={(e) => setForm({ ...form, channel: e.target.value as Subscription["channel"] })}
+                className="border border-gray-300 rounded px-2 py-1"
+              >
+                {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-gray-700 md:col-span-3">
+              {form.channel === "email" ? "Email address" : "Webhook URL"}
+              <input
+                value={form.target}
+                onChange={(e) => setForm({ ...form, target: e.target.value })}
+                placeholder={form.channel === "email" ? "you@example.com" : form.channel === "slack" ? "https://hooks.slack.com/services/..." : "https://..."}
+                required
+                className="border border-gray-300 rounded px-2 py-1"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-gray-700">
+              Minimum severity
+              <select
+                value={form.minSeverity}
+                onChange={(e) => setForm({ ...form, minSeverity: e.target.value as Subscription["minSeverity"] })}
+                className="border border-gray-300 rounded px-2 py-1"
+              >
+                <option value="low">Low</option>
+                <option value="medium">Medium</option>
+                <option value="high">High</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-gray-700">
+              Send
+              <select
+                value={form.digestMinutes}
+                onChange={(e) => setForm({ ...form, digestMinutes: Number(e.target.value) })}
+                className="border border-gray-300 rounded px-2 py-1"
+              >
+                {DIGEST_OPTIONS.map(({ minutes, label }) => (
+                  <option key={minutes} value={minutes}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-end gap-2 text-gray-700">
+              <input type="checkbox" checked={form.isActive} onChange={(e) => setForm({ ...form, isActive: e.target.checked })} />
+              Active
+            </label>
+          </div>
+
+          <fieldset className="space-y-1">
+            <legend className="text-gray-700">Alert types (none checked means all)</legend>
+            <div className="flex flex-wrap gap-3">
+              {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                <label key={value} className="flex items-center gap-1 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.alertTypes.includes(value as Subscription["alertTypes"][number])}
+                    onChange={() => setForm({ ...form, alertTypes: toggle(form.alertTypes, value as Subscription["alertTypes"][number]) })}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset className="space-y-1">
+            <legend className="text-gray-700">Suppliers (none checked means all)</legend>
+            <div className="flex flex-wrap gap-3">
+              {suppliers.map((supplier) => (
+                <label key={supplier._id} className="flex items-center gap-1 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.supplierIds.includes(supplier._id)}
+                    onChange={() => setForm({ ...form, supplierIds: toggle(form.supplierIds, supplier._id) })}
+                  />
+                  {supplier.name}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset className="space-y-1">
+            <legend className="text-gray-700">Warehouses (none checked means all)</legend>
+            <div className="flex flex-wrap gap-3">
+              {warehouses.map((warehouse) => (
+                <label key={warehouse._id} className="flex items-center gap-1 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.warehouseIds.includes(warehouse._id)}
+                    onChange={() => setForm({ ...form, warehouseIds: toggle(form.warehouseIds, warehouse._id) })}
+                  />
+                  {warehouse.name}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="flex gap-3">
+            <button type="submit" className="bg-blue-600 text-white px-3 py-1 rounded">Save</button>
+            <button type="button" onClick={() => setForm(null)} className="text-gray-600">Cancel</button>
+          </div>
+        </form>
+      )}
+
+      {showDeliveries && deliveries && (
+        deliveries.length === 0 ? (
+          <p className="text-gray-600">Nothing delivered yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {deliveries.map((delivery) => (
+              <li key={delivery._id} className="text-gray-700">
+                <span className={`text-xs px-2 py-1 rounded-full mr-2 ${STATUS_STYLES[delivery.status]}`}>{delivery.status}</span>
+                <span className="text-gray-500">{new Date(delivery.sentAt ?? delivery.createdAt).toLocaleString()}</span>{" "}
+                {delivery.trigger === "test" ? "Test notification" : delivery.alertTitle ?? "Deleted alert"}
+                {delivery.trigger === "escalated" && " (escalated)"}
+                {delivery.channel && ` → ${CHANNEL_LABELS[delivery.channel]} ${delivery.target}`}
+                {delivery.lastError && (
+                  <span className="text-red-700">
+                    {" "}· {delivery.lastError}
+                    {delivery.status === "pending" && `, retrying at ${new Date(delivery.dueAt).toLocaleTimeString()}`}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
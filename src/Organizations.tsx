@@ -0,0 +1,219 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Doc, Id } from "../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { useState, ReactNode } from "react";
+
+type Role = Doc<"memberships">["role"];
+export type Membership = NonNullable<ReturnType<typeof useMyOrganizations>>[number];
+
+const ROLES: Role[] = ["viewer", "planner", "buyer", "admin"];
+
+function useMyOrganizations() {
+  return useQuery(api.organizations.getMyOrganizations);
+}
+
+function run(mutation: Promise<unknown>, success?: string) {
+  mutation.then(() => success && toast.success(success)).catch((error) => {
+    toast.error(error instanceof Error ? error.message : "Something went wrong");
+  });
+}
+
+// Renders its children with the user's current organization, or asks them
+// to create or join one first
+export function OrganizationGate({ children }: { children: (current: Membership) => ReactNode }) {
+  const organizations = useMyOrganizations();
+
+  if (organizations === undefined) {
+    return (
+      <div className="flex justify-center items-center min-h-96">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const current = organizations.find(org => org.isCurrent);
+  if (!current) {
+    return <OrganizationOnboarding />;
+  }
+  if (current.isBlocked) {
+    return (
+      <div className="max-w-md mx-auto space-y-4">
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+          {current.name} does not allow anonymous access. Sign in with an account,
+          or switch to another organization.
+        </div>
+        <OrganizationOnboarding />
+      </div>
+    );
+  }
+
+  return <>{children(current)}</>;
+}
+
+function OrganizationOnboarding() {
+  const [name, setName] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
+  const createOrganization = useMutation(api.organizations.createOrganization);
+  const joinOrganization = useMutation(api.organizations.joinOrganization);
+
+  return (
+    <div className="max-w-md mx-auto bg-white rounded-lg shadow-sm border p-6 space-y-6">
+      <form
+        className="space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          run(createOrganization({ name }), `Created ${name}`);
+        }}
+      >
+        <h2 className="text-lg font-semibold">Create an organization</h2>
+        <input
+          className="auth-input-field"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Organization name"
+        />
+        <button className="auth-button" type="submit" disabled={!name.trim()}>
+          Create
+        </button>
+      </form>
+
+      <form
+        className="space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          run(joinOrganization({ inviteCode }), "Joined organization");
+        }}
+      >
+        <h2 className="text-lg font-semibold">Or join one</h2>
+        <input
+          className="auth-input-field"
+          value={inviteCode}
+          onChange={(e) => setInviteCode(e.target.value)}
+          placeholder="Invite code"
+        />
+        <button className="auth-button" type="submit" disabled={!inviteCode.trim()}>
+          Join
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export function OrganizationSwitcher() {
+  const organizations = useMyOrganizations();
+  const switchOrganization = useMutation(api.organizations.switchOrganization);
+
+  if (!organizations || organizations.length === 0) return null;
+
+  const current = organizations.find(org => org.isCurrent);
+  return (
+    <select
+      value={current?.orgId}
+      onChange={(e) => {
+        switchOrganization({ orgId: e.target.value as Id<"organizations"> }).catch(() => {
+          toast.error("Failed to switch organization");
+        });
+      }}
+      className="text-sm border border-gray-200 rounded px-2 py-1 bg-white"
+    >
+      {organizations.map((org) => (
+        <option key={org.orgId} value={org.orgId}>
+          {org.name} ({org.role})
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// Admin-only: organization name, anonymous access, invite code and members
+export function OrganizationSettings({ organization }: { organization: Membership }) {
+  const [name, setName] = useState(organization.name);
+  const members = useQuery(api.organizations.getMembers);
+  const updateSettings = useMutation(api.organizations.updateOrganizationSettings);
+  const regenerateInviteCode = useMutation(api.organizations.regenerateInviteCode);
+  const setMemberRole = useMutation(api.organizations.setMemberRole);
+  const removeMember = useMutation(api.organizations.removeMember);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+      <h2 className="text-xl font-semibold">Organization Settings</h2>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="border border-gray-300 rounded px-3 py-1"
+        />
+        <button
+          type="button"
+          disabled={!name.trim() || name === organization.name}
+          onClick={() => run(updateSettings({ name }), "Organization renamed")}
+          className="text-sm bg-blue-600 text-white px-3 py-1 rounded disabled:opacity-50"
+        >
+          Rename
+        </button>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={organization.allowAnonymous}
+            onChange={(e) => run(updateSettings({ allowAnonymous: e.target.checked }))}
+          />
+          Allow anonymous users
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3 text-sm">
+        <span className="text-gray-600">Invite code:</span>
+        <code className="bg-gray-100 px-2 py-1 rounded">{organization.inviteCode}</code>
+        <button
+          type="button"
+          onClick={() => run(regenerateInviteCode(), "New invite code generated")}
+          className="text-blue-600 hover:text-blue-800"
+        >
+          Regenerate
+        </button>
+      </div>
+
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="py-2 pr-4">Member</th>
+            <th className="py-2 pr-4">Role</th>
+            <th className="py-2 pr-4"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {members?.map((member) => (
+            <tr key={member.membershipId} className="border-b last:border-0">
+              <td className="py-2 pr-4">{member.name}</td>
+              <td className="py-2 pr-4">
+                <select
+                  value={member.role}
+                  onChange={(e) => run(setMemberRole({
+                    membershipId: member.membershipId,
+                    role: e.target.value as Role,
+                  }))}
+                  className="border border-gray-200 rounded px-2 py-1"
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>{role}</option>
+                  ))}
+                </select>
+              </td>
+              <td className="py-2 pr-4 text-right">
+                <button
+                  type="button"
+                  onClick={() => run(removeMember({ membershipId: member.membershipId }), `Removed ${member.name}`)}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+import { useQuery, useMutation, usePaginatedQuery, UsePaginatedQueryReturnType } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Doc, Id } from "../convex/_generated/dataModel";
+import { FunctionReturnType } from "convex/server";
+import { toast } from "sonner";
+import { useState } from "react";
+import { Column, DataTable } from "./DataTable";
+import { Field, NotFound } from "./Details";
+import { ShipmentStatus } from "./Shipments";
+import { SupplierCatalogPanel } from "./SupplierCatalog";
+import { navigate } from "./lib/router";
+
+type ProductForm = {
+  name: string;
+  sku: string;
+  category: string;
+  unitPrice: string;
+  reorderPoint: string;
+  reorderQuantity: string;
+  supplierId: string; // only chosen when adding; later changed in the catalog
+};
+
+const EMPTY_FORM: ProductForm = {
+  name: "",
+  sku: "",
+  category: "",
+  unitPrice: "",
+  reorderPoint: "0",
+  reorderQuantity: "0",
+  supplierId: "",
+};
+
+type ProductRow = UsePaginatedQueryReturnType<typeof api.lists.listProducts>["results"][number];
+
+const PRODUCT_COLUMNS: Column<ProductRow>[] = [
+  { header: "Name", value: product => product.name },
+  { header: "SKU", value: product => product.sku },
+  { header: "Category", value: product => product.category },
+  { header: "Supplier", value: product => product.supplierName },
+  { header: "Unit price", value: product => product.unitPrice, render: product => `$${product.unitPrice.toFixed(2)}`, align: "right" },
+  { header: "Available", value: product => product.availableStock, align: "right" },
+  { header: "Reorder point", value: product => product.reorderPoint, align: "right" },
+  {
+    header: "Status",
+    value: product => product.needsReorder ? "reorder" : "ok",
+    render: product => <StockStatus needsReorder={product.needsReorder} />,
+  },
+];
+
+// Planners and admins add and edit products
+export function ProductsPage({ canEdit }: { canEdit: boolean }) {
+  const [search, setSearch] = useState("");
+  const [category, setCategory] = useState("");
+  const [supplierId, setSupplierId] = useState<Id<"suppliers"> | "">("");
+  const [isAdding, setIsAdding] = useState(false);
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.lists.listProducts,
+    { search: search || undefined, category: category || undefined, supplierId: supplierId || undefined },
+    { initialNumItems: 25 }
+  );
+  const categories = useQuery(api.lists.getProductCategories);
+  const suppliers = useQuery(api.logistics.getSuppliers);
+  const createProduct = useMutation(api.products.createProduct);
+
+  if (!categories || !suppliers) return null;
+
+  const handleCreate = (form: ProductForm) => {
+    createProduct({ ...productArgs(form), supplierId: form.supplierId as Id<"suppliers"> }).then((productId) => {
+      toast.success(`${form.name.trim()} added`);
+      navigate(`/products/${productId}`);
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to add the product");
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-xl font-semibold">Products</h2>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name or SKU"
+            className="border border-gray-300 rounded-lg px-3 py-1"
+          />
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className="border border-gray-300 rounded-lg px-3 py-1"
+          >
+            <option value="">All categories</option>
+            {categories.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <select
+            value={supplierId}
+            onChange={(e) => setSupplierId(e.target.value as Id<"suppliers"> | "")}
+            className="border border-gray-300 rounded-lg px-3 py-1"
+          >
+            <option value="">All preferred suppliers</option>
+            {suppliers.map((supplier) => (
+              <option key={supplier._id} value={supplier._id}>{supplier.name}</option>
+            ))}
+          </select>
+          {canEdit && !isAdding && (
+            <button type="button" onClick={() => setIsAdding(true)} className="text-blue-600 hover:text-blue-800">
+              Add product
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isAdding && (
+        <ProductFormFields
+          initial={EMPTY_FORM}
+          suppliers={suppliers.filter(s => s.status === "active")}
+          submitLabel="Add product"
+          onSubmit={handleCreate}
+          onCancel={() => setIsAdding(false)}
+        />
+      )}
+
+      <DataTable
+        rows={results}
+        columns={PRODUCT_COLUMNS}
+        rowHref={product => `/products/${product._id}`}
+        pagination={{ status, loadMore }}
+        emptyText={search || category || supplierId ? "No products match." : "No products yet."}
+      />
+    </div>
+  );
+}
+
+type ProductDetails = NonNullable<FunctionReturnType<typeof api.products.getProduct>>;
+type StockRow = ProductDetails["stock"]["warehouses"][number];
+
+const STOCK_COLUMNS: Column<StockRow & { _id: string }>[] = [
+  { header: "Warehouse", value: row => row.warehouseName },
+  { header: "On hand", value: row => row.currentStock, align: "right" },
+  { header: "Available", value: row => row.availableStock, align: "right" },
+  { header: "Reorder point", value: row => row.reorderPoint, align: "right" },
+];
+
+const SHIPMENT_COLUMNS: Column<ProductDetails["shipments"][number]>[] = [
+  { header: "Supplier", value: shipment => shipment.supplierName },
+  { header: "Quantity", value: shipment => shipment.quantity, align: "right" },
+  { header: "Ordered", value: shipment => shipment.orderDate, render: shipment => new Date(shipment.orderDate).toLocaleDateString() },
+  {
+    header: "Expected",
+    value: shipment => shipment.actualDeliveryDate ?? shipment.expectedDeliveryDate,
+    render: shipment => new Date(shipment.actualDeliveryDate ?? shipment.expectedDeliveryDate).toLocaleDateString(),
+  },
+  { header: "Status", value: shipment => shipment.status, render: shipment => <ShipmentStatus status={shipment.status} /> },
+];
+
+export function ProductDetail({
+  productId,
+  canEdit,
+  canEditSuppliers,
+}: {
+  productId: string;
+  canEdit: boolean;
+  canEditSuppliers: boolean;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const product = useQuery(api.products.getProduct, { productId });
+  const updateProduct = useMutation(api.products.updateProduct);
+  const deleteProduct = useMutation(api.products.deleteProduct);
+
+  if (product === undefined) return null;
+  if (product === null) return <NotFound what="product" backHref="#/products" backLabel="All products" />;
+
+  const { stock } = product;
+
+  const handleUpdate = (form: ProductForm) => {
+    updateProduct({ productId: product._id, ...productArgs(form) }).then(() => {
+      setIsEditing(false);
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save the product");
+    });
+  };
+
+  const handleDelete = () => {
+    deleteProduct({ productId: product._id }).then(() => {
+      toast.success(`${product.name} deleted`);
+      navigate("/products");
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to delete the product");
+      setIsConfirmingDelete(false);
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4 text-sm">
+        <div className="flex flex-wrap justify-between items-start gap-3">
+          <div>
+            <a href="#/products" className="text-blue-600 hover:text-blue-800">Products</a>
+            <h2 className="text-xl font-semibold mt-1">
+              {product.name}
+              <span className="text-sm font-normal text-gray-500 ml-2">{product.sku}</span>
+            </h2>
+          </div>
+          {canEdit && !isEditing && (
+            <div className="flex gap-3">
+              <button type="button" onClick={() => setIsEditing(true)} className="text-blue-600 hover:text-blue-800">
+                Edit
+              </button>
+              {isConfirmingDelete ? (
+                <span className="flex gap-2">
+                  <button type="button" onClick={handleDelete} className="text-red-600 hover:text-red-800">
+                    Confirm delete
+                  </button>
+                  <button type="button" onClick={() => setIsConfirmingDelete(false)} className="text-gray-600">
+                    Cancel
+                  </button>
+                </span>
+              ) : (
+                <button type="button" onClick={() => setIsConfirmingDelete(true)} className="text-red-600 hover:text-red-800">
+                  Delete
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {isEditing ? (
+          <ProductFormFields
+            initial={toForm(product)}
+            submitLabel="Save"
+            onSubmit={handleUpdate}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Field label="Category" value={product.category} />
+            <Field
+              label="Preferred supplier"
+              value={<a href={`#/suppliers/${product.supplierId}`} className="text-blue-600">{product.supplierName}</a>}
+            />
+            <Field label="Unit price" value={`$${product.unitPrice.toFixed(2)}`} />
+            <Field label="Reorder point" value={product.reorderPoint} />
+            <Field label="Reorder quantity" value={product.reorderQuantity} />
+            <Field label="On hand" value={stock.currentStock} />
+            <Field label="Available" value={stock.availableStock} />
+            <Field label="Between warehouses" value={stock.inTransitStock} />
+          </dl>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold">Stock by Warehouse</h3>
+          <StockStatus needsReorder={stock.needsReorder} />
+        </div>
+        <DataTable
+          rows={stock.warehouses.map(row => ({ ...row, _id: row.inventoryId }))}
+          columns={STOCK_COLUMNS}
+          emptyText="Not stocked in any warehouse."
+        />
+      </div>
+
+      <SupplierCatalogPanel canEdit={canEditSuppliers} fixedProductId={product._id} />
+
+      <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+        <h3 className="text-lg font-semibold">Latest Shipments</h3>
+        <DataTable
+          rows={product.shipments}
+          columns={SHIPMENT_COLUMNS}
+          rowHref={shipment => `/shipments/${shipment._id}`}
+          initialSort={{ column: 2, descending: true }}
+          emptyText="No shipments of this product yet."
+        />
+      </div>
+    </div>
+  );
+}
+
+function ProductFormFields({
+  initial,
+  suppliers,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initial: ProductForm;
+  suppliers?: Doc<"suppliers">[]; // asked for only when adding
+  submitLabel: string;
+  onSubmit: (form: ProductForm) => void;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState(initial);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(form);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 p-3 bg-gray-50 rounded text-sm">
+      <label className="flex flex-col gap-1 text-gray-700">
+        Name
+        <input
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          required
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        SKU
+        <input
+          value={form.sku}
+          onChange={(e) => setForm({ ...form, sku: e.target.value })}
+          required
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Category
+        <input
+          value={form.category}
+          onChange={(e) => setForm({ ...form, category: e.target.value })}
+          required
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Unit price ($)
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={form.unitPrice}
+          onChange={(e) => setForm({ ...form, unitPrice: e.target.value })}
+          required
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Reorder point
+        <input
+          type="number"
+          min={0}
+          value={form.reorderPoint}
+          onChange={(e) => setForm({ ...form, reorderPoint: e.target.value })}
+          required
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Reorder quantity
+        <input
+          type="number"
+          min={0}
+          value={form.reorderQuantity}
+          onChange={(e) => setForm({ ...form, reorderQuantity: e.target.value })}
+          required
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      {suppliers && (
+        <label className="flex flex-col gap-1 text-gray-700">
+          Supplier
+          <select
+            value={form.supplierId}
+            onChange={(e) => setForm({ ...form, supplierId: e.target.value })}
+            required
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="">Choose a supplier</option>
+            {suppliers.map((supplier) => (
+              <option key={supplier._id} value={supplier._id}>{supplier.name}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      <div className="flex items-end gap-3">
+        <button type="submit" className="bg-blue-600 text-white px-3 py-1 rounded">{submitLabel}</button>
+        <button type="button" onClick={onCancel} className="text-gray-600">Cancel</button>
+      </div>
+    </form>
+  );
+}
+
+export function StockStatus({ needsReorder }: { needsReorder: boolean }) {
+  return needsReorder ? (
+    <span className="text-xs px-2 py-1 rounded-full bg-red-100 text-red-800">Reorder</span>
+  ) : (
+    <span className="text-xs px-2 py-1 rounded-full bg-green-100 text-green-800">OK</span>
+  );
+}
+
+function toForm(product: Doc<"products">): ProductForm {
+  return {
+    name: product.name,
+    sku: product.sku,
+    category: product.category,
+    unitPrice: String(product.unitPrice),
+    reorderPoint: String(product.reorderPoint),
+    reorderQuantity: String(product.reorderQuantity),
+    supplierId: product.supplierId,
+  };
+}
+
+function productArgs(form: ProductForm) {
+  return {
+    name: form.name,
+    sku: form.sku,
+    category: form.category,
+    unitPrice: Number(form.unitPrice),
+    reorderPoint: Number(form.reorderPoint),
+    reorderQuantity: Number(form.reorderQuantity),
+  };
+}
@@ -0,0 +1,246 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Id } from "../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { useState } from "react";
+
+type SettingsForm = { serviceLevel: string; orderingCost: string; holdingCostRate: string; stockoutCostRate: string; historyDays: string };
+
+// Recommended reorder points and order quantities with their expected
+// annual cost, accepted in bulk by planners
+export function ReorderPolicyPanel({ canEdit }: { canEdit: boolean }) {
+  const [selected, setSelected] = useState<Id<"products">[]>([]);
+  const [settingsForm, setSettingsForm] = useState<SettingsForm | null>(null);
+  const [showChanges, setShowChanges] = useState(false);
+  const data = useQuery(api.reorderPolicy.getReorderRecommendations);
+  const changes = useQuery(api.reorderPolicy.getReorderPolicyChanges, showChanges ? {} : "skip");
+  const acceptRecommendations = useMutation(api.reorderPolicy.acceptReorderRecommendations);
+  const updateSettings = useMutation(api.reorderPolicy.updatePolicySettings);
+
+  if (!data) return null;
+  const { settings, recommendations } = data;
+
+  // Only recommendations that would change something can be accepted
+  const changed = recommendations.filter(r => r.recommendation && (
+    r.recommendation.reorderPoint !== r.currentReorderPoint ||
+    r.recommendation.orderQuantity !== r.currentReorderQuantity
+  ));
+
+  const toggle = (productId: Id<"products">) => {
+    setSelected(selected.includes(productId) ? selected.filter(id => id !== productId) : [...selected, productId]);
+  };
+
+  const handleAccept = () => {
+    acceptRecommendations({ productIds: selected }).then((updated) => {
+      setSelected([]);
+      toast.success(`Updated ${updated} product${updated === 1 ? "" : "s"}`);
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to accept recommendations");
+    });
+  };
+
+  const editSettings = () => {
+    setSettingsForm({
+      serviceLevel: String(settings.serviceLevel * 100),
+      orderingCost: String(settings.orderingCost),
+      holdingCostRate: String(settings.holdingCostRate * 100),
+      stockoutCostRate: String(settings.stockoutCostRate * 100),
+      historyDays: String(settings.historyDays),
+    });
+  };
+
+  const handleSaveSettings = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settingsForm) return;
+    updateSettings({
+      serviceLevel: Number(settingsForm.serviceLevel) / 100,
+      orderingCost: Number(settingsForm.orderingCost),
+      holdingCostRate: Number(settingsForm.holdingCostRate) / 100,
+      stockoutCostRate: Number(settingsForm.stockoutCostRate) / 100,
+      historyDays: Number(settingsForm.historyDays),
+    }).then(() => {
+      setSettingsForm(null);
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save settings");
+    });
+  };
+
+  const settingsFields: { key: keyof SettingsForm; label: string }[] = [
+    { key: "serviceLevel", label: "Service level (%)" },
+    { key: "orderingCost", label: "Cost per order ($)" },
+    { key: "holdingCostRate", label: "Holding cost (% of price per year)" },
+    { key: "stockoutCostRate", label: "Stockout cost (% of price per unit)" },
+    { key: "historyDays", label: "Demand history (days)" },
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4 text-sm">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-xl font-semibold">Reorder Points</h2>
+        <div className="flex items-center gap-3 text-gray-600">
+          <span>
+            {Math.round(settings.serviceLevel * 1000) / 10}% service level · ${settings.orderingCost} per order ·{" "}
+            {Math.round(settings.holdingCostRate * 100)}% holding cost
+          </span>
+          {canEdit && !settingsForm && (
+            <button type="button" onClick={editSettings} className="text-blue-600 hover:text-blue-800">
+              Change
+            </button>
+          )}
+        </div>
+      </div>
+
+      {settingsForm && (
+        <form onSubmit={handleSaveSettings} className="grid grid-cols-1 md:grid-cols-3 gap-3 p-3 bg-gray-50 rounded">
+          {settingsFields.map(({ key, label }) => (
+            <label key={key} className="flex flex-col gap-1 text-gray-700">
+              {label}
+              <input
+                type="number"
+                step="any"
+                value={settingsForm[key]}
+                onChange={(e) => setSettingsForm({ ...settingsForm, [key]: e.target.value })}
+                className="border border-gray-300 rounded px-2 py-1"
+              />
+            </label>
+          ))}
+          <div className="flex items-end gap-3">
+            <button type="submit" className="bg-blue-600 text-white px-3 py-1 rounded">Save</button>
+            <button type="button" onClick={() => setSettingsForm(null)} className="text-gray-600">Cancel</button>
+          </div>
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              {canEdit && <th className="py-2 pr-2"></th>}
+              <th className="py-2 pr-4 font-medium">Product</th>
+              <th className="py-2 pr-4 font-medium text-right">Daily demand</th>
+              <th className="py-2 pr-4 font-medium text-right">Lead time</th>
+              <th className="py-2 pr-4 font-medium text-right">Reorder point</th>
+              <th className="py-2 pr-4 font-medium text-right">Order quantity</th>
+              <th className="py-2 pr-4 font-medium text-right">Safety stock</th>
+              <th className="py-2 pr-4 font-medium text-right">Service level</th>
+              <th className="py-2 pr-4 font-medium text-right">Carrying / yr</th>
+              <th className="py-2 font-medium text-right">Stockouts / yr</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recommendations.map(({ productId, productName, productSku, currentReorderPoint, currentReorderQuantity, recommendation }) => (
+              <tr key={productId} className="border-b last:border-0">
+                {canEdit && (
+                  <td className="py-2 pr-2">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(productId)}
+                      disabled={!changed.some(r => r.productId === productId)}
+                      onChange={() => toggle(productId)}
+                    />
+                  </td>
+                )}
+                <td className="py-2 pr-4">
+                  <span className="text-gray-900">{productName}</span>
+                  <span className="text-xs text-gray-500 ml-2">{productSku}</span>
+                </td>
+                {recommendation ? (
+                  <>
+                    <td className="py-2 pr-4 text-right text-gray-700">
+                      {recommendation.dailyDemand} ± {recommendation.dailyDemandDeviation}
+                    </td>
+                    <td className="py-2 pr-4 text-right text-gray-700">
+                      {recommendation.leadTimeDays} ± {recommendation.leadTimeDeviationDays} d
+                    </td>
+                    <td className="py-2 pr-4 text-right">
+                      <Change from={currentReorderPoint} to={recommendation.reorderPoint} />
+                    </td>
+                    <td className="py-2 pr-4 text-right">
+                      <Change from={currentReorderQuantity} to={recommendation.orderQuantity} />
+                    </td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{recommendation.safetyStock}</td>
+                    <td className="py-2 pr-4 text-right">
+                      <Change
+                        from={recommendation.currentCosts && `${Math.round(recommendation.currentCosts.serviceLevel * 100)}%`}
+                        to={`${Math.round(recommendation.recommendedCosts.serviceLevel * 100)}%`}
+                      />
+                    </td>
+                    <td className="py-2 pr-4 text-right">
+                      <Change
+                        from={recommendation.currentCosts && `$${Math.round(recommendation.currentCosts.holding)}`}
+                        to={`$${Math.round(recommendation.recommendedCosts.holding)}`}
+                      />
+                    </td>
+                    <td className="py-2 text-right" title={`Total with ordering costs: $${Math.round(recommendation.recommendedCosts.total)}`}>
+                      <Change
+                        from={recommendation.currentCosts && `$${Math.round(recommendation.currentCosts.stockout)}`}
+                        to={`$${Math.round(recommendation.recommendedCosts.stockout)}`}
+                      />
+                    </td>
+                  </>
+                ) : (
+                  <td colSpan={8} className="py-2 text-gray-500">
+                    No demand in the last {settings.historyDays} days; keeping {currentReorderPoint} / {currentReorderQuantity}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        {canEdit && (
+          <>
+            <button
+              type="button"
+              onClick={() => setSelected(changed.map(r => r.productId))}
+              disabled={changed.length === 0}
+              className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              Select all changes
+            </button>
+            <button
+              type="button"
+              onClick={handleAccept}
+              disabled={selected.length === 0}
+              className="bg-blue-600 text-white px-3 py-1 rounded disabled:opacity-50"
+            >
+              Accept {selected.length > 0 ? selected.length : ""} recommendation{selected.length === 1 ? "" : "s"}
+            </button>
+          </>
+        )}
+        <button type="button" onClick={() => setShowChanges(!showChanges)} className="text-gray-600 hover:text-gray-800">
+          {showChanges ? "Hide change log" : "Show change log"}
+        </button>
+      </div>
+
+      {showChanges && changes && (
+        changes.length === 0 ? (
+          <p className="text-gray-600">No recommendations accepted yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {changes.map((change) => (
+              <li key={change._id} className="text-gray-700">
+                <span className="text-gray-500">{new Date(change.changedAt).toLocaleString()}</span>{" "}
+                {change.userName} set {change.productName} to reorder point {change.reorderPoint} (was{" "}
+                {change.previousReorderPoint}), quantity {change.reorderQuantity} (was {change.previousReorderQuantity})
+                at {Math.round(change.serviceLevel * 1000) / 10}% service level
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
+
+function Change({ from, to }: { from: string | number | null; to: string | number }) {
+  if (from === null || from === to) return <span className="text-gray-900">{to}</span>;
+  return (
+    <span>
+      <span className="text-gray-400 line-through mr-1">{from}</span>
+      <span className="text-gray-900 font-medium">{to}</span>
+    </span>
+  );
+}
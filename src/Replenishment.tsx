@@ -0,0 +1,191 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Id } from "../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { useState } from "react";
+import { Membership } from "./Organizations";
+
+// Runs the replenishment planner and reviews its suggestions. Planners and
+// buyers can run it and edit quantities; approving the batch into purchase
+// orders is for buyers.
+export function ReplenishmentPanel({ role }: { role: Membership["role"] }) {
+  const [reviewPeriodDays, setReviewPeriodDays] = useState(7);
+  const [safetyDays, setSafetyDays] = useState(7);
+  const [approvedRunId, setApprovedRunId] = useState<Id<"replenishmentRuns"> | null>(null);
+  const run = useQuery(api.replenishment.getReplenishmentRun, approvedRunId ? { runId: approvedRunId } : {});
+  const createRun = useMutation(api.replenishment.createReplenishmentRun);
+  const updateLine = useMutation(api.replenishment.updateReplenishmentLine);
+  const discardRun = useMutation(api.replenishment.discardReplenishmentRun);
+  const approveRun = useMutation(api.replenishment.approveReplenishmentRun);
+
+  const canApprove = role === "buyer" || role === "admin";
+
+  const handleCreate = () => {
+    setApprovedRunId(null);
+    createRun({ reviewPeriodDays, safetyDays }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to run the planner");
+    });
+  };
+
+  const handleQuantity = (lineId: Id<"replenishmentLines">, value: string) => {
+    const quantity = value === "" ? 0 : Number(value);
+    updateLine({ lineId, quantity }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to update quantity");
+    });
+  };
+
+  const handleDiscard = (runId: Id<"replenishmentRuns">) => {
+    discardRun({ runId }).catch(() => {
+      toast.error("Failed to discard the run");
+    });
+  };
+
+  const handleApprove = (runId: Id<"replenishmentRuns">) => {
+    approveRun({ runId }).then((orderIds) => {
+      setApprovedRunId(runId);
+      toast.success(`Created ${orderIds.length} approved purchase order${orderIds.length === 1 ? "" : "s"}`);
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to approve the run");
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4 text-sm">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-xl font-semibold">Replenishment</h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-gray-700">
+            Review period
+            <input
+              type="number"
+              min={1}
+              value={reviewPeriodDays}
+              onChange={(e) => setReviewPeriodDays(Number(e.target.value))}
+              className="w-16 border border-gray-300 rounded px-2 py-1"
+            />
+            days
+          </label>
+          <label className="flex items-center gap-2 text-gray-700">
+            Safety stock
+            <input
+              type="number"
+              min={0}
+              value={safetyDays}
+              onChange={(e) => setSafetyDays(Number(e.target.value))}
+              className="w-16 border border-gray-300 rounded px-2 py-1"
+            />
+            days
+          </label>
+          <button type="button" onClick={handleCreate} className="bg-blue-600 text-white px-3 py-1 rounded">
+            Run planner
+          </button>
+        </div>
+      </div>
+
+      {run === null && (
+        <p className="text-gray-600">
+          The planner suggests order quantities per product and warehouse from recent demand, supplier lead
+          times, safety stock and what is already on order.
+        </p>
+      )}
+
+      {run && (
+        <>
+          <p className="text-gray-600">
+            Run of {new Date(run.createdAt).toLocaleString()}: {run.reviewPeriodDays} day review period,{" "}
+            {run.safetyDays} days of safety stock.
+            {run.status === "approved" && ` Approved into ${run.orderNumbers.join(", ")}.`}
+          </p>
+
+          {run.suppliers.length === 0 && (
+            <p className="text-gray-600">Nothing needs ordering: stock and open orders cover every product.</p>
+          )}
+
+          {run.suppliers.map((supplier) => (
+            <div key={supplier.supplierId} className="border rounded-lg p-3 space-y-2">
+              <div className="flex flex-wrap justify-between gap-2">
+                <h3 className="font-medium text-gray-900">{supplier.supplierName}</h3>
+                <span className="text-gray-600">
+                  {supplier.totalQuantity} units · ${supplier.totalValue.toFixed(2)}
+                  {supplier.minimumOrderQuantity !== null && ` · min ${supplier.minimumOrderQuantity} units`}
+                  {supplier.minimumOrderValue !== null && ` · min $${supplier.minimumOrderValue}`}
+                </span>
+              </div>
+              {supplier.shortfall && <p className="text-red-700">This order {supplier.shortfall}.</p>}
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-2 pr-4 font-medium">Product</th>
+                      <th className="py-2 pr-4 font-medium">Warehouse</th>
+                      <th className="py-2 pr-4 font-medium text-right">Available</th>
+                      <th className="py-2 pr-4 font-medium text-right">Inbound</th>
+                      <th className="py-2 pr-4 font-medium text-right">Daily demand</th>
+                      <th className="py-2 pr-4 font-medium text-right">Lead time</th>
+                      <th className="py-2 pr-4 font-medium text-right">Reorder level</th>
+                      <th className="py-2 pr-4 font-medium text-right">Target</th>
+                      <th className="py-2 pr-4 font-medium text-right">Suggested</th>
+                      <th className="py-2 font-medium text-right">Order</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {supplier.lines.map((line) => (
+                      <tr key={line._id} className="border-b last:border-0">
+                        <td className="py-2 pr-4">
+                          <span className="text-gray-900">{line.productName}</span>
+                          <span className="text-xs text-gray-500 ml-2">{line.productSku}</span>
+                          {line.note && <p className="text-xs text-gray-500">{line.note}</p>}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-700">{line.warehouseName}</td>
+                        <td className="py-2 pr-4 text-right text-gray-700">{line.availableStock}</td>
+                        <td className="py-2 pr-4 text-right text-gray-700">{line.inboundQuantity}</td>
+                        <td className="py-2 pr-4 text-right text-gray-700">{line.dailyDemand}</td>
+                        <td className="py-2 pr-4 text-right text-gray-700">{line.leadTimeDays} d</td>
+                        <td className="py-2 pr-4 text-right text-gray-700">{line.reorderLevel}</td>
+                        <td className="py-2 pr-4 text-right text-gray-700">{line.targetStock}</td>
+                        <td className="py-2 pr-4 text-right text-gray-700">{line.suggestedQuantity}</td>
+                        <td className="py-2 text-right">
+                          {run.status === "open" ? (
+                            <input
+                              type="number"
+                              min={0}
+                              defaultValue={line.quantity}
+                              onBlur={(e) => {
+                                if (Number(e.target.value) !== line.quantity) handleQuantity(line._id, e.target.value);
+                              }}
+                              className="w-20 border border-gray-300 rounded px-2 py-1 text-right"
+                            />
+                          ) : (
+                            <span className="text-gray-900 font-medium">{line.quantity}</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))}
+
+          {run.status === "open" && (
+            <div className="flex gap-3">
+              {canApprove && (
+                <button
+                  type="button"
+                  onClick={() => handleApprove(run._id)}
+                  disabled={run.suppliers.length === 0}
+                  className="bg-blue-600 text-white px-3 py-1 rounded disabled:opacity-50"
+                >
+                  Approve into purchase orders
+                </button>
+              )}
+              <button type="button" onClick={() => handleDiscard(run._id)} className="text-red-600 hover:text-red-800">
+                Discard
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,669 @@
+import { useQuery, useMutation, usePaginatedQuery, UsePaginatedQueryReturnType } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Doc, Id } from "../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { FunctionReturnType } from "convex/server";
+import { useState } from "react";
+import { Column, DataTable } from "./DataTable";
+import { Field, NotFound } from "./Details";
+import { DAY_MS, fromDateInput, toDateInput } from "./lib/dates";
+import { CsvColumn, downloadCsv } from "./lib/spreadsheet";
+import { navigate } from "./lib/router";
+
+const OPEN_STATUSES: Doc<"shipments">["status"][] = ["ordered", "in_transit", "delayed"];
+
+type EditableStatus = "ordered" | "in_transit" | "delayed";
+
+const STATUS_STYLES: Record<Doc<"shipments">["status"], string> = {
+  ordered: "bg-gray-100 text-gray-800",
+  in_transit: "bg-blue-100 text-blue-800",
+  delivered: "bg-green-100 text-green-800",
+  delayed: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-500",
+};
+
+const EVENT_DOTS: Record<Doc<"shipmentEvents">["status"], string> = {
+  info: "bg-gray-400",
+  in_transit: "bg-blue-500",
+  out_for_delivery: "bg-blue-500",
+  delivered: "bg-green-500",
+  exception: "bg-red-500",
+};
+
+type ShipmentRow = UsePaginatedQueryReturnType<typeof api.lists.listShipments>["results"][number];
+
+const SHIPMENT_CSV_COLUMNS: CsvColumn<ShipmentRow>[] = [
+  { header: "Product", value: shipment => shipment.productName },
+  { header: "Supplier", value: shipment => shipment.supplierName },
+  { header: "Quantity", value: shipment => shipment.quantity },
+  { header: "Order date", value: shipment => isoDate(shipment.orderDate) },
+  { header: "Expected delivery", value: shipment => isoDate(shipment.expectedDeliveryDate) },
+  { header: "Delivered", value: shipment => isoDate(shipment.actualDeliveryDate) },
+  { header: "Tracking number", value: shipment => shipment.trackingNumber },
+  { header: "Status", value: shipment => shipment.status },
+  { header: "Delay reason", value: shipment => shipment.delayReason },
+];
+
+const SHIPMENT_COLUMNS: Column<ShipmentRow>[] = [
+  { header: "Product", value: shipment => shipment.productName },
+  { header: "Supplier", value: shipment => shipment.supplierName },
+  { header: "Quantity", value: shipment => shipment.quantity, align: "right" },
+  {
+    header: "Expected",
+    value: shipment => shipment.actualDeliveryDate ?? shipment.expectedDeliveryDate,
+    render: shipment => new Date(shipment.actualDeliveryDate ?? shipment.expectedDeliveryDate).toLocaleDateString(),
+  },
+  { header: "Tracking", value: shipment => shipment.trackingNumber },
+  { header: "Status", value: shipment => shipment.status, render: shipment => <ShipmentStatus status={shipment.status} /> },
+];
+
+// Shipments by expected delivery, newest first. Buyers also enter shipments
+// that didn't come from a purchase order.
+export function ShipmentsPage({ canEdit }: { canEdit: boolean }) {
+  const [status, setStatus] = useState<ShipmentRow["status"] | "">("");
+  const [supplierId, setSupplierId] = useState<Id<"suppliers"> | "">("");
+  const [warehouseId, setWarehouseId] = useState<Id<"warehouses"> | "">("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const { results, status: loadStatus, loadMore } = usePaginatedQuery(
+    api.lists.listShipments,
+    {
+      status: status || undefined,
+      supplierId: supplierId || undefined,
+      warehouseId: warehouseId || undefined,
+      from: from ? fromDateInput(from) : undefined,
+      to: to ? fromDateInput(to) + DAY_MS - 1 : undefined,
+    },
+    { initialNumItems: 25 }
+  );
+  const suppliers = useQuery(api.logistics.getSuppliers);
+  const warehouses = useQuery(api.warehouses.getWarehouses, {});
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-xl font-semibold">Shipments</h2>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          {results.length > 0 && (
+            <button
+              type="button"
+              onClick={() => downloadCsv("shipments.csv", SHIPMENT_CSV_COLUMNS, results)}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Export CSV
+            </button>
+          )}
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as ShipmentRow["status"] | "")}
+            className="border border-gray-300 rounded-lg px-3 py-1"
+          >
+            <option value="">All statuses</option>
+            {Object.keys(STATUS_STYLES).map((value) => (
+              <option key={value} value={value}>{value.replace("_", " ")}</option>
+            ))}
+          </select>
+          <select
+            value={supplierId}
+            onChange={(e) => setSupplierId(e.target.value as Id<"suppliers"> | "")}
+            className="border border-gray-300 rounded-lg px-3 py-1"
+          >
+            <option value="">All suppliers</option>
+            {suppliers?.map((supplier) => (
+              <option key={supplier._id} value={supplier._id}>{supplier.name}</option>
+            ))}
+          </select>
+          <select
+            value={warehouseId}
+            onChange={(e) => setWarehouseId(e.target.value as Id<"warehouses"> | "")}
+            className="border border-gray-300 rounded-lg px-3 py-1"
+          >
+            <option value="">All warehouses</option>
+            {warehouses?.map((warehouse) => (
+              <option key={warehouse._id} value={warehouse._id}>{warehouse.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-gray-600">
+            Expected
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="border border-gray-300 rounded-lg px-2 py-1"
+            />
+            to
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              className="border border-gray-300 rounded-lg px-2 py-1"
+            />
+          </label>
+          {canEdit && !isAdding && (
+            <button type="button" onClick={() => setIsAdding(true)} className="text-blue-600 hover:text-blue-800">
+              New shipment
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isAdding && <NewShipmentForm onClose={() => setIsAdding(false)} />}
+
+      <DataTable
+        rows={results}
+        columns={SHIPMENT_COLUMNS}
+        rowHref={shipment => `/shipments/${shipment._id}`}
+        pagination={{ status: loadStatus, loadMore }}
+        emptyText={status || supplierId || warehouseId || from || to ? "No shipments match." : "No shipments yet."}
+      />
+    </div>
+  );
+}
+
+function NewShipmentForm({ onClose }: { onClose: () => void }) {
+  const [form, setForm] = useState({
+    productId: "",
+    supplierId: "",
+    quantity: "",
+    orderDate: toDateInput(Date.now()),
+    expectedDeliveryDate: "",
+    trackingNumber: "",
+    warehouseId: "",
+    unitCost: "",
+  });
+  const products = useQuery(api.logistics.getProducts);
+  const warehouses = useQuery(api.warehouses.getWarehouses, {});
+  const sources = useQuery(
+    api.supplierCatalog.getProductSuppliers,
+    form.productId ? { productId: form.productId as Id<"products"> } : "skip"
+  );
+  const createShipment = useMutation(api.purchaseOrders.createShipment);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createShipment({
+      productId: form.productId as Id<"products">,
+      supplierId: form.supplierId as Id<"suppliers">,
+      quantity: Number(form.quantity),
+      orderDate: fromDateInput(form.orderDate),
+      expectedDeliveryDate: fromDateInput(form.expectedDeliveryDate),
+      trackingNumber: form.trackingNumber || undefined,
+      warehouseId: form.warehouseId ? form.warehouseId as Id<"warehouses"> : undefined,
+      unitCost: form.unitCost ? Number(form.unitCost) : undefined,
+    }).then((shipmentId) => {
+      navigate(`/shipments/${shipmentId}`);
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to add the shipment");
+    });
+  };
+
+  // The expected date follows the supplier's lead time until it is changed
+  const chooseSupplier = (supplierId: string) => {
+    const source = sources?.find(s => s.supplierId === supplierId);
+    setForm({
+      ...form,
+      supplierId,
+      expectedDeliveryDate: form.expectedDeliveryDate || !source
+        ? form.expectedDeliveryDate
+        : toDateInput(fromDateInput(form.orderDate) + source.deliveryDays * DAY_MS),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 p-3 bg-gray-50 rounded text-sm">
+      <label className="flex flex-col gap-1 text-gray-700">
+        Product
+        <select
+          value={form.productId}
+          onChange={(e) => setForm({ ...form, productId: e.target.value, supplierId: "" })}
+          required
+          className="border border-gray-300 rounded px-2 py-1"
+        >
+          <option value="">Choose a product</option>
+          {products?.map((product) => (
+            <option key={product._id} value={product._id}>{product.name} ({product.sku})</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Supplier
+        <select
+          value={form.supplierId}
+          onChange={(e) => chooseSupplier(e.target.value)}
+          required
+          disabled={!sources}
+          className="border border-gray-300 rounded px-2 py-1"
+        >
+          <option value="">Choose a supplier</option>
+          {sources?.filter(s => s.supplierStatus === "active").map((source) => (
+            <option key={source.supplierId} value={source.supplierId}>
+              {source.supplierName}{source.isPreferred ? " (preferred)" : ""}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Quantity
+        <input
+          type="number"
+          min={1}
+          value={form.quantity}
+          onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+          required
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Unit cost
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={form.unitCost}
+          onChange={(e) => setForm({ ...form, unitCost: e.target.value })}
+          placeholder="Supplier price"
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Receiving warehouse
+        <select
+          value={form.warehouseId}
+          onChange={(e) => setForm({ ...form, warehouseId: e.target.value })}
+          className="border border-gray-300 rounded px-2 py-1"
+        >
+          <option value="">Default</option>
+          {warehouses?.filter(w => w.isActive).map((warehouse) => (
+            <option key={warehouse._id} value={warehouse._id}>{warehouse.name}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Ordered
+        <input
+          type="date"
+          value={form.orderDate}
+          onChange={(e) => setForm({ ...form, orderDate: e.target.value })}
+          required
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Expected delivery
+        <input
+          type="date"
+          value={form.expectedDeliveryDate}
+          min={form.orderDate}
+          onChange={(e) => setForm({ ...form, expectedDeliveryDate: e.target.value })}
+          required
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Tracking number
+        <input
+          value={form.trackingNumber}
+          onChange={(e) => setForm({ ...form, trackingNumber: e.target.value })}
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <div className="flex items-end gap-3">
+        <button type="submit" className="bg-blue-600 text-white px-3 py-1 rounded">Add shipment</button>
+        <button type="button" onClick={onClose} className="text-gray-600">Cancel</button>
+      </div>
+    </form>
+  );
+}
+
+type ShipmentDetails = NonNullable<FunctionReturnType<typeof api.purchaseOrders.getShipment>>;
+
+export function ShipmentDetail({ shipmentId, canEdit }: { shipmentId: string; canEdit: boolean }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [receivedQuantity, setReceivedQuantity] = useState<string | null>(null);
+  const [invoicedUnitCost, setInvoicedUnitCost] = useState("");
+  const shipment = useQuery(api.purchaseOrders.getShipment, { shipmentId });
+  const markInTransit = useMutation(api.purchaseOrders.markShipmentInTransit);
+  const receiveShipment = useMutation(api.purchaseOrders.receiveShipment);
+  const cancelShipment = useMutation(api.purchaseOrders.cancelShipment);
+
+  if (shipment === undefined) return null;
+  if (shipment === null) return <NotFound what="shipment" backHref="#/shipments" backLabel="All shipments" />;
+
+  const isOpen = OPEN_STATUSES.includes(shipment.status);
+  const run = (action: Promise<unknown>, failure: string) => {
+    action.catch((error) => {
+      toast.error(error instanceof Error ? error.message : failure);
+    });
+  };
+
+  const handleReceive = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (receivedQuantity === null) return;
+    receiveShipment({
+      shipmentId: shipment._id,
+      quantity: Number(receivedQuantity),
+      unitCost: invoicedUnitCost ? Number(invoicedUnitCost) : undefined,
+    }).then(() => {
+      setReceivedQuantity(null);
+      toast.success("Shipment received into stock");
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to receive the shipment");
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4 text-sm">
+        <div className="flex flex-wrap justify-between items-start gap-3">
+          <div>
+            <a href="#/shipments" className="text-blue-600 hover:text-blue-800">Shipments</a>
+            <h2 className="text-xl font-semibold mt-1">
+              {shipment.quantity} × {shipment.productName}
+              <span className="ml-2 align-middle"><ShipmentStatus status={shipment.status} /></span>
+            </h2>
+          </div>
+          {canEdit && isOpen && !isEditing && receivedQuantity === null && (
+            <div className="flex flex-wrap gap-3">
+              <button type="button" onClick={() => setIsEditing(true)} className="text-blue-600 hover:text-blue-800">
+                Edit
+              </button>
+              {shipment.status === "ordered" && (
+                <button
+                  type="button"
+                  onClick={() => run(markInTransit({ shipmentId: shipment._id }), "Failed to update the shipment")}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  Mark in transit
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => {
+                  setReceivedQuantity(String(shipment.quantity));
+                  setInvoicedUnitCost(shipment.unitCost === undefined ? "" : String(shipment.unitCost));
+                }}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                Receive
+              </button>
+              {!shipment.purchaseOrderId && (
+                <button
+                  type="button"
+                  onClick={() => run(cancelShipment({ shipmentId: shipment._id }), "Failed to cancel the shipment")}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  Cancel shipment
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {receivedQuantity !== null && (
+          <form onSubmit={handleReceive} className="flex flex-wrap items-end gap-3 p-3 bg-gray-50 rounded">
+            <label className="flex flex-col gap-1 text-gray-700">
+              Quantity received
+              <input
+                type="number"
+                min={0}
+                max={shipment.quantity}
+                value={receivedQuantity}
+                onChange={(e) => setReceivedQuantity(e.target.value)}
+                required
+                className="border border-gray-300 rounded px-2 py-1"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-gray-700">
+              Invoiced unit cost
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={invoicedUnitCost}
+                onChange={(e) => setInvoicedUnitCost(e.target.value)}
+                className="border border-gray-300 rounded px-2 py-1"
+              />
+            </label>
+            <button type="submit" className="bg-blue-600 text-white px-3 py-1 rounded">Receive into stock</button>
+            <button type="button" onClick={() => setReceivedQuantity(null)} className="text-gray-600">Cancel</button>
+          </form>
+        )}
+
+        {isEditing ? (
+          <EditShipmentForm shipment={shipment} onClose={() => setIsEditing(false)} />
+        ) : (
+          <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Field label="Product" value={<a href={`#/products/${shipment.productId}`} className="text-blue-600">{shipment.productName} ({shipment.productSku})</a>} />
+            <Field label="Supplier" value={<a href={`#/suppliers/${shipment.supplierId}`} className="text-blue-600">{shipment.supplierName}</a>} />
+            <Field label="Purchase order" value={shipment.orderNumber ?? "—"} />
+            <Field label="Receiving warehouse" value={shipment.warehouseName ?? "Default"} />
+            <Field label="Ordered" value={new Date(shipment.orderDate).toLocaleDateString()} />
+            <Field label="Expected delivery" value={new Date(shipment.expectedDeliveryDate).toLocaleDateString()} />
+            <Field
+              label="Delivered"
+              value={shipment.actualDeliveryDate
+                ? `${new Date(shipment.actualDeliveryDate).toLocaleDateString()}${shipment.receivedQuantity !== undefined ? ` (${shipment.receivedQuantity} received)` : ""}`
+                : "—"}
+            />
+            <Field label="Tracking number" value={shipment.trackingNumber ?? "—"} />
+            <Field label="Unit cost" value={shipment.unitCost === undefined ? "—" : `$${shipment.unitCost.toFixed(2)}`} />
+          </dl>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border p-6 space-y-3">
+        <h3 className="text-lg font-semibold">Tracking</h3>
+        <ShipmentTimeline shipment={shipment} />
+      </div>
+    </div>
+  );
+}
+
+function EditShipmentForm({ shipment, onClose }: { shipment: ShipmentDetails; onClose: () => void }) {
+  const [form, setForm] = useState({
+    quantity: String(shipment.quantity),
+    expectedDeliveryDate: toDateInput(shipment.expectedDeliveryDate),
+    status: shipment.status as EditableStatus,
+    delayReason: shipment.delayReason ?? "",
+    trackingNumber: shipment.trackingNumber ?? "",
+    warehouseId: shipment.warehouseId ?? "",
+    unitCost: shipment.unitCost === undefined ? "" : String(shipment.unitCost),
+  });
+  const warehouses = useQuery(api.warehouses.getWarehouses, {});
+  const updateShipment = useMutation(api.purchaseOrders.updateShipment);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateShipment({
+      shipmentId: shipment._id,
+      quantity: Number(form.quantity),
+      expectedDeliveryDate: fromDateInput(form.expectedDeliveryDate),
+      status: form.status,
+      delayReason: form.status === "delayed" ? form.delayReason : null,
+      trackingNumber: form.trackingNumber || null,
+      warehouseId: form.warehouseId ? form.warehouseId as Id<"warehouses"> : null,
+      unitCost: form.unitCost ? Number(form.unitCost) : undefined,
+    }).then(onClose).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save the shipment");
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 p-3 bg-gray-50 rounded">
+      <label className="flex flex-col gap-1 text-gray-700">
+        Quantity
+        <input
+          type="number"
+          min={1}
+          value={form.quantity}
+          onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+          required
+          disabled={shipment.purchaseOrderLineId !== undefined}
+          title={shipment.purchaseOrderLineId !== undefined ? "Split the shipment to change the quantity of an order" : undefined}
+          className="border border-gray-300 rounded px-2 py-1 disabled:bg-gray-100"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Unit cost
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={form.unitCost}
+          onChange={(e) => setForm({ ...form, unitCost: e.target.value })}
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Expected delivery
+        <input
+          type="date"
+          value={form.expectedDeliveryDate}
+          min={toDateInput(shipment.orderDate)}
+          onChange={(e) => setForm({ ...form, expectedDeliveryDate: e.target.value })}
+          required
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Status
+        <select
+          value={form.status}
+          onChange={(e) => setForm({ ...form, status: e.target.value as EditableStatus })}
+          className="border border-gray-300 rounded px-2 py-1"
+        >
+          <option value="ordered">ordered</option>
+          <option value="in_transit">in transit</option>
+          <option value="delayed">delayed</option>
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Receiving warehouse
+        <select
+          value={form.warehouseId}
+          onChange={(e) => setForm({ ...form, warehouseId: e.target.value })}
+          className="border border-gray-300 rounded px-2 py-1"
+        >
+          <option value="">Default</option>
+          {warehouses?.filter(w => w.isActive || w._id === shipment.warehouseId).map((warehouse) => (
+            <option key={warehouse._id} value={warehouse._id}>{warehouse.name}</option>
+          ))}
+        </select>
+      </label>
+      {form.status === "delayed" && (
+        <label className="flex flex-col gap-1 text-gray-700 md:col-span-2">
+          Delay reason
+          <input
+            value={form.delayReason}
+            onChange={(e) => setForm({ ...form, delayReason: e.target.value })}
+            required
+            className="border border-gray-300 rounded px-2 py-1"
+          />
+        </label>
+      )}
+      <label className="flex flex-col gap-1 text-gray-700">
+        Tracking number
+        <input
+          value={form.trackingNumber}
+          onChange={(e) => setForm({ ...form, trackingNumber: e.target.value })}
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <div className="flex items-end gap-3">
+        <button type="submit" className="bg-blue-600 text-white px-3 py-1 rounded">Save</button>
+        <button type="button" onClick={onClose} className="text-gray-600">Cancel</button>
+      </div>
+    </form>
+  );
+}
+
+export function ShipmentStatus({ status }: { status: Doc<"shipments">["status"] }) {
+  return (
+    <span className={`text-xs px-2 py-1 rounded-full ${STATUS_STYLES[status]}`}>
+      {status.replace("_", " ")}
+    </span>
+  );
+}
+
+function ShipmentTimeline({ shipment }: { shipment: Doc<"shipments"> }) {
+  const events = useQuery(api.carrierTracking.getShipmentEvents, { shipmentId: shipment._id });
+
+  if (events === undefined) return <p className="text-sm text-gray-500">Loading...</p>;
+
+  return (
+    <div className="space-y-1 text-sm">
+      {shipment.delayReason && (
+        <p className="text-red-700 mb-2">Delay reason: {shipment.delayReason}</p>
+      )}
+      {events.length === 0 && (
+        <p className="text-gray-500">
+          {shipment.trackingNumber
+            ? "No tracking events received from the carrier yet."
+            : "No tracking number on this shipment."}
+        </p>
+      )}
+      <ol className="border-l border-gray-300 ml-1">
+        {events.slice().reverse().map((event) => (
+          <li key={event._id} className="relative pl-4 pb-2">
+            <span className={`absolute -left-[5px] top-1.5 h-2 w-2 rounded-full ${EVENT_DOTS[event.status]}`} />
+            <p className="text-gray-900">{event.description}</p>
+            <p className="text-xs text-gray-500">
+              {new Date(event.occurredAt).toLocaleString()}
+              {event.location && ` · ${event.location}`}
+              {event.carrier && ` · ${event.carrier}`}
+            </p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+// Admin-only: where carriers send tracking updates and the secret they sign with
+export function CarrierWebhookSettings() {
+  const webhook = useQuery(api.carrierTracking.getCarrierWebhook);
+  const regenerateSecret = useMutation(api.carrierTracking.regenerateCarrierWebhookSecret);
+
+  if (!webhook) return null;
+
+  const siteUrl = (import.meta.env.VITE_CONVEX_URL as string).replace(/\.cloud$/, ".site");
+  const handleRegenerate = () => {
+    regenerateSecret().then(() => {
+      toast.success(webhook.secret ? "Webhook secret rotated" : "Carrier webhook enabled");
+    }).catch(() => {
+      toast.error("Failed to update webhook secret");
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 space-y-3 text-sm">
+      <h2 className="text-xl font-semibold">Carrier Tracking Webhook</h2>
+      {webhook.secret ? (
+        <>
+          <p className="text-gray-600">
+            Carriers POST tracking events to this URL, signed with an HMAC-SHA256 of the body
+            in the <code>X-Signature</code> header.
+          </p>
+          <code className="block break-all bg-gray-100 px-2 py-1 rounded">
+            {siteUrl}/webhooks/carrier-tracking/{webhook.orgId}
+          </code>
+          <div className="flex items-center gap-3">
+            <span className="text-gray-600">Secret:</span>
+            <code className="break-all bg-gray-100 px-2 py-1 rounded">{webhook.secret}</code>
+          </div>
+        </>
+      ) : (
+        <p className="text-gray-600">The webhook is off. Enabling it creates a signing secret.</p>
+      )}
+      <button type="button" onClick={handleRegenerate} className="text-blue-600 hover:text-blue-800">
+        {webhook.secret ? "Rotate secret" : "Enable webhook"}
+      </button>
+    </div>
+  );
+}
+
+function isoDate(timestamp: number | undefined) {
+  return timestamp === undefined ? undefined : new Date(timestamp).toISOString().slice(0, 10);
+}
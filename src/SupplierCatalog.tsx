@@ -0,0 +1,262 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Id } from "../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { useState } from "react";
+
+type SourceForm = {
+  supplierId: string;
+  supplierSku: string;
+  unitPrice: string;
+  priceBreaks: string; // "500: 84.50, 1000: 80"
+  minimumOrderQuantity: string;
+  leadTimeDays: string;
+};
+
+const EMPTY_FORM: SourceForm = {
+  supplierId: "",
+  supplierSku: "",
+  unitPrice: "",
+  priceBreaks: "",
+  minimumOrderQuantity: "",
+  leadTimeDays: "",
+};
+
+// The suppliers each product can be bought from and their terms. Buyers
+// add alternates and choose the preferred supplier. On a product's page the
+// product is fixed.
+export function SupplierCatalogPanel({ canEdit, fixedProductId }: { canEdit: boolean; fixedProductId?: Id<"products"> }) {
+  const [selectedProductId, setProductId] = useState<Id<"products"> | "">("");
+  const productId = fixedProductId ?? selectedProductId;
+  const [form, setForm] = useState<SourceForm | null>(null);
+  const products = useQuery(api.logistics.getProducts);
+  const suppliers = useQuery(api.logistics.getSuppliers);
+  const sources = useQuery(api.supplierCatalog.getProductSuppliers, productId ? { productId } : "skip");
+  const upsertSource = useMutation(api.supplierCatalog.upsertSupplierProduct);
+  const removeSource = useMutation(api.supplierCatalog.removeSupplierProduct);
+  const setPreferred = useMutation(api.supplierCatalog.setPreferredSupplier);
+
+  if (!products || !suppliers) return null;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form || !productId) return;
+    const priceBreaks = parsePriceBreaks(form.priceBreaks);
+    if (!priceBreaks) {
+      toast.error("Write price breaks as quantity: price, separated by commas");
+      return;
+    }
+    upsertSource({
+      productId,
+      supplierId: form.supplierId as Id<"suppliers">,
+      supplierSku: form.supplierSku,
+      unitPrice: Number(form.unitPrice),
+      priceBreaks,
+      minimumOrderQuantity: form.minimumOrderQuantity ? Number(form.minimumOrderQuantity) : undefined,
+      leadTimeDays: form.leadTimeDays ? Number(form.leadTimeDays) : undefined,
+    }).then(() => {
+      setForm(null);
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save supplier terms");
+    });
+  };
+
+  const handlePreferred = (supplierId: Id<"suppliers">) => {
+    if (!productId) return;
+    setPreferred({ productId, supplierId }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to change the preferred supplier");
+    });
+  };
+
+  const handleRemove = (supplierProductId: Id<"supplierProducts">) => {
+    removeSource({ supplierProductId }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to remove the supplier");
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4 text-sm">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-xl font-semibold">{fixedProductId ? "Suppliers" : "Product Suppliers"}</h2>
+        {!fixedProductId && (
+          <select
+            value={productId}
+            onChange={(e) => {
+              setProductId(e.target.value as Id<"products"> | "");
+              setForm(null);
+            }}
+            className="border border-gray-300 rounded-lg px-3 py-1"
+          >
+            <option value="">Choose a product</option>
+            {products.map((product) => (
+              <option key={product._id} value={product._id}>{product.name} ({product.sku})</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {productId && sources && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4 font-medium">Supplier</th>
+                  <th className="py-2 pr-4 font-medium">Supplier SKU</th>
+                  <th className="py-2 pr-4 font-medium text-right">Unit price</th>
+                  <th className="py-2 pr-4 font-medium">Price breaks</th>
+                  <th className="py-2 pr-4 font-medium text-right">Min order</th>
+                  <th className="py-2 pr-4 font-medium text-right">Lead time</th>
+                  <th className="py-2 pr-4 font-medium text-right">Reliability</th>
+                  {canEdit && <th className="py-2 font-medium"></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {sources.map((source) => (
+                  <tr key={source.supplierId} className="border-b last:border-0">
+                    <td className="py-2 pr-4">
+                      <span className="text-gray-900">{source.supplierName}</span>
+                      {source.isPreferred && (
+                        <span className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-800 ml-2">preferred</span>
+                      )}
+                      {source.supplierStatus !== "active" && (
+                        <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-600 ml-2">inactive</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-700">{source.supplierSku || "—"}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">${source.unitPrice.toFixed(2)}</td>
+                    <td className="py-2 pr-4 text-gray-700">
+                      {source.priceBreaks.length > 0
+                        ? source.priceBreaks.map(b => `${b.minQuantity}+: $${b.unitPrice.toFixed(2)}`).join(", ")
+                        : "—"}
+                    </td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{source.minimumOrderQuantity ?? "—"}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{source.deliveryDays} d</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{source.reliabilityScore}%</td>
+                    {canEdit && (
+                      <td className="py-2 text-right whitespace-nowrap space-x-3">
+                        <button
+                          type="button"
+                          onClick={() => setForm({
+                            supplierId: source.supplierId,
+                            supplierSku: source.supplierSku ?? "",
+                            unitPrice: String(source.unitPrice),
+                            priceBreaks: source.priceBreaks.map(b => `${b.minQuantity}: ${b.unitPrice}`).join(", "),
+                            minimumOrderQuantity: source.minimumOrderQuantity !== undefined ? String(source.minimumOrderQuantity) : "",
+                            leadTimeDays: source.leadTimeDays !== undefined ? String(source.leadTimeDays) : "",
+                          })}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Edit
+                        </button>
+                        {!source.isPreferred && source.supplierStatus === "active" && (
+                          <button type="button" onClick={() => handlePreferred(source.supplierId)} className="text-blue-600 hover:text-blue-800">
+                            Make preferred
+                          </button>
+                        )}
+                        {!source.isPreferred && source._id && (
+                          <button type="button" onClick={() => handleRemove(source._id!)} className="text-red-600 hover:text-red-800">
+                            Remove
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {canEdit && !form && (
+            <button type="button" onClick={() => setForm(EMPTY_FORM)} className="text-blue-600 hover:text-blue-800">
+              Add a supplier
+            </button>
+          )}
+
+          {form && (
+            <form onSubmit={handleSave} className="grid grid-cols-1 md:grid-cols-3 gap-3 p-3 bg-gray-50 rounded">
+              <label className="flex flex-col gap-1 text-gray-700">
+                Supplier
+                <select
+                  value={form.supplierId}
+                  onChange={(e) => setForm({ ...form, supplierId: e.target.value })}
+                  required
+                  className="border border-gray-300 rounded px-2 py-1"
+                >
+                  <option value="">Choose a supplier</option>
+                  {suppliers.map((supplier) => (
+                    <option key={supplier._id} value={supplier._id}>{supplier.name}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-gray-700">
+                Supplier SKU
+                <input
+                  value={form.supplierSku}
+                  onChange={(e) => setForm({ ...form, supplierSku: e.target.value })}
+                  className="border border-gray-300 rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-gray-700">
+                Unit price ($)
+                <input
+                  type="number"
+                  step="any"
+                  min={0}
+                  value={form.unitPrice}
+                  onChange={(e) => setForm({ ...form, unitPrice: e.target.value })}
+                  required
+                  className="border border-gray-300 rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-gray-700">
+                Price breaks (quantity: price)
+                <input
+                  value={form.priceBreaks}
+                  onChange={(e) => setForm({ ...form, priceBreaks: e.target.value })}
+                  placeholder="500: 84.50, 1000: 80"
+                  className="border border-gray-300 rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-gray-700">
+                Minimum order quantity
+                <input
+                  type="number"
+                  min={1}
+                  value={form.minimumOrderQuantity}
+                  onChange={(e) => setForm({ ...form, minimumOrderQuantity: e.target.value })}
+                  className="border border-gray-300 rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-gray-700">
+                Lead time (days)
+                <input
+                  type="number"
+                  min={0}
+                  value={form.leadTimeDays}
+                  onChange={(e) => setForm({ ...form, leadTimeDays: e.target.value })}
+                  placeholder="Supplier average"
+                  className="border border-gray-300 rounded px-2 py-1"
+                />
+              </label>
+              <div className="flex items-end gap-3">
+                <button type="submit" className="bg-blue-600 text-white px-3 py-1 rounded">Save</button>
+                <button type="button" onClick={() => setForm(null)} className="text-gray-600">Cancel</button>
+              </div>
+            </form>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// "500: 84.50, 1000: 80" into price breaks, or null if it can't be read
+function parsePriceBreaks(text: string) {
+  const parts = text.split(",").map(part => part.trim()).filter(Boolean);
+  const breaks = parts.map(part => {
+    const [quantity, price] = part.split(":").map(value => Number(value.trim().replace(/^\$/, "")));
+    return { minQuantity: quantity, unitPrice: price };
+  });
+  return breaks.every(b => Number.isFinite(b.minQuantity) && Number.isFinite(b.unitPrice)) ? breaks : null;
+}
@@ -0,0 +1,445 @@
+import { useQuery, useMutation, usePaginatedQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Doc } from "../convex/_generated/dataModel";
+import { FunctionReturnType } from "convex/server";
+import { toast } from "sonner";
+import { useState } from "react";
+import { Column, DataTable } from "./DataTable";
+import { Field, NotFound } from "./Details";
+import { ShipmentStatus } from "./Shipments";
+import { navigate } from "./lib/router";
+
+type Supplier = Doc<"suppliers">;
+
+type SupplierForm = {
+  name: string;
+  location: string;
+  contactEmail: string;
+  averageDeliveryDays: string;
+  reliabilityScore: string;
+  status: Supplier["status"];
+  minimumOrderQuantity: string;
+  minimumOrderValue: string;
+};
+
+const EMPTY_FORM: SupplierForm = {
+  name: "",
+  location: "",
+  contactEmail: "",
+  averageDeliveryDays: "7",
+  reliabilityScore: "",
+  status: "active",
+  minimumOrderQuantity: "",
+  minimumOrderValue: "",
+};
+
+const SUPPLIER_COLUMNS: Column<Supplier>[] = [
+  { header: "Name", value: supplier => supplier.name },
+  { header: "Location", value: supplier => supplier.location },
+  { header: "Contact", value: supplier => supplier.contactEmail },
+  { header: "Reliability", value: supplier => supplier.reliabilityScore, render: supplier => `${supplier.reliabilityScore}%`, align: "right" },
+  { header: "Avg delivery", value: supplier => supplier.averageDeliveryDays, render: supplier => `${supplier.averageDeliveryDays} d`, align: "right" },
+  { header: "Status", value: supplier => supplier.status, render: supplier => <SupplierStatus status={supplier.status} /> },
+];
+
+export function SuppliersPage({ canEdit }: { canEdit: boolean }) {
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<Supplier["status"] | "">("");
+  const [isAdding, setIsAdding] = useState(false);
+  const { results, status: loadStatus, loadMore } = usePaginatedQuery(
+    api.lists.listSuppliers,
+    { search: search || undefined, status: status || undefined },
+    { initialNumItems: 25 }
+  );
+  const createSupplier = useMutation(api.suppliers.createSupplier);
+
+  const handleCreate = (form: SupplierForm) => {
+    createSupplier(supplierArgs(form)).then((supplierId) => {
+      toast.success(`${form.name.trim()} added`);
+      navigate(`/suppliers/${supplierId}`);
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to add the supplier");
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-xl font-semibold">Suppliers</h2>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name"
+            className="border border-gray-300 rounded-lg px-3 py-1"
+          />
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as Supplier["status"] | "")}
+            className="border border-gray-300 rounded-lg px-3 py-1"
+          >
+            <option value="">All statuses</option>
+            <option value="active">Active</option>
+            <option value="inactive">Inactive</option>
+          </select>
+          {canEdit && !isAdding && (
+            <button type="button" onClick={() => setIsAdding(true)} className="text-blue-600 hover:text-blue-800">
+              Add supplier
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isAdding && (
+        <SupplierFormFields
+          initial={EMPTY_FORM}
+          canSetReliability
+          submitLabel="Add supplier"
+          onSubmit={handleCreate}
+          onCancel={() => setIsAdding(false)}
+        />
+      )}
+
+      <DataTable
+        rows={results}
+        columns={SUPPLIER_COLUMNS}
+        rowHref={supplier => `/suppliers/${supplier._id}`}
+        pagination={{ status: loadStatus, loadMore }}
+        emptyText={search || status ? "No suppliers match." : "No suppliers yet."}
+      />
+    </div>
+  );
+}
+
+type SupplierDetails = NonNullable<FunctionReturnType<typeof api.suppliers.getSupplier>>;
+
+const PRODUCT_COLUMNS: Column<SupplierDetails["products"][number] & { _id: string }>[] = [
+  { header: "Product", value: product => product.productName },
+  { header: "SKU", value: product => product.productSku },
+  { header: "Unit price", value: product => product.unitPrice, render: product => `$${product.unitPrice.toFixed(2)}`, align: "right" },
+  { header: "Lead time", value: product => product.leadTimeDays, render: product => `${product.leadTimeDays} d`, align: "right" },
+  { header: "Preferred", value: product => product.isPreferred ? "yes" : "no" },
+];
+
+const SHIPMENT_COLUMNS: Column<SupplierDetails["shipments"][number]>[] = [
+  { header: "Product", value: shipment => shipment.productName },
+  { header: "Quantity", value: shipment => shipment.quantity, align: "right" },
+  { header: "Ordered", value: shipment => shipment.orderDate, render: shipment => new Date(shipment.orderDate).toLocaleDateString() },
+  {
+    header: "Expected",
+    value: shipment => shipment.actualDeliveryDate ?? shipment.expectedDeliveryDate,
+    render: shipment => new Date(shipment.actualDeliveryDate ?? shipment.expectedDeliveryDate).toLocaleDateString(),
+  },
+  { header: "Status", value: shipment => shipment.status, render: shipment => <ShipmentStatus status={shipment.status} /> },
+];
+
+export function SupplierDetail({ supplierId, canEdit }: { supplierId: string; canEdit: boolean }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const supplier = useQuery(api.suppliers.getSupplier, { supplierId });
+  const updateSupplier = useMutation(api.suppliers.updateSupplier);
+  const deleteSupplier = useMutation(api.suppliers.deleteSupplier);
+
+  if (supplier === undefined) return null;
+  if (supplier === null) return <NotFound what="supplier" backHref="#/suppliers" backLabel="All suppliers" />;
+
+  const handleUpdate = (form: SupplierForm) => {
+    updateSupplier({ supplierId: supplier._id, ...supplierArgs(form) }).then(() => {
+      setIsEditing(false);
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save the supplier");
+    });
+  };
+
+  const handleDelete = () => {
+    deleteSupplier({ supplierId: supplier._id }).then(() => {
+      toast.success(`${supplier.name} deleted`);
+      navigate("/suppliers");
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to delete the supplier");
+      setIsConfirmingDelete(false);
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4 text-sm">
+        <div className="flex flex-wrap justify-between items-start gap-3">
+          <div>
+            <a href="#/suppliers" className="text-blue-600 hover:text-blue-800">Suppliers</a>
+            <h2 className="text-xl font-semibold mt-1">
+              {supplier.name}
+              <span className="ml-2 align-middle"><SupplierStatus status={supplier.status} /></span>
+            </h2>
+          </div>
+          {canEdit && !isEditing && (
+            <div className="flex gap-3">
+              <button type="button" onClick={() => setIsEditing(true)} className="text-blue-600 hover:text-blue-800">
+                Edit
+              </button>
+              {isConfirmingDelete ? (
+                <span className="flex gap-2">
+                  <button type="button" onClick={handleDelete} className="text-red-600 hover:text-red-800">
+                    Confirm delete
+                  </button>
+                  <button type="button" onClick={() => setIsConfirmingDelete(false)} className="text-gray-600">
+                    Cancel
+                  </button>
+                </span>
+              ) : (
+                <button type="button" onClick={() => setIsConfirmingDelete(true)} className="text-red-600 hover:text-red-800">
+                  Delete
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {isEditing ? (
+          <SupplierFormFields
+            initial={toForm(supplier)}
+            canSetReliability={supplier.scoreUpdatedAt === undefined}
+            submitLabel="Save"
+            onSubmit={handleUpdate}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Field label="Location" value={supplier.location} />
+            <Field label="Contact" value={<a href={`mailto:${supplier.contactEmail}`} className="text-blue-600">{supplier.contactEmail}</a>} />
+            <Field
+              label="Reliability"
+              value={`${supplier.reliabilityScore}%${supplier.scoreUpdatedAt === undefined ? " (set by hand)" : ""}`}
+            />
+            <Field label="Average delivery" value={`${supplier.averageDeliveryDays} days`} />
+            <Field label="Open shipments" value={supplier.openShipments} />
+            <Field label="Minimum order quantity" value={supplier.minimumOrderQuantity ?? "—"} />
+            <Field
+              label="Minimum order value"
+              value={supplier.minimumOrderValue !== undefined ? `$${supplier.minimumOrderValue.toFixed(2)}` : "—"}
+            />
+          </dl>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+        <h3 className="text-lg font-semibold">Products</h3>
+        <DataTable
+          rows={supplier.products.map(product => ({ ...product, _id: product.productId }))}
+          columns={PRODUCT_COLUMNS}
+          rowHref={product => `/products/${product.productId}`}
+          emptyText="This supplier doesn't supply any products yet."
+        />
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+        <h3 className="text-lg font-semibold">Latest Shipments</h3>
+        <DataTable
+          rows={supplier.shipments}
+          columns={SHIPMENT_COLUMNS}
+          rowHref={shipment => `/shipments/${shipment._id}`}
+          initialSort={{ column: 2, descending: true }}
+          emptyText="No shipments from this supplier yet."
+        />
+      </div>
+
+      <SupplierHistory supplier={supplier} />
+    </div>
+  );
+}
+
+// Score history and past messages to the supplier
+function SupplierHistory({ supplier }: { supplier: SupplierDetails }) {
+  const scores = useQuery(api.supplierScoring.getSupplierScoreHistory, { supplierId: supplier._id });
+  const contacts = useQuery(api.suppliers.getSupplierContacts, { supplierId: supplier._id });
+
+  if (!scores || !contacts || (scores.length === 0 && contacts.length === 0)) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+      <div>
+        <h3 className="text-lg font-semibold mb-3">Reliability, last 90 days</h3>
+        {scores.length === 0 ? (
+          <p className="text-gray-600">Not scored yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {scores.slice().reverse().slice(0, 10).map((score) => (
+              <li key={score._id} className="text-gray-700">
+                <span className="text-gray-500">{new Date(score.computedAt).toLocaleDateString()}</span>{" "}
+                {score.score}% · {Math.round(score.onTimeRate * 100)}% on time over {score.shipmentCount} shipments
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div>
+        <h3 className="text-lg font-semibold mb-3">Messages</h3>
+        {contacts.length === 0 ? (
+          <p className="text-gray-600">No messages sent.</p>
+        ) : (
+          <ul className="space-y-2">
+            {contacts.map((contact) => (
+              <li key={contact._id}>
+                <p className="text-gray-900">{contact.subject}</p>
+                <p className="text-xs text-gray-500">
+                  {contact.userName} · {new Date(contact.createdAt).toLocaleString()}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SupplierFormFields({
+  initial,
+  canSetReliability,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initial: SupplierForm;
+  canSetReliability: boolean;
+  submitLabel: string;
+  onSubmit: (form: SupplierForm) => void;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState(initial);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(form);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 p-3 bg-gray-50 rounded text-sm">
+      <label className="flex flex-col gap-1 text-gray-700">
+        Name
+        <input
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          required
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Location
+        <input
+          value={form.location}
+          onChange={(e) => setForm({ ...form, location: e.target.value })}
+          required
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700 md:col-span-2">
+        Contact email
+        <input
+          type="email"
+          value={form.contactEmail}
+          onChange={(e) => setForm({ ...form, contactEmail: e.target.value })}
+          required
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Average delivery (days)
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={form.averageDeliveryDays}
+          onChange={(e) => setForm({ ...form, averageDeliveryDays: e.target.value })}
+          required
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Reliability score (%)
+        <input
+          type="number"
+          min={0}
+          max={100}
+          step="any"
+          value={form.reliabilityScore}
+          onChange={(e) => setForm({ ...form, reliabilityScore: e.target.value })}
+          disabled={!canSetReliability}
+          placeholder={canSetReliability ? "100 until scored" : undefined}
+          title={canSetReliability ? undefined : "Computed from shipment history"}
+          className="border border-gray-300 rounded px-2 py-1 disabled:bg-gray-100"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Minimum order quantity
+        <input
+          type="number"
+          min={0}
+          value={form.minimumOrderQuantity}
+          onChange={(e) => setForm({ ...form, minimumOrderQuantity: e.target.value })}
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Minimum order value ($)
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={form.minimumOrderValue}
+          onChange={(e) => setForm({ ...form, minimumOrderValue: e.target.value })}
+          className="border border-gray-300 rounded px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-700">
+        Status
+        <select
+          value={form.status}
+          onChange={(e) => setForm({ ...form, status: e.target.value as Supplier["status"] })}
+          className="border border-gray-300 rounded px-2 py-1"
+        >
+          <option value="active">Active</option>
+          <option value="inactive">Inactive</option>
+        </select>
+      </label>
+      <div className="flex items-end gap-3 md:col-span-3">
+        <button type="submit" className="bg-blue-600 text-white px-3 py-1 rounded">{submitLabel}</button>
+        <button type="button" onClick={onCancel} className="text-gray-600">Cancel</button>
+      </div>
+    </form>
+  );
+}
+
+function SupplierStatus({ status }: { status: Supplier["status"] }) {
+  return status === "active" ? (
+    <span className="text-xs px-2 py-1 rounded-full bg-green-100 text-green-800">active</span>
+  ) : (
+    <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-600">inactive</span>
+  );
+}
+
+function toForm(supplier: Supplier): SupplierForm {
+  return {
+    name: supplier.name,
+    location: supplier.location,
+    contactEmail: supplier.contactEmail,
+    averageDeliveryDays: String(supplier.averageDeliveryDays),
+    reliabilityScore: String(supplier.reliabilityScore),
+    status: supplier.status,
+    minimumOrderQuantity: supplier.minimumOrderQuantity !== undefined ? String(supplier.minimumOrderQuantity) : "",
+    minimumOrderValue: supplier.minimumOrderValue !== undefined ? String(supplier.minimumOrderValue) : "",
+  };
+}
+
+function supplierArgs(form: SupplierForm) {
+  return {
+    name: form.name,
+    location: form.location,
+    contactEmail: form.contactEmail,
+    averageDeliveryDays: Number(form.averageDeliveryDays),
+    reliabilityScore: form.reliabilityScore ? Number(form.reliabilityScore) : undefined,
+    status: form.status,
+    minimumOrderQuantity: form.minimumOrderQuantity ? Number(form.minimumOrderQuantity) : null,
+    minimumOrderValue: form.minimumOrderValue ? Number(form.minimumOrderValue) : null,
+  };
+}
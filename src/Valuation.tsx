@@ -0,0 +1,177 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { FunctionReturnType } from "convex/server";
+import { toast } from "sonner";
+import { useState } from "react";
+import { Column, DataTable } from "./DataTable";
+import { DAY_MS, fromDateInput, toDateInput } from "./lib/dates";
+
+// The server refuses longer ranges
+const MAX_RANGE_DAYS = 366;
+
+type GroupBy = "warehouse" | "category" | "supplier";
+type ValuationMethod = FunctionReturnType<typeof api.costing.getValuationSettings>["method"];
+type ValuationRow = FunctionReturnType<typeof api.costing.getInventoryValuation>["rows"][number] & { _id: string };
+type IssuedRow = FunctionReturnType<typeof api.costing.getCostOfGoodsIssued>["products"][number] & { _id: string };
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+  warehouse: "Warehouse",
+  category: "Category",
+  supplier: "Supplier",
+};
+
+const METHOD_LABELS: Record<ValuationMethod, string> = {
+  fifo: "FIFO",
+  weighted_average: "Moving weighted average",
+};
+
+const ISSUED_COLUMNS: Column<IssuedRow>[] = [
+  {
+    header: "Product",
+    value: row => row.productName,
+    render: row => (
+      <>
+        <span className="text-gray-900">{row.productName}</span>
+        <span className="text-xs text-gray-500 ml-2">{row.productSku}</span>
+      </>
+    ),
+  },
+  { header: "Units issued", value: row => row.units, align: "right" },
+  { header: "Average cost", value: row => row.averageUnitCost, render: row => money(row.averageUnitCost), align: "right" },
+  { header: "Cost", value: row => row.cost, render: row => money(row.cost), align: "right" },
+];
+
+// What the stock on hand cost, grouped three ways, and what the stock
+// issued in a range cost
+export function InventoryValuation({ canChangeMethod }: { canChangeMethod: boolean }) {
+  const [groupBy, setGroupBy] = useState<GroupBy>("warehouse");
+  const [from, setFrom] = useState(toDateInput(Date.now() - 29 * DAY_MS));
+  const [to, setTo] = useState(toDateInput(Date.now()));
+  const valuation = useQuery(api.costing.getInventoryValuation, { groupBy });
+  const updateMethod = useMutation(api.costing.updateValuationMethod);
+
+  const start = fromDateInput(from);
+  const end = fromDateInput(to) + DAY_MS - 1;
+  const rangeError = Number.isNaN(start) || Number.isNaN(end)
+    ? "Choose both dates"
+    : end < start
+      ? "The range must end after it starts"
+      : end - start > MAX_RANGE_DAYS * DAY_MS
+        ? `Choose a range of at most ${MAX_RANGE_DAYS} days`
+        : null;
+  const issued = useQuery(api.costing.getCostOfGoodsIssued, rangeError ? "skip" : { from: start, to: end });
+
+  const handleMethodChange = (method: ValuationMethod) => {
+    updateMethod({ method }).then(() => {
+      toast.success(`Stock is now valued by ${METHOD_LABELS[method]}`);
+    }).catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to change the valuation method");
+    });
+  };
+
+  const valuationColumns: Column<ValuationRow>[] = [
+    { header: GROUP_LABELS[groupBy], value: row => row.name },
+    { header: "Products", value: row => row.products, align: "right" },
+    { header: "Units", value: row => row.units, align: "right" },
+    { header: "Value", value: row => row.value, render: row => money(row.value), align: "right" },
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h2 className="text-xl font-semibold">Valuation</h2>
+          <p className="text-sm text-gray-600">
+            {valuation
+              ? `${money(valuation.totalValue)} in ${valuation.totalUnits} units on hand, at cost`
+              : "Loading..."}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          {valuation && (
+            canChangeMethod ? (
+              <select
+                value={valuation.method}
+                onChange={(e) => handleMethodChange(e.target.value as ValuationMethod)}
+                className="border border-gray-300 rounded-lg px-3 py-1"
+              >
+                {(Object.keys(METHOD_LABELS) as ValuationMethod[]).map((method) => (
+                  <option key={method} value={method}>{METHOD_LABELS[method]}</option>
+                ))}
+              </select>
+            ) : (
+              <span className="text-gray-600">{METHOD_LABELS[valuation.method]}</span>
+            )
+          )}
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+            className="border border-gray-300 rounded-lg px-3 py-1"
+          >
+            {(Object.keys(GROUP_LABELS) as GroupBy[]).map((group) => (
+              <option key={group} value={group}>By {GROUP_LABELS[group].toLowerCase()}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {valuation === undefined ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <DataTable
+          key={groupBy}
+          rows={valuation.rows.map(row => ({ ...row, _id: row.key }))}
+          columns={valuationColumns}
+          rowHref={groupBy === "supplier" ? row => `/suppliers/${row.key}` : undefined}
+          initialSort={{ column: 3, descending: true }}
+          emptyText="No stock on hand."
+        />
+      )}
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <div>
+            <h3 className="text-lg font-semibold">Cost of goods issued</h3>
+            <p className="text-sm text-gray-600">
+              {issued && `${money(issued.totalCost)} issued · ${money(issued.writtenOff)} written off by adjustments`}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <input
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-1"
+            />
+            <span className="text-gray-500">to</span>
+            <input
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-1"
+            />
+          </div>
+        </div>
+        {rangeError ? (
+          <p className="text-sm text-red-600">{rangeError}</p>
+        ) : issued === undefined ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : (
+          <DataTable
+            rows={issued.products.map(row => ({ ...row, _id: row.productId }))}
+            columns={ISSUED_COLUMNS}
+            rowHref={row => `/products/${row.productId}`}
+            initialSort={{ column: 3, descending: true }}
+            emptyText="Nothing was issued in this range."
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function money(value: number) {
+  return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
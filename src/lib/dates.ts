@@ -0,0 +1,12 @@
+// Date inputs work in local days: "2024-05-01" is local midnight
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function toDateInput(timestamp: number) {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+export function fromDateInput(value: string) {
+  return new Date(`${value}T00:00`).getTime();
+}
@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+
+// Hash-based routing: pages live at #/suppliers, #/products/<id> and so on,
+// which works on any static host without server rewrites. Links are plain
+// <a href="#/..."> elements.
+
+function currentPath() {
+  return window.location.hash.replace(/^#/, "") || "/";
+}
+
+// The current path split into segments, e.g. ["products", "<id>"]
+export function useRoute() {
+  const [path, setPath] = useState(currentPath);
+
+  useEffect(() => {
+    const onChange = () => {
+      setPath(currentPath());
+      window.scrollTo(0, 0);
+    };
+    window.addEventListener("hashchange", onChange);
+    return () => window.removeEventListener("hashchange", onChange);
+  }, []);
+
+  return path.split("/").filter(Boolean);
+}
+
+export function navigate(path: string) {
+  window.location.hash = path;
+}
@@ -0,0 +1,186 @@
+// Reading CSV and XLSX files in the browser and writing CSV, without a
+// spreadsheet library. A sheet is returned as its header row plus the data
+// rows as objects keyed by header.
+
+export type Sheet = {
+  headers: string[];
+  rows: Record<string, string>[];
+};
+
+export async function readSpreadsheet(file: File): Promise<Sheet> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return toSheet(await readXlsx(await file.arrayBuffer()));
+  }
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error("Old .xls workbooks aren't supported; save the file as .xlsx or .csv");
+  }
+  return toSheet(parseCsv(await file.text()));
+}
+
+// RFC 4180, with the delimiter guessed from the header line so files saved
+// by spreadsheets in locales that use ";" work too
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === "\"" && input[i + 1] === "\"") {
+        cell += "\"";
+        i++;
+      } else if (char === "\"") {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === "\"") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// The first worksheet of an .xlsx workbook as rows of cell text
+export async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const files = await unzip(buffer);
+  const xml = (path: string) => {
+    const content = files.get(path);
+    return content === undefined ? null : new DOMParser().parseFromString(content, "application/xml");
+  };
+
+  const sharedStrings = Array.from(
+    xml("xl/sharedStrings.xml")?.getElementsByTagName("si") ?? [],
+    item => Array.from(item.getElementsByTagName("t"), t => t.textContent ?? "").join(""),
+  );
+
+  // Follow the workbook's relationships to the first sheet; fall back to the
+  // conventional path
+  let sheetPath = "xl/worksheets/sheet1.xml";
+  const firstSheet = xml("xl/workbook.xml")?.getElementsByTagName("sheet")[0];
+  const relationId = firstSheet?.getAttribute("r:id");
+  const relation = Array.from(xml("xl/_rels/workbook.xml.rels")?.getElementsByTagName("Relationship") ?? [])
+    .find(r => r.getAttribute("Id") === relationId);
+  const target = relation?.getAttribute("Target");
+  if (target) sheetPath = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+
+  const sheet = xml(sheetPath);
+  if (!sheet) throw new Error("The workbook has no worksheet");
+
+  const rows: string[][] = [];
+  for (const rowElement of Array.from(sheet.getElementsByTagName("row"))) {
+    const row: string[] = [];
+    for (const cell of Array.from(rowElement.getElementsByTagName("c"))) {
+      const column = columnIndex(cell.getAttribute("r") ?? "") ?? row.length;
+      const type = cell.getAttribute("t");
+      const value = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+      while (row.length < column) row.push("");
+      if (type === "s") {
+        row[column] = sharedStrings[Number(value)] ?? "";
+      } else if (type === "inlineStr") {
+        row[column] = Array.from(cell.getElementsByTagName("t"), t => t.textContent ?? "").join("");
+      } else {
+        row[column] = value;
+      }
+    }
+    const rowNumber = Number(rowElement.getAttribute("r"));
+    while (rowNumber && rows.length < rowNumber - 1) rows.push([]);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export type CsvColumn<T> = { header: string; value: (row: T) => string | number | null | undefined };
+
+export function toCsv<T>(columns: CsvColumn<T>[], rows: T[]) {
+  const lines = [columns.map(c => c.header), ...rows.map(row => columns.map(c => c.value(row)))];
+  return lines.map(line => line.map(csvCell).join(",")).join("\r\n");
+}
+
+export function downloadCsv<T>(filename: string, columns: CsvColumn<T>[], rows: T[]) {
+  // The BOM makes Excel read the file as UTF-8
+  const blob = new Blob(["\uFEFF" + toCsv(columns, rows)], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function toSheet(cells: string[][]): Sheet {
+  const nonEmpty = cells.filter(row => row.some(cell => cell.trim() !== ""));
+  const [headerRow = [], ...dataRows] = nonEmpty;
+  const headers = headerRow.map(header => header.trim());
+  const rows = dataRows.map(row =>
+    Object.fromEntries(headers.map((header, i) => [header, row[i] ?? ""])));
+  return { headers, rows };
+}
+
+function csvCell(value: string | number | null | undefined) {
+  let text = value === null || value === undefined ? "" : String(value);
+  // Keep spreadsheets from running cell text as a formula
+  if (/^[=+\-@]/.test(text) && typeof value === "string") text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+// "C12" -> 2
+function columnIndex(reference: string) {
+  const letters = /^[A-Z]+/.exec(reference)?.[0];
+  if (!letters) return null;
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// The text files of a zip archive, read from its central directory
+async function unzip(buffer: ArrayBuffer) {
+  const view = new DataView(buffer);
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("The file is not a valid .xlsx workbook");
+
+  const entries = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const files = new Map<string, string>();
+  for (let i = 0; i < entries; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!name.endsWith(".xml") && !name.endsWith(".rels")) continue;
+    const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+    if (method === 0) {
+      files.set(name, new TextDecoder().decode(data));
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+      files.set(name, await new Response(stream).text());
+    }
+  }
+  return files;
+}